@@ -31,6 +31,10 @@ import globalSearch from "./src/api/routes/search.routes";
 import invoiceRoutes from "./src/api/routes/invoices.routes";
 import paymentRoutes from "./src/api/routes/payments.routes";
 import billingRoutes from "./src/api/routes/billing.routes";
+import webhookDeliveryRoutes from "./src/api/routes/webhookDelivery.routes";
+import documentExpiryRoutes from "./src/api/routes/documentExpiry.routes";
+import telematicsRoutes from "./src/api/routes/telematics.routes";
+import iotDeviceRoutes from "./src/api/routes/iotDevice.routes";
 
 import {
   UnauthorizedError,
@@ -134,6 +138,10 @@ app.use("/api/globalsearch", globalSearch);
 app.use("/api/invoices",  invoiceRoutes);
 app.use("/api/payments",  paymentRoutes);
 app.use("/api/billing",  billingRoutes);
+app.use("/api/webhooks", webhookDeliveryRoutes);
+app.use("/api/documents", documentExpiryRoutes);
+app.use("/api/telematics", telematicsRoutes);
+app.use("/api/iot-devices", iotDeviceRoutes);
 // 404 Error Catcher
 app.use(function (req: Request, res: Response, next: NextFunction) {
   next(createError(404));
@@ -0,0 +1,23 @@
+-- Device installation history
+--
+-- Moving a device closes its equipment_has_iot_device row (deactivation_date)
+-- and opens a new one for the target unit, so GPS locations recorded against
+-- the old row stay with the unit they were recorded on. A unit and a device
+-- may each have many rows but only one current (deactivation_date IS NULL).
+--
+-- Apply with:
+--   npx prisma db execute --file prisma/primary/equipment_has_iot_device_history.sql --schema prisma/schema.prisma
+
+ALTER TABLE equipment_has_iot_device
+  ADD COLUMN IF NOT EXISTS deactivation_date TIMESTAMP(3);
+
+DROP INDEX IF EXISTS equipment_has_iot_device_equipment_id_key;
+DROP INDEX IF EXISTS equipment_has_iot_device_iot_device_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS equipment_has_iot_device_current_equipment_uidx
+  ON equipment_has_iot_device (equipment_id)
+  WHERE deactivation_date IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS equipment_has_iot_device_current_device_uidx
+  ON equipment_has_iot_device (iot_device_id)
+  WHERE deactivation_date IS NULL;
@@ -0,0 +1,13 @@
+-- Load event audit columns
+--
+-- Manual load and unload events record the signed-in user; loads derived from
+-- the cargo sensor leave created_by / updated_by NULL.
+--
+-- Apply with:
+--   npx prisma db execute --file prisma/primary/equipment_load_detail_audit.sql --schema prisma/schema.prisma
+
+ALTER TABLE equipment_load_detail
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS created_by INTEGER,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS updated_by INTEGER;
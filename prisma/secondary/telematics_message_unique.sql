@@ -0,0 +1,21 @@
+-- Telematics history: one row per vendor message
+--
+-- The ingest API appends vendor messages to the secondary database telematics
+-- table with ON CONFLICT DO NOTHING, so a message replayed by the vendor or
+-- sent in two concurrent batches is stored once. Rows without a
+-- vendor_message_id (older feeds) are not constrained.
+--
+-- Existing duplicates must be removed before the index can be created; the
+-- DELETE keeps the earliest received copy of each message.
+--
+-- Apply with:
+--   npx prisma db execute --url "$SECOND_DATABASE_URL" --file prisma/secondary/telematics_message_unique.sql
+
+DELETE FROM telematics t
+USING telematics d
+WHERE t.vendor_id = d.vendor_id
+  AND t.vendor_message_id = d.vendor_message_id
+  AND t.ctid > d.ctid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS telematics_vendor_message_uidx
+  ON telematics (vendor_id, vendor_message_id);
@@ -0,0 +1,157 @@
+-- Fleet list view
+--
+-- One row per equipment_assignment with every column the fleet list view
+-- filters, sorts or exports on, so the list and its Excel download can be
+-- filtered, ordered and paginated entirely in the database.
+--
+-- This is a plain (non-materialized) view on purpose: latest telematics and
+-- the inspection / ERS flags are evaluated against now() and must be current
+-- on every request.
+--
+-- Apply with:
+--   npx prisma db execute --file prisma/views/fleet_list_view.sql --schema prisma/schema.prisma
+
+CREATE OR REPLACE VIEW fleet_list_view AS
+SELECT
+  ea.equipment_assignment_id,
+  ea.equipment_id,
+  ea.equipment_id::text AS equipment_id_text,
+  ea.activation_date,
+  ea.deactivation_date,
+  eta.account_id,
+  a.account_number,
+  a.account_name,
+  e.unit_number,
+  e.telematic_device_id,
+  e.customer_unit_number,
+  e.status,
+  e.vin,
+  e.created_by,
+  omm.make,
+  omm.model,
+  omm.year,
+  omm.length,
+  e.door_type,
+  e.wall_type,
+  e.brake_type,
+  e.color,
+  e.liftgate,
+  e.domicile,
+  e.ten_branch,
+  etl.equipment_type,
+  e.last_pm_date,
+  e.next_pm_due,
+  e.dot_cvi_status,
+  di.next_inspection_due AS dot_cvi_expire,
+  e.last_reefer_pm_date,
+  e.next_reefer_pm_due,
+  e.last_m_and_r_date,
+  e.date_in_service,
+  e.reefer_make_type,
+  e.reefer_serial,
+  e.lifgate_serial,
+  e.trailer_height,
+  e.trailer_width,
+  e.trailer_length,
+  e.tire_size,
+  e.floor_type,
+  e.roof_type,
+  e.rim_type,
+  sali.rate,
+  sali.fixed_rate,
+  sali.variable_rate,
+  sali.estimated_miles,
+  sali.estimated_hours,
+  ma."contract_start_Date" AS contract_start_date,
+  sa.termination_date AS contract_end_date,
+  sa.contract_term_type,
+  sa.schedule_type AS agreement_type,
+  ep.equipment_permit_id,
+  ep.license_plate_number,
+  ep.license_plate_state,
+  ep.permit_date,
+  att.url AS attachment_url,
+  att.mime_type AS attachment_mime_type,
+  t.telematics_id,
+  t.latitude,
+  t.longitude,
+  t.address,
+  t.motion_status,
+  t.alarm_code_status,
+  t.recived_timestamp AS last_gps_update,
+  t.recived_timestamp::time AS arrival_time,
+  ld.equipment_load_detail_id,
+  ld.equipment_load_status,
+  ld.equipment_load_date,
+  ld.equipment_unload_date,
+  ld.equipment_load_detail,
+  COALESCE(ld.equipment_load_date IS NOT NULL AND ld.equipment_unload_date IS NULL, false) AS is_loaded,
+  idv.vendor_name,
+  COALESCE(ehid.status = 'ACTIVE', false) AS is_gps_equipped,
+  EXISTS (
+    SELECT 1
+    FROM dot_inspection x
+    WHERE x.equipment_id = e.equipment_id
+      AND x.next_inspection_due < now()
+  ) AS has_expired_inspection,
+  EXISTS (
+    SELECT 1
+    FROM dot_inspection x
+    WHERE x.equipment_id = e.equipment_id
+      AND x.valid_through < now() + interval '1 day'
+      AND x.status = 'ACTIVE'
+  ) AS has_overdue_valid_through,
+  EXISTS (
+    SELECT 1
+    FROM ers
+    JOIN service_request sr ON sr.service_request_id = ers.service_request_id
+    WHERE sr.equipment_id = e.equipment_id
+      AND ers.ers_status = 'inprogress'
+  ) AS has_ers_in_progress
+FROM equipment_assignment ea
+JOIN equipment e ON e.equipment_id = ea.equipment_id
+JOIN equipment_type_allocation eta
+  ON eta.equipment_type_allocation_id = ea.equipment_type_allocation_id
+JOIN account a ON a.account_id = eta.account_id
+JOIN schedule_agreement_line_item sali
+  ON sali.schedule_agreement_line_item_id = eta.schedule_agreement_line_item_id
+JOIN schedule_agreement sa ON sa.schedule_agreement_id = sali.schedule_agreement_id
+JOIN master_agreement ma ON ma.master_agreement_id = sa.master_agreement_id
+LEFT JOIN oem_make_model_lookup omm
+  ON omm.oem_make_model_lookup_id = e.oem_make_model_lookup_id
+LEFT JOIN equipment_type_lookup etl
+  ON etl.equipment_type_lookup_id = e.equipment_type_lookup_id
+LEFT JOIN equipment_permit ep ON ep.equipment_id = e.equipment_id
+LEFT JOIN telematics t ON t.unit_number = e.telematic_device_id
+LEFT JOIN equipment_has_iot_device ehid
+  ON ehid.equipment_id = e.equipment_id AND ehid.deactivation_date IS NULL
+LEFT JOIN iot_device iod ON iod.iot_device_id = ehid.iot_device_id
+LEFT JOIN iot_device_vendor_lookup idv
+  ON idv.iot_device_vendor_lookup_id = iod.iot_device_vendor_lookup_id
+LEFT JOIN LATERAL (
+  SELECT x.next_inspection_due
+  FROM dot_inspection x
+  WHERE x.equipment_id = e.equipment_id
+  ORDER BY x.next_inspection_due DESC NULLS LAST
+  LIMIT 1
+) di ON true
+LEFT JOIN LATERAL (
+  SELECT
+    x.equipment_load_detail_id,
+    x.equipment_load_status,
+    x.equipment_load_date,
+    x.equipment_unload_date,
+    x.equipment_load_detail
+  FROM equipment_load_detail x
+  WHERE x.equipment_id = e.equipment_id
+  ORDER BY x.equipment_load_date DESC NULLS LAST
+  LIMIT 1
+) ld ON true
+LEFT JOIN LATERAL (
+  SELECT x.url, x.mime_type
+  FROM schedule_agreement_has_attachment saha
+  JOIN attachment x ON x.attachment_id = saha.attachment_id
+  WHERE saha.schedule_agreement_id = sa.schedule_agreement_id
+  ORDER BY saha.schedule_agreement_has_attachment_id
+  LIMIT 1
+) att ON true;
@@ -0,0 +1,66 @@
+-- IoT device health view
+--
+-- One row per iot_device with its current installation, account, last report
+-- and battery reading, so the device list and its Excel download can be
+-- filtered, ordered and paginated in the database.
+--
+-- A device reports through the telematics row of the unit it is installed on;
+-- reports older than the current installation belong to the previous device
+-- and are not counted as this device's last report.
+--
+-- Apply with:
+--   npx prisma db execute --file prisma/views/iot_device_health_view.sql --schema prisma/schema.prisma
+
+CREATE OR REPLACE VIEW iot_device_health_view AS
+SELECT
+  iod.iot_device_id,
+  iod.iot_device_vendor_lookup_id,
+  iod.device_id_external,
+  iod.device_type,
+  iod.status,
+  iod.battery_health,
+  COALESCE(lower(trim(iod.battery_health)) IN ('critical', 'low'), false) AS is_low_battery_health,
+  iod.device_installation_date,
+  iod.device_last_service_date,
+  iod.is_deleted,
+  idv.vendor_name,
+  ehid.equipment_id,
+  e.unit_number,
+  ehid.effective_date AS assigned_since,
+  acct.account_id,
+  acct.account_name,
+  rpt.last_report_at,
+  CASE
+    WHEN ehid.equipment_id IS NOT NULL
+    THEN COALESCE(rpt.last_report_at, 'epoch'::timestamp)
+  END AS report_sort_at,
+  CASE
+    WHEN t.gps_battery ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN trim(t.gps_battery)::numeric
+  END AS battery_voltage,
+  CASE WHEN m.is_deleted THEN NULL ELSE m.metric_value END AS metric_value,
+  CASE WHEN m.is_deleted THEN NULL ELSE u.uom_type END AS metric_uom
+FROM iot_device iod
+LEFT JOIN iot_device_vendor_lookup idv
+  ON idv.iot_device_vendor_lookup_id = iod.iot_device_vendor_lookup_id
+LEFT JOIN equipment_has_iot_device ehid
+  ON ehid.iot_device_id = iod.iot_device_id AND ehid.deactivation_date IS NULL
+LEFT JOIN equipment e ON e.equipment_id = ehid.equipment_id
+LEFT JOIN telematics t ON t.unit_number = e.telematic_device_id
+LEFT JOIN iot_device_metric m
+  ON m.equipment_has_iot_device_id = ehid.equipment_has_iot_device_id
+LEFT JOIN uom_lookup u ON u.uom_lookup_id = m.uom_lookup_id
+LEFT JOIN LATERAL (
+  SELECT x.reported_at AS last_report_at
+  FROM (SELECT COALESCE(t.vendor_timestamp, t.recived_timestamp) AS reported_at) x
+  WHERE ehid.effective_date IS NULL OR x.reported_at >= ehid.effective_date
+) rpt ON true
+LEFT JOIN LATERAL (
+  SELECT eta.account_id, a.account_name
+  FROM equipment_assignment ea
+  JOIN equipment_type_allocation eta
+    ON eta.equipment_type_allocation_id = ea.equipment_type_allocation_id
+  JOIN account a ON a.account_id = eta.account_id
+  WHERE ea.equipment_id = ehid.equipment_id
+  ORDER BY ea.activation_date DESC
+  LIMIT 1
+) acct ON true;
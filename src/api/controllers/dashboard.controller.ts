@@ -19,6 +19,16 @@
 
 import { Request, Response } from "express";
 import { DashboardService } from "../../services/dashboard.service";
+import {
+  downloadUtilizationService,
+  getUtilizationService,
+} from "../../services/utilization.service";
+import { UtilizationQueryDto } from "../../types/dtos/utilization.dto";
+import {
+  downloadPmComplianceService,
+  getPmComplianceService,
+} from "../../services/pmCompliance.service";
+import { PmComplianceQueryDto } from "../../types/dtos/pm-compliance.dto";
 import {
   sendSuccessResponse,
   sendErrorResponse,
@@ -288,6 +298,189 @@ export class DashboardController {
     }
   };
 
+  /**
+   * GET /api/dashboard/utilization
+   *
+   * Fetches the equipment utilization widget: days moved, loaded vs. empty miles,
+   * idle streaks and dwell at customer sites per account and per unit
+   *
+   * @param req - Express request object containing query parameters
+   * @param req.query.account_ids - Required. Comma-separated string of account IDs
+   * @param req.query.from - Optional. Range start (default: 30 days before `to`)
+   * @param req.query.to - Optional. Range end (default: today)
+   * @param req.query.idle_days - Optional. Idle streak that flags a unit for early return (default: 14)
+   * @param req.query.limit - Optional. Number of units returned (default: 10)
+   * @param res - Express response object
+   *
+   * @returns JSON response with summary, account rows and units ordered by current idle streak
+   *
+   * @throws {400} When account_ids or the date range are invalid
+   * @throws {500} When service call fails
+   *
+   * @example
+   * GET /api/dashboard/utilization?account_ids=1,2,3&from=2025-01-01&to=2025-01-31
+   */
+  public getUtilization = async (
+    req: Request,
+    res: Response
+  ): Promise<Response> => {
+    try {
+      logger.info("Starting getUtilization request", { query: req.query });
+      const result = await getUtilizationService(
+        req.query as UtilizationQueryDto
+      );
+
+      logger.info("getUtilization request completed successfully", {
+        unitCount: result.summary.unit_count,
+        accountCount: result.accounts.length,
+      });
+
+      return sendSuccessResponse(res, result, "200");
+    } catch (error: unknown) {
+      return this.handleDashboardError("getUtilization", error, req, res);
+    }
+  };
+
+  /**
+   * GET /api/dashboard/utilization/download
+   *
+   * Exports the full utilization report (all units and accounts) to Excel
+   *
+   * @param req - Express request object with the same query parameters as the widget
+   * @param res - Express response object
+   *
+   * @returns Excel file download
+   *
+   * @example
+   * GET /api/dashboard/utilization/download?account_ids=1,2,3&idle_days=21
+   */
+  public downloadUtilization = async (
+    req: Request,
+    res: Response
+  ): Promise<Response> => {
+    try {
+      logger.info("Starting downloadUtilization request", { query: req.query });
+      const { buffer, filename } = await downloadUtilizationService(
+        req.query as UtilizationQueryDto
+      );
+
+      logger.info("downloadUtilization request completed successfully", {
+        filename,
+        bufferSize: buffer.length,
+      });
+
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      return res.status(200).end(buffer);
+    } catch (error: unknown) {
+      return this.handleDashboardError("downloadUtilization", error, req, res);
+    }
+  };
+
+  /**
+   * GET /api/dashboard/pm-compliance
+   *
+   * Fetches the monthly PM / DOT compliance trend, overall and by account, facility
+   * and equipment type
+   *
+   * @param req - Express request object containing query parameters
+   * @param req.query.account_ids - Required. Comma-separated string of account IDs
+   * @param req.query.from - Optional. First month (YYYY-MM), defaults to 11 months before to
+   * @param req.query.to - Optional. Last month (YYYY-MM), defaults to the current month
+   * @param res - Express response object
+   *
+   * @returns JSON response with summary, monthly trend and breakdowns
+   *
+   * @example
+   * GET /api/dashboard/pm-compliance?account_ids=1,2,3&from=2025-01&to=2025-12
+   */
+  public getPmCompliance = async (
+    req: Request,
+    res: Response
+  ): Promise<Response> => {
+    try {
+      logger.info("Starting getPmCompliance request", { query: req.query });
+      const result = await getPmComplianceService(
+        req.query as PmComplianceQueryDto
+      );
+
+      logger.info("getPmCompliance request completed successfully", {
+        months: result.summary.months,
+        pmDue: result.summary.pm_due,
+      });
+
+      return sendSuccessResponse(res, result, "200");
+    } catch (error: unknown) {
+      return this.handleDashboardError("getPmCompliance", error, req, res);
+    }
+  };
+
+  /**
+   * GET /api/dashboard/pm-compliance/download
+   *
+   * Exports the PM compliance trend to Excel or PDF
+   *
+   * @param req - Express request object with the report query parameters and format=xlsx|pdf
+   * @param res - Express response object
+   *
+   * @returns Excel or PDF file download
+   *
+   * @example
+   * GET /api/dashboard/pm-compliance/download?account_ids=1,2,3&format=pdf
+   */
+  public downloadPmCompliance = async (
+    req: Request,
+    res: Response
+  ): Promise<Response> => {
+    try {
+      logger.info("Starting downloadPmCompliance request", { query: req.query });
+      const { buffer, filename, contentType } = await downloadPmComplianceService(
+        req.query as PmComplianceQueryDto
+      );
+
+      logger.info("downloadPmCompliance request completed successfully", {
+        filename,
+        bufferSize: buffer.length,
+      });
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      return res.status(200).end(buffer);
+    } catch (error: unknown) {
+      return this.handleDashboardError("downloadPmCompliance", error, req, res);
+    }
+  };
+
+  /**
+   * Handles errors for dashboard requests
+   */
+  private handleDashboardError(
+    action: string,
+    error: unknown,
+    req: Request,
+    res: Response
+  ): Response {
+    if (error instanceof Error && "statusCode" in error) {
+      const err = error as { statusCode: number, message: string };
+      logger.error(`${action} request failed`, {
+        error: err.message,
+        statusCode: err.statusCode,
+        query: req.query,
+      });
+      return sendErrorResponse(res, err.message, err.statusCode);
+    }
+
+    logger.error(`${action} request failed`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+      query: req.query,
+    });
+
+    return sendErrorResponse(res, "Internal server error", 500);
+  }
+
   /**
    * Extracts and validates request data for VMRS metrics
    */
@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import logger from "../../utils/logger";
+import {
+  sendErrorResponse,
+  sendPaginatedResponse,
+  ServiceError,
+} from "../../utils/responseUtils";
+import { getExpiringDocumentsService } from "../../services/documentExpiry.service";
+import { ExpiringDocumentQueryDto } from "../../types/dtos/attachment.dto";
+
+/**
+ * Lists documents expiring within N days for the given accounts
+ * Includes equipment documents and master/schedule agreement attachments
+ *
+ * @param req - Express request object with account_ids, days, include_expired and owner_type in query
+ * @param res - Express response object
+ * @returns Paginated expiring documents or error response
+ * @author chaitanya
+ */
+export const getExpiringDocumentsCtrl = async (req: Request, res: Response) => {
+  try {
+    const { data, meta } = await getExpiringDocumentsService(
+      req.query as ExpiringDocumentQueryDto
+    );
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage);
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Failed to fetch expiring documents",
+      error
+    );
+    return sendErrorResponse(
+      res,
+      (error as Error).message || "Internal server error",
+      error instanceof ServiceError ? error.statusCode : 500
+    );
+  }
+};
@@ -1,6 +1,21 @@
 import { Request, Response } from "express";
-import { processAndSaveFileUploads } from "../../services/fileupload.service";
+import {
+  addEntityAttachments,
+  getAttachmentDownloadService,
+  processAndSaveFileUploads,
+  removeEntityAttachment,
+} from "../../services/fileupload.service";
 import logger from "../../utils/logger";
+import { getAuthUserId } from "../../utils/authUser";
+import {
+  sendErrorResponse,
+  sendSuccessResponse,
+  ServiceError,
+} from "../../utils/responseUtils";
+import {
+  AttachmentEntityType,
+  EntityAttachmentBody,
+} from "../../types/dtos/attachment.dto";
 
 interface FileUploadBody {
   mime_type: string;
@@ -37,3 +52,96 @@ export const fileUpload = async (req: Request, res: Response) => {
     });
   }
 };
+
+const handleAttachmentError = (res: Response, error: unknown) => {
+  logger.error((error as Error).message || "Attachment request failed", error);
+  return sendErrorResponse(
+    res,
+    (error as Error).message || "Internal server error",
+    error instanceof ServiceError ? error.statusCode : 500
+  );
+};
+
+/**
+ * Builds the POST /:id/attachments handler for a service request, work order or ERS event
+ *
+ * @param entityType - Owning record type
+ * @author chaitanya
+ */
+export const addEntityAttachmentsCtrl =
+  (entityType: AttachmentEntityType) =>
+  async (
+    req: Request<Record<string, string>, unknown, EntityAttachmentBody>,
+    res: Response
+  ): Promise<Response> => {
+    try {
+      const entityId = Number(req.params.id);
+      if (isNaN(entityId)) {
+        return sendErrorResponse(res, "Invalid id", 400);
+      }
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const attachments = await addEntityAttachments(entityType, entityId, files, {
+        ...req.body,
+        created_by: await getAuthUserId(req),
+      });
+      return sendSuccessResponse(
+        res,
+        attachments,
+        "Attachments added successfully",
+        201
+      );
+    } catch (error: unknown) {
+      return handleAttachmentError(res, error);
+    }
+  };
+
+/**
+ * Builds the DELETE /:id/attachments/:attachmentId handler for a service request, work order or ERS event
+ *
+ * @param entityType - Owning record type
+ * @author chaitanya
+ */
+export const removeEntityAttachmentCtrl =
+  (entityType: AttachmentEntityType) =>
+  async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const entityId = Number(req.params.id);
+      const attachmentId = Number(req.params.attachmentId);
+      if (isNaN(entityId) || isNaN(attachmentId)) {
+        return sendErrorResponse(res, "Invalid id", 400);
+      }
+      const result = await removeEntityAttachment(
+        entityType,
+        entityId,
+        attachmentId,
+        await getAuthUserId(req)
+      );
+      return sendSuccessResponse(res, result, "Attachment removed successfully");
+    } catch (error: unknown) {
+      return handleAttachmentError(res, error);
+    }
+  };
+
+/**
+ * GET /:attachmentId/download - returns a short-lived presigned URL after an account access check
+ *
+ * @author chaitanya
+ */
+export const downloadAttachmentCtrl = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const attachmentId = Number(req.params.attachmentId);
+    if (!Number.isInteger(attachmentId) || attachmentId <= 0) {
+      return sendErrorResponse(res, "Invalid attachment id", 400);
+    }
+    const result = await getAttachmentDownloadService(attachmentId, {
+      user_id: req.user?.user_id,
+      auth0_sub: req.auth?.payload?.sub,
+    });
+    return sendSuccessResponse(res, result, "Download URL generated successfully");
+  } catch (error: unknown) {
+    return handleAttachmentError(res, error);
+  }
+};
@@ -25,14 +25,51 @@ import {
   fetchTelematics,
   getEquipmentGateInspectionsService,
 } from "../../services/fleet.service";
+import {
+  addEquipmentDocumentsService,
+  getEquipmentDocumentsService,
+  removeEquipmentDocumentService,
+} from "../../services/equipmentDocument.service";
+import { getEquipmentTrackService } from "../../services/equipmentTrack.service";
+import { getFleetMapService } from "../../services/fleetMap.service";
+import {
+  createEquipmentReadingService,
+  deleteEquipmentReadingService,
+  getEquipmentReadingsService,
+} from "../../services/equipmentReading.service";
+import {
+  getEquipmentLoadHistoryService,
+  recordEquipmentLoadEventService,
+} from "../../services/equipmentLoad.service";
+import {
+  createGateInspectionService,
+  getGateInspectionComparisonService,
+} from "../../services/gateInspection.service";
 import {
   sendSuccessResponse,
   sendErrorResponse,
   sendPaginatedBigIntResponse,
+  sendPaginatedResponse,
+  ServiceError,
 } from "../../utils/responseUtils";
-import { GetListViewParams } from "../../types/dtos/fleet.dto";
+import { GateInspectionCreateBody, GetListViewParams } from "../../types/dtos/fleet.dto";
+import { EquipmentTrackQueryDto } from "../../types/dtos/equipment-track.dto";
+import { FleetMapQueryDto } from "../../types/dtos/fleet-map.dto";
+import {
+  EquipmentReadingCreateDto,
+  EquipmentReadingQueryDto,
+} from "../../types/dtos/equipment-reading.dto";
+import {
+  EquipmentLoadEventCreateDto,
+  EquipmentLoadHistoryQueryDto,
+} from "../../types/dtos/equipment-load.dto";
+import {
+  EquipmentDocumentBody,
+  EquipmentDocumentQueryDto,
+} from "../../types/dtos/attachment.dto";
 import { ColumnDefinition } from "../../types/common/request.types";
 import logger from "../../utils/logger";
+import { getAuthUserId } from "../../utils/authUser";
 
 /**
  * Parse account IDs from request query
@@ -449,3 +486,409 @@ export const getEquipmentGateInspections = async (
     );
   }
 };
+
+/**
+ * Get Equipment Documents Controller
+ *
+ * Lists the document library for a unit, optionally filtered by category.
+ *
+ * @example
+ * GET /api/fleet/456/documents?document_category_type=registration&include_history=true
+ */
+export const getEquipmentDocuments = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const documents = await getEquipmentDocumentsService(
+      equipmentId,
+      req.query as EquipmentDocumentQueryDto
+    );
+    return sendSuccessResponse(res, documents, "Equipment documents fetched successfully");
+  } catch (err: unknown) {
+    logger.error("getEquipmentDocuments request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to fetch equipment documents"
+    );
+  }
+};
+
+/**
+ * Upload Equipment Documents Controller
+ *
+ * Adds documents to a unit's library. Set replace_existing=true with a
+ * document_category_type to upload a new version of that document.
+ *
+ * @example
+ * POST /api/fleet/456/documents (multipart: files, document_category_type, expiration_date)
+ */
+export const uploadEquipmentDocuments = async (
+  req: Request<Record<string, string>, unknown, EquipmentDocumentBody>,
+  res: Response
+) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const documents = await addEquipmentDocumentsService(
+      equipmentId,
+      (req.files as Express.Multer.File[] | undefined) ?? [],
+      { ...req.body, created_by: await getAuthUserId(req) }
+    );
+    return sendSuccessResponse(res, documents, "Equipment documents uploaded successfully", 201);
+  } catch (err: unknown) {
+    logger.error("uploadEquipmentDocuments request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to upload equipment documents",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Delete Equipment Document Controller
+ *
+ * Removes a document from a unit's library, restoring the previous version if one exists.
+ *
+ * @example
+ * DELETE /api/fleet/456/documents/789
+ */
+export const deleteEquipmentDocument = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    const attachmentId = Number(req.params.attachmentId);
+    if (isNaN(equipmentId) || isNaN(attachmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId and attachmentId are required", 400);
+    }
+    const result = await removeEquipmentDocumentService(
+      equipmentId,
+      attachmentId,
+      await getAuthUserId(req)
+    );
+    return sendSuccessResponse(res, result, "Equipment document deleted successfully");
+  } catch (err: unknown) {
+    logger.error("deleteEquipmentDocument request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to delete equipment document",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Get Equipment Track Controller
+ *
+ * Returns a unit's breadcrumb trail for trip replay as GeoJSON, with stops,
+ * per-segment distance and max speed. Long ranges are down-sampled.
+ *
+ * @example
+ * GET /api/fleet/ABC123/track?from=2026-10-13T00:00:00Z&to=2026-10-14T00:00:00Z&stop_minutes=15
+ */
+export const getEquipmentTrack = async (req: Request, res: Response) => {
+  try {
+    const { unitNumber } = req.params;
+    if (!unitNumber) {
+      return sendErrorResponse(res, "unitNumber parameter is required", 400);
+    }
+    const track = await getEquipmentTrackService(
+      unitNumber,
+      req.query as EquipmentTrackQueryDto
+    );
+    return sendSuccessResponse(res, track, "Equipment track fetched successfully");
+  } catch (err: unknown) {
+    logger.error("getEquipmentTrack request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+      query: req.query,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to fetch equipment track",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Get Fleet Map Controller
+ *
+ * Returns the latest position of every unit in the given accounts as GeoJSON,
+ * clustered server-side below street-level zoom.
+ *
+ * @example
+ * GET /api/fleet/map?account_id=[1,2]&bbox=-125,24,-66,50&zoom=5
+ */
+export const getFleetMap = async (req: Request, res: Response) => {
+  try {
+    const query = req.query as FleetMapQueryDto;
+    const accountIds = query.account_id ? parseAccountIds(query.account_id) : [];
+    const map = await getFleetMapService(accountIds, query);
+    return sendSuccessResponse(res, map, "Fleet map fetched successfully");
+  } catch (err: unknown) {
+    logger.error("getFleetMap request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      query: req.query,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to fetch fleet map",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Create Equipment Reading Controller
+ *
+ * Records a manual odometer or hour-meter reading. Readings lower than the
+ * surrounding history, or implying an impossible rate, are rejected with 409.
+ *
+ * @example
+ * POST /api/fleet/456/readings { "reading": 120450, "meter_type": "ODOMETER", "reading_date": "2026-10-14T15:00:00Z" }
+ */
+export const createEquipmentReading = async (
+  req: Request<Record<string, string>, unknown, EquipmentReadingCreateDto>,
+  res: Response
+) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const reading = await createEquipmentReadingService(equipmentId, {
+      ...req.body,
+      created_by: await getAuthUserId(req),
+    });
+    return sendSuccessResponse(res, reading, "Equipment reading recorded successfully", 201);
+  } catch (err: unknown) {
+    logger.error("createEquipmentReading request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to record equipment reading",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Get Equipment Readings Controller
+ *
+ * Lists a unit's manual and telematics meter reading history.
+ *
+ * @example
+ * GET /api/fleet/456/readings?meter_type=HOUR_METER&from=2026-01-01&sort=reading_date:asc
+ */
+export const getEquipmentReadings = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const { data, meta } = await getEquipmentReadingsService(
+      equipmentId,
+      req.query as EquipmentReadingQueryDto
+    );
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage);
+  } catch (err: unknown) {
+    logger.error("getEquipmentReadings request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+      query: req.query,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to fetch equipment readings",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Delete Equipment Reading Controller
+ *
+ * Removes a wrong manual or telematics reading so it no longer constrains later readings.
+ *
+ * @example
+ * DELETE /api/fleet/456/readings/789
+ */
+export const deleteEquipmentReading = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    const readingId = Number(req.params.readingId);
+    if (isNaN(equipmentId) || isNaN(readingId)) {
+      return sendErrorResponse(res, "Valid equipmentId and readingId are required", 400);
+    }
+    const reading = await deleteEquipmentReadingService(
+      equipmentId,
+      readingId,
+      await getAuthUserId(req)
+    );
+    return sendSuccessResponse(res, reading, "Equipment reading deleted successfully");
+  } catch (err: unknown) {
+    logger.error("deleteEquipmentReading request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to delete equipment reading",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Create Equipment Load Event Controller
+ *
+ * Records a load (opens a load) or unload (closes the open load) for a unit.
+ * Loading a unit that is already loaded, or unloading an empty one, returns 409.
+ *
+ * @example
+ * POST /api/fleet/456/load-events { "event": "LOAD", "event_date": "2026-10-14T15:00:00Z", "load_detail": "Dry goods" }
+ */
+export const createEquipmentLoadEvent = async (
+  req: Request<Record<string, string>, unknown, EquipmentLoadEventCreateDto>,
+  res: Response
+) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const loadDetail = await recordEquipmentLoadEventService(
+      equipmentId,
+      req.body ?? {},
+      await getAuthUserId(req)
+    );
+    return sendSuccessResponse(res, loadDetail, "Equipment load event recorded successfully", 201);
+  } catch (err: unknown) {
+    logger.error("createEquipmentLoadEvent request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to record equipment load event",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Get Equipment Load History Controller
+ *
+ * Lists a unit's loads with load/unload dates, status and duration.
+ *
+ * @example
+ * GET /api/fleet/456/load-events?from=2026-10-01&to=2026-10-14&load_status=LOADED
+ */
+export const getEquipmentLoadHistory = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const { data, meta } = await getEquipmentLoadHistoryService(
+      equipmentId,
+      req.query as EquipmentLoadHistoryQueryDto
+    );
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage);
+  } catch (err: unknown) {
+    logger.error("getEquipmentLoadHistory request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+      query: req.query,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to fetch equipment load history",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Create Gate Inspection Controller
+ *
+ * Records a gate-in or gate-out inspection with damage photos and damage items.
+ * Set compare_with_previous=true to get the comparison with the previous gate-out.
+ *
+ * @example
+ * POST /api/fleet/456/gate-inspections (multipart: files, direction=IN, reason, location, notes,
+ * damages=[{"damage_location":"LEFT_SIDE","damage_type":"DENT"}], compare_with_previous=true)
+ */
+export const createGateInspection = async (
+  req: Request<Record<string, string>, unknown, GateInspectionCreateBody>,
+  res: Response
+) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    if (isNaN(equipmentId)) {
+      return sendErrorResponse(res, "Valid equipmentId is required", 400);
+    }
+    const result = await createGateInspectionService(
+      equipmentId,
+      (req.files as Express.Multer.File[] | undefined) ?? [],
+      { ...req.body, created_by: await getAuthUserId(req) }
+    );
+    return sendSuccessResponse(res, result, "Gate inspection recorded successfully", 201);
+  } catch (err: unknown) {
+    logger.error("createGateInspection request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to record gate inspection",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
+
+/**
+ * Get Gate Inspection Comparison Controller
+ *
+ * Returns an inspection side by side with the unit's previous gate-out
+ * inspection, with damage not present at gate-out listed as new.
+ *
+ * @example
+ * GET /api/fleet/456/gate-inspections/789/comparison
+ */
+export const getGateInspectionComparison = async (req: Request, res: Response) => {
+  try {
+    const equipmentId = Number(req.params.equipmentId);
+    const gateInspectionId = Number(req.params.gateInspectionId);
+    if (isNaN(equipmentId) || isNaN(gateInspectionId)) {
+      return sendErrorResponse(res, "Valid equipmentId and gateInspectionId are required", 400);
+    }
+    const comparison = await getGateInspectionComparisonService(equipmentId, gateInspectionId);
+    return sendSuccessResponse(res, comparison, "Gate inspection comparison fetched successfully");
+  } catch (err: unknown) {
+    logger.error("getGateInspectionComparison request failed", {
+      error: err instanceof Error ? err.message : "Unknown error",
+      params: req.params,
+    });
+    return sendErrorResponse(
+      res,
+      (err as Error).message || "Failed to compare gate inspections",
+      err instanceof ServiceError ? err.statusCode : 500
+    );
+  }
+};
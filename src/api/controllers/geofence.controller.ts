@@ -9,8 +9,12 @@ import {
 
 import { GeofenceService } from "../../services/geofence.service";
 
-import { GetGeofenceByUserIdQuery } from "../../types/dtos/geofence-request.dto";
+import {
+  GetGeofenceByUserIdQuery,
+  GeofenceLocationEventRequestDto,
+} from "../../types/dtos/geofence-request.dto";
 import logger from "../../utils/logger";
+import { getAuthUserId } from "../../utils/authUser";
 
 // Type aliases to replace union types
 type GeofenceId = number | string;
@@ -186,6 +190,36 @@ const parsePolygonData = (
   return null;
 };
 
+const isValidCoordinate = (value: unknown, limit: number): boolean => {
+  const num = Number(value);
+  return value !== null && value !== "" && !isNaN(num) && Math.abs(num) <= limit;
+};
+
+const validateLocationUpdates = (
+  body: GeofenceLocationEventRequestDto
+): string | null => {
+  if (!Array.isArray(body.locations) || body.locations.length === 0) {
+    return "locations must be a non-empty array";
+  }
+
+  for (const [index, location] of body.locations.entries()) {
+    if (!location.equipment_id && !location.unit_number) {
+      return `locations[${index}] requires equipment_id or unit_number`;
+    }
+    if (
+      !isValidCoordinate(location.latitude, 90) ||
+      !isValidCoordinate(location.longitude, 180)
+    ) {
+      return `locations[${index}] requires a valid latitude and longitude`;
+    }
+    if (location.event_time && isNaN(new Date(location.event_time).getTime())) {
+      return `locations[${index}] has an invalid event_time`;
+    }
+  }
+
+  return null;
+};
+
 // Interface for field mapping to prevent SQL injection
 interface FieldMapping {
   field: string;
@@ -907,3 +941,48 @@ export const downloadGeofenceByUserIdCtrl = async (
     );
   }
 };
+
+/**
+ * Ingests a batch of equipment positions and creates geofence events
+ * Flips geofence_state on boundary crossings and writes ENTER/EXIT activity feed rows
+ *
+ * @param req - Express request object with a locations array in the body
+ * @param res - Express response object
+ * @returns Processed count, skipped positions and created transitions
+ * @author chaitanya
+ */
+export const updateLocationEventCreationCtrl = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const body = req.body as GeofenceLocationEventRequestDto;
+
+    const validationError = validateLocationUpdates(body);
+    if (validationError) {
+      return sendErrorResponse(res, validationError, 400);
+    }
+
+    const result = await geofenceService.processLocationEvents(
+      body.locations,
+      await getAuthUserId(req)
+    );
+
+    logger.info(
+      "Processed %d locations with %d geofence transitions",
+      result.processed,
+      result.transitions.length
+    );
+    return sendSuccessResponse(
+      res,
+      result,
+      "Location events processed successfully"
+    );
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Failed to process location events",
+      error
+    );
+    return sendErrorResponse(res, "Failed to process location events");
+  }
+};
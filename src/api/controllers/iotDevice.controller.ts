@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import logger from "../../utils/logger";
+import {
+  sendErrorResponse,
+  sendPaginatedResponse,
+  sendSuccessResponse,
+  ServiceError,
+} from "../../utils/responseUtils";
+import {
+  downloadIotDeviceHealthService,
+  getIotDeviceHistoryService,
+  getIotDevicesService,
+  moveIotDeviceService,
+} from "../../services/iotDevice.service";
+import { IotDeviceMoveDto, IotDeviceQueryDto } from "../../types/dtos/iot-device.dto";
+import { getAuthUserId } from "../../utils/authUser";
+
+const parseDeviceId = (value: string | undefined): bigint | null =>
+  value && /^\d+$/.test(value) ? BigInt(value) : null;
+
+const handleIotDeviceError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string
+): Response => {
+  logger.error((error as Error).message || fallbackMessage, error);
+  return sendErrorResponse(
+    res,
+    (error as Error).message || "Internal server error",
+    error instanceof ServiceError ? error.statusCode : 500
+  );
+};
+
+/**
+ * Lists IoT devices with last-report age and silent / low-battery flags
+ *
+ * @param req - Express request object with account_ids, vendor_id, device_type, status, health,
+ * search, silent_hours, low_battery_voltage, pagination and sort in query
+ * @param res - Express response object
+ * @returns Paginated devices with summary counts, or error response
+ * @author chaitanya
+ */
+export const getIotDevicesCtrl = async (req: Request, res: Response) => {
+  try {
+    const { data, meta, summary } = await getIotDevicesService(req.query as IotDeviceQueryDto);
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage, 200, { summary });
+  } catch (error) {
+    return handleIotDeviceError(res, error, "Failed to fetch IoT devices");
+  }
+};
+
+/**
+ * Downloads the device health report as Excel
+ *
+ * @param req - Express request object with the device list filters in query
+ * @param res - Express response object
+ * @returns Excel file or error response
+ * @author chaitanya
+ */
+export const downloadIotDeviceHealthCtrl = async (req: Request, res: Response) => {
+  try {
+    const { buffer, filename } = await downloadIotDeviceHealthService(
+      req.query as IotDeviceQueryDto
+    );
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+    return res.status(200).end(buffer);
+  } catch (error) {
+    return handleIotDeviceError(res, error, "Failed to export IoT device health");
+  }
+};
+
+/**
+ * Moves a device to another unit
+ *
+ * @param req - Express request object with iotDeviceId in params and to_equipment_id,
+ * effective_date and reason in body
+ * @param res - Express response object
+ * @returns Assignment history entry for the move, or error response
+ * @author chaitanya
+ */
+export const moveIotDeviceCtrl = async (
+  req: Request<Record<string, string>, unknown, IotDeviceMoveDto>,
+  res: Response
+) => {
+  try {
+    const iotDeviceId = parseDeviceId(req.params.iotDeviceId);
+    if (iotDeviceId === null) {
+      return sendErrorResponse(res, "Valid iotDeviceId is required", 400);
+    }
+    const history = await moveIotDeviceService(iotDeviceId, {
+      ...req.body,
+      moved_by: await getAuthUserId(req),
+    });
+    return sendSuccessResponse(res, history, "IoT device moved successfully", 201);
+  } catch (error) {
+    return handleIotDeviceError(res, error, "Failed to move IoT device");
+  }
+};
+
+/**
+ * Lists the units a device has been installed on
+ *
+ * @param req - Express request object with iotDeviceId in params and pagination in query
+ * @param res - Express response object
+ * @returns Paginated assignment history or error response
+ * @author chaitanya
+ */
+export const getIotDeviceHistoryCtrl = async (req: Request, res: Response) => {
+  try {
+    const iotDeviceId = parseDeviceId(req.params.iotDeviceId);
+    if (iotDeviceId === null) {
+      return sendErrorResponse(res, "Valid iotDeviceId is required", 400);
+    }
+    const { data, meta } = await getIotDeviceHistoryService(
+      iotDeviceId,
+      req.query as { page?: string, perPage?: string }
+    );
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage);
+  } catch (error) {
+    return handleIotDeviceError(res, error, "Failed to fetch IoT device history");
+  }
+};
@@ -1,17 +1,37 @@
 import { Request, Response } from "express";
+import { validationResult } from "express-validator";
 import { PmService } from "../../services/pm.dot.service";
+import {
+  createPmEventService,
+  updatePmEventService,
+} from "../../services/pmEvent.service";
+import {
+  createDotInspectionService,
+  recordDotCorrectiveActionService,
+} from "../../services/dotInspection.service";
+import {
+  subscribeMaintenanceRemindersService,
+  unsubscribeMaintenanceRemindersService,
+} from "../../services/maintenanceReminder.service";
 import logger from "../../utils/logger";
+import { getAuthUserId } from "../../utils/authUser";
 
 import {
   sendSuccessResponse,
   sendErrorResponse,
   sendPaginatedResponse,
+  ServiceError,
 } from "../../utils/responseUtils";
 import type {
   PMsByAccountsQuery,
   CombinedRecordsQuery,
   DOTInspectionFilterQuery,
   PMsByEquipmentQuery,
+  PmEventCreateDto,
+  PmEventUpdateDto,
+  DotInspectionCreateDto,
+  DotCorrectiveActionDto,
+  MaintenanceReminderSubscriptionDto,
 } from "../../types/dtos/pm.dto";
 import { ColumnDefinition } from "../../types/common/request.types";
 
@@ -361,3 +381,230 @@ export const getPMsByEquipment = async (
     );
   }
 };
+
+const sendPmEventError = (res: Response, error: unknown): Response => {
+  logger.error((error as Error).message || "Internal server error", error);
+  return sendErrorResponse(
+    res,
+    (error as Error).message || "Internal server error",
+    error instanceof ServiceError ? error.statusCode : 500
+  );
+};
+
+/**
+ * Records a PM event (usually a completion) with parts used against a schedule
+ *
+ * @param req - Express request object with pmScheduleId in params and the event in body
+ * @param res - Express response object
+ * @returns Recorded event with the next scheduled event, or error response
+ * @author chaitanya
+ */
+export const createPmEvent = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to record PM event: pmScheduleId=%s",
+      req.params.pmScheduleId
+    );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+    const event = await createPmEventService(Number(req.params.pmScheduleId), {
+      ...(req.body as PmEventCreateDto),
+      created_by: await getAuthUserId(req),
+    });
+    logger.info("Successfully recorded PM event %d", event.pm_event_id);
+    return sendSuccessResponse(res, event, "PM event recorded", 201);
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
+
+/**
+ * Updates a PM event's details and parts used; completing it rolls the schedule forward
+ *
+ * @param req - Express request object with pmEventId in params and fields to change in body
+ * @param res - Express response object
+ * @returns Updated event, or error response
+ * @author chaitanya
+ */
+export const updatePmEvent = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to update PM event: pmEventId=%s",
+      req.params.pmEventId
+    );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+    const event = await updatePmEventService(Number(req.params.pmEventId), {
+      ...(req.body as PmEventUpdateDto),
+      updated_by: await getAuthUserId(req),
+    });
+    logger.info("Successfully updated PM event %d", event.pm_event_id);
+    return sendSuccessResponse(res, event);
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
+
+/**
+ * Records a DOT inspection with violations; out-of-service violations open a service request
+ *
+ * @param req - Express request object with the inspection and violations in body
+ * @param res - Express response object
+ * @returns Created inspection with the unit's DOT status, or error response
+ * @author chaitanya
+ */
+export const createDotInspection = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to record DOT inspection: equipmentId=%s",
+      (req.body as DotInspectionCreateDto).equipment_id
+    );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+    const inspection = await createDotInspectionService({
+      ...(req.body as DotInspectionCreateDto),
+      created_by: await getAuthUserId(req),
+    });
+    logger.info("Successfully recorded DOT inspection %d", inspection.dot_inspection_id);
+    return sendSuccessResponse(res, inspection, "DOT inspection recorded", 201);
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
+
+/**
+ * Records the corrective action for a DOT violation and closes it
+ *
+ * @param req - Express request object with violationId in params and the action in body
+ * @param res - Express response object
+ * @returns Closed violation with the unit's DOT status, or error response
+ * @author chaitanya
+ */
+export const recordDotCorrectiveAction = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to record DOT corrective action: violationId=%s",
+      req.params.violationId
+    );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+    const violation = await recordDotCorrectiveActionService(
+      Number(req.params.violationId),
+      {
+        ...(req.body as DotCorrectiveActionDto),
+        updated_by: await getAuthUserId(req),
+      }
+    );
+    logger.info("Successfully closed DOT violation %d", violation.dot_inspection_violation_id);
+    return sendSuccessResponse(res, violation);
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
+
+/**
+ * Opts the current user in to PM / DOT due-date reminders for an account
+ *
+ * @param req - Express request object with accountId in params and digest in body
+ * @param res - Express response object
+ * @returns Subscription, or error response
+ * @author chaitanya
+ */
+export const subscribeMaintenanceReminders = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to subscribe to maintenance reminders: accountId=%s",
+      req.params.accountId
+    );
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+    const userId = await getAuthUserId(req);
+    if (userId === undefined) {
+      return sendErrorResponse(res, "Unauthorized", 401);
+    }
+    const subscription = await subscribeMaintenanceRemindersService(
+      userId,
+      Number(req.params.accountId),
+      req.body as MaintenanceReminderSubscriptionDto
+    );
+    return sendSuccessResponse(res, subscription);
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
+
+/**
+ * Opts the current user out of PM / DOT due-date reminders for an account
+ *
+ * @param req - Express request object with accountId in params
+ * @param res - Express response object
+ * @returns Success response, or error response
+ * @author chaitanya
+ */
+export const unsubscribeMaintenanceReminders = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to unsubscribe from maintenance reminders: accountId=%s",
+      req.params.accountId
+    );
+    const userId = await getAuthUserId(req);
+    if (userId === undefined) {
+      return sendErrorResponse(res, "Unauthorized", 401);
+    }
+    await unsubscribeMaintenanceRemindersService(
+      userId,
+      Number(req.params.accountId)
+    );
+    return sendSuccessResponse(res, null, "Unsubscribed from maintenance reminders");
+  } catch (error: unknown) {
+    return sendPmEventError(res, error);
+  }
+};
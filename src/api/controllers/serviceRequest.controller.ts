@@ -3,9 +3,16 @@ import { ServiceRequestService } from "../../services/serviceRequest.service";
 import {
   sendSuccessResponse,
   sendErrorResponse,
+  AppError,
 } from "../../utils/responseUtils";
-import { CreateServiceRequestInput } from "../../types/dtos/serviceRequest.dto";
+import {
+  CancelServiceRequestInput,
+  CreateServiceRequestInput,
+  UpdateServiceRequestInput,
+  UpdateServiceRequestStatusInput,
+} from "../../types/dtos/serviceRequest.dto";
 import logger from "../../utils/logger";
+import { getAuthUserId } from "../../utils/authUser";
 
 const serviceRequestService = new ServiceRequestService();
 
@@ -298,6 +305,92 @@ export const getServiceRequestById = async (
   }
 };
 
+export const updateServiceRequestStatus = async (
+  req: Request<Record<string, string>, unknown, UpdateServiceRequestStatusInput>,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info(
+      "Incoming request to update service request status: id=%s status=%s",
+      req.params.id,
+      req.body?.status
+    );
+    const serviceRequestId = Number(req.params.id);
+    if (!req.body?.status) {
+      return sendErrorResponse(res, "status is required", 400);
+    }
+    const result = await serviceRequestService.updateServiceRequestStatus(
+      serviceRequestId,
+      {
+        ...req.body,
+        updated_by: await getAuthUserId(req),
+      }
+    );
+    logger.info("Successfully updated service request status");
+    return sendSuccessResponse(res, result, "Status updated successfully");
+  } catch (error: unknown) {
+    logger.error((error as Error).message || "Internal server error", error);
+    return sendErrorResponse(
+      res,
+      (error as Error).message || "Internal server error",
+      error instanceof AppError ? error.statusCode : 500
+    );
+  }
+};
+
+export const updateServiceRequest = async (
+  req: Request<Record<string, string>, unknown, UpdateServiceRequestInput>,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info("Incoming request to update service request: id=%s", req.params.id);
+    const result = await serviceRequestService.updateServiceRequest(
+      Number(req.params.id),
+      {
+        ...req.body,
+        updated_by: await getAuthUserId(req),
+      }
+    );
+    logger.info(
+      "Successfully updated service request, %d fields changed",
+      result.changed_fields.length
+    );
+    return sendSuccessResponse(res, result, "Service request updated successfully");
+  } catch (error: unknown) {
+    logger.error((error as Error).message || "Internal server error", error);
+    return sendErrorResponse(
+      res,
+      (error as Error).message || "Internal server error",
+      error instanceof AppError ? error.statusCode : 500
+    );
+  }
+};
+
+export const cancelServiceRequest = async (
+  req: Request<Record<string, string>, unknown, CancelServiceRequestInput>,
+  res: Response
+): Promise<Response> => {
+  try {
+    logger.info("Incoming request to cancel service request: id=%s", req.params.id);
+    const result = await serviceRequestService.cancelServiceRequest(
+      Number(req.params.id),
+      {
+        reason: req.body?.reason,
+        updated_by: await getAuthUserId(req),
+      }
+    );
+    logger.info("Successfully cancelled service request");
+    return sendSuccessResponse(res, result, "Service request cancelled successfully");
+  } catch (error: unknown) {
+    logger.error((error as Error).message || "Internal server error", error);
+    return sendErrorResponse(
+      res,
+      (error as Error).message || "Internal server error",
+      error instanceof AppError ? error.statusCode : 500
+    );
+  }
+};
+
 export const getServiceRequestsList = async (req: Request, res: Response) => {
   try {
     logger.info("Incoming request to get service requests list: query=%o", req.query);
@@ -312,6 +405,7 @@ export const getServiceRequestsList = async (req: Request, res: Response) => {
       repaired_by,
       location,
       submitted_on,
+      status,
     } = req.query;
 
     if (!accountIds) {
@@ -327,6 +421,7 @@ export const getServiceRequestsList = async (req: Request, res: Response) => {
     if (repaired_by) filters.repaired_by = repaired_by as string;
     if (location) filters.location = location as string;
     if (submitted_on) filters.submitted_on = submitted_on as string;
+    if (status) filters.status = status as string;
     const result = await serviceRequestService.getServiceRequestsList(
       Number(page) || 1,
       Number(perPage) || 10,
@@ -14,11 +14,13 @@ import {
   toggleTelematicAlertStatus,
   DownloadRequestBody,
 } from "../../services/telematicsAlert.service";
+import { evaluateTelematicsAlertsService } from "../../services/telematicsAlertEvaluation.service";
 import {
   CreateTelematicsAlertDto,
   FetchUsersByAccountsDto,
   FetchEquipmentByAccountsDto,
   FetchEquipmentByAccountsEventsDto,
+  EvaluateTelematicsAlertsDto,
 } from "../../types/dtos/telematicsAlert-request.dto";
 import { PaginationParams } from "src/utils/pagination";
 
@@ -409,3 +411,37 @@ export const fetchEquipmentByAccountsOrCustIdAndEvents = async (
     return sendErrorResponse(res, "Internal server error");
   }
 };
+
+/**
+ * Evaluates telematics alerts for units
+ * Runs the latest telematics readings through active alert rules and records firings
+ *
+ * @param req - Express request object with unit numbers in the body
+ * @param res - Express response object
+ * @returns Evaluation summary or error response
+ * @author chaitanya
+ */
+export const evaluateTelematicsAlertsCtrl = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const { unit_numbers } = req.body as EvaluateTelematicsAlertsDto;
+    if (
+      !Array.isArray(unit_numbers) ||
+      !unit_numbers.length ||
+      unit_numbers.some((u) => typeof u !== "string" || !u.trim())
+    ) {
+      return sendErrorResponse(res, "unit_numbers must be a non-empty array", 400);
+    }
+
+    const result = await evaluateTelematicsAlertsService(
+      unit_numbers.map((u) => u.trim())
+    );
+    return sendSuccessResponse(res, result, "Telematics alerts evaluated");
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("evaluateTelematicsAlerts error:", error);
+    return sendErrorResponse(res, "Internal server error");
+  }
+};
@@ -0,0 +1,38 @@
+import { Request, Response } from "express";
+import logger from "../../utils/logger";
+import {
+  sendErrorResponse,
+  sendSuccessResponse,
+  ServiceError,
+} from "../../utils/responseUtils";
+import { ingestTelematicsService } from "../../services/telematicsIngest.service";
+import { TelematicsIngestRequestDto } from "../../types/dtos/telematics-ingest.dto";
+
+/**
+ * Ingests a batch of vendor telematics messages
+ * Responds 200 with per-message outcomes even when some messages are rejected
+ *
+ * @param req - Express request object with vendor_id or vendor_name and messages in body
+ * @param res - Express response object
+ * @returns Ingest summary or error response
+ * @author chaitanya
+ */
+export const ingestTelematicsCtrl = async (
+  req: Request<Record<string, string>, unknown, TelematicsIngestRequestDto>,
+  res: Response
+) => {
+  try {
+    const result = await ingestTelematicsService(req.body);
+    return sendSuccessResponse(res, result, "Telematics messages ingested");
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Telematics ingest failed",
+      error
+    );
+    return sendErrorResponse(
+      res,
+      (error as Error).message || "Internal server error",
+      error instanceof ServiceError ? error.statusCode : 500
+    );
+  }
+};
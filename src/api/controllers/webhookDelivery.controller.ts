@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import logger from "../../utils/logger";
+import {
+  sendErrorResponse,
+  sendPaginatedResponse,
+  sendSuccessResponse,
+} from "../../utils/responseUtils";
+import {
+  getWebhookDeliveriesByCustomerService,
+  redeliverWebhookService,
+} from "../../services/webhookDelivery.service";
+import { WebhookDeliveryQueryDto } from "../../types/dtos/webhook-delivery.dto";
+
+/**
+ * Fetches webhook delivery history for a customer
+ * Returns paginated deliveries with status, attempts and last error
+ *
+ * @param req - Express request object with customer ID parameter and filters in query
+ * @param res - Express response object
+ * @returns Paginated delivery history or error response
+ * @author chaitanya
+ */
+export const getWebhookDeliveriesByCustomerCtrl = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const customerId = Number(req.params.custId);
+    if (!customerId || isNaN(customerId)) {
+      return sendErrorResponse(res, "Valid customer ID is required", 400);
+    }
+
+    const { data, meta } = await getWebhookDeliveriesByCustomerService(
+      customerId,
+      req.query as WebhookDeliveryQueryDto
+    );
+    return sendPaginatedResponse(res, data, meta.total, meta.page, meta.perPage);
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Failed to fetch webhook deliveries",
+      error
+    );
+    return sendErrorResponse(res, "Internal server error");
+  }
+};
+
+/**
+ * Redelivers a webhook for a customer
+ * Resets the retry budget and makes an immediate delivery attempt
+ *
+ * @param req - Express request object with customer and delivery ID parameters
+ * @param res - Express response object
+ * @returns Delivery after the attempt or error response
+ * @author chaitanya
+ */
+export const redeliverWebhookCtrl = async (req: Request, res: Response) => {
+  try {
+    const customerId = Number(req.params.custId);
+    const deliveryId = Number(req.params.deliveryId);
+    if (!customerId || isNaN(customerId) || !deliveryId || isNaN(deliveryId)) {
+      return sendErrorResponse(
+        res,
+        "Valid customer ID and delivery ID are required",
+        400
+      );
+    }
+
+    const delivery = await redeliverWebhookService(customerId, deliveryId);
+    return sendSuccessResponse(
+      res,
+      delivery,
+      delivery.status === "DELIVERED"
+        ? "Webhook redelivered successfully"
+        : "Webhook redelivery failed, retry scheduled"
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && "statusCode" in error) {
+      const err = error as { statusCode: number, message: string };
+      return sendErrorResponse(res, err.message, err.statusCode);
+    }
+    logger.error(
+      (error as Error).message || "Failed to redeliver webhook",
+      error
+    );
+    return sendErrorResponse(res, "Internal server error");
+  }
+};
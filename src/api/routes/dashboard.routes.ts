@@ -11,4 +11,12 @@ router.get("/vmrslist", dashboardController.getVMRSList);
 // POST /api/dashboard/vmrs-metrics - VMRS repair metrics and monthly maintenance costs
 router.post("/vmrs-metrics", dashboardController.getVmrsMetrics);
 router.get("/tenQuickLinksList", dashboardController.getTenQuickLinksList);
+
+// GET /api/dashboard/utilization - Utilization and idle-time widget, with Excel export
+router.get("/utilization", dashboardController.getUtilization);
+router.get("/utilization/download", dashboardController.downloadUtilization);
+
+// GET /api/dashboard/pm-compliance - Monthly PM / DOT compliance trend, with Excel and PDF export
+router.get("/pm-compliance", dashboardController.getPmCompliance);
+router.get("/pm-compliance/download", dashboardController.downloadPmCompliance);
 export default router;
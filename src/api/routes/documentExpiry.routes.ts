@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { getExpiringDocumentsCtrl } from "../controllers/documentExpiry.controller";
+import { requirePermission } from "../middleware/auth0.middleware";
+
+const router = Router();
+
+router.get(
+  "/expiring",
+  requirePermission("read:documents"),
+  asyncHandler(getExpiringDocumentsCtrl)
+);
+
+export default router;
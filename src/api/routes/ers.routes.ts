@@ -5,7 +5,12 @@ import {
     getERSDetailsController,
     downloadErs
 } from "../controllers/ers.controller";
+import {
+    addEntityAttachmentsCtrl,
+    removeEntityAttachmentCtrl
+} from "../controllers/fileupload.controller";
 import { requirePermission } from "../middleware/auth0.middleware";
+import { FileUploadToS3 } from "../../utils/s3.middleware";
 
 const router = Router();
 
@@ -18,4 +23,11 @@ router.get("/getersDetails",
 router.post("/downloadErs", 
     requirePermission("download:ers"),
     asyncHandler(downloadErs));
+router.post("/:id/attachments",
+    requirePermission("write:ers"),
+    FileUploadToS3.array("files", 10),
+    asyncHandler(addEntityAttachmentsCtrl("ers")));
+router.delete("/:id/attachments/:attachmentId",
+    requirePermission("write:ers"),
+    asyncHandler(removeEntityAttachmentCtrl("ers")));
 export default router;
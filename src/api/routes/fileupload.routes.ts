@@ -1,12 +1,19 @@
 import { Router } from "express";
-import { fileUpload } from "../controllers/fileupload.controller";
+import {
+  downloadAttachmentCtrl,
+  fileUpload
+} from "../controllers/fileupload.controller";
 import { FileUploadToS3 } from "../../utils/s3.middleware";
 import { asyncHandler } from "../../utils/asyncHandler";
+import { jwtCheck } from "../middleware/auth0.middleware";
 const router = Router();
 
 // Allow up to 10 files
 router.post("/upload", FileUploadToS3.array("files", 10), asyncHandler(fileUpload));
 
+// Presigned download, scoped to the caller's accounts
+router.get("/:attachmentId/download", jwtCheck, asyncHandler(downloadAttachmentCtrl));
+
 export default router;
 
 
@@ -6,8 +6,21 @@ import {
   downloadListView,
   getTelematics,
   getEquipmentGateInspections,
+  getEquipmentDocuments,
+  uploadEquipmentDocuments,
+  deleteEquipmentDocument,
+  getEquipmentTrack,
+  getFleetMap,
+  createEquipmentReading,
+  deleteEquipmentReading,
+  getEquipmentReadings,
+  createEquipmentLoadEvent,
+  getEquipmentLoadHistory,
+  createGateInspection,
+  getGateInspectionComparison,
 } from "../controllers/fleet.view.controller";
 import { requirePermission } from "../middleware/auth0.middleware";
+import { FileUploadToS3 } from "../../utils/s3.middleware";
 const router = Router();
 
 router.get(
@@ -34,5 +47,79 @@ router.get(
   asyncHandler(getEquipmentGateInspections)
 );
 
+router.get(
+  "/map",
+  requirePermission("read:fleet-list-view"),
+  asyncHandler(getFleetMap)
+);
+
+router.get(
+  "/:equipmentId/documents",
+  requirePermission("read:fleet-list-view-details"),
+  asyncHandler(getEquipmentDocuments)
+);
+
+router.post(
+  "/:equipmentId/documents",
+  requirePermission("write:fleet-documents"),
+  FileUploadToS3.array("files", 10),
+  asyncHandler(uploadEquipmentDocuments)
+);
+
+router.delete(
+  "/:equipmentId/documents/:attachmentId",
+  requirePermission("write:fleet-documents"),
+  asyncHandler(deleteEquipmentDocument)
+);
+
+router.get(
+  "/:equipmentId/readings",
+  requirePermission("read:fleet-list-view-details"),
+  asyncHandler(getEquipmentReadings)
+);
+
+router.post(
+  "/:equipmentId/readings",
+  requirePermission("write:fleet-readings"),
+  asyncHandler(createEquipmentReading)
+);
+
+router.delete(
+  "/:equipmentId/readings/:readingId",
+  requirePermission("write:fleet-readings"),
+  asyncHandler(deleteEquipmentReading)
+);
+
+router.get(
+  "/:equipmentId/load-events",
+  requirePermission("read:fleet-list-view-details"),
+  asyncHandler(getEquipmentLoadHistory)
+);
+
+router.post(
+  "/:equipmentId/load-events",
+  requirePermission("write:fleet-load-events"),
+  asyncHandler(createEquipmentLoadEvent)
+);
+
+router.post(
+  "/:equipmentId/gate-inspections",
+  requirePermission("write:fleet-gate-inspections"),
+  FileUploadToS3.array("files", 10),
+  asyncHandler(createGateInspection)
+);
+
+router.get(
+  "/:equipmentId/gate-inspections/:gateInspectionId/comparison",
+  requirePermission("read:fleet-list-view-details"),
+  asyncHandler(getGateInspectionComparison)
+);
+
+router.get(
+  "/:unitNumber/track",
+  requirePermission("read:fleet-list-view-details"),
+  asyncHandler(getEquipmentTrack)
+);
+
 router.get("/:unitNumber", asyncHandler(getTelematics));
 export default router;
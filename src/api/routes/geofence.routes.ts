@@ -11,6 +11,7 @@ import {
   getGeofenceCountsCtrl,
   toggleGeofenceStatus,
   updateGeofenceCtrl,
+  updateLocationEventCreationCtrl,
 } from "../controllers/geofence.controller"; // adjust path as needed
 import { requirePermission } from "../middleware/auth0.middleware";
 
@@ -69,6 +70,8 @@ router.patch("/toggle-status/:geofence_id",
   requirePermission("patch:geofence"),
   asyncHandler(toggleGeofenceStatus));
 
-router.post("/update-location-event-creation");
+router.post("/update-location-event-creation",
+  requirePermission("write:geofence"),
+  asyncHandler(updateLocationEventCreationCtrl));
 
 export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import {
+  downloadIotDeviceHealthCtrl,
+  getIotDeviceHistoryCtrl,
+  getIotDevicesCtrl,
+  moveIotDeviceCtrl,
+} from "../controllers/iotDevice.controller";
+import { requirePermission } from "../middleware/auth0.middleware";
+
+const router = Router();
+
+router.get(
+  "/",
+  requirePermission("read:iot-devices"),
+  asyncHandler(getIotDevicesCtrl)
+);
+
+router.get(
+  "/health/download",
+  requirePermission("read:iot-devices"),
+  asyncHandler(downloadIotDeviceHealthCtrl)
+);
+
+router.get(
+  "/:iotDeviceId/history",
+  requirePermission("read:iot-devices"),
+  asyncHandler(getIotDeviceHistoryCtrl)
+);
+
+router.post(
+  "/:iotDeviceId/move",
+  requirePermission("write:iot-devices"),
+  asyncHandler(moveIotDeviceCtrl)
+);
+
+export default router;
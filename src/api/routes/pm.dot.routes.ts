@@ -8,7 +8,23 @@ import {
   getDOTInspectionById,
   downloadCombinedRecords,
   getPMsByEquipment,
+  createPmEvent,
+  updatePmEvent,
+  createDotInspection,
+  recordDotCorrectiveAction,
+  subscribeMaintenanceReminders,
+  unsubscribeMaintenanceReminders,
 } from "../controllers/pm.dot.controller";
+import {
+  createDotInspectionValidator,
+  createPmEventValidator,
+  dotCorrectiveActionValidator,
+  dotViolationIdValidator,
+  maintenanceReminderSubscriptionValidator,
+  pmEventIdValidator,
+  pmScheduleIdValidator,
+  updatePmEventValidator,
+} from "../validators/pm.validator";
 import { requirePermission } from "../middleware/auth0.middleware";
 const router = Router();
 
@@ -24,12 +40,56 @@ router.get(
   asyncHandler(getPMScheduleDetail)
 );
 
+router.post(
+  "/pm/:pmScheduleId/events",
+  requirePermission("write:preventive-maintanence"),
+  pmScheduleIdValidator,
+  createPmEventValidator,
+  asyncHandler(createPmEvent)
+);
+
+router.patch(
+  "/pm/events/:pmEventId",
+  requirePermission("write:preventive-maintanence"),
+  pmEventIdValidator,
+  updatePmEventValidator,
+  asyncHandler(updatePmEvent)
+);
+
+router.put(
+  "/pm/reminder-subscriptions/:accountId",
+  requirePermission("write:preventive-maintanence"),
+  maintenanceReminderSubscriptionValidator,
+  asyncHandler(subscribeMaintenanceReminders)
+);
+
+router.delete(
+  "/pm/reminder-subscriptions/:accountId",
+  requirePermission("write:preventive-maintanence"),
+  asyncHandler(unsubscribeMaintenanceReminders)
+);
+
 router.get(
   "/dotInspections",
   requirePermission("read:dot-inspection"),
   asyncHandler(getDOTInspectionsByAccounts)
 );
 
+router.post(
+  "/dotInspections",
+  requirePermission("write:dot-inspection"),
+  createDotInspectionValidator,
+  asyncHandler(createDotInspection)
+);
+
+router.patch(
+  "/dotInspections/violations/:violationId/corrective-action",
+  requirePermission("write:dot-inspection"),
+  dotViolationIdValidator,
+  dotCorrectiveActionValidator,
+  asyncHandler(recordDotCorrectiveAction)
+);
+
 router.post(
   "/pmdot/export",
   requirePermission([
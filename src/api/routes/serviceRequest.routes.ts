@@ -1,5 +1,9 @@
 import { Router } from "express";
-import { anyFileUpload } from "../../utils/s3.middleware";
+import { anyFileUpload, FileUploadToS3 } from "../../utils/s3.middleware";
+import {
+  addEntityAttachmentsCtrl,
+  removeEntityAttachmentCtrl
+} from "../controllers/fileupload.controller";
 import {
   createServiceRequest,
   getTireSizes,
@@ -16,6 +20,9 @@ import {
   getAccountByEquipmentId,
   getServiceUrgencyTypesList,
   getServiceUrgencyList,
+  updateServiceRequestStatus,
+  updateServiceRequest,
+  cancelServiceRequest,
 } from "../controllers/serviceRequest.controller";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { requirePermission } from "../middleware/auth0.middleware";
@@ -41,6 +48,22 @@ router.get(
 router.get("/serviceRequestsList", 
   requirePermission("write:service-request"),
   asyncHandler(getServiceRequestsList)); //  @ rajeshwari
+router.put("/:id",
+  requirePermission("write:service-request"),
+  asyncHandler(updateServiceRequest)); // amend before a work order exists, audited per field
+router.post("/:id/cancel",
+  requirePermission("write:service-request"),
+  asyncHandler(cancelServiceRequest)); // cancel with reason
+router.patch("/:id/status",
+  requirePermission("patch:service-request"),
+  asyncHandler(updateServiceRequestStatus)); // lifecycle status change with history
+router.post("/:id/attachments",
+  requirePermission("write:service-request"),
+  FileUploadToS3.array("files", 10),
+  asyncHandler(addEntityAttachmentsCtrl("service_request"))); // attach more files after submission
+router.delete("/:id/attachments/:attachmentId",
+  requirePermission("write:service-request"),
+  asyncHandler(removeEntityAttachmentCtrl("service_request")));
 router.get("/:id", 
  // requirePermission("write:service-request"),
   asyncHandler(getServiceRequestById)); // get api for  service_request details based on service_request_id @   @   rajeshwari
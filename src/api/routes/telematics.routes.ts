@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ingestTelematicsCtrl } from "../controllers/telematicsIngest.controller";
+import { requirePermission } from "../middleware/auth0.middleware";
+
+const router = Router();
+
+router.post(
+  "/ingest",
+  requirePermission("write:telematics"),
+  asyncHandler(ingestTelematicsCtrl)
+);
+
+export default router;
@@ -11,6 +11,7 @@ import {
   updateTelematicsAlert,
   fetchEquipmentByAccountsOrCustIdAndEvents,
   toggleTelematicAlertStatusCtrl,
+  evaluateTelematicsAlertsCtrl,
 } from "../controllers/telematicsAlerts.controller";
 import { requirePermission } from "../middleware/auth0.middleware";
 const router = Router();
@@ -20,6 +21,12 @@ router.post("/",
   requirePermission("write:telematics-alerts"),
   asyncHandler(createTelematicsAlert));
 
+router.post(
+  "/evaluate",
+  requirePermission("write:telematics-alerts"),
+  asyncHandler(evaluateTelematicsAlertsCtrl)
+);
+
 router.patch("/:id", 
   requirePermission("patch:telematics-alerts"),
   asyncHandler(updateTelematicsAlert));
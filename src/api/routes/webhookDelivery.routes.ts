@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import {
+  getWebhookDeliveriesByCustomerCtrl,
+  redeliverWebhookCtrl,
+} from "../controllers/webhookDelivery.controller";
+import { requirePermission } from "../middleware/auth0.middleware";
+
+const router = Router();
+
+router.get(
+  "/customer/:custId/deliveries",
+  requirePermission("read:webhook-deliveries"),
+  asyncHandler(getWebhookDeliveriesByCustomerCtrl)
+);
+
+router.post(
+  "/customer/:custId/deliveries/:deliveryId/redeliver",
+  requirePermission("write:webhook-deliveries"),
+  asyncHandler(redeliverWebhookCtrl)
+);
+
+export default router;
@@ -6,7 +6,12 @@ import {
   getWorkorders,
   getWorkordersHistory
 } from "../controllers/workorders.controller";
+import {
+  addEntityAttachmentsCtrl,
+  removeEntityAttachmentCtrl
+} from "../controllers/fileupload.controller";
 import { requirePermission } from "../middleware/auth0.middleware";
+import { FileUploadToS3 } from "../../utils/s3.middleware";
 
 const router = Router();
 
@@ -25,4 +30,12 @@ router.post("/downloadWorkorders",
 
   router.get("/getWorkordersHistory", asyncHandler(getWorkordersHistory));
 
+router.post("/:id/attachments",
+  requirePermission("write:work-orders"),
+  FileUploadToS3.array("files", 10),
+  asyncHandler(addEntityAttachmentsCtrl("workorder")));
+router.delete("/:id/attachments/:attachmentId",
+  requirePermission("write:work-orders"),
+  asyncHandler(removeEntityAttachmentCtrl("workorder")));
+
 export default router;
\ No newline at end of file
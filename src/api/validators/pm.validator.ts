@@ -0,0 +1,268 @@
+import { body, param } from "express-validator";
+
+const PM_EVENT_STATUSES = ["SCHEDULED", "COMPLETED"];
+
+const pmEventFieldValidators = [
+  body("status")
+    .optional()
+    .isIn(PM_EVENT_STATUSES)
+    .withMessage(`Status must be one of: ${PM_EVENT_STATUSES.join(", ")}`),
+
+  body("performed_date")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Performed date must be a valid ISO 8601 date"),
+
+  body("next_due_date")
+    .optional()
+    .isISO8601()
+    .withMessage("Next due date must be a valid ISO 8601 date"),
+
+  body("performed_reading")
+    .optional({ values: "null" })
+    .isInt({ min: 0 })
+    .withMessage("Performed reading must be a non-negative integer")
+    .toInt(),
+
+  body("work_performed")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Work performed must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Work performed must not exceed 255 characters"),
+
+  body("location")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Location must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Location must not exceed 255 characters"),
+
+  body("vendor_technician")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Vendor technician must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Vendor technician must not exceed 255 characters"),
+
+  body("time_taken")
+    .optional({ values: "null" })
+    .isInt({ min: 0 })
+    .withMessage("Time taken must be a non-negative integer")
+    .toInt(),
+
+  body("warranty_status")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Warranty status must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Warranty status must not exceed 255 characters"),
+
+  body("after_hours")
+    .optional()
+    .isBoolean()
+    .withMessage("After hours must be a boolean")
+    .toBoolean(true),
+
+  body("notes")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Notes must be a string"),
+
+  body("pm_parts_used")
+    .optional()
+    .isArray()
+    .withMessage("Parts used must be an array"),
+
+  body("pm_parts_used.*.part_name")
+    .if(body("pm_parts_used").exists())
+    .isString()
+    .withMessage("Each part name must be a string")
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Each part name must be between 1 and 255 characters"),
+
+  body("pm_parts_used.*.part_quantity")
+    .if(body("pm_parts_used").exists())
+    .isInt({ min: 1 })
+    .withMessage("Each part quantity must be a positive integer")
+    .toInt(),
+
+  body("pm_parts_used.*.part_cost")
+    .if(body("pm_parts_used").exists())
+    .optional({ values: "null" })
+    .isFloat({ min: 0 })
+    .withMessage("Each part cost must be a non-negative number")
+    .toFloat(),
+];
+
+export const pmScheduleIdValidator = [
+  param("pmScheduleId")
+    .isInt({ min: 1 })
+    .withMessage("PM schedule ID must be a positive integer"),
+];
+
+export const pmEventIdValidator = [
+  param("pmEventId")
+    .isInt({ min: 1 })
+    .withMessage("PM event ID must be a positive integer"),
+];
+
+export const createPmEventValidator = [
+  body("equipment_id")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Equipment ID must be a positive integer")
+    .toInt(),
+
+  ...pmEventFieldValidators,
+];
+
+export const updatePmEventValidator = pmEventFieldValidators;
+
+const DOT_INSPECTION_RESULTS = ["PASS", "FAIL"];
+
+export const dotViolationIdValidator = [
+  param("violationId")
+    .isInt({ min: 1 })
+    .withMessage("Violation ID must be a positive integer"),
+];
+
+export const createDotInspectionValidator = [
+  body("equipment_id")
+    .notEmpty()
+    .withMessage("Equipment ID is required")
+    .isInt({ min: 1 })
+    .withMessage("Equipment ID must be a positive integer")
+    .toInt(),
+
+  body("schedule_agreement_id")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Schedule agreement ID must be a positive integer")
+    .toInt(),
+
+  body("inspection_date")
+    .notEmpty()
+    .withMessage("Inspection date is required")
+    .isISO8601()
+    .withMessage("Inspection date must be a valid ISO 8601 date"),
+
+  body("inspector_name")
+    .notEmpty()
+    .withMessage("Inspector name is required")
+    .isString()
+    .withMessage("Inspector name must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Inspector name must not exceed 255 characters"),
+
+  body("inspection_result")
+    .notEmpty()
+    .withMessage("Inspection result is required")
+    .isIn(DOT_INSPECTION_RESULTS)
+    .withMessage(`Inspection result must be one of: ${DOT_INSPECTION_RESULTS.join(", ")}`),
+
+  body("type")
+    .optional()
+    .isString()
+    .withMessage("Type must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Type must not exceed 255 characters"),
+
+  body("notes")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Notes must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Notes must not exceed 255 characters"),
+
+  body("compliance")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Compliance must be a string")
+    .isLength({ max: 255 })
+    .withMessage("Compliance must not exceed 255 characters"),
+
+  body("valid_through")
+    .optional()
+    .isISO8601()
+    .withMessage("Valid through must be a valid ISO 8601 date"),
+
+  body("next_inspection_due")
+    .optional()
+    .isISO8601()
+    .withMessage("Next inspection due must be a valid ISO 8601 date"),
+
+  body("violations")
+    .optional()
+    .isArray()
+    .withMessage("Violations must be an array"),
+
+  body("violations.*.violation_code")
+    .if(body("violations").exists())
+    .isString()
+    .withMessage("Each violation code must be a string")
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Each violation code must be between 1 and 50 characters"),
+
+  body("violations.*.description")
+    .if(body("violations").exists())
+    .isString()
+    .withMessage("Each violation description must be a string")
+    .trim()
+    .notEmpty()
+    .withMessage("Each violation description is required"),
+
+  body("violations.*.severity_level")
+    .if(body("violations").exists())
+    .isString()
+    .withMessage("Each severity level must be a string")
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage("Each severity level must be between 1 and 20 characters"),
+
+  body("violations.*.is_out_of_service")
+    .if(body("violations").exists())
+    .optional()
+    .isBoolean()
+    .withMessage("Out of service must be a boolean")
+    .toBoolean(true),
+
+  body("violations.*.corrective_action_taken")
+    .if(body("violations").exists())
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Corrective action taken must be a string"),
+
+  body("violations.*.corrective_action_date")
+    .if(body("violations").exists())
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Corrective action date must be a valid ISO 8601 date"),
+];
+
+export const dotCorrectiveActionValidator = [
+  body("corrective_action_taken")
+    .notEmpty()
+    .withMessage("Corrective action taken is required")
+    .isString()
+    .withMessage("Corrective action taken must be a string"),
+
+  body("corrective_action_date")
+    .optional()
+    .isISO8601()
+    .withMessage("Corrective action date must be a valid ISO 8601 date"),
+];
+
+export const maintenanceReminderSubscriptionValidator = [
+  param("accountId")
+    .isInt({ min: 1 })
+    .withMessage("Account ID must be a positive integer"),
+
+  body("digest")
+    .optional()
+    .isBoolean()
+    .withMessage("Digest must be a boolean")
+    .toBoolean(true),
+];
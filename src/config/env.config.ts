@@ -230,4 +230,107 @@ export const isAWSWebSecretsEnabled = (): boolean => {
     (process.env.AWS_SECRET_ACCESS_KEY ?? process.env.AWS_secretAccessKey) &&
     process.env.AWS_WEB_SECRET_NAME
   );
-};
\ No newline at end of file
+};
+/**
+ * Get the notification transport from environment variables
+ * @returns "memory" to keep alert notifications in process, otherwise "live"
+ */
+export const getNotificationTransport = (): "memory" | "live" => {
+  return process.env.NOTIFICATION_TRANSPORT === "memory" ? "memory" : "live";
+};
+
+/**
+ * Get SMS gateway configuration from environment variables
+ * @returns SMS gateway URL and optional API key
+ */
+export const getSmsGatewayConfig = () => {
+  const url = process.env.SMS_GATEWAY_URL;
+  if (!url) {
+    throw new Error("SMS_GATEWAY_URL environment variable is required");
+  }
+  return {
+    url,
+    apiKey: process.env.SMS_GATEWAY_API_KEY,
+  };
+};
+
+/**
+ * Get the fallback webhook signing secret from environment variables
+ * @returns Signing secret used when a customer has none configured
+ */
+export const getWebhookSigningSecret = (): string | undefined => {
+  return process.env.WEBHOOK_SIGNING_SECRET;
+};
+
+/**
+ * Check if in-process background jobs should run
+ * @returns false only when BACKGROUND_JOBS_ENABLED is "false"
+ */
+export const isBackgroundJobsEnabled = (): boolean => {
+  return process.env.BACKGROUND_JOBS_ENABLED !== "false";
+};
+
+/**
+ * Get the attachment storage driver from environment variables
+ * @returns "local" when ATTACHMENT_STORAGE is "local", otherwise "s3"
+ */
+export const getAttachmentStorageDriver = (): "s3" | "local" => {
+  return process.env.ATTACHMENT_STORAGE === "local" ? "local" : "s3";
+};
+
+/**
+ * Get the root directory used by the local attachment store
+ * @returns Directory path, defaulting to ./storage
+ */
+export const getAttachmentLocalDir = (): string => {
+  return process.env.ATTACHMENT_LOCAL_DIR ?? "./storage";
+};
+
+/**
+ * Get S3 bucket name from environment variables
+ * @returns S3 bucket name string
+ */
+export const getS3BucketName = (): string => {
+  const bucket = process.env.S3_BUCKET_NAME;
+  if (!bucket) {
+    throw new Error("S3_BUCKET_NAME environment variable is required");
+  }
+  return bucket;
+};
+
+/**
+ * Get how long presigned attachment download URLs stay valid
+ * @returns Lifetime in seconds, defaulting to 300
+ */
+export const getAttachmentUrlTtlSeconds = (): number => {
+  const ttl = Number(process.env.ATTACHMENT_URL_TTL_SECONDS);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : 300;
+};
+
+/**
+ * Get PM / DOT due-date reminder settings from environment variables
+ * @returns Reminder windows in days (largest first, default 30,14,7) and whether
+ * maintenance managers get one digest email per account (default true)
+ */
+export const getMaintenanceReminderConfig = () => {
+  const windows = (process.env.MAINTENANCE_REMINDER_WINDOWS ?? "30,14,7")
+    .split(",")
+    .map((value) => Number(value.trim()))
+    .filter((days) => Number.isInteger(days) && days > 0);
+  return {
+    windows: windows.length ? [...new Set(windows)].sort((a, b) => b - a) : [30, 14, 7],
+    digest: process.env.MAINTENANCE_REMINDER_DIGEST !== "false",
+  };
+};
+
+/**
+ * Get the telematics vendors that post sensor lists from environment variables
+ * @returns iot_device_vendor_lookup ids or vendor names from TELEMATICS_SENSOR_LIST_VENDORS
+ */
+export const getSensorListTelematicsVendors = (): (number | string)[] => {
+  return (process.env.TELEMATICS_SENSOR_LIST_VENDORS ?? "")
+    .split(",")
+    .map((vendor) => vendor.trim())
+    .filter(Boolean)
+    .map((vendor) => (/^\d+$/.test(vendor) ? Number(vendor) : vendor));
+};
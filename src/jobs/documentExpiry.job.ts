@@ -0,0 +1,40 @@
+import logger from "../utils/logger";
+import { raiseDocumentExpiryActivityService } from "../services/documentExpiry.service";
+
+const DOCUMENT_EXPIRY_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Runs one pass of the document expiry scan
+ * Skips the pass when the previous one is still in flight
+ *
+ * @author chaitanya
+ */
+export const runDocumentExpiryJob = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  try {
+    await raiseDocumentExpiryActivityService();
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Document expiry job failed",
+      error
+    );
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Starts the document expiry job, running once immediately and then on a fixed interval
+ *
+ * @returns Interval handle
+ * @author chaitanya
+ */
+export const startDocumentExpiryJob = (): NodeJS.Timeout => {
+  void runDocumentExpiryJob();
+  return setInterval(() => {
+    void runDocumentExpiryJob();
+  }, DOCUMENT_EXPIRY_INTERVAL_MS);
+};
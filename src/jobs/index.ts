@@ -0,0 +1,24 @@
+import logger from "../utils/logger";
+import { isBackgroundJobsEnabled } from "../config/env.config";
+import { startWebhookDeliveryJob } from "./webhookDelivery.job";
+import { startDocumentExpiryJob } from "./documentExpiry.job";
+import { startPmScheduleJob } from "./pmSchedule.job";
+import { startMaintenanceReminderJob } from "./maintenanceReminder.job";
+
+/**
+ * Starts the in-process background jobs
+ * Set BACKGROUND_JOBS_ENABLED=false on instances that should only serve requests
+ *
+ * @author chaitanya
+ */
+export const startBackgroundJobs = (): void => {
+  if (!isBackgroundJobsEnabled()) {
+    logger.info("Background jobs disabled");
+    return;
+  }
+  startWebhookDeliveryJob();
+  startDocumentExpiryJob();
+  startPmScheduleJob();
+  startMaintenanceReminderJob();
+  logger.info("Background jobs started");
+};
@@ -0,0 +1,40 @@
+import logger from "../utils/logger";
+import { sendMaintenanceRemindersService } from "../services/maintenanceReminder.service";
+
+const MAINTENANCE_REMINDER_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Runs one pass of the PM / DOT due-date reminders
+ * Skips the pass when the previous one is still in flight
+ *
+ * @author chaitanya
+ */
+export const runMaintenanceReminderJob = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  try {
+    await sendMaintenanceRemindersService();
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Maintenance reminder job failed",
+      error
+    );
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Starts the maintenance reminder job, running once immediately and then on a fixed interval
+ *
+ * @returns Interval handle
+ * @author chaitanya
+ */
+export const startMaintenanceReminderJob = (): NodeJS.Timeout => {
+  void runMaintenanceReminderJob();
+  return setInterval(() => {
+    void runMaintenanceReminderJob();
+  }, MAINTENANCE_REMINDER_INTERVAL_MS);
+};
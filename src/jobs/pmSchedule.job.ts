@@ -0,0 +1,40 @@
+import logger from "../utils/logger";
+import { rollForwardCompletedPmEventsService } from "../services/pmSchedule.service";
+
+const PM_SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Runs one pass of the PM schedule roll-forward
+ * Skips the pass when the previous one is still in flight
+ *
+ * @author chaitanya
+ */
+export const runPmScheduleJob = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  try {
+    await rollForwardCompletedPmEventsService();
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "PM schedule job failed",
+      error
+    );
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Starts the PM schedule job, running once immediately and then on a fixed interval
+ *
+ * @returns Interval handle
+ * @author chaitanya
+ */
+export const startPmScheduleJob = (): NodeJS.Timeout => {
+  void runPmScheduleJob();
+  return setInterval(() => {
+    void runPmScheduleJob();
+  }, PM_SCHEDULE_INTERVAL_MS);
+};
@@ -0,0 +1,41 @@
+import logger from "../utils/logger";
+import { processDueWebhookDeliveries } from "../services/webhookDelivery.service";
+
+const WEBHOOK_RETRY_INTERVAL_MS = 60 * 1000;
+
+let running = false;
+
+/**
+ * Runs one pass of the webhook retry queue
+ * Skips the pass when the previous one is still in flight
+ *
+ * @author chaitanya
+ */
+export const runWebhookDeliveryJob = async (): Promise<void> => {
+  if (running) return;
+  running = true;
+  try {
+    const attempted = await processDueWebhookDeliveries();
+    if (attempted) {
+      logger.info("Webhook delivery job retried %d deliveries", attempted);
+    }
+  } catch (error) {
+    logger.error(
+      (error as Error).message || "Webhook delivery job failed",
+      error
+    );
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Starts the webhook retry job on a fixed interval
+ *
+ * @returns Interval handle
+ * @author chaitanya
+ */
+export const startWebhookDeliveryJob = (): NodeJS.Timeout =>
+  setInterval(() => {
+    void runWebhookDeliveryJob();
+  }, WEBHOOK_RETRY_INTERVAL_MS);
@@ -39,6 +39,10 @@ async function startServer(): Promise<void> {
     server.listen(port);
     server.on("error", (error) => onError(error, port));
     server.on("listening", () => onListening(server));
+
+    // Jobs touch the database, so load them after secrets like the app
+    const { startBackgroundJobs } = await import("../jobs");
+    startBackgroundJobs();
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("Failed to start server:", error);
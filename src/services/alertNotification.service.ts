@@ -0,0 +1,476 @@
+import axios from "axios";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import {
+  getNotificationTransport,
+  getSmsGatewayConfig,
+} from "../config/env.config";
+import { WebhookPayload } from "./telematicsAlert.service";
+import { enqueueWebhookDelivery } from "./webhookDelivery.service";
+import {
+  AlertNotificationChannel,
+  AlertNotificationDeliveryDto,
+  AlertNotificationEventDto,
+  AlertNotificationResultDto,
+} from "../types/dtos/alert-notification.dto";
+
+export interface AlertEmailMessage {
+  to: string[];
+  subject: string;
+  body: string;
+  alertName: string
+}
+
+export interface AlertSmsMessage {
+  to: string;
+  body: string
+}
+
+export interface AlertWebhookMessage {
+  customerId: number;
+  alert: unknown;
+  payload: WebhookPayload
+}
+
+// Channel contracts; swap implementations per environment
+export interface AlertEmailChannel {
+  send(message: AlertEmailMessage): Promise<void>
+}
+
+export interface SmsProvider {
+  sendSms(message: AlertSmsMessage): Promise<void>
+}
+
+export interface AlertWebhookChannel {
+  send(message: AlertWebhookMessage): Promise<void>
+}
+
+export interface AlertNotificationChannels {
+  email: AlertEmailChannel;
+  sms: SmsProvider;
+  webhook: AlertWebhookChannel
+}
+
+/**
+ * Email channel backed by the SendGrid service
+ * The SendGrid module is loaded on first send because it requires its API key at import
+ *
+ * @author chaitanya
+ */
+export class SendGridEmailChannel implements AlertEmailChannel {
+  public async send(message: AlertEmailMessage): Promise<void> {
+    const { sendAlertEmail } = await import("./sendGrid.service");
+    await sendAlertEmail(message.to, {
+      subject: message.subject,
+      body: message.body,
+      alertName: message.alertName,
+    });
+  }
+}
+
+/**
+ * SMS provider that posts messages to a configured HTTP gateway
+ *
+ * @author chaitanya
+ */
+export class HttpSmsProvider implements SmsProvider {
+  public async sendSms(message: AlertSmsMessage): Promise<void> {
+    const { url, apiKey } = getSmsGatewayConfig();
+    await axios.post(
+      url,
+      { to: message.to, body: message.body },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        timeout: 30000,
+      }
+    );
+  }
+}
+
+/**
+ * Webhook channel that queues a signed delivery to the customer's webhook
+ * Failed attempts stay on the queue and are retried by the delivery job
+ *
+ * @author chaitanya
+ */
+export class CustomerWebhookChannel implements AlertWebhookChannel {
+  public async send(message: AlertWebhookMessage): Promise<void> {
+    const delivery = await enqueueWebhookDelivery(
+      message.customerId,
+      "telematics_alert.fired",
+      { ...message.payload },
+      {
+        telematic_alert_id: message.payload.telematic_alert_id,
+        created_by: message.payload.created_by || undefined,
+      }
+    );
+    if (!delivery) {
+      throw new Error("Customer webhook URL not configured");
+    }
+  }
+}
+
+/**
+ * In-memory email channel that records messages instead of sending them
+ *
+ * @author chaitanya
+ */
+export class InMemoryEmailChannel implements AlertEmailChannel {
+  public readonly sent: AlertEmailMessage[] = [];
+
+  public send(message: AlertEmailMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * In-memory SMS provider that records messages instead of sending them
+ *
+ * @author chaitanya
+ */
+export class InMemorySmsProvider implements SmsProvider {
+  public readonly sent: AlertSmsMessage[] = [];
+
+  public sendSms(message: AlertSmsMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * In-memory webhook channel that records payloads instead of posting them
+ *
+ * @author chaitanya
+ */
+export class InMemoryWebhookChannel implements AlertWebhookChannel {
+  public readonly sent: AlertWebhookMessage[] = [];
+
+  public send(message: AlertWebhookMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Builds the channel set for the configured notification transport
+ * NOTIFICATION_TRANSPORT=memory keeps every channel in process
+ *
+ * @returns Channel implementations for email, SMS and webhook
+ * @author chaitanya
+ */
+export const createAlertNotificationChannels = (): AlertNotificationChannels =>
+  getNotificationTransport() === "memory"
+    ? {
+        email: new InMemoryEmailChannel(),
+        sms: new InMemorySmsProvider(),
+        webhook: new InMemoryWebhookChannel(),
+      }
+    : {
+        email: new SendGridEmailChannel(),
+        sms: new HttpSmsProvider(),
+        webhook: new CustomerWebhookChannel(),
+      };
+
+const DEFAULT_SUBJECT_TEMPLATE = "Alert: {{alert_name}} - {{unit_number}}";
+const DEFAULT_BODY_TEMPLATE =
+  "{{event_name}} triggered for unit {{unit_number}} at {{event_time}}. Reading: {{reading_value}}. Location: {{latitude}}, {{longitude}}.";
+
+type TemplateValues = Record<string, string | number | null | undefined>;
+
+// Replaces {{key}} placeholders with event values; unknown keys render empty
+export const renderAlertTemplate = (
+  template: string,
+  values: TemplateValues
+): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+    const value = values[key];
+    return value === null || value === undefined ? "" : String(value);
+  });
+
+const resolveChannel = (methodType: string): AlertNotificationChannel | null => {
+  const type = methodType.trim().toLowerCase();
+  if (type.includes("mail")) return "email";
+  if (type.includes("sms") || type.includes("text")) return "sms";
+  if (type.includes("webhook")) return "webhook";
+  return null;
+};
+
+// Recipient objects from the UI are either plain strings or { email/phone/value } items
+const extractRecipientValues = (value: unknown, keys: string[]): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item: unknown) => {
+      if (typeof item === "string") return item;
+      if (item && typeof item === "object") {
+        const record = item as Record<string, unknown>;
+        const found = keys.map((k) => record[k]).find((v) => typeof v === "string");
+        return typeof found === "string" ? found : null;
+      }
+      return null;
+    })
+    .filter((v): v is string => !!v?.trim())
+    .map((v) => v.trim());
+};
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/**
+ * Dispatches fired telematics alerts to the channels configured on the alert
+ * Resolves delivery methods from delivery_method_lookup, renders the matching
+ * alert_templates row and sends through the injected channel implementations
+ *
+ * @author chaitanya
+ */
+export class AlertNotificationDispatcher {
+  private channels: AlertNotificationChannels | null;
+
+  public constructor(channels?: AlertNotificationChannels) {
+    this.channels = channels ?? null;
+  }
+
+  private getChannels(): AlertNotificationChannels {
+    this.channels ??= createAlertNotificationChannels();
+    return this.channels;
+  }
+
+  private async resolveRecipients(alert: {
+    recipients_email: string[],
+    recipients_mobile: string[],
+    recipients_user_ids: number[],
+    emailRecipientsObj: unknown,
+    textRecipientsObj: unknown
+  }) {
+    const users = alert.recipients_user_ids.length
+      ? await prisma.user.findMany({
+          where: { user_id: { in: alert.recipients_user_ids } },
+          select: { email: true, phone_number: true },
+        })
+      : [];
+
+    return {
+      emails: unique([
+        ...alert.recipients_email,
+        ...extractRecipientValues(alert.emailRecipientsObj, ["email", "value"]),
+        ...users.map((u) => u.email ?? "").filter(Boolean),
+      ]),
+      mobiles: unique([
+        ...alert.recipients_mobile,
+        ...extractRecipientValues(alert.textRecipientsObj, [
+          "phone_number",
+          "phone",
+          "mobile",
+          "value",
+        ]),
+        ...users.map((u) => u.phone_number ?? "").filter(Boolean),
+      ]),
+    };
+  }
+
+  private async buildTemplateValues(
+    alertName: string | null,
+    event: AlertNotificationEventDto
+  ): Promise<TemplateValues> {
+    const alertType = event.alert_type_id
+      ? await prisma.alert_type_lookup.findUnique({
+          where: { alert_type_lookup_id: event.alert_type_id },
+          select: { event_name: true },
+        })
+      : null;
+    const eventTime =
+      event.event_time instanceof Date
+        ? event.event_time.toISOString()
+        : event.event_time;
+
+    return {
+      alert_name: alertName ?? `Alert #${event.telematic_alert_id}`,
+      event_name: alertType?.event_name ?? "Alert",
+      unit_number: event.unit_number,
+      equipment_id: event.equipment_id,
+      account_id: event.account_id,
+      metric: event.metric,
+      reading_value: event.reading_value,
+      event_time: eventTime,
+      latitude: event.latitude,
+      longitude: event.longitude,
+    };
+  }
+
+  private async deliver(
+    channel: AlertNotificationChannel,
+    deliveryId: number | null,
+    recipients: string[],
+    send: () => Promise<void>
+  ): Promise<AlertNotificationDeliveryDto> {
+    if (!recipients.length) {
+      return { channel, delivery_id: deliveryId, recipients, status: "SKIPPED" };
+    }
+    try {
+      await send();
+      return { channel, delivery_id: deliveryId, recipients, status: "SENT" };
+    } catch (error) {
+      logger.error(
+        (error as Error).message || "Alert notification delivery failed",
+        error
+      );
+      return {
+        channel,
+        delivery_id: deliveryId,
+        recipients,
+        status: "FAILED",
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Sends notifications for one alert firing over every configured channel
+   *
+   * @param event - Firing details used to fill the templates
+   * @returns Per-channel delivery outcome, with one SMS entry per recipient
+   */
+  public async dispatch(
+    event: AlertNotificationEventDto
+  ): Promise<AlertNotificationResultDto> {
+    const result: AlertNotificationResultDto = {
+      telematic_alert_id: event.telematic_alert_id,
+      deliveries: [],
+    };
+
+    const alert = await prisma.telematic_alert.findUnique({
+      where: { telematic_alert_id: event.telematic_alert_id },
+      select: {
+        telematic_alert_id: true,
+        alert_name: true,
+        webhook: true,
+        created_by: true,
+        delivery_methods: true,
+        recipients_email: true,
+        recipients_mobile: true,
+        recipients_user_ids: true,
+        emailRecipientsObj: true,
+        textRecipientsObj: true,
+      },
+    });
+    if (!alert) return result;
+
+    const [deliveryMethods, templates, recipients, values] = await Promise.all([
+      prisma.delivery_method_lookup.findMany({
+        where: {
+          delivery_id: { in: alert.delivery_methods },
+          status: { equals: "ACTIVE", mode: "insensitive" },
+        },
+        select: { delivery_id: true, method_type: true },
+      }),
+      prisma.alert_templates.findMany({
+        where: {
+          alert_id: BigInt(alert.telematic_alert_id),
+          is_deleted: false,
+        },
+        select: {
+          delivery_id: true,
+          subject_template: true,
+          body_template: true,
+        },
+      }),
+      this.resolveRecipients(alert),
+      this.buildTemplateValues(alert.alert_name, event),
+    ]);
+
+    const channelTargets = new Map<AlertNotificationChannel, number | null>();
+    deliveryMethods.forEach((method) => {
+      const channel = resolveChannel(method.method_type);
+      if (channel && !channelTargets.has(channel)) {
+        channelTargets.set(channel, method.delivery_id);
+      }
+    });
+    if (alert.webhook && !channelTargets.has("webhook")) {
+      channelTargets.set("webhook", null);
+    }
+
+    // alert_templates.delivery_id may hold the lookup id or the method name
+    const renderFor = (channel: AlertNotificationChannel, deliveryId: number | null) => {
+      const template = templates.find((t) => {
+        const key = t.delivery_id.trim();
+        return (
+          (deliveryId !== null && key === String(deliveryId)) ||
+          resolveChannel(key) === channel
+        );
+      });
+      return {
+        subject: renderAlertTemplate(
+          template?.subject_template ?? DEFAULT_SUBJECT_TEMPLATE,
+          values
+        ),
+        body: renderAlertTemplate(
+          template?.body_template ?? DEFAULT_BODY_TEMPLATE,
+          values
+        ),
+      };
+    };
+
+    const channels = this.getChannels();
+    for (const [channel, deliveryId] of channelTargets) {
+      const { subject, body } = renderFor(channel, deliveryId);
+
+      if (channel === "email") {
+        result.deliveries.push(
+          await this.deliver(channel, deliveryId, recipients.emails, () =>
+            channels.email.send({
+              to: recipients.emails,
+              subject,
+              body,
+              alertName: String(values.alert_name),
+            })
+          )
+        );
+      } else if (channel === "sms") {
+        if (!recipients.mobiles.length) {
+          result.deliveries.push(
+            await this.deliver(channel, deliveryId, [], () => Promise.resolve())
+          );
+        }
+        // One message per number so a bad number does not hide the others' outcome
+        for (const to of recipients.mobiles) {
+          result.deliveries.push(
+            await this.deliver(channel, deliveryId, [to], () =>
+              channels.sms.sendSms({ to, body })
+            )
+          );
+        }
+      } else {
+        const payload: WebhookPayload = {
+          customer_id: event.customer_id,
+          created_by: alert.created_by ?? 0,
+          latitude: event.latitude,
+          longitude: event.longitude,
+          equipment_id: event.equipment_id,
+          account_id: event.account_id ?? undefined,
+          telematic_alert_id: alert.telematic_alert_id,
+          alert_type_id: event.alert_type_id,
+          alert_category_id: event.alert_category_id ?? undefined,
+          event_time: String(values.event_time),
+        };
+        result.deliveries.push(
+          await this.deliver(channel, deliveryId, [`customer:${event.customer_id}`], () =>
+            channels.webhook.send({
+              customerId: event.customer_id,
+              alert: { ...alert, subject, body },
+              payload,
+            })
+          )
+        );
+      }
+    }
+
+    logger.info(
+      "Dispatched %d notification deliveries for alert %d",
+      result.deliveries.length,
+      alert.telematic_alert_id
+    );
+    return result;
+  }
+}
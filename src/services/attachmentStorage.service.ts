@@ -0,0 +1,105 @@
+import fs from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+// eslint-disable-next-line n/no-extraneous-import
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import {
+  getAttachmentLocalDir,
+  getAttachmentStorageDriver,
+  getS3BucketName,
+} from "../config/env.config";
+import { ServiceError } from "../utils/responseUtils";
+
+export interface AttachmentDownloadOptions {
+  expiresInSeconds: number;
+  fileName?: string | null
+}
+
+/**
+ * Storage backend for attachment files
+ * Keys are object paths such as "attachments/1700000000-file.pdf"
+ */
+export interface AttachmentStorage {
+  getDownloadUrl(key: string, options: AttachmentDownloadOptions): Promise<string>
+}
+
+/**
+ * Extracts the storage key from a stored attachment URL
+ * Accepts full S3 URLs as saved by uploadFileToS3 or bare keys
+ *
+ * @param url - Value of attachment.url
+ * @returns Object key without leading slash
+ * @author chaitanya
+ */
+export const getAttachmentStorageKey = (url: string): string => {
+  if (!/^https?:\/\//i.test(url)) {
+    return url.replace(/^\/+/, "");
+  }
+  return decodeURIComponent(new URL(url).pathname).replace(/^\/+/, "");
+};
+
+const toContentDisposition = (fileName?: string | null): string | undefined =>
+  fileName
+    ? `attachment; filename="${fileName.replace(/["\\\r\n]/g, "_")}"`
+    : undefined;
+
+/**
+ * S3-backed store returning short-lived presigned GET URLs
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  public constructor(private readonly bucket: string = getS3BucketName()) {}
+
+  public async getDownloadUrl(
+    key: string,
+    options: AttachmentDownloadOptions
+  ): Promise<string> {
+    // s3.middleware validates AWS env vars on import, so load it lazily
+    const { s3 } = await import("../utils/s3.middleware");
+    return getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: toContentDisposition(options.fileName),
+      }),
+      { expiresIn: options.expiresInSeconds }
+    );
+  }
+}
+
+/**
+ * Filesystem-backed store for local development and tests
+ * Returns file:// URLs for keys resolved under the root directory
+ */
+export class LocalFileAttachmentStorage implements AttachmentStorage {
+  private readonly root: string;
+
+  public constructor(root: string = getAttachmentLocalDir()) {
+    this.root = path.resolve(root);
+  }
+
+  public async getDownloadUrl(key: string): Promise<string> {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new ServiceError("Invalid attachment key", 400);
+    }
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new ServiceError("Attachment file not found", 404);
+    }
+    return pathToFileURL(filePath).toString();
+  }
+}
+
+/**
+ * Builds the attachment store for the configured ATTACHMENT_STORAGE driver
+ *
+ * @returns S3 store by default, local filesystem store when driver is "local"
+ * @author chaitanya
+ */
+export const createAttachmentStorage = (): AttachmentStorage =>
+  getAttachmentStorageDriver() === "local"
+    ? new LocalFileAttachmentStorage()
+    : new S3AttachmentStorage();
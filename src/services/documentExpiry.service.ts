@@ -0,0 +1,557 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { getPagination, getPaginationMeta } from "../utils/pagination";
+import { ServiceError } from "../utils/responseUtils";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
+import { createActivityFeedService } from "./activityFeed.service";
+import {
+  ExpiringDocumentDto,
+  ExpiringDocumentOwnerType,
+  ExpiringDocumentQueryDto,
+} from "../types/dtos/attachment.dto";
+
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+const MAX_EXPIRY_WINDOW_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DOCUMENT_EXPIRING_EVENT_NAME = "Document Expiring";
+const EXPIRING_DOCUMENT_OWNER_TYPES: ExpiringDocumentOwnerType[] = [
+  "equipment",
+  "master_agreement",
+  "schedule_agreement",
+];
+
+const attachmentSelect = {
+  attachment_id: true,
+  name: true,
+  description: true,
+  mime_type: true,
+  document_category_type: true,
+  expiration_date: true,
+  expiry_notified_for: true,
+} satisfies Prisma.attachmentSelect;
+
+// Agreement accounts come from the allocations on their schedule line items
+const lineItemAccountSelect = {
+  schedule_agreement_line_item: {
+    select: { equipment_type_allocation: { select: { account_id: true } } },
+  },
+} satisfies Prisma.schedule_agreementSelect;
+
+interface ExpiringDocumentRow extends ExpiringDocumentDto {
+  link_id: bigint;
+  expiry_notified_for: Date | null;
+  latitude: number;
+  longitude: number
+}
+
+interface ExpiryWindow {
+  from?: Date;
+  to: Date
+}
+
+// One page entry from the SQL listing; rows are loaded afterwards by link id
+interface ExpiringDocumentKey {
+  owner_type: ExpiringDocumentOwnerType;
+  link_id: bigint
+}
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const buildExpiryWindow = (days: number, includeExpired: boolean): ExpiryWindow => {
+  const today = startOfDay(new Date());
+  const to = new Date(today.getTime() + (days + 1) * DAY_MS - 1);
+  return includeExpired ? { to } : { from: today, to };
+};
+
+const toDateFilter = (window: ExpiryWindow): Prisma.DateTimeFilter => ({
+  ...(window.from ? { gte: window.from } : {}),
+  lte: window.to,
+});
+
+// Link rows may carry their own expiry; fall back to the attachment's when they don't
+const buildLinkExpiryWhere = (window: ExpiryWindow, attachmentRelation: "attachment_ref" | "attachment") => ({
+  OR: [
+    { expiration_date: toDateFilter(window) },
+    { expiration_date: null, [attachmentRelation]: { expiration_date: toDateFilter(window) } },
+  ],
+});
+
+const uniqueAccountIds = (
+  accountIds: number[],
+  scope: number[] | null
+): number[] =>
+  [...new Set(accountIds)].filter((id) => !scope || scope.includes(id));
+
+const agreementAccountIds = (
+  agreements: Prisma.schedule_agreementGetPayload<{ select: typeof lineItemAccountSelect }>[]
+): number[] =>
+  agreements.flatMap((agreement) =>
+    agreement.schedule_agreement_line_item.flatMap((line) =>
+      line.equipment_type_allocation.map((allocation) => allocation.account_id)
+    )
+  );
+
+const toExpiringRow = (
+  attachment: Prisma.attachmentGetPayload<{ select: typeof attachmentSelect }>,
+  expirationDate: Date,
+  owner: {
+    owner_type: ExpiringDocumentOwnerType,
+    link_id: bigint,
+    owner_id: number,
+    owner_reference: string | null,
+    equipment_id?: number,
+    account_ids: number[],
+    latitude?: number,
+    longitude?: number
+  }
+): ExpiringDocumentRow => {
+  const daysUntilExpiry = Math.floor(
+    (startOfDay(expirationDate).getTime() - startOfDay(new Date()).getTime()) / DAY_MS
+  );
+  return {
+    link_id: owner.link_id,
+    attachment_id: Number(attachment.attachment_id),
+    name: attachment.name,
+    description: attachment.description,
+    mime_type: attachment.mime_type,
+    document_category_type: attachment.document_category_type,
+    owner_type: owner.owner_type,
+    owner_id: owner.owner_id,
+    owner_reference: owner.owner_reference,
+    equipment_id: owner.equipment_id ?? null,
+    account_ids: owner.account_ids,
+    expiration_date: expirationDate,
+    days_until_expiry: daysUntilExpiry,
+    is_expired: daysUntilExpiry < 0,
+    expiry_notified_for: attachment.expiry_notified_for,
+    latitude: owner.latitude ?? 0,
+    longitude: owner.longitude ?? 0,
+  };
+};
+
+const toExpiringDocumentDto = (row: ExpiringDocumentRow): ExpiringDocumentDto => ({
+  attachment_id: row.attachment_id,
+  name: row.name,
+  description: row.description,
+  mime_type: row.mime_type,
+  document_category_type: row.document_category_type,
+  owner_type: row.owner_type,
+  owner_id: row.owner_id,
+  owner_reference: row.owner_reference,
+  equipment_id: row.equipment_id,
+  account_ids: row.account_ids,
+  expiration_date: row.expiration_date,
+  days_until_expiry: row.days_until_expiry,
+  is_expired: row.is_expired,
+});
+
+// Equipment documents belong to the unit's current lessee only
+const findExpiringEquipmentDocuments = async (
+  window: ExpiryWindow,
+  accountScope: number[] | null,
+  linkIds?: bigint[]
+): Promise<ExpiringDocumentRow[]> => {
+  const activeAssignment = activeEquipmentAssignmentWhere();
+  const links = await prisma.equipment_has_attachment.findMany({
+    where: {
+      ...buildLinkExpiryWhere(window, "attachment_ref"),
+      ...(linkIds ? { equipment_has_attachment_id: { in: linkIds } } : {}),
+      is_current: true,
+      attachment_ref: { is_deleted: false },
+      ...(accountScope
+        ? {
+          equipment_ref: {
+            equipment_assignment: {
+              some: {
+                ...activeAssignment,
+                equipment_type_allocation_ref: { account_id: { in: accountScope } },
+              },
+            },
+          },
+        }
+        : {}),
+    },
+    select: {
+      equipment_has_attachment_id: true,
+      expiration_date: true,
+      attachment_ref: { select: attachmentSelect },
+      equipment_ref: {
+        select: {
+          equipment_id: true,
+          unit_number: true,
+          telematics: { select: { latitude: true, longitude: true } },
+          equipment_assignment: {
+            where: activeAssignment,
+            select: { equipment_type_allocation_ref: { select: { account_id: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  return links.flatMap((link) => {
+    const expirationDate = link.expiration_date ?? link.attachment_ref.expiration_date;
+    if (!expirationDate) return [];
+    const equipment = link.equipment_ref;
+    return [
+      toExpiringRow(link.attachment_ref, expirationDate, {
+        owner_type: "equipment",
+        link_id: link.equipment_has_attachment_id,
+        owner_id: equipment.equipment_id,
+        owner_reference: equipment.unit_number,
+        equipment_id: equipment.equipment_id,
+        account_ids: uniqueAccountIds(
+          equipment.equipment_assignment.map(
+            (assignment) => assignment.equipment_type_allocation_ref.account_id
+          ),
+          accountScope
+        ),
+        latitude: equipment.telematics?.latitude?.toNumber(),
+        longitude: equipment.telematics?.longitude?.toNumber(),
+      }),
+    ];
+  });
+};
+
+const findExpiringMasterAgreementDocuments = async (
+  window: ExpiryWindow,
+  accountScope: number[] | null,
+  linkIds?: bigint[]
+): Promise<ExpiringDocumentRow[]> => {
+  const accountWhere: Prisma.schedule_agreementWhereInput | undefined = accountScope
+    ? {
+      schedule_agreement_line_item: {
+        some: { equipment_type_allocation: { some: { account_id: { in: accountScope } } } },
+      },
+    }
+    : undefined;
+
+  const links = await prisma.master_agreement_has_attachment.findMany({
+    where: {
+      ...buildLinkExpiryWhere(window, "attachment"),
+      ...(linkIds ? { master_agreement_has_attachment_id: { in: linkIds } } : {}),
+      attachment: { is_deleted: false },
+      ...(accountWhere ? { master_agreement: { schedule_agreement: { some: accountWhere } } } : {}),
+    },
+    select: {
+      master_agreement_has_attachment_id: true,
+      expiration_date: true,
+      attachment: { select: attachmentSelect },
+      master_agreement: {
+        select: {
+          master_agreement_id: true,
+          master_agreement_ref: true,
+          schedule_agreement: { select: lineItemAccountSelect },
+        },
+      },
+    },
+  });
+
+  return links.flatMap((link) => {
+    const expirationDate = link.expiration_date ?? link.attachment.expiration_date;
+    if (!expirationDate) return [];
+    return [
+      toExpiringRow(link.attachment, expirationDate, {
+        owner_type: "master_agreement",
+        link_id: link.master_agreement_has_attachment_id,
+        owner_id: link.master_agreement.master_agreement_id,
+        owner_reference: link.master_agreement.master_agreement_ref,
+        account_ids: uniqueAccountIds(
+          agreementAccountIds(link.master_agreement.schedule_agreement),
+          accountScope
+        ),
+      }),
+    ];
+  });
+};
+
+const findExpiringScheduleAgreementDocuments = async (
+  window: ExpiryWindow,
+  accountScope: number[] | null,
+  linkIds?: bigint[]
+): Promise<ExpiringDocumentRow[]> => {
+  const links = await prisma.schedule_agreement_has_attachment.findMany({
+    where: {
+      ...buildLinkExpiryWhere(window, "attachment"),
+      ...(linkIds ? { schedule_agreement_has_attachment_id: { in: linkIds } } : {}),
+      attachment: { is_deleted: false },
+      ...(accountScope
+        ? {
+          schedule_agreement_ref: {
+            schedule_agreement_line_item: {
+              some: { equipment_type_allocation: { some: { account_id: { in: accountScope } } } },
+            },
+          },
+        }
+        : {}),
+    },
+    select: {
+      schedule_agreement_has_attachment_id: true,
+      expiration_date: true,
+      attachment: { select: attachmentSelect },
+      schedule_agreement_ref: {
+        select: {
+          schedule_agreement_id: true,
+          schedule_agreement_ref: true,
+          ...lineItemAccountSelect,
+        },
+      },
+    },
+  });
+
+  return links.flatMap((link) => {
+    if (!link.attachment) return [];
+    const expirationDate = link.expiration_date ?? link.attachment.expiration_date;
+    if (!expirationDate) return [];
+    const agreement = link.schedule_agreement_ref;
+    return [
+      toExpiringRow(link.attachment, expirationDate, {
+        owner_type: "schedule_agreement",
+        link_id: link.schedule_agreement_has_attachment_id,
+        owner_id: agreement.schedule_agreement_id,
+        owner_reference: agreement.schedule_agreement_ref,
+        account_ids: uniqueAccountIds(agreementAccountIds([agreement]), accountScope),
+      }),
+    ];
+  });
+};
+
+const expiringDocumentFinders: Record<
+  ExpiringDocumentOwnerType,
+  (w: ExpiryWindow, scope: number[] | null, linkIds?: bigint[]) => Promise<ExpiringDocumentRow[]>
+> = {
+  equipment: findExpiringEquipmentDocuments,
+  master_agreement: findExpiringMasterAgreementDocuments,
+  schedule_agreement: findExpiringScheduleAgreementDocuments,
+};
+
+const findExpiringDocuments = async (
+  window: ExpiryWindow,
+  accountScope: number[] | null,
+  ownerTypes: ExpiringDocumentOwnerType[] = EXPIRING_DOCUMENT_OWNER_TYPES
+): Promise<ExpiringDocumentRow[]> => {
+  const results = await Promise.all(
+    ownerTypes.map((ownerType) => expiringDocumentFinders[ownerType](window, accountScope))
+  );
+  return results
+    .flat()
+    .sort((a, b) => a.expiration_date.getTime() - b.expiration_date.getTime());
+};
+
+/**
+ * Builds the UNION of expiring document links visible to the accounts, one row per link
+ * Mirrors the Prisma finders so the listing can be counted, sorted and paged in the database
+ */
+const buildExpiringDocumentKeysSql = (
+  window: ExpiryWindow,
+  accountIds: number[],
+  ownerTypes: ExpiringDocumentOwnerType[]
+): Prisma.Sql => {
+  const now = new Date();
+  const accounts = Prisma.join(accountIds);
+  const sources: Record<ExpiringDocumentOwnerType, Prisma.Sql> = {
+    equipment: Prisma.sql`
+      SELECT 'equipment' AS owner_type, l.equipment_has_attachment_id AS link_id,
+        COALESCE(l.expiration_date, a.expiration_date) AS expires_at
+      FROM equipment_has_attachment l
+      JOIN attachment a ON a.attachment_id = l.attachment_id
+      WHERE l.is_current AND NOT a.is_deleted AND EXISTS (
+        SELECT 1 FROM equipment_assignment ea
+        JOIN equipment_type_allocation eta
+          ON eta.equipment_type_allocation_id = ea.equipment_type_allocation_id
+        WHERE ea.equipment_id = l.equipment_id
+          AND ea.activation_date <= ${now} AND ea.deactivation_date > ${now}
+          AND eta.account_id IN (${accounts})
+      )`,
+    master_agreement: Prisma.sql`
+      SELECT 'master_agreement' AS owner_type, l.master_agreement_has_attachment_id AS link_id,
+        COALESCE(l.expiration_date, a.expiration_date) AS expires_at
+      FROM master_agreement_has_attachment l
+      JOIN attachment a ON a.attachment_id = l.attachment_id
+      WHERE NOT a.is_deleted AND EXISTS (
+        SELECT 1 FROM schedule_agreement sa
+        JOIN schedule_agreement_line_item li ON li.schedule_agreement_id = sa.schedule_agreement_id
+        JOIN equipment_type_allocation eta
+          ON eta.schedule_agreement_line_item_id = li.schedule_agreement_line_item_id
+        WHERE sa.master_agreement_id = l.master_agreement_id AND eta.account_id IN (${accounts})
+      )`,
+    schedule_agreement: Prisma.sql`
+      SELECT 'schedule_agreement' AS owner_type, l.schedule_agreement_has_attachment_id AS link_id,
+        COALESCE(l.expiration_date, a.expiration_date) AS expires_at
+      FROM schedule_agreement_has_attachment l
+      JOIN attachment a ON a.attachment_id = l.attachment_id
+      WHERE NOT a.is_deleted AND EXISTS (
+        SELECT 1 FROM schedule_agreement_line_item li
+        JOIN equipment_type_allocation eta
+          ON eta.schedule_agreement_line_item_id = li.schedule_agreement_line_item_id
+        WHERE li.schedule_agreement_id = l.schedule_agreement_id AND eta.account_id IN (${accounts})
+      )`,
+  };
+  return Prisma.sql`
+    SELECT owner_type, link_id, expires_at
+    FROM (${Prisma.join(ownerTypes.map((type) => sources[type]), " UNION ALL ")}) docs
+    WHERE expires_at <= ${window.to}
+      ${window.from ? Prisma.sql`AND expires_at >= ${window.from}` : Prisma.empty}`;
+};
+
+const parseAccountIds = (value?: string): number[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed.map(Number).filter((id) => Number.isInteger(id) && id > 0);
+    }
+  } catch {
+    // Fall through to comma-separated parsing
+  }
+  return value
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+};
+
+/**
+ * Lists equipment and agreement documents expiring within N days for the given accounts
+ * Covers registrations and certificates on equipment plus master and schedule agreement addenda
+ *
+ * @param query - account_ids (required), days (default 30), include_expired, owner_type and pagination
+ * @returns Paginated documents ordered by soonest expiry
+ * @author chaitanya
+ */
+export const getExpiringDocumentsService = async (query: ExpiringDocumentQueryDto) => {
+  const accountIds = parseAccountIds(query.account_ids);
+  if (!accountIds.length) {
+    throw new ServiceError("account_ids is required", 400);
+  }
+
+  const days = query.days === undefined ? DEFAULT_EXPIRY_WINDOW_DAYS : Number(query.days);
+  if (!Number.isInteger(days) || days < 0 || days > MAX_EXPIRY_WINDOW_DAYS) {
+    throw new ServiceError(
+      `days must be an integer between 0 and ${MAX_EXPIRY_WINDOW_DAYS}`,
+      400
+    );
+  }
+
+  let ownerTypes = EXPIRING_DOCUMENT_OWNER_TYPES;
+  if (query.owner_type) {
+    ownerTypes = query.owner_type
+      .split(",")
+      .map((type) => type.trim())
+      .filter((type): type is ExpiringDocumentOwnerType =>
+        EXPIRING_DOCUMENT_OWNER_TYPES.includes(type as ExpiringDocumentOwnerType)
+      );
+    if (!ownerTypes.length) {
+      throw new ServiceError(
+        `owner_type must be one of: ${EXPIRING_DOCUMENT_OWNER_TYPES.join(", ")}`,
+        400
+      );
+    }
+  }
+
+  const window = buildExpiryWindow(days, query.include_expired === "true");
+  const keysSql = buildExpiringDocumentKeysSql(window, accountIds, ownerTypes);
+  const { page, perPage, skip, take } = getPagination(query);
+  const [[{ total }], keys] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`SELECT COUNT(*)::int AS total FROM (${keysSql}) keys`,
+    prisma.$queryRaw<ExpiringDocumentKey[]>`
+      SELECT owner_type, link_id FROM (${keysSql}) keys
+      ORDER BY expires_at ASC, owner_type ASC, link_id ASC
+      LIMIT ${take} OFFSET ${skip}`,
+  ]);
+
+  // Load the page's rows through the finders, then restore the SQL order
+  const pageRows = await Promise.all(
+    ownerTypes.map((ownerType) => {
+      const linkIds = keys.filter((key) => key.owner_type === ownerType).map((key) => key.link_id);
+      return linkIds.length
+        ? expiringDocumentFinders[ownerType](window, accountIds, linkIds)
+        : Promise.resolve([]);
+    })
+  );
+  const rowByKey = new Map(pageRows.flat().map((row) => [`${row.owner_type}:${row.link_id}`, row]));
+  const data: ExpiringDocumentDto[] = keys.flatMap((key) => {
+    const row = rowByKey.get(`${key.owner_type}:${key.link_id}`);
+    return row ? [toExpiringDocumentDto(row)] : [];
+  });
+
+  return { data, meta: getPaginationMeta(total, page, perPage) };
+};
+
+const getDocumentExpiringAlertTypeId = async (): Promise<number> => {
+  const existing = await prisma.alert_type_lookup.findFirst({
+    where: { event_name: DOCUMENT_EXPIRING_EVENT_NAME, customer_id: null },
+    select: { alert_type_lookup_id: true },
+  });
+  if (existing) return existing.alert_type_lookup_id;
+
+  const created = await prisma.alert_type_lookup.create({
+    data: {
+      event_name: DOCUMENT_EXPIRING_EVENT_NAME,
+      event_type: "document",
+      operation_type: "expiry",
+      status: "ACTIVE",
+    },
+    select: { alert_type_lookup_id: true },
+  });
+  return created.alert_type_lookup_id;
+};
+
+/**
+ * Raises "Document Expiring" activity feed entries for documents expiring within the window
+ * Each attachment is raised once per expiration date, so renewals with a new date raise again
+ *
+ * @param windowDays - Days ahead to look for expiring documents
+ * @returns Number of activity feed entries created
+ * @author chaitanya
+ */
+export const raiseDocumentExpiryActivityService = async (
+  windowDays = DEFAULT_EXPIRY_WINDOW_DAYS
+): Promise<number> => {
+  const rows = await findExpiringDocuments(buildExpiryWindow(windowDays, false), null);
+  const pending = rows.filter(
+    (row) =>
+      row.account_ids.length &&
+      row.expiry_notified_for?.getTime() !== row.expiration_date.getTime()
+  );
+  if (!pending.length) return 0;
+
+  const alertTypeId = await getDocumentExpiringAlertTypeId();
+  const accounts = await prisma.account.findMany({
+    where: { account_id: { in: [...new Set(pending.flatMap((row) => row.account_ids))] } },
+    select: { account_id: true, customer_id: true },
+  });
+  const customerByAccount = new Map(accounts.map((a) => [a.account_id, a.customer_id]));
+
+  let created = 0;
+  for (const row of pending) {
+    for (const accountId of row.account_ids) {
+      const customerId = customerByAccount.get(accountId);
+      if (customerId === undefined) continue;
+      await createActivityFeedService({
+        equipment_id: row.equipment_id ?? undefined,
+        account_id: accountId,
+        customer_id: customerId,
+        alert_type_id: alertTypeId,
+        latitude: row.latitude,
+        longitude: row.longitude,
+      });
+      created++;
+    }
+    await prisma.attachment.update({
+      where: { attachment_id: BigInt(row.attachment_id) },
+      data: { expiry_notified_for: row.expiration_date },
+    });
+  }
+
+  logger.info(
+    "Raised %d document expiry activity entries for %d attachments",
+    created,
+    pending.length
+  );
+  return created;
+};
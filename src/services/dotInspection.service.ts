@@ -0,0 +1,397 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { findAccountOnDate } from "./gateInspection.service";
+import {
+  DotCorrectiveActionDto,
+  DotInspectionCreateDto,
+  DotViolationInputDto,
+  EquipmentDotStatus,
+} from "../types/dtos/pm.dto";
+
+const PASSING_RESULTS = ["PASS", "PASSED"];
+const OUT_OF_SERVICE_SEVERITIES = ["OUT_OF_SERVICE", "OOS"];
+// Urgency used for service requests opened for out-of-service violations
+const OOS_SERVICE_URGENCY_CODE = "BUSINESS_HOURS";
+const DEFAULT_INSPECTION_TYPE = "ANNUAL";
+
+const violationSelect = {
+  dot_inspection_violation_id: true,
+  dot_inspection_id: true,
+  violation_code: true,
+  description: true,
+  severity_level: true,
+  is_out_of_service: true,
+  corrective_action_taken: true,
+  corrective_action_date: true,
+  service_request_id: true,
+} satisfies Prisma.dot_inspection_violationSelect;
+
+const inspectionSelect = {
+  dot_inspection_id: true,
+  equipment_id: true,
+  account_id: true,
+  schedule_agreement_id: true,
+  inspection_date: true,
+  inspector_name: true,
+  inspection_result: true,
+  type: true,
+  notes: true,
+  compliance: true,
+  next_inspection_due: true,
+  valid_through: true,
+  status: true,
+  created_at: true,
+  created_by: true,
+  dot_inspection_violation: {
+    orderBy: { dot_inspection_violation_id: "asc" },
+    select: violationSelect,
+  },
+} satisfies Prisma.dot_inspectionSelect;
+
+const toCode = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+
+const parseDate = (value: string, field: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ServiceError(`${field} must be a valid date`, 400);
+  }
+  return date;
+};
+
+const parsePastDate = (value: string, field: string): Date => {
+  const date = parseDate(value, field);
+  if (date.getTime() > Date.now() + 5 * 60 * 1000) {
+    throw new ServiceError(`${field} cannot be in the future`, 400);
+  }
+  return date;
+};
+
+const isOutOfService = (violation: DotViolationInputDto) =>
+  violation.is_out_of_service === true ||
+  OUT_OF_SERVICE_SEVERITIES.includes(toCode(violation.severity_level));
+
+/**
+ * Resolves the agreement an inspection is recorded under
+ * Falls back to the unit's previous inspection, then its PM schedule
+ */
+const resolveScheduleAgreementId = async (
+  equipmentId: number,
+  scheduleAgreementId?: number
+): Promise<number> => {
+  if (scheduleAgreementId !== undefined) {
+    const agreement = await prisma.schedule_agreement.findUnique({
+      where: { schedule_agreement_id: scheduleAgreementId },
+      select: { schedule_agreement_id: true },
+    });
+    if (!agreement) {
+      throw new ServiceError("Schedule agreement not found", 404);
+    }
+    return agreement.schedule_agreement_id;
+  }
+  const [previous, pmSchedule] = await Promise.all([
+    prisma.dot_inspection.findFirst({
+      where: { equipment_id: equipmentId },
+      orderBy: { inspection_date: "desc" },
+      select: { schedule_agreement_id: true },
+    }),
+    prisma.preventive_maintenance_schedule.findFirst({
+      where: { equipment_id: equipmentId },
+      orderBy: { pm_schedule_id: "desc" },
+      select: { schedule_agreement_id: true },
+    }),
+  ]);
+  const resolved = previous?.schedule_agreement_id ?? pmSchedule?.schedule_agreement_id;
+  if (resolved === undefined) {
+    throw new ServiceError(
+      "schedule_agreement_id is required for a unit with no previous inspection or PM schedule",
+      400
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Recomputes equipment.dot_cvi_status and dot_cvi_expire from the unit's inspections
+ * OUT_OF_SERVICE while any out-of-service violation is open; otherwise EXPIRED, FAILED or
+ * PASSED from the latest inspection
+ *
+ * @param equipmentId - Unit to refresh
+ * @param client - Prisma client or transaction client
+ * @returns Updated DOT status and expiry
+ * @author chaitanya
+ */
+export const refreshEquipmentDotStatusService = async (
+  equipmentId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<EquipmentDotStatus> => {
+  const [latest, openOos] = await Promise.all([
+    client.dot_inspection.findFirst({
+      where: { equipment_id: equipmentId },
+      orderBy: [{ inspection_date: "desc" }, { dot_inspection_id: "desc" }],
+      select: { inspection_result: true, valid_through: true, next_inspection_due: true },
+    }),
+    client.dot_inspection_violation.count({
+      where: {
+        is_out_of_service: true,
+        corrective_action_date: null,
+        dot_inspection: { equipment_id: equipmentId },
+      },
+    }),
+  ]);
+
+  const expire = latest ? latest.valid_through ?? latest.next_inspection_due : null;
+  let status: string | null = null;
+  if (openOos) status = "OUT_OF_SERVICE";
+  else if (expire && expire < new Date()) status = "EXPIRED";
+  else if (latest) {
+    status = PASSING_RESULTS.includes(toCode(latest.inspection_result)) ? "PASSED" : "FAILED";
+  }
+
+  await client.equipment.update({
+    where: { equipment_id: equipmentId },
+    data: { dot_cvi_status: status, dot_cvi_expire: expire, updated_at: new Date() },
+  });
+  return { dot_cvi_status: status, dot_cvi_expire: expire };
+};
+
+/**
+ * Opens one service request covering an inspection's out-of-service violations
+ * The inspecting user is the requester and primary contact
+ */
+const openOutOfServiceRequest = async (
+  tx: Prisma.TransactionClient,
+  inspection: {
+    dot_inspection_id: number,
+    equipment_id: number,
+    account_id: number,
+    schedule_agreement_id: number
+  },
+  violations: { violation_code: string, description: string }[],
+  userId: number
+): Promise<number> => {
+  const [urgency, agreement, user] = await Promise.all([
+    tx.service_urgency_lookup.findUnique({
+      where: { urgency_code: OOS_SERVICE_URGENCY_CODE },
+      select: { service_urgency_lookup_id: true },
+    }),
+    tx.schedule_agreement.findUnique({
+      where: { schedule_agreement_id: inspection.schedule_agreement_id },
+      select: { facility_lookup_id: true },
+    }),
+    tx.user.findUnique({
+      where: { user_id: userId },
+      select: { first_name: true, last_name: true, email: true, phone_number: true },
+    }),
+  ]);
+  if (!urgency) {
+    throw new ServiceError(`Service urgency ${OOS_SERVICE_URGENCY_CODE} is not configured`, 500);
+  }
+  if (!user) {
+    throw new ServiceError("Inspecting user not found", 404);
+  }
+
+  const now = new Date();
+  const contactName = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  const request = await tx.service_request.create({
+    data: {
+      account_id: inspection.account_id,
+      equipment_id: inspection.equipment_id,
+      service_urgency_lookup_id: urgency.service_urgency_lookup_id,
+      facility_lookup_id: agreement?.facility_lookup_id ?? null,
+      issue_description:
+        `Out-of-service violations from DOT inspection ${inspection.dot_inspection_id}: ` +
+        violations.map((v) => `${v.violation_code} - ${v.description}`).join("; "),
+      is_loaded: false,
+      is_hazardous: false,
+      is_driver_available: false,
+      to_save_location: false,
+      primary_contact_name: contactName || (user.email ?? ""),
+      primary_contact_method: ["email"],
+      primary__contact_phonenumber: user.phone_number ?? "",
+      primary_contact_email: user.email ?? "",
+      service_request_status: "submitted",
+      status_updated_at: now,
+      created_by: userId,
+      created_at: now,
+      status_history: {
+        create: { to_status: "submitted", changed_by: userId, changed_at: now },
+      },
+    },
+    select: { service_request_id: true },
+  });
+  return request.service_request_id;
+};
+
+/**
+ * Records a DOT inspection with its violations
+ * Out-of-service violations open a service request for the unit, and the unit's
+ * dot_cvi_status / dot_cvi_expire are refreshed in the same transaction
+ *
+ * @param body - Inspection details and violations
+ * @returns Created inspection with violations and the unit's DOT status
+ * @author chaitanya
+ */
+export const createDotInspectionService = async (body: DotInspectionCreateDto) => {
+  const inspectionDate = parsePastDate(body.inspection_date, "inspection_date");
+  const equipment = await prisma.equipment.findFirst({
+    where: { equipment_id: body.equipment_id, is_deleted: false },
+    select: { equipment_id: true },
+  });
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+
+  const violations = body.violations ?? [];
+  const oosViolations = violations.filter(
+    (v) => isOutOfService(v) && !v.corrective_action_date
+  );
+  const userId = body.created_by ?? null;
+  if (oosViolations.length && userId === null) {
+    throw new ServiceError(
+      "A signed-in user is required to open a service request for out-of-service violations",
+      401
+    );
+  }
+
+  const [scheduleAgreementId, accountId] = await Promise.all([
+    resolveScheduleAgreementId(body.equipment_id, body.schedule_agreement_id),
+    findAccountOnDate(body.equipment_id, inspectionDate),
+  ]);
+  if (accountId === null) {
+    throw new ServiceError("Unit was not assigned to an account on the inspection date", 409);
+  }
+
+  // Annual inspections are valid for a year unless the inspector records otherwise
+  const defaultExpiry = new Date(inspectionDate);
+  defaultExpiry.setFullYear(defaultExpiry.getFullYear() + 1);
+  const validThrough = body.valid_through ? parseDate(body.valid_through, "valid_through") : defaultExpiry;
+  const nextDue = body.next_inspection_due
+    ? parseDate(body.next_inspection_due, "next_inspection_due")
+    : validThrough;
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const inspection = await tx.dot_inspection.create({
+      data: {
+        equipment_id: body.equipment_id,
+        account_id: accountId,
+        schedule_agreement_id: scheduleAgreementId,
+        inspection_date: inspectionDate,
+        inspector_name: body.inspector_name.trim(),
+        inspection_result: toCode(body.inspection_result),
+        type: body.type ?? DEFAULT_INSPECTION_TYPE,
+        notes: body.notes ?? null,
+        compliance: body.compliance ?? null,
+        valid_through: validThrough,
+        next_inspection_due: nextDue,
+        created_at: now,
+        created_by: userId,
+      },
+      select: {
+        dot_inspection_id: true,
+        equipment_id: true,
+        account_id: true,
+        schedule_agreement_id: true,
+      },
+    });
+
+    const serviceRequestId =
+      oosViolations.length && userId !== null
+        ? await openOutOfServiceRequest(tx, inspection, oosViolations, userId)
+        : null;
+
+    if (violations.length) {
+      await tx.dot_inspection_violation.createMany({
+        data: violations.map((v) => {
+          const oos = isOutOfService(v);
+          const closedAt = v.corrective_action_date
+            ? parsePastDate(v.corrective_action_date, "corrective_action_date")
+            : null;
+          return {
+            dot_inspection_id: inspection.dot_inspection_id,
+            violation_code: v.violation_code.trim().toUpperCase(),
+            description: v.description.trim(),
+            severity_level: toCode(v.severity_level),
+            is_out_of_service: oos,
+            corrective_action_taken: v.corrective_action_taken ?? null,
+            corrective_action_date: closedAt,
+            service_request_id: oos && !closedAt ? serviceRequestId : null,
+            created_at: now,
+            created_by: userId,
+          };
+        }),
+      });
+    }
+
+    const dotStatus = await refreshEquipmentDotStatusService(body.equipment_id, tx);
+    if (serviceRequestId !== null) {
+      logger.info(
+        "Opened service request %d for %d out-of-service violations on DOT inspection %d",
+        serviceRequestId,
+        oosViolations.length,
+        inspection.dot_inspection_id
+      );
+    }
+
+    const created = await tx.dot_inspection.findUniqueOrThrow({
+      where: { dot_inspection_id: inspection.dot_inspection_id },
+      select: inspectionSelect,
+    });
+    return { ...created, service_request_id: serviceRequestId, equipment_dot_status: dotStatus };
+  });
+};
+
+/**
+ * Records the corrective action taken for a violation and closes it
+ * Closing the unit's last open out-of-service violation lifts its OUT_OF_SERVICE status
+ *
+ * @param violationId - Violation to close
+ * @param body - Corrective action taken and closure date
+ * @returns Updated violation and the unit's DOT status
+ * @author chaitanya
+ */
+export const recordDotCorrectiveActionService = async (
+  violationId: number,
+  body: DotCorrectiveActionDto
+) => {
+  const violation = await prisma.dot_inspection_violation.findUnique({
+    where: { dot_inspection_violation_id: violationId },
+    select: {
+      dot_inspection_violation_id: true,
+      dot_inspection: { select: { equipment_id: true, inspection_date: true } },
+    },
+  });
+  if (!violation) {
+    throw new ServiceError("DOT inspection violation not found", 404);
+  }
+  const action = body.corrective_action_taken.trim();
+  if (!action) {
+    throw new ServiceError("corrective_action_taken is required", 400);
+  }
+  const closedAt = body.corrective_action_date
+    ? parsePastDate(body.corrective_action_date, "corrective_action_date")
+    : new Date();
+  if (closedAt < violation.dot_inspection.inspection_date) {
+    throw new ServiceError("corrective_action_date cannot be before the inspection date", 400);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.dot_inspection_violation.update({
+      where: { dot_inspection_violation_id: violationId },
+      data: {
+        corrective_action_taken: action,
+        corrective_action_date: closedAt,
+        updated_at: new Date(),
+        updated_by: body.updated_by ?? null,
+      },
+      select: violationSelect,
+    });
+    const dotStatus = await refreshEquipmentDotStatusService(
+      violation.dot_inspection.equipment_id,
+      tx
+    );
+    return { ...updated, equipment_dot_status: dotStatus };
+  });
+};
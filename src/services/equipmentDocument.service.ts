@@ -0,0 +1,319 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { uploadFileToS3 } from "../utils/s3.middleware";
+import { getAttachmentDownloadPath } from "./fileupload.service";
+import {
+  EquipmentDocumentBody,
+  EquipmentDocumentDto,
+  EquipmentDocumentQueryDto,
+} from "../types/dtos/attachment.dto";
+
+const MAX_DOCUMENTS_PER_REQUEST = 10;
+const MAX_CATEGORY_LENGTH = 50;
+
+const documentSelect = {
+  equipment_id: true,
+  expiration_date: true,
+  date_uploaded: true,
+  version: true,
+  is_current: true,
+  superseded_at: true,
+  superseded_by: true,
+  attachment_ref: {
+    select: {
+      attachment_id: true,
+      name: true,
+      mime_type: true,
+      document_category_type: true,
+      description: true,
+      expiration_date: true,
+    },
+  },
+} satisfies Prisma.equipment_has_attachmentSelect;
+
+type DocumentRow = Prisma.equipment_has_attachmentGetPayload<{
+  select: typeof documentSelect
+}>;
+
+const toDocumentDto = (row: DocumentRow): EquipmentDocumentDto => ({
+  attachment_id: Number(row.attachment_ref.attachment_id),
+  name: row.attachment_ref.name,
+  download_path: getAttachmentDownloadPath(row.attachment_ref.attachment_id),
+  mime_type: row.attachment_ref.mime_type,
+  document_category_type: row.attachment_ref.document_category_type,
+  description: row.attachment_ref.description,
+  date_uploaded: row.date_uploaded,
+  expiration_date: row.expiration_date ?? row.attachment_ref.expiration_date,
+  equipment_id: row.equipment_id,
+  version: row.version,
+  is_current: row.is_current,
+  superseded_at: row.superseded_at,
+  superseded_by: row.superseded_by === null ? null : Number(row.superseded_by),
+});
+
+const normalizeCategory = (category?: string): string | undefined => {
+  const normalized = category?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  if (normalized.length > MAX_CATEGORY_LENGTH) {
+    throw new ServiceError(
+      `document_category_type must be at most ${MAX_CATEGORY_LENGTH} characters`,
+      400
+    );
+  }
+  return normalized;
+};
+
+const assertEquipmentExists = async (equipmentId: number) => {
+  const equipment = await prisma.equipment.findUnique({
+    where: { equipment_id: equipmentId },
+    select: { equipment_id: true },
+  });
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+};
+
+/**
+ * Lists the document library for a unit
+ * Returns current versions only unless include_history is "true"
+ *
+ * @param equipmentId - Equipment whose documents are listed
+ * @param query - Optional document_category_type (comma separated) and include_history
+ * @returns Documents grouped by category, newest version first
+ * @author chaitanya
+ */
+export const getEquipmentDocumentsService = async (
+  equipmentId: number,
+  query: EquipmentDocumentQueryDto = {}
+): Promise<EquipmentDocumentDto[]> => {
+  const categories = query.document_category_type
+    ?.split(",")
+    .map((category) => category.trim().toLowerCase())
+    .filter(Boolean);
+
+  const rows = await prisma.equipment_has_attachment.findMany({
+    where: {
+      equipment_id: equipmentId,
+      ...(query.include_history === "true" ? {} : { is_current: true }),
+      attachment_ref: {
+        is_deleted: false,
+        ...(categories?.length
+          ? { document_category_type: { in: categories, mode: "insensitive" } }
+          : {}),
+      },
+    },
+    orderBy: [
+      { attachment_ref: { document_category_type: "asc" } },
+      { version: "desc" },
+      { date_uploaded: "desc" },
+    ],
+    select: documentSelect,
+  });
+
+  return rows.map(toDocumentDto);
+};
+
+/**
+ * Uploads documents to a unit's library
+ * With replace_existing, the current document of the same category is superseded
+ * and the upload becomes the next version
+ *
+ * @param equipmentId - Equipment receiving the documents
+ * @param files - Uploaded files from multer
+ * @param body - Category, description, expiration date, replace flag and creator
+ * @returns Created documents
+ * @author chaitanya
+ */
+export const addEquipmentDocumentsService = async (
+  equipmentId: number,
+  files: Express.Multer.File[],
+  body: EquipmentDocumentBody
+): Promise<EquipmentDocumentDto[]> => {
+  if (!files.length) {
+    throw new ServiceError("No files uploaded", 400);
+  }
+  if (files.length > MAX_DOCUMENTS_PER_REQUEST) {
+    throw new ServiceError(
+      `A maximum of ${MAX_DOCUMENTS_PER_REQUEST} files can be uploaded at once`,
+      400
+    );
+  }
+
+  const category = normalizeCategory(body.document_category_type);
+  const replaceExisting =
+    body.replace_existing === true || body.replace_existing === "true";
+  if (replaceExisting && (!category || files.length !== 1)) {
+    throw new ServiceError(
+      "Replacing a document requires document_category_type and exactly one file",
+      400
+    );
+  }
+
+  const expirationDate = body.expiration_date ? new Date(body.expiration_date) : null;
+  if (expirationDate && isNaN(expirationDate.getTime())) {
+    throw new ServiceError("Invalid expiration_date", 400);
+  }
+  const createdBy = body.created_by ?? null;
+
+  await assertEquipmentExists(equipmentId);
+
+  const uploads: {
+    file: Express.Multer.File,
+    uploaded: Awaited<ReturnType<typeof uploadFileToS3>>
+  }[] = [];
+  for (const file of files) {
+    uploads.push({ file, uploaded: await uploadFileToS3(file) });
+  }
+
+  const now = new Date();
+  const created = await prisma.$transaction(async (tx) => {
+    // Lock the unit so concurrent replacements read the latest version one at a time
+    await tx.$queryRaw`SELECT equipment_id FROM equipment WHERE equipment_id = ${equipmentId} FOR UPDATE`;
+    let version = 1;
+    let supersededIds: bigint[] = [];
+    if (replaceExisting && category) {
+      const categoryWhere = {
+        equipment_id: equipmentId,
+        attachment_ref: {
+          is_deleted: false,
+          document_category_type: { equals: category, mode: "insensitive" as const },
+        },
+      };
+      const [latest, current] = await Promise.all([
+        tx.equipment_has_attachment.aggregate({
+          where: categoryWhere,
+          _max: { version: true },
+        }),
+        tx.equipment_has_attachment.findMany({
+          where: { ...categoryWhere, is_current: true },
+          select: { equipment_has_attachment_id: true },
+        }),
+      ]);
+      version = (latest._max.version ?? 0) + 1;
+      supersededIds = current.map((row) => row.equipment_has_attachment_id);
+    }
+
+    const rows: DocumentRow[] = [];
+    for (const { file, uploaded } of uploads) {
+      const attachment = await tx.attachment.create({
+        data: {
+          mime_type: file.mimetype,
+          document_category_type: category ?? uploaded.document_category_type,
+          name: file.originalname,
+          description: body.description ?? null,
+          date_uploaded: now,
+          url: uploaded.url,
+          expiration_date: expirationDate,
+          created_at: now,
+          created_by: createdBy,
+        },
+        select: { attachment_id: true },
+      });
+
+      if (supersededIds.length) {
+        await tx.equipment_has_attachment.updateMany({
+          where: { equipment_has_attachment_id: { in: supersededIds } },
+          data: {
+            is_current: false,
+            superseded_at: now,
+            superseded_by: attachment.attachment_id,
+          },
+        });
+      }
+
+      rows.push(
+        await tx.equipment_has_attachment.create({
+          data: {
+            equipment_id: equipmentId,
+            attachment_id: attachment.attachment_id,
+            date_uploaded: now,
+            expiration_date: expirationDate,
+            version,
+            is_current: true,
+            created_at: now,
+            created_by: createdBy,
+          },
+          select: documentSelect,
+        })
+      );
+    }
+    return rows;
+  });
+
+  logger.info(
+    "Added %d documents to equipment %d (version %d)",
+    created.length,
+    equipmentId,
+    created[0]?.version ?? 1
+  );
+  return created.map(toDocumentDto);
+};
+
+/**
+ * Removes a document from a unit's library by soft-deleting its attachment
+ * When the current version is removed, the version it replaced becomes current again
+ *
+ * @param equipmentId - Equipment that owns the document
+ * @param attachmentId - Attachment to remove
+ * @param deletedBy - User performing the delete
+ * @returns Removed attachment id and the restored version, if any
+ * @author chaitanya
+ */
+export const removeEquipmentDocumentService = async (
+  equipmentId: number,
+  attachmentId: number,
+  deletedBy?: number
+) => {
+  const id = BigInt(attachmentId);
+  const link = await prisma.equipment_has_attachment.findFirst({
+    where: {
+      equipment_id: equipmentId,
+      attachment_id: id,
+      attachment_ref: { is_deleted: false },
+    },
+    select: { is_current: true },
+  });
+  if (!link) {
+    throw new ServiceError("Document not found for this equipment", 404);
+  }
+
+  const now = new Date();
+  const restored = await prisma.$transaction(async (tx) => {
+    await tx.attachment.update({
+      where: { attachment_id: id },
+      data: {
+        is_deleted: true,
+        deleted_at: now,
+        deleted_by: deletedBy ?? null,
+        updated_at: now,
+        updated_by: deletedBy ?? null,
+      },
+    });
+    await tx.equipment_has_attachment.update({
+      where: { attachment_id: id },
+      data: { is_current: false },
+    });
+    if (!link.is_current) return [];
+
+    const previous = await tx.equipment_has_attachment.findMany({
+      where: {
+        equipment_id: equipmentId,
+        superseded_by: id,
+        attachment_ref: { is_deleted: false },
+      },
+      select: { attachment_id: true },
+    });
+    if (previous.length) {
+      await tx.equipment_has_attachment.updateMany({
+        where: { attachment_id: { in: previous.map((row) => row.attachment_id) } },
+        data: { is_current: true, superseded_at: null, superseded_by: null },
+      });
+    }
+    return previous.map((row) => Number(row.attachment_id));
+  });
+
+  logger.info("Removed document %d from equipment %d", attachmentId, equipmentId);
+  return { attachment_id: attachmentId, restored_attachment_ids: restored };
+};
@@ -0,0 +1,328 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { getPagination, getPaginationMeta } from "../utils/pagination";
+import { buildOrderByFromSort } from "../utils/sort";
+import { EQUIPMENT_LOAD_SORT_FIELDS } from "../types/sorts/sortTypes";
+import { TelematicsReading } from "../types/dtos/telematics-ingest.dto";
+import {
+  EquipmentLoadDetailResponseDto,
+  EquipmentLoadEventCreateDto,
+  EquipmentLoadEventType,
+  EquipmentLoadHistoryQueryDto,
+} from "../types/dtos/equipment-load.dto";
+
+// Default simple_field_lookup codes for the status after each event
+const DEFAULT_LOAD_STATUS: Record<EquipmentLoadEventType, string> = {
+  LOAD: "LOADED",
+  UNLOAD: "EMPTY",
+};
+// simple_field_lookup.field_name of the load status codes
+const LOAD_STATUS_FIELD_NAME = "equipment_load_status";
+const CARGO_SENSOR_DETAIL = "Cargo sensor";
+const HOUR_MS = 60 * 60 * 1000;
+
+const loadDetailSelect = {
+  equipment_load_detail_id: true,
+  equipment_id: true,
+  equipment_load_date: true,
+  equipment_unload_date: true,
+  equipment_load_status: true,
+  equipment_load_detail: true,
+  load_status_lookup: { select: { short_description: true } },
+} satisfies Prisma.equipment_load_detailSelect;
+
+type LoadDetailRow = Prisma.equipment_load_detailGetPayload<{ select: typeof loadDetailSelect }>;
+
+interface LoadEvent {
+  event: EquipmentLoadEventType;
+  date: Date;
+  status?: string;
+  detail?: string;
+  actorId?: number
+}
+
+const mapLoadDetail = (row: LoadDetailRow): EquipmentLoadDetailResponseDto => {
+  const isOpen = row.equipment_load_date !== null && row.equipment_unload_date === null;
+  const durationHours = row.equipment_load_date
+    ? ((row.equipment_unload_date ?? new Date()).getTime() - row.equipment_load_date.getTime()) /
+      HOUR_MS
+    : null;
+  return {
+    equipment_load_detail_id: row.equipment_load_detail_id,
+    equipment_id: row.equipment_id,
+    equipment_load_date: row.equipment_load_date,
+    equipment_unload_date: row.equipment_unload_date,
+    equipment_load_status: row.equipment_load_status,
+    load_status_description: row.load_status_lookup?.short_description ?? null,
+    equipment_load_detail: row.equipment_load_detail,
+    load_state: isOpen ? "LOADED" : "EMPTY",
+    duration_hours: durationHours === null ? null : Math.round(durationHours * 100) / 100,
+  };
+};
+
+// Serializes load events per unit so the open-load check and the write see the same rows
+const lockEquipment = async (tx: Prisma.TransactionClient, equipmentId: number) => {
+  await tx.$queryRaw`SELECT equipment_id FROM equipment WHERE equipment_id = ${equipmentId} FOR UPDATE`;
+};
+
+const findLatestLoadDetail = (tx: Prisma.TransactionClient, equipmentId: number) =>
+  tx.equipment_load_detail.findFirst({
+    where: { equipment_id: equipmentId },
+    orderBy: [
+      { equipment_load_date: { sort: "desc", nulls: "last" } },
+      { equipment_load_detail_id: "desc" },
+    ],
+    select: loadDetailSelect,
+  });
+
+const resolveLoadStatus = async (
+  tx: Prisma.TransactionClient,
+  code: string
+): Promise<string> => {
+  const fieldCode = code.trim().toUpperCase();
+  const lookup = await tx.simple_field_lookup.findFirst({
+    where: { field_name: LOAD_STATUS_FIELD_NAME, field_code: fieldCode, is_deleted: false },
+    select: { field_code: true },
+  });
+  if (!lookup) {
+    throw new ServiceError(`${code} is not a valid load status`, 400);
+  }
+  return lookup.field_code;
+};
+
+/**
+ * Applies a load or unload event to a unit's load history
+ * A load opens a new equipment_load_detail row; an unload closes the open one.
+ * Callers hold the unit lock and pass the latest load detail read under it
+ *
+ * @returns Created or updated load detail
+ * @author chaitanya
+ */
+const applyLoadEvent = async (
+  tx: Prisma.TransactionClient,
+  equipmentId: number,
+  latest: LoadDetailRow | null,
+  { event, date, status, detail, actorId }: LoadEvent
+): Promise<EquipmentLoadDetailResponseDto> => {
+  const open =
+    latest?.equipment_load_date && !latest.equipment_unload_date ? latest : null;
+  const loadStatus = await resolveLoadStatus(tx, status ?? DEFAULT_LOAD_STATUS[event]);
+
+  if (event === "LOAD") {
+    if (open) {
+      throw new ServiceError(
+        `Unit is already loaded since ${open.equipment_load_date?.toISOString()}`,
+        409
+      );
+    }
+    if (latest?.equipment_unload_date && date < latest.equipment_unload_date) {
+      throw new ServiceError(
+        `Load date cannot be before the last unload on ${latest.equipment_unload_date.toISOString()}`,
+        409
+      );
+    }
+    const created = await tx.equipment_load_detail.create({
+      data: {
+        equipment_id: equipmentId,
+        equipment_load_date: date,
+        equipment_load_status: loadStatus,
+        equipment_load_detail: detail ?? "",
+        created_by: actorId ?? null,
+      },
+      select: loadDetailSelect,
+    });
+    return mapLoadDetail(created);
+  }
+
+  if (!open?.equipment_load_date) {
+    throw new ServiceError("Unit has no open load to unload", 409);
+  }
+  if (date < open.equipment_load_date) {
+    throw new ServiceError(
+      `Unload date cannot be before the load on ${open.equipment_load_date.toISOString()}`,
+      409
+    );
+  }
+  const updated = await tx.equipment_load_detail.update({
+    where: { equipment_load_detail_id: open.equipment_load_detail_id },
+    data: {
+      equipment_unload_date: date,
+      equipment_load_status: loadStatus,
+      equipment_load_detail: detail ?? open.equipment_load_detail,
+      updated_at: new Date(),
+      updated_by: actorId ?? null,
+    },
+    select: loadDetailSelect,
+  });
+  return mapLoadDetail(updated);
+};
+
+/**
+ * Records a manual load or unload event for a unit
+ *
+ * @param equipmentId - Unit being loaded or unloaded
+ * @param body - Event type, event date, optional status code and load detail
+ * @param actorId - Authenticated user recording the event
+ * @returns Created or closed load detail
+ * @author chaitanya
+ */
+export const recordEquipmentLoadEventService = async (
+  equipmentId: number,
+  body: EquipmentLoadEventCreateDto,
+  actorId?: number
+): Promise<EquipmentLoadDetailResponseDto> => {
+  const event = (body.event ?? "").trim().toUpperCase();
+  if (event !== "LOAD" && event !== "UNLOAD") {
+    throw new ServiceError("event must be LOAD or UNLOAD", 400);
+  }
+  const date = body.event_date ? new Date(body.event_date) : new Date();
+  if (isNaN(date.getTime())) {
+    throw new ServiceError("event_date must be a valid date", 400);
+  }
+  if (date.getTime() > Date.now() + 5 * 60 * 1000) {
+    throw new ServiceError("event_date cannot be in the future", 400);
+  }
+
+  const equipment = await prisma.equipment.findFirst({
+    where: { equipment_id: equipmentId, is_deleted: false },
+    select: { equipment_id: true },
+  });
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await lockEquipment(tx, equipmentId);
+    const latest = await findLatestLoadDetail(tx, equipmentId);
+    return applyLoadEvent(tx, equipmentId, latest, {
+      event,
+      date,
+      status: body.load_status,
+      detail: body.load_detail?.trim(),
+      actorId,
+    });
+  });
+};
+
+/**
+ * Lists load history for a unit
+ * from/to match loads that overlap the range, including a load still open
+ *
+ * @param equipmentId - Unit whose loads are listed
+ * @param query - Status, date range, pagination and sort parameters
+ * @returns Paginated load details, most recent load first by default
+ * @author chaitanya
+ */
+export const getEquipmentLoadHistoryService = async (
+  equipmentId: number,
+  query: EquipmentLoadHistoryQueryDto
+) => {
+  const { page, perPage, skip, take } = getPagination(query);
+
+  const where: Prisma.equipment_load_detailWhereInput = { equipment_id: equipmentId };
+  const conditions: Prisma.equipment_load_detailWhereInput[] = [];
+  if (query.load_status) {
+    where.equipment_load_status = query.load_status.trim().toUpperCase();
+  }
+  if (query.from) {
+    conditions.push({
+      OR: [
+        { equipment_unload_date: null },
+        { equipment_unload_date: { gte: new Date(query.from) } },
+      ],
+    });
+  }
+  if (query.to) {
+    conditions.push({ equipment_load_date: { lte: new Date(query.to) } });
+  }
+  if (conditions.length) where.AND = conditions;
+
+  const orderBy = buildOrderByFromSort(
+    query.sort,
+    EQUIPMENT_LOAD_SORT_FIELDS,
+    "equipment_load_date"
+  );
+
+  const [total, rows] = await Promise.all([
+    prisma.equipment_load_detail.count({ where }),
+    prisma.equipment_load_detail.findMany({
+      where,
+      orderBy,
+      skip,
+      take,
+      select: loadDetailSelect,
+    }),
+  ]);
+
+  return {
+    data: rows.map(mapLoadDetail),
+    meta: getPaginationMeta(total, page, perPage),
+  };
+};
+
+// Cargo state is stored with the rest of the sensor detail in additional_sensors
+const cargoLoadedOf = (reading: TelematicsReading): boolean | null => {
+  if (!reading.additional_sensors) return null;
+  try {
+    const sensors = JSON.parse(reading.additional_sensors) as { cargo_loaded?: unknown };
+    return typeof sensors.cargo_loaded === "boolean" ? sensors.cargo_loaded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Derives load and unload events from cargo sensor state in ingested telematics
+ * An event is recorded only when the sensor disagrees with the unit's current load state;
+ * events that conflict with the history are logged and skipped rather than failing the ingest
+ *
+ * @param readings - Newest accepted telematics reading per unit
+ * @returns Number of load events recorded
+ * @author chaitanya
+ */
+export const recordTelematicsLoadEventsService = async (
+  readings: TelematicsReading[]
+): Promise<number> => {
+  const withCargo = readings
+    .map((reading) => ({ reading, loaded: cargoLoadedOf(reading) }))
+    .filter((item): item is { reading: TelematicsReading, loaded: boolean } => item.loaded !== null);
+  if (!withCargo.length) return 0;
+
+  // telematics.unit_number references equipment.telematic_device_id
+  const equipment = await prisma.equipment.findMany({
+    where: { telematic_device_id: { in: withCargo.map(({ reading }) => reading.unit_number) } },
+    select: { equipment_id: true, telematic_device_id: true },
+  });
+  const equipmentIdByDevice = new Map(
+    equipment.map((e) => [e.telematic_device_id, e.equipment_id])
+  );
+
+  let recorded = 0;
+  for (const { reading, loaded } of withCargo) {
+    const equipmentId = equipmentIdByDevice.get(reading.unit_number);
+    if (equipmentId === undefined) continue;
+
+    try {
+      const isRecorded = await prisma.$transaction(async (tx) => {
+        await lockEquipment(tx, equipmentId);
+        const latest = await findLatestLoadDetail(tx, equipmentId);
+        const isLoaded = Boolean(latest?.equipment_load_date && !latest.equipment_unload_date);
+        if (loaded === isLoaded) return false;
+
+        await applyLoadEvent(tx, equipmentId, latest, {
+          event: loaded ? "LOAD" : "UNLOAD",
+          date: reading.vendor_timestamp,
+          detail: loaded ? CARGO_SENSOR_DETAIL : undefined,
+        });
+        return true;
+      });
+      if (isRecorded) recorded++;
+    } catch (error) {
+      if (!(error instanceof ServiceError)) throw error;
+      logger.warn("Skipped cargo sensor load event for %s: %s", reading.unit_number, error.message);
+    }
+  }
+  return recorded;
+};
@@ -0,0 +1,374 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { getPagination, getPaginationMeta } from "../utils/pagination";
+import { buildOrderByFromSort } from "../utils/sort";
+import { EQUIPMENT_READING_SORT_FIELDS } from "../types/sorts/sortTypes";
+import { TelematicsReading } from "../types/dtos/telematics-ingest.dto";
+import {
+  EquipmentMeterType,
+  EquipmentReadingCreateDto,
+  EquipmentReadingQueryDto,
+  EquipmentReadingResponseDto,
+  EquipmentReadingSource,
+} from "../types/dtos/equipment-reading.dto";
+
+const METER_TYPES: EquipmentMeterType[] = ["ODOMETER", "HOUR_METER"];
+
+// Highest sustained rate a meter can plausibly advance, per hour of elapsed time
+const MAX_RATE_PER_HOUR: Record<EquipmentMeterType, number> = {
+  ODOMETER: 75,
+  HOUR_METER: 1,
+};
+const METER_UNITS: Record<EquipmentMeterType, string> = {
+  ODOMETER: "miles",
+  HOUR_METER: "hours",
+};
+// Readings closer together than this are rate-checked as if this much time had passed
+const MIN_RATE_WINDOW_HOURS = 1;
+// Telematics readings are recorded at most this often per unit and meter
+const AUTO_READING_INTERVAL_HOURS = 12;
+const HOUR_MS = 60 * 60 * 1000;
+
+const readingSelect = {
+  equipment_reading_id: true,
+  equipment_id: true,
+  equipment_reading: true,
+  meter_type: true,
+  reading_type: true,
+  reading_date: true,
+  source_reference: true,
+  notes: true,
+  created_at: true,
+  created_by: true,
+} satisfies Prisma.equipment_readingSelect;
+
+interface MeterPoint {
+  value: number;
+  date: Date
+}
+
+const parseMeterType = (value?: string): EquipmentMeterType => {
+  const meterType = (value ?? "ODOMETER").toUpperCase();
+  if (!METER_TYPES.includes(meterType as EquipmentMeterType)) {
+    throw new ServiceError(`meter_type must be one of ${METER_TYPES.join(", ")}`, 400);
+  }
+  return meterType as EquipmentMeterType;
+};
+
+const formatPoint = (point: MeterPoint) =>
+  `${point.value} on ${point.date.toISOString()}`;
+
+// Checks one step between consecutive readings; returns a reason when the step is not plausible
+const checkStep = (
+  meterType: EquipmentMeterType,
+  earlier: MeterPoint,
+  later: MeterPoint
+): string | null => {
+  const delta = later.value - earlier.value;
+  if (delta < 0) {
+    return `${meterType} reading ${formatPoint(later)} is lower than ${formatPoint(earlier)}`;
+  }
+  const elapsedHours = Math.max(
+    (later.date.getTime() - earlier.date.getTime()) / HOUR_MS,
+    MIN_RATE_WINDOW_HOURS
+  );
+  const maxDelta = MAX_RATE_PER_HOUR[meterType] * elapsedHours;
+  if (delta > maxDelta) {
+    return (
+      `${meterType} advanced ${delta} ${METER_UNITS[meterType]} between ` +
+      `${formatPoint(earlier)} and ${formatPoint(later)}, more than the ` +
+      `${MAX_RATE_PER_HOUR[meterType]} ${METER_UNITS[meterType]} per hour allowed`
+    );
+  }
+  return null;
+};
+
+// Serializes reading writes per unit so the history check and the insert see the same rows
+const lockEquipment = async (tx: Prisma.TransactionClient, equipmentId: number) => {
+  await tx.$queryRaw`SELECT equipment_id FROM equipment WHERE equipment_id = ${equipmentId} FOR UPDATE`;
+};
+
+/**
+ * Validates a reading against the readings immediately before and after it
+ * Readings may be backfilled, so both neighbours are checked. Each source keeps
+ * its own history so a bad manual entry cannot block telematics, or the reverse
+ *
+ * @returns Reason the reading is rejected, or null when it fits the history
+ * @author chaitanya
+ */
+const findReadingConflict = async (
+  tx: Prisma.TransactionClient,
+  equipmentId: number,
+  meterType: EquipmentMeterType,
+  source: EquipmentReadingSource,
+  reading: MeterPoint
+): Promise<string | null> => {
+  const where: Prisma.equipment_readingWhereInput = {
+    equipment_id: equipmentId,
+    meter_type: meterType,
+    reading_type: source,
+    deleted_at: null,
+  };
+  const [previous, next] = await Promise.all([
+    tx.equipment_reading.findFirst({
+      where: { ...where, reading_date: { lte: reading.date } },
+      orderBy: [{ reading_date: "desc" }, { equipment_reading_id: "desc" }],
+      select: { equipment_reading: true, reading_date: true },
+    }),
+    tx.equipment_reading.findFirst({
+      where: { ...where, reading_date: { gt: reading.date } },
+      orderBy: [{ reading_date: "asc" }, { equipment_reading_id: "asc" }],
+      select: { equipment_reading: true, reading_date: true },
+    }),
+  ]);
+
+  const toPoint = (row: { equipment_reading: number, reading_date: Date }) => ({
+    value: row.equipment_reading,
+    date: row.reading_date,
+  });
+  return (
+    (previous && checkStep(meterType, toPoint(previous), reading)) ??
+    (next && checkStep(meterType, reading, toPoint(next))) ??
+    null
+  );
+};
+
+/**
+ * Records a manual odometer or hour-meter reading for a unit
+ * Rejects readings lower than the previous manual one, higher than the next one,
+ * or implying a rate the meter cannot reach
+ *
+ * @param equipmentId - Unit the reading belongs to
+ * @param body - Reading value, meter type, reading date and notes
+ * @returns Created reading
+ * @author chaitanya
+ */
+export const createEquipmentReadingService = async (
+  equipmentId: number,
+  body: EquipmentReadingCreateDto
+): Promise<EquipmentReadingResponseDto> => {
+  const value = Number(body.reading);
+  if (body.reading === undefined || body.reading === "" || !Number.isInteger(value) || value < 0) {
+    throw new ServiceError("reading must be a non-negative whole number", 400);
+  }
+  const meterType = parseMeterType(body.meter_type);
+  const readingDate = body.reading_date ? new Date(body.reading_date) : new Date();
+  if (isNaN(readingDate.getTime())) {
+    throw new ServiceError("reading_date must be a valid date", 400);
+  }
+  if (readingDate.getTime() > Date.now() + 5 * 60 * 1000) {
+    throw new ServiceError("reading_date cannot be in the future", 400);
+  }
+
+  const equipment = await prisma.equipment.findFirst({
+    where: { equipment_id: equipmentId, is_deleted: false },
+    select: { equipment_id: true },
+  });
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+
+  const source: EquipmentReadingSource = "Manual";
+  return prisma.$transaction(async (tx) => {
+    await lockEquipment(tx, equipmentId);
+    const conflict = await findReadingConflict(tx, equipmentId, meterType, source, {
+      value,
+      date: readingDate,
+    });
+    if (conflict) {
+      throw new ServiceError(conflict, 409);
+    }
+
+    const now = new Date();
+    return tx.equipment_reading.create({
+      data: {
+        equipment_id: equipmentId,
+        equipment_reading: value,
+        meter_type: meterType,
+        reading_type: source,
+        reading_date: readingDate,
+        notes: body.notes ?? null,
+        created_by: body.created_by ?? null,
+        created_at: now,
+        updated_at: now,
+      },
+      select: readingSelect,
+    });
+  });
+};
+
+/**
+ * Soft-deletes a reading so a wrong value stops constraining later readings
+ *
+ * @param equipmentId - Unit the reading belongs to
+ * @param readingId - Reading to remove
+ * @param deletedBy - User performing the delete
+ * @returns Removed reading
+ * @author chaitanya
+ */
+export const deleteEquipmentReadingService = async (
+  equipmentId: number,
+  readingId: number,
+  deletedBy?: number
+): Promise<EquipmentReadingResponseDto> => {
+  const now = new Date();
+  return prisma.$transaction(async (tx) => {
+    await lockEquipment(tx, equipmentId);
+    const reading = await tx.equipment_reading.findFirst({
+      where: { equipment_reading_id: readingId, equipment_id: equipmentId, deleted_at: null },
+      select: { equipment_reading_id: true },
+    });
+    if (!reading) {
+      throw new ServiceError("Reading not found for this equipment", 404);
+    }
+    return tx.equipment_reading.update({
+      where: { equipment_reading_id: readingId },
+      data: { deleted_at: now, updated_at: now, updated_by: deletedBy ?? null },
+      select: readingSelect,
+    });
+  });
+};
+
+/**
+ * Lists reading history for a unit
+ * Supports meter type, source and reading date filters with pagination and sorting
+ *
+ * @param equipmentId - Unit whose readings are listed
+ * @param query - Filter, pagination and sort parameters
+ * @returns Paginated readings, newest first by default
+ * @author chaitanya
+ */
+export const getEquipmentReadingsService = async (
+  equipmentId: number,
+  query: EquipmentReadingQueryDto
+) => {
+  const { page, perPage, skip, take } = getPagination(query);
+
+  const where: Prisma.equipment_readingWhereInput = {
+    equipment_id: equipmentId,
+    deleted_at: null,
+  };
+  if (query.meter_type) {
+    where.meter_type = parseMeterType(query.meter_type);
+  }
+  if (query.reading_type) {
+    where.reading_type = { equals: query.reading_type, mode: "insensitive" };
+  }
+  if (query.from || query.to) {
+    const readingDate: Prisma.DateTimeFilter = {};
+    if (query.from) readingDate.gte = new Date(query.from);
+    if (query.to) readingDate.lte = new Date(query.to);
+    where.reading_date = readingDate;
+  }
+
+  const orderBy = buildOrderByFromSort(
+    query.sort,
+    EQUIPMENT_READING_SORT_FIELDS,
+    "reading_date"
+  );
+
+  const [total, rows] = await Promise.all([
+    prisma.equipment_reading.count({ where }),
+    prisma.equipment_reading.findMany({
+      where,
+      orderBy,
+      skip,
+      take,
+      select: readingSelect,
+    }),
+  ]);
+
+  return {
+    data: rows,
+    meta: getPaginationMeta(total, page, perPage),
+  };
+};
+
+const toMeterValue = (value: string | null): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : null;
+};
+
+/**
+ * Derives odometer and hour-meter readings from ingested telematics
+ * At most one reading per unit and meter is kept every AUTO_READING_INTERVAL_HOURS;
+ * implausible values are logged and skipped rather than failing the ingest
+ *
+ * @param readings - Newest accepted telematics reading per unit
+ * @returns Number of readings recorded
+ * @author chaitanya
+ */
+export const recordTelematicsMeterReadingsService = async (
+  readings: TelematicsReading[]
+): Promise<number> => {
+  if (!readings.length) return 0;
+
+  // telematics.unit_number references equipment.telematic_device_id
+  const equipment = await prisma.equipment.findMany({
+    where: { telematic_device_id: { in: readings.map((r) => r.unit_number) } },
+    select: { equipment_id: true, telematic_device_id: true },
+  });
+  const equipmentIdByDevice = new Map(
+    equipment.map((e) => [e.telematic_device_id, e.equipment_id])
+  );
+
+  const source: EquipmentReadingSource = "Telematics";
+  let recorded = 0;
+  for (const reading of readings) {
+    const equipmentId = equipmentIdByDevice.get(reading.unit_number);
+    if (equipmentId === undefined) continue;
+
+    const meters: [EquipmentMeterType, number | null][] = [
+      ["ODOMETER", toMeterValue(reading.odometer ?? reading.mileage)],
+      ["HOUR_METER", toMeterValue(reading.engine_hours)],
+    ];
+    for (const [meterType, value] of meters) {
+      if (value === null) continue;
+
+      const isRecorded = await prisma.$transaction(async (tx) => {
+        await lockEquipment(tx, equipmentId);
+        const lastAuto = await tx.equipment_reading.findFirst({
+          where: {
+            equipment_id: equipmentId,
+            meter_type: meterType,
+            reading_type: source,
+            deleted_at: null,
+            reading_date: {
+              gt: new Date(reading.vendor_timestamp.getTime() - AUTO_READING_INTERVAL_HOURS * HOUR_MS),
+            },
+          },
+          select: { equipment_reading_id: true },
+        });
+        if (lastAuto) return false;
+
+        const point = { value, date: reading.vendor_timestamp };
+        const conflict = await findReadingConflict(tx, equipmentId, meterType, source, point);
+        if (conflict) {
+          logger.warn("Skipped telematics meter reading for %s: %s", reading.unit_number, conflict);
+          return false;
+        }
+
+        const now = new Date();
+        await tx.equipment_reading.create({
+          data: {
+            equipment_id: equipmentId,
+            equipment_reading: value,
+            meter_type: meterType,
+            reading_type: source,
+            reading_date: reading.vendor_timestamp,
+            source_reference: reading.vendor_message_id,
+            created_at: now,
+            updated_at: now,
+          },
+          select: { equipment_reading_id: true },
+        });
+        return true;
+      });
+      if (isRecorded) recorded++;
+    }
+  }
+  return recorded;
+};
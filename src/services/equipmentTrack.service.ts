@@ -0,0 +1,255 @@
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import {
+  SecondaryDbTelematicsHistoryStore,
+  TelematicsHistoryStore,
+} from "./telematicsHistory.service";
+import {
+  EquipmentTrackQueryDto,
+  EquipmentTrackResponseDto,
+  EquipmentTrackSegment,
+  EquipmentTrackStop,
+  TelematicsTrackPoint,
+} from "../types/dtos/equipment-track.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TRACK_RANGE_DAYS = 31;
+const DEFAULT_STOP_MINUTES = 10;
+const DEFAULT_MAX_POINTS = 2000;
+const MAX_RETURNED_POINTS = 10000;
+// Upper bound on history rows read for one request
+const MAX_SOURCE_POINTS = 50000;
+// Positions within this radius of where a unit came to rest count as the same stop (GPS jitter)
+const STOP_RADIUS_MILES = 0.1;
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points
+ *
+ * @returns Distance in miles
+ * @author chaitanya
+ */
+export const haversineMiles = (
+  a: { latitude: number, longitude: number },
+  b: { latitude: number, longitude: number }
+): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const parseBoundedInt = (
+  value: string | undefined,
+  field: string,
+  fallback: number,
+  min: number,
+  max: number
+): number => {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ServiceError(`${field} must be an integer between ${min} and ${max}`, 400);
+  }
+  return parsed;
+};
+
+const parseRange = (query: EquipmentTrackQueryDto): { from: Date, to: Date } => {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - DAY_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new ServiceError("from and to must be valid dates", 400);
+  }
+  if (from >= to) {
+    throw new ServiceError("from must be before to", 400);
+  }
+  if (to.getTime() - from.getTime() > MAX_TRACK_RANGE_DAYS * DAY_MS) {
+    throw new ServiceError(`Track range cannot exceed ${MAX_TRACK_RANGE_DAYS} days`, 400);
+  }
+  return { from, to };
+};
+
+interface StopRange {
+  start: number;
+  end: number
+}
+
+// A stop is a run of points staying within STOP_RADIUS_MILES of its first point for at least stopMinutes
+const detectStops = (points: TelematicsTrackPoint[], stopMinutes: number): StopRange[] => {
+  const stops: StopRange[] = [];
+  const minDwellMs = stopMinutes * 60 * 1000;
+  let anchor = 0;
+  for (let i = 1; i <= points.length; i++) {
+    const leftCluster =
+      i === points.length || haversineMiles(points[anchor], points[i]) > STOP_RADIUS_MILES;
+    if (!leftCluster) continue;
+    const last = i - 1;
+    const dwell =
+      points[last].vendor_timestamp.getTime() - points[anchor].vendor_timestamp.getTime();
+    if (last > anchor && dwell >= minDwellMs) {
+      stops.push({ start: anchor, end: last });
+    }
+    anchor = i;
+  }
+  return stops;
+};
+
+const buildSegment = (
+  points: TelematicsTrackPoint[],
+  start: number,
+  end: number
+): EquipmentTrackSegment | null => {
+  if (end <= start) return null;
+  let distance = 0;
+  let maxSpeed: number | null = null;
+  for (let i = start; i <= end; i++) {
+    if (i > start) distance += haversineMiles(points[i - 1], points[i]);
+    const speed = points[i].speed;
+    if (speed !== null && (maxSpeed === null || speed > maxSpeed)) maxSpeed = speed;
+  }
+  return {
+    start_time: points[start].vendor_timestamp.toISOString(),
+    end_time: points[end].vendor_timestamp.toISOString(),
+    distance_miles: round(distance),
+    max_speed: maxSpeed,
+    point_count: end - start + 1,
+  };
+};
+
+// Moving segments run between stops; distance inside a stop is GPS jitter and is not counted
+const buildSegments = (
+  points: TelematicsTrackPoint[],
+  stops: StopRange[]
+): EquipmentTrackSegment[] => {
+  const segments: EquipmentTrackSegment[] = [];
+  let cursor = 0;
+  for (const stop of stops) {
+    const segment = buildSegment(points, cursor, stop.start);
+    if (segment) segments.push(segment);
+    cursor = stop.end;
+  }
+  const tail = buildSegment(points, cursor, points.length - 1);
+  if (tail) segments.push(tail);
+  return segments;
+};
+
+const toStop = (points: TelematicsTrackPoint[], range: StopRange): EquipmentTrackStop => {
+  const cluster = points.slice(range.start, range.end + 1);
+  const arrived = points[range.start].vendor_timestamp;
+  const departed = points[range.end].vendor_timestamp;
+  return {
+    arrived_at: arrived.toISOString(),
+    departed_at: departed.toISOString(),
+    duration_minutes: round((departed.getTime() - arrived.getTime()) / 60000, 1),
+    latitude: round(cluster.reduce((sum, p) => sum + p.latitude, 0) / cluster.length, 6),
+    longitude: round(cluster.reduce((sum, p) => sum + p.longitude, 0) / cluster.length, 6),
+  };
+};
+
+// Evenly spaced picks from sorted indices, always including the first and last
+const pickEvenly = (indices: number[], count: number): number[] =>
+  Array.from({ length: count }, (_, i) =>
+    indices[Math.round((i * (indices.length - 1)) / (count - 1))]
+  );
+
+// Uniform stride that keeps the endpoints and, while they fit, stop boundaries
+const downsample = (
+  points: TelematicsTrackPoint[],
+  stops: StopRange[],
+  maxPoints: number
+): TelematicsTrackPoint[] => {
+  if (points.length <= maxPoints) return points;
+  const keep = new Set<number>([0, points.length - 1]);
+  stops.forEach((stop) => keep.add(stop.start).add(stop.end));
+  if (keep.size >= maxPoints) {
+    const boundaries = [...keep].sort((a, b) => a - b);
+    return pickEvenly(boundaries, maxPoints).map((index) => points[index]);
+  }
+  const stride = (points.length - 1) / Math.max(maxPoints - keep.size - 1, 1);
+  for (let i = 0; i < points.length && keep.size < maxPoints; i += stride) {
+    keep.add(Math.round(i));
+  }
+  return [...keep].sort((a, b) => a - b).map((index) => points[index]);
+};
+
+let defaultHistoryStore: TelematicsHistoryStore | undefined;
+
+/**
+ * Builds a breadcrumb trail for a unit from telematics history
+ * Returns a GeoJSON LineString with stop points, moving segments with distance
+ * and max speed, and down-samples long ranges to max_points
+ *
+ * @param unitNumber - Telematics unit number
+ * @param query - from/to (default last 24h), stop_minutes and max_points
+ * @param historyStore - History backend, defaults to the secondary database
+ * @returns GeoJSON FeatureCollection with summary and segments
+ * @author chaitanya
+ */
+export const getEquipmentTrackService = async (
+  unitNumber: string,
+  query: EquipmentTrackQueryDto,
+  historyStore?: TelematicsHistoryStore
+): Promise<EquipmentTrackResponseDto> => {
+  const { from, to } = parseRange(query);
+  const stopMinutes = parseBoundedInt(query.stop_minutes, "stop_minutes", DEFAULT_STOP_MINUTES, 1, 1440);
+  const maxPoints = parseBoundedInt(query.max_points, "max_points", DEFAULT_MAX_POINTS, 2, MAX_RETURNED_POINTS);
+
+  defaultHistoryStore ??= new SecondaryDbTelematicsHistoryStore();
+  const points = await (historyStore ?? defaultHistoryStore).findTrackPoints(
+    unitNumber,
+    from,
+    to,
+    MAX_SOURCE_POINTS
+  );
+  const isTruncated = points.length >= MAX_SOURCE_POINTS;
+  if (isTruncated) {
+    logger.warn("Track for %s truncated at %d points", unitNumber, MAX_SOURCE_POINTS);
+  }
+
+  const stopRanges = detectStops(points, stopMinutes);
+  const stops = stopRanges.map((range) => toStop(points, range));
+  const segments = buildSegments(points, stopRanges);
+  const line = downsample(points, stopRanges, maxPoints);
+  const speeds = segments.map((s) => s.max_speed).filter((s): s is number => s !== null);
+
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: line.map((p) => [p.longitude, p.latitude]),
+        },
+        properties: {
+          feature_type: "track",
+          timestamps: line.map((p) => p.vendor_timestamp.toISOString()),
+        },
+      },
+      ...stops.map((stop) => ({
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [stop.longitude, stop.latitude] as [number, number] },
+        properties: { feature_type: "stop" as const, ...stop },
+      })),
+    ],
+    summary: {
+      unit_number: unitNumber,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      total_distance_miles: round(segments.reduce((sum, s) => sum + s.distance_miles, 0)),
+      max_speed: speeds.length ? Math.max(...speeds) : null,
+      point_count: points.length,
+      returned_point_count: line.length,
+      is_downsampled: line.length < points.length,
+      is_truncated: isTruncated,
+      stop_count: stops.length,
+    },
+    segments,
+  };
+};
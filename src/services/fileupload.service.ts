@@ -1,6 +1,23 @@
+import type { Prisma } from "@prisma/client";
 import prisma from "../config/database.config";
+import { getAttachmentUrlTtlSeconds } from "../config/env.config";
 import { uploadFileToS3 } from "../utils/s3.middleware";
 import { AttachmentInput } from "../types/dtos/agreement.dto";
+import {
+  AttachmentDownloadResponseDto,
+  AttachmentEntityType,
+  AttachmentOwnerType,
+  EntityAttachmentBody,
+  EntityAttachmentResponseDto,
+} from "../types/dtos/attachment.dto";
+import { ServiceError } from "../utils/responseUtils";
+import logger from "../utils/logger";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
+import {
+  AttachmentStorage,
+  createAttachmentStorage,
+  getAttachmentStorageKey,
+} from "./attachmentStorage.service";
 
 interface FileUploadBody {
   mime_type: string;
@@ -38,3 +55,457 @@ export const processAndSaveFileUploads = async (
   return uploadedFiles;
 };
 
+
+const MAX_ENTITY_ATTACHMENTS_PER_REQUEST = 10;
+
+const ENTITY_LABELS: Record<AttachmentEntityType, string> = {
+  service_request: "Service request",
+  workorder: "Work order",
+  ers: "ERS event",
+};
+
+const attachmentSelect = {
+  attachment_id: true,
+  name: true,
+  url: true,
+  mime_type: true,
+  document_category_type: true,
+  description: true,
+  date_uploaded: true,
+  expiration_date: true,
+};
+
+const toAttachmentResponse = (attachment: {
+  attachment_id: bigint,
+  name: string | null,
+  url: string | null,
+  mime_type: string | null,
+  document_category_type: string,
+  description: string | null,
+  date_uploaded: Date | null,
+  expiration_date: Date | null
+}): EntityAttachmentResponseDto => ({
+  ...attachment,
+  attachment_id: Number(attachment.attachment_id),
+});
+
+// Throws a 404 when the owning record does not exist
+const assertEntityExists = async (
+  entityType: AttachmentEntityType,
+  entityId: number
+) => {
+  let exists = false;
+  if (entityType === "service_request") {
+    exists = !!(await prisma.service_request.findUnique({
+      where: { service_request_id: entityId },
+      select: { service_request_id: true },
+    }));
+  } else if (entityType === "workorder") {
+    exists = !!(await prisma.workorder.findUnique({
+      where: { workorder_id: entityId },
+      select: { workorder_id: true },
+    }));
+  } else {
+    exists = !!(await prisma.ers.findUnique({
+      where: { ers_id: entityId },
+      select: { ers_id: true },
+    }));
+  }
+  if (!exists) {
+    throw new ServiceError(`${ENTITY_LABELS[entityType]} not found`, 404);
+  }
+};
+
+const isAttachmentLinked = async (
+  entityType: AttachmentEntityType,
+  entityId: number,
+  attachmentId: bigint
+): Promise<boolean> => {
+  if (entityType === "service_request") {
+    const serviceRequest = await prisma.service_request.findUnique({
+      where: { service_request_id: entityId },
+      select: { attachment_ids: true },
+    });
+    return !!serviceRequest?.attachment_ids.includes(Number(attachmentId));
+  }
+  if (entityType === "workorder") {
+    return !!(await prisma.workorder_has_attachment.findFirst({
+      where: { workorder_id: entityId, attachment_id: attachmentId },
+      select: { workorder_has_attachment_id: true },
+    }));
+  }
+  return !!(await prisma.ers_has_attachment.findFirst({
+    where: { ers_id: entityId, attachment_id: attachmentId },
+    select: { ers_has_attachment_id: true },
+  }));
+};
+
+/**
+ * Uploads files to S3 and links them to a service request, work order or ERS event
+ * Service requests keep ids in attachment_ids; work orders and ERS use their join tables
+ *
+ * @param entityType - Owning record type
+ * @param entityId - Owning record id
+ * @param files - Uploaded files from multer
+ * @param body - Optional description, expiration date and creator
+ * @returns Created attachments
+ * @author chaitanya
+ */
+export const addEntityAttachments = async (
+  entityType: AttachmentEntityType,
+  entityId: number,
+  files: Express.Multer.File[],
+  body: EntityAttachmentBody
+): Promise<EntityAttachmentResponseDto[]> => {
+  if (!files.length) {
+    throw new ServiceError("No files uploaded", 400);
+  }
+  if (files.length > MAX_ENTITY_ATTACHMENTS_PER_REQUEST) {
+    throw new ServiceError(
+      `A maximum of ${MAX_ENTITY_ATTACHMENTS_PER_REQUEST} files can be uploaded at once`,
+      400
+    );
+  }
+  await assertEntityExists(entityType, entityId);
+
+  const now = new Date();
+  const createdBy = body.created_by ?? null;
+  const expirationDate = body.expiration_date
+    ? new Date(body.expiration_date)
+    : null;
+  if (expirationDate && isNaN(expirationDate.getTime())) {
+    throw new ServiceError("Invalid expiration_date", 400);
+  }
+
+  // Upload first so a failed S3 call leaves no orphan rows
+  const uploads: {
+    file: Express.Multer.File,
+    uploaded: Awaited<ReturnType<typeof uploadFileToS3>>
+  }[] = [];
+  for (const file of files) {
+    uploads.push({ file, uploaded: await uploadFileToS3(file) });
+  }
+
+  const created = await prisma.$transaction(async (tx) => {
+    const attachments = [];
+    for (const { file, uploaded } of uploads) {
+      const attachment = await tx.attachment.create({
+        data: {
+          mime_type: file.mimetype,
+          document_category_type: uploaded.document_category_type,
+          name: file.originalname,
+          description: body.description ?? null,
+          date_uploaded: now,
+          url: uploaded.url,
+          expiration_date: expirationDate,
+          created_at: now,
+          created_by: createdBy,
+        },
+        select: attachmentSelect,
+      });
+      attachments.push(attachment);
+
+      if (entityType === "workorder") {
+        await tx.workorder_has_attachment.create({
+          data: {
+            workorder_id: entityId,
+            attachment_id: attachment.attachment_id,
+            date_uploaded: now,
+            expiration_date: expirationDate,
+            created_by: createdBy,
+          },
+        });
+      } else if (entityType === "ers") {
+        await tx.ers_has_attachment.create({
+          data: {
+            ers_id: entityId,
+            attachment_id: attachment.attachment_id,
+            date_uploaded: now,
+            expiration_date: expirationDate,
+            created_by: createdBy,
+          },
+        });
+      }
+    }
+
+    if (entityType === "service_request") {
+      await tx.service_request.update({
+        where: { service_request_id: entityId },
+        data: {
+          attachment_ids: {
+            push: attachments.map((a) => Number(a.attachment_id)),
+          },
+        },
+      });
+    }
+    return attachments;
+  });
+
+  logger.info(
+    "Added %d attachments to %s %d",
+    created.length,
+    entityType,
+    entityId
+  );
+  return created.map(toAttachmentResponse);
+};
+
+/**
+ * Unlinks an attachment from its owning record and soft-deletes it
+ *
+ * @param entityType - Owning record type
+ * @param entityId - Owning record id
+ * @param attachmentId - Attachment to remove
+ * @param deletedBy - User performing the delete
+ * @returns Removed attachment id
+ * @author chaitanya
+ */
+export const removeEntityAttachment = async (
+  entityType: AttachmentEntityType,
+  entityId: number,
+  attachmentId: number,
+  deletedBy?: number
+) => {
+  await assertEntityExists(entityType, entityId);
+
+  const id = BigInt(attachmentId);
+  if (!(await isAttachmentLinked(entityType, entityId, id))) {
+    throw new ServiceError(
+      `Attachment not found on this ${ENTITY_LABELS[entityType].toLowerCase()}`,
+      404
+    );
+  }
+
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    if (entityType === "service_request") {
+      const serviceRequest = await tx.service_request.findUnique({
+        where: { service_request_id: entityId },
+        select: { attachment_ids: true },
+      });
+      await tx.service_request.update({
+        where: { service_request_id: entityId },
+        data: {
+          attachment_ids: (serviceRequest?.attachment_ids ?? []).filter(
+            (existing) => existing !== attachmentId
+          ),
+        },
+      });
+    } else if (entityType === "workorder") {
+      await tx.workorder_has_attachment.deleteMany({
+        where: { workorder_id: entityId, attachment_id: id },
+      });
+    } else {
+      await tx.ers_has_attachment.deleteMany({
+        where: { ers_id: entityId, attachment_id: id },
+      });
+    }
+
+    await tx.attachment.update({
+      where: { attachment_id: id },
+      data: {
+        is_deleted: true,
+        deleted_at: now,
+        deleted_by: deletedBy ?? null,
+        updated_at: now,
+        updated_by: deletedBy ?? null,
+      },
+    });
+  });
+
+  logger.info("Removed attachment %d from %s %d", attachmentId, entityType, entityId);
+  return { attachment_id: attachmentId };
+};
+
+interface AttachmentOwner {
+  owner_type: AttachmentOwnerType;
+  account_ids: number[]
+}
+
+// Equipment belongs to the account it is currently assigned to; former lessees lose access
+const getEquipmentAccountIds = async (equipmentId: number): Promise<number[]> => {
+  const assignments = await prisma.equipment_assignment.findMany({
+    where: { equipment_id: equipmentId, ...activeEquipmentAssignmentWhere() },
+    select: { equipment_type_allocation_ref: { select: { account_id: true } } },
+  });
+  return assignments.map((a) => a.equipment_type_allocation_ref.account_id);
+};
+
+const getScheduleAgreementAccountIds = async (
+  where: Prisma.schedule_agreementWhereInput
+): Promise<number[]> => {
+  const allocations = await prisma.equipment_type_allocation.findMany({
+    where: { schedule_agreement_line_item_ref: { schedule_agreement_ref: where } },
+    select: { account_id: true },
+    distinct: ["account_id"],
+  });
+  return allocations.map((a) => a.account_id);
+};
+
+// Finds the record an attachment hangs off and the accounts that record belongs to
+const resolveAttachmentOwner = async (
+  attachmentId: bigint
+): Promise<AttachmentOwner | null> => {
+  const links = await prisma.attachment.findUnique({
+    where: { attachment_id: attachmentId },
+    select: {
+      equipment_attachments: { select: { equipment_id: true } },
+      gateinspection_has_attachment: {
+        select: {
+          equipment_has_gateinspection_ref: { select: { equipment_id: true, account_id: true } },
+        },
+      },
+      workorder_has_attachment: {
+        select: { workorder_ref: { select: { service_request: { select: { account_id: true } } } } },
+      },
+      ers_has_attachment: {
+        select: { ers_ref: { select: { service_request: { select: { account_id: true } } } } },
+      },
+      master_agreement_has_attachment: { select: { master_agreement_id: true }, take: 1 },
+      schedule_agreement_has_attachment: { select: { schedule_agreement_id: true }, take: 1 },
+    },
+  });
+  if (!links) return null;
+
+  if (links.equipment_attachments) {
+    return {
+      owner_type: "equipment",
+      account_ids: await getEquipmentAccountIds(links.equipment_attachments.equipment_id),
+    };
+  }
+  if (links.gateinspection_has_attachment) {
+    // Inspections belong to the account the unit was assigned to when inspected
+    const inspection = links.gateinspection_has_attachment.equipment_has_gateinspection_ref;
+    return {
+      owner_type: "gate_inspection",
+      account_ids:
+        inspection.account_id === null
+          ? await getEquipmentAccountIds(inspection.equipment_id)
+          : [inspection.account_id],
+    };
+  }
+  if (links.workorder_has_attachment) {
+    return {
+      owner_type: "workorder",
+      account_ids: [links.workorder_has_attachment.workorder_ref.service_request.account_id],
+    };
+  }
+  if (links.ers_has_attachment) {
+    return {
+      owner_type: "ers",
+      account_ids: [links.ers_has_attachment.ers_ref.service_request.account_id],
+    };
+  }
+  if (links.master_agreement_has_attachment.length) {
+    return {
+      owner_type: "master_agreement",
+      account_ids: await getScheduleAgreementAccountIds({
+        master_agreement_id: links.master_agreement_has_attachment[0].master_agreement_id,
+      }),
+    };
+  }
+  if (links.schedule_agreement_has_attachment.length) {
+    return {
+      owner_type: "schedule_agreement",
+      account_ids: await getScheduleAgreementAccountIds({
+        schedule_agreement_id: links.schedule_agreement_has_attachment[0].schedule_agreement_id,
+      }),
+    };
+  }
+
+  // Service requests store attachment ids in an array column rather than a join table
+  const serviceRequests = await prisma.service_request.findMany({
+    where: { attachment_ids: { has: Number(attachmentId) } },
+    select: { account_id: true },
+  });
+  if (serviceRequests.length) {
+    return {
+      owner_type: "service_request",
+      account_ids: serviceRequests.map((sr) => sr.account_id),
+    };
+  }
+  return null;
+};
+
+let defaultAttachmentStorage: AttachmentStorage | undefined;
+
+/**
+ * Path of the access-checked download route for an attachment
+ *
+ * @param attachmentId - Attachment to download
+ * @returns API path that returns a presigned URL
+ * @author chaitanya
+ */
+export const getAttachmentDownloadPath = (attachmentId: number | bigint): string =>
+  `/api/fileupload/${attachmentId}/download`;
+
+/**
+ * Returns a short-lived download URL for an attachment after checking account access
+ * Internal users may download any attachment; customer users need an assigned account
+ * that owns the equipment, agreement, work order, ERS, gate inspection or service request
+ *
+ * @param attachmentId - Attachment to download
+ * @param caller - Caller's user id or Auth0 subject
+ * @param storage - Storage backend, defaults to the configured store
+ * @returns Presigned URL and its expiry
+ * @author chaitanya
+ */
+export const getAttachmentDownloadService = async (
+  attachmentId: number,
+  caller: { user_id?: number, auth0_sub?: string },
+  storage?: AttachmentStorage
+): Promise<AttachmentDownloadResponseDto> => {
+  if (!caller.user_id && !caller.auth0_sub) {
+    throw new ServiceError("Authenticated user is required", 401);
+  }
+  const user = await prisma.user.findFirst({
+    where: caller.user_id
+      ? { user_id: caller.user_id }
+      : { auth_0_reference_id: caller.auth0_sub },
+    select: { user_id: true, is_customer_user: true, assigned_account_ids: true },
+  });
+  if (!user) {
+    throw new ServiceError("User not found", 401);
+  }
+
+  const id = BigInt(attachmentId);
+  const attachment = await prisma.attachment.findFirst({
+    where: { attachment_id: id, is_deleted: false },
+    select: { attachment_id: true, name: true, mime_type: true, url: true },
+  });
+  if (!attachment?.url) {
+    throw new ServiceError("Attachment not found", 404);
+  }
+
+  const owner = await resolveAttachmentOwner(id);
+  if (!owner) {
+    throw new ServiceError("Attachment is not linked to any record", 404);
+  }
+  if (
+    user.is_customer_user &&
+    !owner.account_ids.some((accountId) => user.assigned_account_ids.includes(accountId))
+  ) {
+    throw new ServiceError("You do not have access to this attachment", 403);
+  }
+
+  const expiresInSeconds = getAttachmentUrlTtlSeconds();
+  defaultAttachmentStorage ??= createAttachmentStorage();
+  const downloadUrl = await (storage ?? defaultAttachmentStorage).getDownloadUrl(
+    getAttachmentStorageKey(attachment.url),
+    { expiresInSeconds, fileName: attachment.name }
+  );
+
+  logger.info(
+    "Issued download URL for attachment %d to user %d",
+    attachmentId,
+    user.user_id
+  );
+  return {
+    attachment_id: attachmentId,
+    name: attachment.name,
+    mime_type: attachment.mime_type,
+    owner_type: owner.owner_type,
+    download_url: downloadUrl,
+    expires_at: new Date(Date.now() + expiresInSeconds * 1000),
+  };
+};
@@ -30,8 +30,9 @@ import {
 import { FLEET_LIST_VIEW_SORT_FIELDS } from "../types/sorts/sortTypes";
 import { buildOrderByFromSort } from "../utils/sort";
 import { ExcelExporter, formatDate } from "../utils/excelUtils";
-import { Prisma } from "@prisma/client";
+import { Prisma, fleet_list_view } from "@prisma/client";
 import { secondaryPool } from "../config/secondarydb.config";
+import { getEquipmentDocumentsService } from "./equipmentDocument.service";
 /**
  * Interface for paginated telematics data
  */
@@ -44,920 +45,274 @@ interface PaginatedTelematics {
 }
 
 /**
- * Interface for statistics calculation result
+ * Interface for list view statistics
  */
-interface StatisticsResult {
-  uniqueGpsEquipped: Set<number>;
+interface ListViewStatistics {
+  totalCount: number;
   gpsEquippedCount: number;
   accessWithoutGpsCount: number;
-  idleEquipIds: Set<number>;
   idleUnitsCount: number;
-  expiredInspectionIds: Set<number>;
   overdueDotInspectionCount: number;
-  overdueValidThroughIds: Set<number>;
   overDueCount: number;
-  ersInProgressIds: Set<number>;
   ersInProgressCount: number
 }
 
-/**
- * Helper function to build equipment filters
- */
-function buildEquipmentFilters(
-  rest: Record<string, unknown>
-): Prisma.equipmentWhereInput {
-  type FilterBuilder = (value: unknown) => Prisma.equipmentWhereInput;
-
-  const filterMap: Record<string, FilterBuilder> = {
-    doorType: (val) => ({
-      door_type: { contains: String(val), mode: "insensitive" },
-    }),
-    wallType: (val) => ({
-      wall_type: { contains: String(val), mode: "insensitive" },
-    }),
-    vendorName: (val) => ({
-      equipment_iot_device_ref: {
-        is: {
-          iot_device_ref: {
-            iot_device_vendor_ref: {
-              vendor_name: {
-                contains: String(val).trim(),
-                mode: "insensitive",
-              },
-            },
-          },
-        },
-      },
-    }),
-    alarmCodeStatus: (val) => ({
-      telematics: {
-        alarm_code_status: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    motionStatus: (val) => ({
-      telematics: {
-        motion_status: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    vin: (val) => ({ vin: { contains: String(val), mode: "insensitive" } }),
-    unitNumber: (val) => ({
-      unit_number: { contains: String(val), mode: "insensitive" },
-    }),
-    telematicDeviceId: (val) => ({
-      telematic_device_id: { contains: String(val), mode: "insensitive" },
-    }),
-    customerUnitNumber: (val) => ({
-      customer_unit_number: { contains: String(val), mode: "insensitive" },
-    }),
-    breakType: (val) => ({
-      brake_type: { contains: String(val), mode: "insensitive" },
-    }),
-    color: (val) => ({ color: { contains: String(val), mode: "insensitive" } }),
-    liftGate: (val) => ({
-      liftgate: { contains: String(val), mode: "insensitive" },
-    }),
-    tenBranch: (val) => ({
-      ten_branch: { contains: String(val), mode: "insensitive" },
-    }),
-    dotCviStatus: (val) => ({
-      dot_cvi_status: { contains: String(val), mode: "insensitive" },
-    }),
-    dotCviExpire: (val) => ({
-      dot_cvi_expire: { equals: new Date(String(val)) },
-    }),
-    trailerHeight: (val) => ({
-      trailer_height: { contains: String(val), mode: "insensitive" },
-    }),
-    trailerWidth: (val) => ({
-      trailer_width: { contains: String(val), mode: "insensitive" },
-    }),
-    trailerLength: (val) => ({
-      trailer_length: { contains: String(val), mode: "insensitive" },
-    }),
-    tireSize: (val) => ({
-      tire_size: { contains: String(val), mode: "insensitive" },
-    }),
-    status: (val) => ({
-      status: { contains: String(val), mode: "insensitive" },
-    }),
-    make: (val) => ({
-      oem_make_model_ref: {
-        make: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    model: (val) => ({
-      oem_make_model_ref: {
-        model: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    year: (val) => ({ oem_make_model_ref: { year: String(val) } }),
-    equipmentType: (val) => ({
-      equipment_type_lookup_ref: {
-        equipment_type: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    roofType: (val) => ({
-      roof_type: { contains: String(val), mode: "insensitive" },
-    }),
-    floorType: (val) => ({
-      floor_type: { contains: String(val), mode: "insensitive" },
-    }),
-    rimType: (val) => ({
-      rim_type: { contains: String(val), mode: "insensitive" },
-    }),
-    licensePlateNumber: (val) => ({
-      equipment_permit: {
-        license_plate_number: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    dateInService: (val) => ({
-      date_in_service: { equals: new Date(String(val)) },
-    }),
-    lastPmDate: (val) => ({ last_pm_date: { equals: new Date(String(val)) } }),
-    nextPmDue: (val) => ({ next_pm_due: { equals: new Date(String(val)) } }),
-    lastMrDate: (val) => ({
-      last_m_and_r_date: { equals: new Date(String(val)) },
-    }),
-    lastReeferPmDate: (val) => ({
-      last_reefer_pm_date: { equals: new Date(String(val)) },
-    }),
-    nextReeferPmDue: (val) => ({
-      next_reefer_pm_due: { equals: new Date(String(val)) },
-    }),
-    reeferMakeType: (val) => ({
-      reefer_make_type: { contains: String(val), mode: "insensitive" },
-    }),
-    reeferSerial: (val) => ({
-      reefer_serial: { contains: String(val), mode: "insensitive" },
-    }),
-    liftGateSerial: (val) => ({
-      lifgate_serial: { contains: String(val), mode: "insensitive" },
-    }),
-    // Equipment assignment filters - these need to be handled at the assignment level
-    // Note: activation_date and deactivation_date are on equipment_assignment table
-    // These will be handled in the main query where clause
-    driver_name: (val) => ({
-      unit_number: {
-        contains: String(val).replace("Driver ", ""),
-        mode: "insensitive",
-      },
-    }),
-    // Equipment load detail filters
-    equipmentLoadStatus: (val) => {
-      const searchValue = String(val).toUpperCase();
-      return {
-        equipment_load_detail: {
-          some: {
-            OR: [
-              {
-                load_status_lookup: {
-                  field_code: { equals: searchValue },
-                },
-              },
-              {
-                equipment_load_status: { equals: searchValue },
-              },
-            ],
-          },
-        },
-      };
-    },
-    // Telematics filters
-    latitude: (val) => {
-      const lat = parseFloat(String(val));
-      // Support range-based filtering with ±0.1 degree tolerance
-      return {
-        telematics: {
-          latitude: {
-            gte: lat - 0.1,
-            lte: lat + 0.1,
-          },
-        },
-      };
-    },
-    longitude: (val) => {
-      const lng = parseFloat(String(val));
-      // Support range-based filtering with ±0.1 degree tolerance
-      return {
-        telematics: {
-          longitude: {
-            gte: lng - 0.1,
-            lte: lng + 0.1,
-          },
-        },
-      };
-    },
-    last_gps_coordinates: (val) => {
-      const coords = String(val).split(",");
-      if (coords.length === 2) {
-        const lat = parseFloat(coords[0].trim());
-        const lng = parseFloat(coords[1].trim());
-        return {
-          telematics: {
-            AND: [
-              {
-                latitude: {
-                  gte: lat - 0.1,
-                  lte: lat + 0.1,
-                },
-              },
-              {
-                longitude: {
-                  gte: lng - 0.1,
-                  lte: lng + 0.1,
-                },
-              },
-            ],
-          },
-        };
-      }
-      return {};
-    },
-    location: (val) => ({
-      telematics: {
-        address: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    lastGpsUpdate: (val) => ({
-      telematics: {
-        recived_timestamp: { equals: new Date(String(val)) },
-      },
-    }),
-    arrivalTime: (val) => ({
-      telematics: {
-        recived_timestamp: { equals: new Date(String(val)) },
-      },
-    }),
-    lastGpsCoordinates: (val) => {
-      const coords = String(val).split(",");
-      if (coords.length === 2) {
-        const lat = parseFloat(coords[0].trim());
-        const lng = parseFloat(coords[1].trim());
-        return {
-          telematics: {
-            AND: [
-              {
-                latitude: {
-                  gte: lat - 0.1,
-                  lte: lat + 0.1,
-                },
-              },
-              {
-                longitude: {
-                  gte: lng - 0.1,
-                  lte: lng + 0.1,
-                },
-              },
-            ],
-          },
-        };
-      }
-      return {};
-    },
-  };
-
-  return Object.entries(rest).reduce<Prisma.equipmentWhereInput>(
-    (acc, [key, value]) => {
-      if (value && filterMap[key]) return { ...acc, ...filterMap[key](value) };
-      return acc;
-    },
-    {}
-  );
-}
+type ListViewWhere = Prisma.fleet_list_viewWhereInput;
+type ListViewColumn = keyof fleet_list_view;
+type FilterBuilder = (value: unknown) => ListViewWhere;
 
 /**
- * Helper function to build account filters
+ * Case-insensitive substring filter on a text column
  */
-function buildAccountFilters(
-  rest: Record<string, unknown>
-): Prisma.accountWhereInput {
-  const accountFilters: Prisma.accountWhereInput = {};
-
-  if (rest.accountNumber) {
-    accountFilters.account_number = {
-      contains: (rest.accountNumber as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  if (rest.accountName) {
-    accountFilters.account_name = {
-      contains: (rest.accountName as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  if (rest.account) {
-    accountFilters.OR = [
-      {
-        account_number: {
-          contains: (rest.account as string).trim(),
-          mode: "insensitive",
-        },
-      },
-      {
-        account_name: {
-          contains: (rest.account as string).trim(),
-          mode: "insensitive",
-        },
-      },
-    ];
-  }
-
-  return accountFilters;
-}
+const containsFilter =
+  (column: ListViewColumn): FilterBuilder =>
+  (val) =>
+    ({
+      [column]: { contains: String(val).trim(), mode: "insensitive" },
+    }) as ListViewWhere;
 
 /**
- * Helper function to build contract filters
+ * Exact timestamp filter on a date column
  */
-function buildContractFilters(
-  rest: Record<string, unknown>
-): Prisma.schedule_agreementWhereInput {
-  const contractFilters: Prisma.schedule_agreementWhereInput = {};
-
-  if (rest.contractTermType) {
-    contractFilters.contract_term_type = {
-      contains: (rest.contractTermType as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  if (rest.contractStartDate) {
-    contractFilters.master_agreement_ref = {
-      contract_start_Date: {
-        gte: new Date(rest.contractStartDate as string),
-      },
-    };
-  }
-
-  if (rest.contractEndDate) {
-    contractFilters.termination_date = {
-      lte: new Date(rest.contractEndDate as string),
-    };
-  }
-
-  if (rest.agreementType) {
-    contractFilters.schedule_type = {
-      contains: (rest.agreementType as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  return contractFilters;
-}
+const dateEqualsFilter =
+  (column: ListViewColumn): FilterBuilder =>
+  (val) =>
+    ({ [column]: { equals: new Date(String(val)) } }) as ListViewWhere;
 
 /**
- * Helper function to calculate statistics
+ * Whole-day filter on a date column
  */
-async function calculateStatistics(
-  equipmentIds: number[],
-  allData: any[]
-): Promise<StatisticsResult> {
-  const mappingRows = await prisma.equipment_has_iot_device.findMany({
-    where: { equipment_id: { in: equipmentIds }, status: "ACTIVE" },
-    select: { equipment_id: true },
-  });
-  const uniqueGpsEquipped = new Set(mappingRows.map((r) => r.equipment_id));
-  const gpsEquippedCount = uniqueGpsEquipped.size;
-  const accessWithoutGpsCount = allData.length - gpsEquippedCount;
-
-  const idleEquipIds = new Set<number>();
-  allData.forEach((item) => {
-    if (item.equipment_ref.telematics?.motion_status === "STOPPED") {
-      idleEquipIds.add(item.equipment_ref.equipment_id);
-    }
-  });
-  const idleUnitsCount = idleEquipIds.size;
-
-  const expiredInspectionRows = await prisma.dot_inspection.findMany({
-    where: {
-      equipment_id: { in: equipmentIds },
-      next_inspection_due: { lt: new Date() },
-    },
-    select: { equipment_id: true },
-  });
-  const expiredInspectionIds = new Set(
-    expiredInspectionRows.map((r) => r.equipment_id)
-  );
-  const overdueDotInspectionCount = expiredInspectionIds.size;
-
-  const overdueValidThroughRows = await prisma.dot_inspection.findMany({
-    where: {
-      equipment_id: { in: equipmentIds },
-      valid_through: {
-        lt: new Date(new Date().getTime() + 24 * 60 * 60 * 1000),
-      },
-      status: "ACTIVE",
-    },
-    select: { equipment_id: true },
-  });
-  const overdueValidThroughIds = new Set(
-    overdueValidThroughRows.map((r) => r.equipment_id)
-  );
-  const overDueCount = overdueValidThroughIds.size;
+const dayRangeFilter =
+  (column: ListViewColumn): FilterBuilder =>
+  (val) => {
+    const date = new Date(String(val));
+    if (isNaN(date.getTime())) return {};
 
-  const ersInProgressRows = await prisma.ers.findMany({
-    where: {
-      service_request: {
-        equipment_id: { in: equipmentIds },
-      },
-      ers_status: "inprogress",
-    },
-    include: {
-      service_request: {
-        select: { equipment_id: true },
-      },
-    },
-  });
-  const ersInProgressIds = new Set(
-    ersInProgressRows
-      .map((r) => r.service_request?.equipment_id)
-      .filter((id): id is number => id !== null && id !== undefined)
-  );
-  const ersInProgressCount = ersInProgressIds.size;
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
 
-  return {
-    uniqueGpsEquipped,
-    gpsEquippedCount,
-    accessWithoutGpsCount,
-    idleEquipIds,
-    idleUnitsCount,
-    expiredInspectionIds,
-    overdueDotInspectionCount,
-    overdueValidThroughIds,
-    overDueCount,
-    ersInProgressIds,
-    ersInProgressCount,
+    return { [column]: { gte: start, lte: end } } as ListViewWhere;
   };
-}
 
 /**
- * Helper function to get string sort values
+ * Coordinate filter with ±0.1 degree tolerance
  */
-function getStringSortValue(item: any, field: string): string {
-  const value = item[field];
-  return typeof value === "string" ? value.toLowerCase() : "";
-}
+const coordinateFilter =
+  (column: "latitude" | "longitude"): FilterBuilder =>
+  (val) => {
+    const coordinate = parseFloat(String(val));
+    if (isNaN(coordinate)) return {};
+    return { [column]: { gte: coordinate - 0.1, lte: coordinate + 0.1 } };
+  };
 
 /**
- * Helper function to get date sort values
+ * "lat,lng" filter with ±0.1 degree tolerance on both axes
  */
-function getDateSortValue(item: any, field: string): number {
-  const value = item[field];
-  if (value instanceof Date) {
-    return value.getTime();
-  }
-  if (typeof value === "string" || typeof value === "number") {
-    return new Date(value).getTime();
-  }
-  return 0;
-}
+const coordinatesFilter: FilterBuilder = (val) => {
+  const coords = String(val).split(",");
+  if (coords.length !== 2) return {};
+  return {
+    AND: [
+      coordinateFilter("latitude")(coords[0].trim()),
+      coordinateFilter("longitude")(coords[1].trim()),
+    ],
+  };
+};
 
 /**
- * Helper function to get number sort values
+ * Filters for every fleet list column, keyed by query parameter
  */
-function getNumberSortValue(item: any, field: string): number {
-  const value = item[field];
-  if (typeof value === "number") {
-    return value;
-  }
-  if (typeof value === "string") {
-    return Number(value);
-  }
-  return 0;
-}
+const LIST_VIEW_FILTERS: Record<string, FilterBuilder> = {
+  equipmentId: containsFilter("equipment_id_text"),
+  activationDate: dayRangeFilter("activation_date"),
+  deactivationDate: dayRangeFilter("deactivation_date"),
+  driver_name: (val) => containsFilter("unit_number")(String(val).replace("Driver ", "")),
+  unitNumber: containsFilter("unit_number"),
+  telematicDeviceId: containsFilter("telematic_device_id"),
+  customerUnitNumber: containsFilter("customer_unit_number"),
+  status: containsFilter("status"),
+  vin: containsFilter("vin"),
+  make: containsFilter("make"),
+  model: containsFilter("model"),
+  year: (val) => ({ year: String(val) }),
+  length: (val) => (isNaN(Number(val)) ? {} : { length: Number(val) }),
+  doorType: containsFilter("door_type"),
+  wallType: containsFilter("wall_type"),
+  breakType: containsFilter("brake_type"),
+  color: containsFilter("color"),
+  liftGate: containsFilter("liftgate"),
+  domicile: containsFilter("domicile"),
+  tenBranch: containsFilter("ten_branch"),
+  equipmentType: containsFilter("equipment_type"),
+  lastPmDate: dateEqualsFilter("last_pm_date"),
+  nextPmDue: dateEqualsFilter("next_pm_due"),
+  dotCviStatus: containsFilter("dot_cvi_status"),
+  dotCviExpire: dateEqualsFilter("dot_cvi_expire"),
+  lastReeferPmDate: dateEqualsFilter("last_reefer_pm_date"),
+  nextReeferPmDue: dateEqualsFilter("next_reefer_pm_due"),
+  lastMrDate: dateEqualsFilter("last_m_and_r_date"),
+  dateInService: dateEqualsFilter("date_in_service"),
+  reeferMakeType: containsFilter("reefer_make_type"),
+  reeferSerial: containsFilter("reefer_serial"),
+  liftGateSerial: containsFilter("lifgate_serial"),
+  trailerHeight: containsFilter("trailer_height"),
+  trailerWidth: containsFilter("trailer_width"),
+  trailerLength: containsFilter("trailer_length"),
+  tireSize: containsFilter("tire_size"),
+  floorType: containsFilter("floor_type"),
+  roofType: containsFilter("roof_type"),
+  rimType: containsFilter("rim_type"),
+  vendorName: containsFilter("vendor_name"),
+  accountNumber: containsFilter("account_number"),
+  accountName: containsFilter("account_name"),
+  account: (val) => ({
+    OR: [
+      containsFilter("account_number")(val),
+      containsFilter("account_name")(val),
+    ],
+  }),
+  contractStartDate: (val) => ({
+    contract_start_date: { gte: new Date(String(val)) },
+  }),
+  contractEndDate: (val) => ({
+    contract_end_date: { lte: new Date(String(val)) },
+  }),
+  contractTermType: containsFilter("contract_term_type"),
+  agreementType: containsFilter("agreement_type"),
+  licensePlateNumber: containsFilter("license_plate_number"),
+  licensePlateState: containsFilter("license_plate_state"),
+  url: containsFilter("attachment_url"),
+  mimeType: containsFilter("attachment_mime_type"),
+  equipmentLoadStatus: (val) => ({
+    equipment_load_status: { equals: String(val).trim().toUpperCase() },
+  }),
+  loadState: (val) => {
+    const state = String(val).trim().toUpperCase();
+    if (state === "LOADED") return { is_loaded: true };
+    if (state === "EMPTY") return { is_loaded: false };
+    return {};
+  },
+  equipmentLoadDate: dayRangeFilter("equipment_load_date"),
+  equipmentUnloadDate: dayRangeFilter("equipment_unload_date"),
+  motionStatus: containsFilter("motion_status"),
+  alarmCodeStatus: containsFilter("alarm_code_status"),
+  location: containsFilter("address"),
+  latitude: coordinateFilter("latitude"),
+  longitude: coordinateFilter("longitude"),
+  last_gps_coordinates: coordinatesFilter,
+  lastGpsCoordinates: coordinatesFilter,
+  lastGpsUpdate: dateEqualsFilter("last_gps_update"),
+  arrivalTime: dateEqualsFilter("last_gps_update"),
+};
 
 /**
- * Helper function to get sort values for in-memory sorting
+ * Row conditions behind each statistics card, also used by `filterBy`
  */
-function getSortValue(item: any, key: string): string | number {
-  const stringFields = [
-    "_inMemoryDriverNameSort",
-    "_inMemoryVendorNameSort",
-    "_inMemoryUrlSort",
-    "_inMemoryMimeTypeSort",
-    "_inMemoryEquipmentLoadStatusSort",
-    "_inMemoryArrivalTimeSort",
-    "_inMemoryMotionStatusSort",
-    "_inMemoryAlarmCodeStatusSort",
-    "_inMemoryAgreementTypeSort",
-    "_inMemoryContractTermTypeSort",
-  ];
-
-  const dateFields = [
-    "_inMemoryContractStartDateSort",
-    "_inMemoryContractEndDateSort",
-    "_inMemoryDotCviExpireSort",
-    "_inMemoryEquipmentLoadDateSort",
-    "_inMemoryEquipmentUnloadDateSort",
-    "_inMemoryLastGpsUpdateSort",
-  ];
-
-  const numberFields = ["_inMemoryLatitudeSort", "_inMemoryLongitudeSort"];
-
-  if (stringFields.includes(key)) {
-    const fieldMap: Record<string, string> = {
-      _inMemoryDriverNameSort: "driver_name",
-      _inMemoryVendorNameSort: "vendorName",
-      _inMemoryUrlSort: "url",
-      _inMemoryMimeTypeSort: "mimeType",
-      _inMemoryEquipmentLoadStatusSort: "equipmentLoadStatus",
-      _inMemoryArrivalTimeSort: "arrival_time",
-      _inMemoryMotionStatusSort: "motionStatus",
-      _inMemoryAlarmCodeStatusSort: "alarmCodeStatus",
-      _inMemoryAgreementTypeSort: "agreementType",
-      _inMemoryContractTermTypeSort: "contractTermType",
-    };
-    return getStringSortValue(item, fieldMap[key]);
-  }
-
-  if (dateFields.includes(key)) {
-    const fieldMap: Record<string, string> = {
-      _inMemoryContractStartDateSort: "contractStartDate",
-      _inMemoryContractEndDateSort: "contractEndDate",
-      _inMemoryDotCviExpireSort: "dotCviExpire",
-      _inMemoryEquipmentLoadDateSort: "equipmentLoadDate",
-      _inMemoryEquipmentUnloadDateSort: "equipmentUnloadDate",
-      _inMemoryLastGpsUpdateSort: "lastGpsUpdate",
-    };
-    return getDateSortValue(item, fieldMap[key]);
-  }
-
-  if (numberFields.includes(key)) {
-    const fieldMap: Record<string, string> = {
-      _inMemoryLatitudeSort: "latitude",
-      _inMemoryLongitudeSort: "longitude",
-    };
-    return getNumberSortValue(item, fieldMap[key]);
-  }
-
-  return "";
-}
+const STATISTIC_FILTERS: Record<
+  Exclude<keyof ListViewStatistics, "totalCount">,
+  ListViewWhere
+> = {
+  gpsEquippedCount: { is_gps_equipped: true },
+  accessWithoutGpsCount: { is_gps_equipped: false },
+  idleUnitsCount: { motion_status: "STOPPED" },
+  overdueDotInspectionCount: { has_expired_inspection: true },
+  overDueCount: { has_overdue_valid_through: true },
+  ersInProgressCount: { has_ers_in_progress: true },
+};
 
 /**
- * Helper function to perform in-memory sorting
+ * Helper function to build the fleet list view filter
+ * Statistic card filters (`filterBy`) are applied separately so stats reflect the unfiltered set
  */
-function performInMemorySort(
-  data: any[],
-  inMemorySort: { key: string, direction: "asc" | "desc" }
-): void {
-  const { key, direction } = inMemorySort;
-
-  data.sort((a, b) => {
-    const aVal = getSortValue(a, key);
-    const bVal = getSortValue(b, key);
-
-    if (aVal < bVal) return direction === "asc" ? -1 : 1;
-    if (aVal > bVal) return direction === "asc" ? 1 : -1;
-    return 0;
-  });
+function buildListViewFilters(
+  query: Record<string, unknown>,
+  accountIds: number[]
+): ListViewWhere {
+  return {
+    account_id: { in: accountIds },
+    AND: Object.entries(query)
+      .filter(([key, value]) => value && LIST_VIEW_FILTERS[key])
+      .map(([key, value]) => LIST_VIEW_FILTERS[key](value)),
+  };
 }
 
 /**
- * Helper function to build download equipment filters
+ * Helper function to add the `filterBy` statistic condition to a list view filter
  */
-function buildDownloadEquipmentFilters(
-  query: Record<string, unknown>
-): Prisma.equipmentWhereInput {
-  type FilterBuilder = (value: unknown) => Prisma.equipmentWhereInput;
-
-  const filterMap: Record<string, FilterBuilder> = {
-    doorType: (val) => ({
-      door_type: { contains: String(val), mode: "insensitive" },
-    }),
-    wallType: (val) => ({
-      wall_type: { contains: String(val), mode: "insensitive" },
-    }),
-    vendorName: (val) => ({
-      equipment_iot_device_ref: {
-        is: {
-          iot_device_ref: {
-            iot_device_vendor_ref: {
-              vendor_name: {
-                contains: String(val).trim(),
-                mode: "insensitive",
-              },
-            },
-          },
-        },
-      },
-    }),
-    alarmCodeStatus: (val) => ({
-      telematics: {
-        alarm_code_status: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    motionStatus: (val) => ({
-      telematics: {
-        motion_status: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    vin: (val) => ({ vin: { contains: String(val), mode: "insensitive" } }),
-    unitNumber: (val) => ({
-      unit_number: { contains: String(val), mode: "insensitive" },
-    }),
-    telematicDeviceId: (val) => ({
-      telematic_device_id: { contains: String(val), mode: "insensitive" },
-    }),
-    customerUnitNumber: (val) => ({
-      customer_unit_number: { contains: String(val), mode: "insensitive" },
-    }),
-    breakType: (val) => ({
-      brake_type: { contains: String(val), mode: "insensitive" },
-    }),
-    color: (val) => ({ color: { contains: String(val), mode: "insensitive" } }),
-    liftGate: (val) => ({
-      liftgate: { contains: String(val), mode: "insensitive" },
-    }),
-    tenBranch: (val) => ({
-      ten_branch: { contains: String(val), mode: "insensitive" },
-    }),
-    dotCviStatus: (val) => ({
-      dot_cvi_status: { contains: String(val), mode: "insensitive" },
-    }),
-    dotCviExpire: (val) => ({
-      dot_cvi_expire: { equals: new Date(String(val)) },
-    }),
-    trailerHeight: (val) => ({
-      trailer_height: { contains: String(val), mode: "insensitive" },
-    }),
-    trailerWidth: (val) => ({
-      trailer_width: { contains: String(val), mode: "insensitive" },
-    }),
-    trailerLength: (val) => ({
-      trailer_length: { contains: String(val), mode: "insensitive" },
-    }),
-    tireSize: (val) => ({
-      tire_size: { contains: String(val), mode: "insensitive" },
-    }),
-    status: (val) => ({
-      status: { contains: String(val), mode: "insensitive" },
-    }),
-    make: (val) => ({
-      oem_make_model_ref: {
-        make: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    model: (val) => ({
-      oem_make_model_ref: {
-        model: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    year: (val) => ({ oem_make_model_ref: { year: String(val) } }),
-    equipmentType: (val) => ({
-      equipment_type_lookup_ref: {
-        equipment_type: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    roofType: (val) => ({
-      roof_type: { contains: String(val), mode: "insensitive" },
-    }),
-    floorType: (val) => ({
-      floor_type: { contains: String(val), mode: "insensitive" },
-    }),
-    rimType: (val) => ({
-      rim_type: { contains: String(val), mode: "insensitive" },
-    }),
-    licensePlateNumber: (val) => ({
-      equipment_permit: {
-        license_plate_number: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    dateInService: (val) => ({
-      date_in_service: { equals: new Date(String(val)) },
-    }),
-    lastPmDate: (val) => ({ last_pm_date: { equals: new Date(String(val)) } }),
-    nextPmDue: (val) => ({ next_pm_due: { equals: new Date(String(val)) } }),
-    lastMrDate: (val) => ({
-      last_m_and_r_date: { equals: new Date(String(val)) },
-    }),
-    lastReeferPmDate: (val) => ({
-      last_reefer_pm_date: { equals: new Date(String(val)) },
-    }),
-    nextReeferPmDue: (val) => ({
-      next_reefer_pm_due: { equals: new Date(String(val)) },
-    }),
-    reeferMakeType: (val) => ({
-      reefer_make_type: { contains: String(val), mode: "insensitive" },
-    }),
-    reeferSerial: (val) => ({
-      reefer_serial: { contains: String(val), mode: "insensitive" },
-    }),
-    liftGateSerial: (val) => ({
-      lifgate_serial: { contains: String(val), mode: "insensitive" },
-    }),
-    // Equipment assignment filters - these need to be handled at the assignment level
-    // Note: activation_date and deactivation_date are on equipment_assignment table
-    // These will be handled in the main query where clause
-    driver_name: (val) => ({
-      unit_number: {
-        contains: String(val).replace("Driver ", ""),
-        mode: "insensitive",
-      },
-    }),
-    // Equipment load detail filters
-    equipmentLoadStatus: (val) => {
-      const searchValue = String(val).toUpperCase();
-      return {
-        equipment_load_detail: {
-          some: {
-            OR: [
-              {
-                load_status_lookup: {
-                  field_code: { equals: searchValue },
-                },
-              },
-              {
-                equipment_load_status: { equals: searchValue },
-              },
-            ],
-          },
-        },
-      };
-    },
-    // Telematics filters
-    latitude: (val) => {
-      const lat = parseFloat(String(val));
-      // Support range-based filtering with ±0.1 degree tolerance
-      return {
-        telematics: {
-          latitude: {
-            gte: lat - 0.1,
-            lte: lat + 0.1,
-          },
-        },
-      };
-    },
-    longitude: (val) => {
-      const lng = parseFloat(String(val));
-      // Support range-based filtering with ±0.1 degree tolerance
-      return {
-        telematics: {
-          longitude: {
-            gte: lng - 0.1,
-            lte: lng + 0.1,
-          },
-        },
-      };
-    },
-    last_gps_coordinates: (val) => {
-      const coords = String(val).split(",");
-      if (coords.length === 2) {
-        const lat = parseFloat(coords[0].trim());
-        const lng = parseFloat(coords[1].trim());
-        return {
-          telematics: {
-            AND: [
-              {
-                latitude: {
-                  gte: lat - 0.1,
-                  lte: lat + 0.1,
-                },
-              },
-              {
-                longitude: {
-                  gte: lng - 0.1,
-                  lte: lng + 0.1,
-                },
-              },
-            ],
-          },
-        };
-      }
-      return {};
-    },
-    location: (val) => ({
-      telematics: {
-        address: { contains: String(val), mode: "insensitive" },
-      },
-    }),
-    lastGpsUpdate: (val) => ({
-      telematics: {
-        recived_timestamp: { equals: new Date(String(val)) },
-      },
-    }),
-    arrivalTime: (val) => ({
-      telematics: {
-        recived_timestamp: { equals: new Date(String(val)) },
-      },
-    }),
-    lastGpsCoordinates: (val) => {
-      const coords = String(val).split(",");
-      if (coords.length === 2) {
-        const lat = parseFloat(coords[0].trim());
-        const lng = parseFloat(coords[1].trim());
-        return {
-          telematics: {
-            AND: [
-              {
-                latitude: {
-                  gte: lat - 0.1,
-                  lte: lat + 0.1,
-                },
-              },
-              {
-                longitude: {
-                  gte: lng - 0.1,
-                  lte: lng + 0.1,
-                },
-              },
-            ],
-          },
-        };
-      }
-      return {};
-    },
-  };
-
-  return Object.entries(query).reduce<Prisma.equipmentWhereInput>(
-    (acc, [key, value]) => {
-      if (value && filterMap[key]) return { ...acc, ...filterMap[key](value) };
-      return acc;
-    },
-    {}
-  );
+function applyStatisticFilter(
+  where: ListViewWhere,
+  filterBy: string | undefined
+): ListViewWhere {
+  const condition =
+    filterBy && filterBy in STATISTIC_FILTERS
+      ? STATISTIC_FILTERS[filterBy as keyof typeof STATISTIC_FILTERS]
+      : null;
+  return condition ? { AND: [where, condition] } : where;
 }
 
 /**
- * Helper function to build download account filters
+ * Helper function to calculate statistics
  */
-function buildDownloadAccountFilters(
-  query: Record<string, unknown>
-): Prisma.accountWhereInput {
-  const accountFilters: Prisma.accountWhereInput = {};
-
-  if (query.accountNumber) {
-    accountFilters.account_number = {
-      contains: (query.accountNumber as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  if (query.accountName) {
-    accountFilters.account_name = {
-      contains: (query.accountName as string).trim(),
-      mode: "insensitive",
-    };
-  }
+async function calculateStatistics(
+  where: ListViewWhere
+): Promise<ListViewStatistics> {
+  const count = (condition: ListViewWhere) =>
+    prisma.fleet_list_view.count({ where: { AND: [where, condition] } });
 
-  if (query.account) {
-    accountFilters.OR = [
-      {
-        account_number: {
-          contains: (query.account as string).trim(),
-          mode: "insensitive",
-        },
-      },
-      {
-        account_name: {
-          contains: (query.account as string).trim(),
-          mode: "insensitive",
-        },
-      },
-    ];
-  }
+  const [
+    totalCount,
+    gpsEquippedCount,
+    idleUnitsCount,
+    overdueDotInspectionCount,
+    overDueCount,
+    ersInProgressCount,
+  ] = await Promise.all([
+    count({}),
+    count(STATISTIC_FILTERS.gpsEquippedCount),
+    count(STATISTIC_FILTERS.idleUnitsCount),
+    count(STATISTIC_FILTERS.overdueDotInspectionCount),
+    count(STATISTIC_FILTERS.overDueCount),
+    count(STATISTIC_FILTERS.ersInProgressCount),
+  ]);
 
-  return accountFilters;
+  return {
+    totalCount,
+    gpsEquippedCount,
+    accessWithoutGpsCount: totalCount - gpsEquippedCount,
+    idleUnitsCount,
+    overdueDotInspectionCount,
+    overDueCount,
+    ersInProgressCount,
+  };
 }
 
 /**
- * Helper function to build download contract filters
+ * Build sorting configuration
+ * Accepts "field:dir,field:dir" or an object of field to direction
  */
-function buildDownloadContractFilters(
-  query: Record<string, unknown>
-): Prisma.schedule_agreementWhereInput {
-  const contractFilters: Prisma.schedule_agreementWhereInput = {};
-
-  if (query.contractTermType) {
-    contractFilters.contract_term_type = {
-      contains: (query.contractTermType as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  if (query.contractStartDate) {
-    contractFilters.master_agreement_ref = {
-      contract_start_Date: {
-        gte: new Date(query.contractStartDate as string),
-      },
-    };
-  }
-
-  if (query.contractEndDate) {
-    contractFilters.termination_date = {
-      lte: new Date(query.contractEndDate as string),
-    };
-  }
-
-  if (query.agreementType) {
-    contractFilters.schedule_type = {
-      contains: (query.agreementType as string).trim(),
-      mode: "insensitive",
-    };
-  }
-
-  return contractFilters;
-}
+const buildSortingConfig = (
+  sort: string | Record<string, unknown> | undefined
+): Prisma.fleet_list_viewOrderByWithRelationInput[] => {
+  const sortString =
+    sort && typeof sort === "object"
+      ? Object.entries(sort)
+          .map(([key, value]) => `${key}:${String(value)}`)
+          .join(",")
+      : sort;
+
+  const orderBy = sortString
+    ? (buildOrderByFromSort<fleet_list_view>(
+        sortString,
+        FLEET_LIST_VIEW_SORT_FIELDS,
+        "equipment_id"
+      ) as Prisma.fleet_list_viewOrderByWithRelationInput[])
+    : [{ equipment_id: "asc" as const }];
+
+  // Tie-breaker keeps page boundaries stable when sort values repeat
+  return [...orderBy, { equipment_assignment_id: "asc" }];
+};
 
 /**
  * Helper function to handle account IDs for download
@@ -992,7 +347,7 @@ async function handleDownloadAccountIds(
  */
 function handleDownloadEquipmentFilter(
   query: GetListViewParams
-): Prisma.equipmentWhereInput {
+): ListViewWhere {
   if (query.downloadAll) {
     return {};
   } else if (query.equipment_id && query.equipment_id.length > 0) {
@@ -1006,292 +361,131 @@ function handleDownloadEquipmentFilter(
   }
 }
 
-/**
- * Helper function to handle download filtering
- */
-function handleDownloadFiltering(
-  allData: any[],
-  query: GetListViewParams,
-  stats: StatisticsResult
-): any[] {
-  let filteredData = allData;
-
-  if (query.equipmentId?.toString().trim()) {
-    filteredData = allData.filter((item) => {
-      return item.equipment_ref.equipment_id
-        .toString()
-        .includes(String(query.equipmentId).trim());
-    });
-  }
-
-  if (query.filterBy === "gpsEquippedCount")
-    filteredData = allData.filter((item) =>
-      stats.uniqueGpsEquipped.has(item.equipment_ref.equipment_id)
-    );
-  if (query.filterBy === "accessWithoutGpsCount")
-    filteredData = allData.filter(
-      (item) => !stats.uniqueGpsEquipped.has(item.equipment_ref.equipment_id)
-    );
-  if (query.filterBy === "idleUnitsCount")
-    filteredData = allData.filter((item) =>
-      stats.idleEquipIds.has(item.equipment_ref.equipment_id)
-    );
-  if (query.filterBy === "overdueDotInspectionCount")
-    filteredData = allData.filter((item) =>
-      stats.expiredInspectionIds.has(item.equipment_ref.equipment_id)
-    );
-
-  if (query.filterBy === "ersInProgressCount")
-    filteredData = allData.filter((item) =>
-      stats.ersInProgressIds.has(item.equipment_ref.equipment_id)
-    );
-  if (query.filterBy === "overDueCount")
-    filteredData = allData.filter((item) =>
-      stats.overdueValidThroughIds.has(item.equipment_ref.equipment_id)
-    );
-
-  return filteredData;
-}
-
-/**
- * Build assignment filters for date ranges
- */
-const buildAssignmentFilters = (
-  rest: Record<string, unknown>
-): Prisma.equipment_assignmentWhereInput => {
-  const assignmentFilters: Prisma.equipment_assignmentWhereInput = {};
-
-  const createDateRange = (dateString: string) => {
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) return null;
-
-    const start = new Date(date);
-    start.setHours(0, 0, 0, 0);
-    const end = new Date(date);
-    end.setHours(23, 59, 59, 999);
-
-    return { gte: start, lte: end };
-  };
-
-  [rest.activationDate, rest.deactivationDate].forEach((date, index) => {
-    if (date && typeof date === "string") {
-      const dateRange = createDateRange(date);
-      if (dateRange) {
-        assignmentFilters[
-          index === 0 ? "activation_date" : "deactivation_date"
-        ] = dateRange;
-      }
-    }
-  });
-
-  return assignmentFilters;
-};
-
-/**
- * Build sorting configuration
- */
-const buildSortingConfig = (sort: string | undefined) => {
-  let rawOrderBy: Prisma.equipment_assignmentOrderByWithRelationInput[] = [];
-  let inMemorySort: { key: string, direction: "asc" | "desc" } | null = null;
-
-  if (sort) {
-    const raw = buildOrderByFromSort(
-      sort,
-      FLEET_LIST_VIEW_SORT_FIELDS,
-      "equipment_id"
-    );
-
-    raw.forEach((o: Record<string, unknown>) => {
-      const [key, dir] = Object.entries(o)[0];
-      if (key.startsWith("_inMemory")) {
-        inMemorySort = { key, direction: dir as "asc" | "desc" };
-      } else {
-        rawOrderBy.push(
-          o as unknown as Prisma.equipment_assignmentOrderByWithRelationInput
-        );
-      }
-    });
-  }
-
-  if (rawOrderBy.length === 0) {
-    rawOrderBy = [{ equipment_id: "asc" }];
-  }
-
-  return { rawOrderBy, inMemorySort };
-};
-
-/**
- * Apply filtering to data based on filter criteria
- */
-const applyFiltering = (
-  allData: any[],
-  rest: Record<string, unknown>,
-  stats: StatisticsResult
-) => {
-  let filteredData = allData;
-
-  if (rest.equipmentId?.toString().trim()) {
-    filteredData = allData.filter((item) =>
-      item.equipment_ref.equipment_id
-        .toString()
-        .includes(String(rest.equipmentId).trim())
-    );
-  }
-
-  if (rest.filterBy === "gpsEquippedCount")
-    filteredData = allData.filter((item) =>
-      stats.uniqueGpsEquipped.has(item.equipment_ref.equipment_id)
-    );
-  if (rest.filterBy === "accessWithoutGpsCount")
-    filteredData = allData.filter(
-      (item) => !stats.uniqueGpsEquipped.has(item.equipment_ref.equipment_id)
-    );
-  if (rest.filterBy === "idleUnitsCount")
-    filteredData = allData.filter((item) =>
-      stats.idleEquipIds.has(item.equipment_ref.equipment_id)
-    );
-  if (rest.filterBy === "overdueDotInspectionCount")
-    filteredData = allData.filter((item) =>
-      stats.expiredInspectionIds.has(item.equipment_ref.equipment_id)
-    );
-  if (rest.filterBy === "overDueCount")
-    filteredData = allData.filter((item) =>
-      stats.overdueValidThroughIds.has(item.equipment_ref.equipment_id)
-    );
-
-  if (rest.filterBy === "ersInProgressCount")
-    filteredData = allData.filter((item) =>
-      stats.ersInProgressIds.has(item.equipment_ref.equipment_id)
-    );
-
-  return filteredData;
-};
-
 /**
  * Extract basic equipment information
  */
-const extractBasicEquipmentInfo = (eq: any, item: any) => ({
-  equipment_id: eq.equipment_id,
-  activation_date: item.activation_date,
-  deactivation_date: item.deactivation_date,
-  driver_name: `Driver ${eq.unit_number ?? ""}`,
-  unitNumber: eq.unit_number,
-  telematicDeviceId: eq.telematic_device_id ?? null,
-  customerUnitNumber: eq.customer_unit_number,
-  status: eq.status ?? null,
-  vin: eq.vin,
-  permit: eq.equipment_permit ?? null,
-  created_by: eq.created_by,
+const extractBasicEquipmentInfo = (row: fleet_list_view) => ({
+  equipment_id: row.equipment_id,
+  activation_date: row.activation_date,
+  deactivation_date: row.deactivation_date,
+  driver_name: `Driver ${row.unit_number ?? ""}`,
+  unitNumber: row.unit_number,
+  telematicDeviceId: row.telematic_device_id ?? null,
+  customerUnitNumber: row.customer_unit_number,
+  status: row.status ?? null,
+  vin: row.vin,
+  permit:
+    row.equipment_permit_id !== null
+      ? {
+          equipment_permit_id: row.equipment_permit_id,
+          equipment_id: row.equipment_id,
+          license_plate_number: row.license_plate_number,
+          license_plate_state: row.license_plate_state,
+          permit_date: row.permit_date,
+        }
+      : null,
+  created_by: row.created_by,
 });
 
 /**
  * Extract equipment specifications
  */
-const extractEquipmentSpecs = (eq: any) => ({
-  make: eq.oem_make_model_ref?.make ?? null,
-  model: eq.oem_make_model_ref?.model ?? null,
-  year: eq.oem_make_model_ref?.year ?? null,
-  doorType: eq.door_type ?? null,
-  wallType: eq.wall_type ?? null,
-  breakType: eq.brake_type ?? null,
-  color: eq.color ?? null,
-  liftGate: eq.liftgate ?? null,
-  tenBranch: eq.ten_branch ?? null,
-  equipmentType: eq.equipment_type_lookup_ref?.equipment_type ?? null,
+const extractEquipmentSpecs = (row: fleet_list_view) => ({
+  make: row.make ?? null,
+  model: row.model ?? null,
+  year: row.year ?? null,
+  doorType: row.door_type ?? null,
+  wallType: row.wall_type ?? null,
+  breakType: row.brake_type ?? null,
+  color: row.color ?? null,
+  liftGate: row.liftgate ?? null,
+  tenBranch: row.ten_branch ?? null,
+  equipmentType: row.equipment_type ?? null,
 });
 
 /**
  * Extract maintenance information
  */
-const extractMaintenanceInfo = (eq: any) => ({
-  lastPmDate: eq.last_pm_date ?? null,
-  nextPmDue: eq.next_pm_due ?? null,
-  dotCviStatus: eq.dot_cvi_status ?? null,
-  dotCviExpire: eq.dot_inspection?.[0]?.next_inspection_due ?? null,
-  lastReeferPmDate: eq.last_reefer_pm_date ?? null,
-  nextReeferPmDue: eq.next_reefer_pm_due ?? null,
-  lastMRDate: eq.last_m_and_r_date ?? null,
-  dateInService: eq.date_in_service ?? null,
+const extractMaintenanceInfo = (row: fleet_list_view) => ({
+  lastPmDate: row.last_pm_date ?? null,
+  nextPmDue: row.next_pm_due ?? null,
+  dotCviStatus: row.dot_cvi_status ?? null,
+  dotCviExpire: row.dot_cvi_expire ?? null,
+  lastReeferPmDate: row.last_reefer_pm_date ?? null,
+  nextReeferPmDue: row.next_reefer_pm_due ?? null,
+  lastMRDate: row.last_m_and_r_date ?? null,
+  dateInService: row.date_in_service ?? null,
 });
 
 /**
  * Extract reefer and liftgate information
  */
-const extractReeferLiftgateInfo = (eq: any) => ({
-  reeferMakeType: eq.reefer_make_type ?? null,
-  reeferSerial: eq.reefer_serial ?? null,
-  liftGateSerial: eq.lifgate_serial ?? null,
+const extractReeferLiftgateInfo = (row: fleet_list_view) => ({
+  reeferMakeType: row.reefer_make_type ?? null,
+  reeferSerial: row.reefer_serial ?? null,
+  liftGateSerial: row.lifgate_serial ?? null,
 });
 
 /**
  * Extract trailer dimensions
  */
-const extractTrailerDimensions = (eq: any) => ({
-  trailerHeight: eq.trailer_height ?? null,
-  trailerWidth: eq.trailer_width ?? null,
-  trailerLength: eq.trailer_length ?? null,
-  tireSize: eq.tire_size ?? null,
-  floorType: eq.floor_type ?? null,
-  roofType: eq.roof_type ?? null,
-  rimType: eq.rim_type ?? null,
+const extractTrailerDimensions = (row: fleet_list_view) => ({
+  trailerHeight: row.trailer_height ?? null,
+  trailerWidth: row.trailer_width ?? null,
+  trailerLength: row.trailer_length ?? null,
+  tireSize: row.tire_size ?? null,
+  floorType: row.floor_type ?? null,
+  roofType: row.roof_type ?? null,
+  rimType: row.rim_type ?? null,
 });
 
 /**
  * Extract account information
  */
-const extractAccountInfo = (accountRef: any) => ({
-  AccountId: accountRef.account_id,
-  accountNumber: accountRef.account?.account_number,
-  accountName: accountRef.account?.account_name,
-  account: accountRef.account
-    ? `(${accountRef.account.account_number}) - ${accountRef.account.account_name}`
-    : null,
+const extractAccountInfo = (row: fleet_list_view) => ({
+  AccountId: row.account_id,
+  accountNumber: row.account_number,
+  accountName: row.account_name,
+  account: `(${row.account_number}) - ${row.account_name}`,
 });
 
 /**
  * Extract contract and rate information
  */
-const extractContractInfo = (
-  acloc: any,
-  schedule: any,
-  masterAgreement: any
-) => ({
-  rate: acloc?.rate ?? null,
-  fixedRate: acloc?.fixed_rate ?? null,
-  variableRate: acloc?.variable_rate ?? null,
-  estimatedMiles: acloc?.estimated_miles ?? null,
-  estimatedHours: acloc?.estimated_hours ?? null,
-  contractStartDate: masterAgreement?.contract_start_Date ?? null,
-  contractEndDate: schedule?.termination_date ?? null,
-  contractTermType: schedule?.contract_term_type ?? null,
-  agreementType: schedule?.schedule_type ?? null,
+const extractContractInfo = (row: fleet_list_view) => ({
+  rate: row.rate ?? null,
+  fixedRate: row.fixed_rate ?? null,
+  variableRate: row.variable_rate ?? null,
+  estimatedMiles: row.estimated_miles ?? null,
+  estimatedHours: row.estimated_hours ?? null,
+  contractStartDate: row.contract_start_date ?? null,
+  contractEndDate: row.contract_end_date ?? null,
+  contractTermType: row.contract_term_type ?? null,
+  agreementType: row.agreement_type ?? null,
 });
 
 /**
  * Extract permit information
  */
-const extractPermitInfo = (permit: any) => ({
-  licensePlateNumber: permit?.license_plate_number ?? null,
-  licensePlateState: permit?.license_plate_state ?? null,
+const extractPermitInfo = (row: fleet_list_view) => ({
+  licensePlateNumber: row.license_plate_number ?? null,
+  licensePlateState: row.license_plate_state ?? null,
 });
 
 /**
  * Extract attachment information
  */
-const extractAttachmentInfo = (schedule: any) => ({
-  url:
-    schedule?.schedule_agreement_has_attachment?.[0]?.attachment?.url ?? null,
-  mimeType:
-    schedule?.schedule_agreement_has_attachment?.[0]?.attachment?.mime_type ??
-    null,
+const extractAttachmentInfo = (row: fleet_list_view) => ({
+  url: row.attachment_url ?? null,
+  mimeType: row.attachment_mime_type ?? null,
 });
 
 /**
  * Extract telematics information
  */
-const extractTelematicsInfo = (telemetry: any) => {
-  const arrival_time_val = telemetry?.recived_timestamp
-    ? new Date(telemetry?.recived_timestamp).toLocaleTimeString("en-US", {
+const extractTelematicsInfo = (row: fleet_list_view) => {
+  const arrival_time_val = row.last_gps_update
+    ? new Date(row.last_gps_update).toLocaleTimeString("en-US", {
         hour12: true,
         hour: "2-digit",
         minute: "2-digit",
@@ -1299,70 +493,68 @@ const extractTelematicsInfo = (telemetry: any) => {
     : null;
 
   return {
-    current_equipment_gps_location_id: telemetry?.telematics_id ?? null,
-    latitude: telemetry?.latitude?.toString() ?? null,
-    longitude: telemetry?.longitude?.toString() ?? null,
+    current_equipment_gps_location_id: row.telematics_id ?? null,
+    latitude: row.latitude?.toString() ?? null,
+    longitude: row.longitude?.toString() ?? null,
     last_gps_coordinates:
-      telemetry?.latitude && telemetry?.longitude
-        ? `${telemetry.latitude.toString()},${telemetry.longitude.toString()}`
+      row.latitude && row.longitude
+        ? `${row.latitude.toString()},${row.longitude.toString()}`
         : null,
-    location: telemetry?.address ?? null,
-    motionStatus: telemetry?.motion_status ?? null,
-    alarmCodeStatus: telemetry?.alarm_code_status ?? null,
+    location: row.address ?? null,
+    motionStatus: row.motion_status ?? null,
+    alarmCodeStatus: row.alarm_code_status ?? null,
     arrival_time: arrival_time_val ?? null,
-    lastGpsUpdate: telemetry?.recived_timestamp ?? null,
+    lastGpsUpdate: row.last_gps_update ?? null,
   };
 };
 
 /**
  * Extract load detail information
  */
-const extractLoadDetailInfo = (loadDetail: any) => ({
-  equipmentLoadStatus: loadDetail?.load_status_lookup?.field_code ?? loadDetail?.equipment_load_status ?? null,
-  equipmentLoadDate: loadDetail?.equipment_load_date ?? null,
-  equipmentUnloadDate: loadDetail?.equipment_unload_date ?? null,
-  equipmentLoadDetail: loadDetail ?? null,
+const extractLoadDetailInfo = (row: fleet_list_view) => ({
+  equipmentLoadStatus: row.equipment_load_status ?? null,
+  equipmentLoadDate: row.equipment_load_date ?? null,
+  equipmentUnloadDate: row.equipment_unload_date ?? null,
+  loadState: row.is_loaded ? "LOADED" : "EMPTY",
+  equipmentLoadDetail:
+    row.equipment_load_detail_id !== null
+      ? {
+          equipment_load_detail_id: row.equipment_load_detail_id,
+          equipment_id: row.equipment_id,
+          equipment_load_date: row.equipment_load_date,
+          equipment_unload_date: row.equipment_unload_date,
+          equipment_load_detail: row.equipment_load_detail,
+          equipment_load_status: row.equipment_load_status,
+        }
+      : null,
 });
 
 /**
- * Map equipment assignment data to DTO format
+ * Map a fleet_list_view row to DTO format
  */
-const mapEquipmentData = (item: any) => {
-  const eq = item.equipment_ref;
-  const accountRef = item.equipment_type_allocation_ref;
-  const acloc = accountRef.schedule_agreement_line_item_ref;
-  const schedule =
-    accountRef.schedule_agreement_line_item_ref?.schedule_agreement_ref;
-  const masterAgreement = schedule?.master_agreement_ref;
-  const telemetry = eq.telematics;
-  const loadDetail = eq.equipment_load_detail?.[0];
-  const permit = eq.equipment_permit;
-  const vendorName =
-    eq.equipment_iot_device_ref?.iot_device_ref?.iot_device_vendor_ref
-      ?.vendor_name ?? null;
-
-  return {
-    ...extractBasicEquipmentInfo(eq, item),
-    ...extractEquipmentSpecs(eq),
-    ...extractMaintenanceInfo(eq),
-    ...extractReeferLiftgateInfo(eq),
-    ...extractTrailerDimensions(eq),
-    ...extractAccountInfo(accountRef),
-    ...extractContractInfo(acloc, schedule, masterAgreement),
-    ...extractPermitInfo(permit),
-    ...extractAttachmentInfo(schedule),
-    ...extractTelematicsInfo(telemetry),
-    ...extractLoadDetailInfo(loadDetail),
-    vendorName,
-  };
-};
+const mapEquipmentData = (row: fleet_list_view) => ({
+  ...extractBasicEquipmentInfo(row),
+  ...extractEquipmentSpecs(row),
+  ...extractMaintenanceInfo(row),
+  ...extractReeferLiftgateInfo(row),
+  ...extractTrailerDimensions(row),
+  ...extractAccountInfo(row),
+  ...extractContractInfo(row),
+  ...extractPermitInfo(row),
+  ...extractAttachmentInfo(row),
+  ...extractTelematicsInfo(row),
+  ...extractLoadDetailInfo(row),
+  vendorName: row.vendor_name ?? null,
+});
 
 /**
  * Get Fleet List View Service
  *
  * Retrieves a paginated list of fleet equipment with comprehensive filtering,
- * sorting, and statistics calculation. Supports complex queries across multiple
- * related tables including equipment, accounts, agreements, and telematics.
+ * sorting, and statistics calculation. Filtering, sorting and pagination run
+ * in the database against the flattened `fleet_list_view`, so every sortable
+ * column (including latest GPS, load and inspection data) is ordered before
+ * the page is sliced.
  *
  * @param params - Query parameters for filtering and pagination
  * @param params.account_ids - Array of account IDs to filter by (required)
@@ -1381,135 +573,43 @@ const mapEquipmentData = (item: any) => {
  *   page: 1,
  *   perPage: 10,
  *   unitNumber: "ABC123",
- *   sort: { unitNumber: "asc" }
+ *   sort: "lastGpsUpdate:desc"
  * });
  */
 export const getListViewService = async (params: GetListViewParams) => {
   const page = Number(params.page) || 1;
   const perPage = Number(params.perPage) || 10;
 
-  const { account_ids, sort, ...rest } = params;
+  const { account_ids, sort, filterBy, ...rest } = params;
 
   if (!account_ids || !Array.isArray(account_ids) || account_ids.length == 0) {
     throw new Error("account_ids must be provided");
   }
 
-  // Build filters using helper functions
-  const equipmentRefFilter = buildEquipmentFilters(rest);
-  const accountFilters = buildAccountFilters(rest);
-  const contractFilters = buildContractFilters(rest);
-
-  const whereCondition: Prisma.equipment_type_allocationWhereInput = {
-    account: {
-      account_id: { in: account_ids },
-      ...accountFilters,
-    },
-    schedule_agreement_line_item_ref: {
-      schedule_agreement_ref: contractFilters,
-    },
-  };
-
-  // Build sorting configuration
-  const { rawOrderBy, inMemorySort } = buildSortingConfig(sort);
-
-  // Build assignment filters
-  const assignmentFilters = buildAssignmentFilters(rest);
-
-  // Fetch all matching rows
-  const allData = await prisma.equipment_assignment.findMany({
-    where: {
-      equipment_type_allocation_ref: whereCondition,
-      equipment_ref: equipmentRefFilter,
-      ...assignmentFilters,
-    },
-    include: {
-      equipment_ref: {
-        include: {
-          simple_field_lookup: true,
-          door_type_lookup: true,
-          wall_type_lookup: true,
-          floor_type_lookup: true,
-          roof_type_lookup: true,
-          rim_type_lookup: true,
-          oem_make_model_ref: true,
-          equipment_permit: true,
-          equipment_type_lookup_ref: true,
-          telematics: true,
-          equipment_iot_device_ref: {
-            include: {
-              iot_device_ref: { include: { iot_device_vendor_ref: true } },
-            },
-          },
-          equipment_load_detail: {
-            take: 1,
-            orderBy: { equipment_load_date: "desc" },
-            include: { load_status_lookup: true },
-          },
-          dot_inspection: { take: 1, orderBy: { next_inspection_due: "desc" } },
-        },
-      },
-      equipment_type_allocation_ref: {
-        include: {
-          account: true,
-          schedule_agreement_line_item_ref: {
-            include: {
-              schedule_agreement_ref: {
-                include: {
-                  master_agreement_ref: true,
-                  schedule_agreement_has_attachment: {
-                    include: { attachment: true },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    },
-    orderBy: rawOrderBy,
-  });
-
-  // Stats calculation using helper function
-  const dbTotal = allData.length;
-  const equipmentIds = allData.map((r) => r.equipment_ref.equipment_id);
-
-  const stats = await calculateStatistics(equipmentIds, allData);
-
-  // Apply filtering
-  const filteredData = applyFiltering(allData, rest, stats);
-
-  // Pagination
-  const total = filteredData.length;
-  const totalPages = Math.ceil(total / perPage);
-  const paginatedData = filteredData.slice(
-    (page - 1) * perPage,
-    page * perPage
+  const baseWhere = buildListViewFilters(
+    rest as Record<string, unknown>,
+    account_ids
   );
+  const where = applyStatisticFilter(baseWhere, filterBy);
+
+  const [stats, total, rows] = await Promise.all([
+    calculateStatistics(baseWhere),
+    prisma.fleet_list_view.count({ where }),
+    prisma.fleet_list_view.findMany({
+      where,
+      orderBy: buildSortingConfig(sort),
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+  ]);
 
-  // Map DTO
-  const mappedData = paginatedData.map((item: any) => mapEquipmentData(item));
-
-  // In-memory sort
-  if (inMemorySort) {
-    performInMemorySort(mappedData, inMemorySort);
-  }
-
-  // Final return
   return {
-    stats: {
-      totalCount: dbTotal,
-      gpsEquippedCount: stats.gpsEquippedCount,
-      accessWithoutGpsCount: stats.accessWithoutGpsCount,
-      idleUnitsCount: stats.idleUnitsCount,
-      overdueDotInspectionCount: stats.overdueDotInspectionCount,
-      overDueCount: stats.overDueCount,
-      ersInProgressCount: stats.ersInProgressCount,
-    },
-    data: mappedData,
+    stats,
+    data: rows.map(mapEquipmentData),
     total,
     page,
     perPage,
-    totalPages,
+    totalPages: Math.ceil(total / perPage),
   };
 };
 
@@ -1622,7 +722,7 @@ const buildGpsDetails = (gps: any) => {
  * Get Equipment Details Service
  *
  * Retrieves comprehensive details for a specific piece of equipment including
- * specifications, contact information, attachments, and GPS data. Fetches data
+ * specifications, contact information, attachments, current unit documents and GPS data. Fetches data
  * from multiple related tables to provide complete equipment information.
  *
  * @param params - Parameters for equipment lookup
@@ -1692,7 +792,7 @@ export const getEquipmentDetailsService = async (
   const agreement = lineItem?.schedule_agreement_ref;
 
   const iotDevice = await prisma.equipment_has_iot_device.findFirst({
-    where: { equipment_id: eq.equipment_id },
+    where: { equipment_id: eq.equipment_id, deactivation_date: null },
     include: {
       iot_device_ref: { include: { iot_device_vendor_ref: true } },
     },
@@ -1702,6 +802,8 @@ export const getEquipmentDetailsService = async (
     where: { unit_number: eq.telematic_device_id },
   });
 
+  const documents = await getEquipmentDocumentsService(eq.equipment_id);
+
   return {
     equipmentSpecificationDetails: buildEquipmentSpecificationDetails(
       eq,
@@ -1714,85 +816,11 @@ export const getEquipmentDetailsService = async (
       eq
     ),
     attachmentDetails: buildAttachmentDetails(agreement),
+    documents,
     gps: buildGpsDetails(gps),
   };
 };
 
-/**
- * Build download sorting configuration
- */
-const buildDownloadSortingConfig = (query: GetListViewParams) => {
-  const rawOrderBy: Prisma.equipment_assignmentOrderByWithRelationInput[] = [];
-  let inMemorySort: { key: string, direction: "asc" | "desc" } | null = null;
-
-  if (query.sort) {
-    // Convert sort object to string format if needed
-    const sortString =
-      typeof query.sort === "string"
-        ? query.sort
-        : Object.entries(query.sort)
-            .map(([key, value]) => `${key}:${String(value)}`)
-            .join(",");
-
-    const raw = buildOrderByFromSort(
-      sortString,
-      FLEET_LIST_VIEW_SORT_FIELDS,
-      "equipment_id"
-    );
-
-    raw.forEach((o: Record<string, unknown>) => {
-      const [key, dir] = Object.entries(o)[0];
-      if (key.startsWith("_inMemory")) {
-        inMemorySort = { key, direction: dir as "asc" | "desc" };
-      } else {
-        rawOrderBy.push(
-          o as unknown as Prisma.equipment_assignmentOrderByWithRelationInput
-        );
-      }
-    });
-  }
-
-  return { rawOrderBy, inMemorySort };
-};
-
-/**
- * Build download assignment filters
- */
-const buildDownloadAssignmentFilters = (
-  query: GetListViewParams
-): Prisma.equipment_assignmentWhereInput => {
-  const assignmentFilters: Prisma.equipment_assignmentWhereInput = {};
-
-  const createDateRange = (dateString: string) => {
-    const date = new Date(dateString);
-    if (!isNaN(date.getTime())) {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
-
-      return { gte: startOfDay, lte: endOfDay };
-    }
-    return null;
-  };
-
-  if (query.activationDate) {
-    const dateRange = createDateRange(query.activationDate);
-    if (dateRange) {
-      assignmentFilters.activation_date = dateRange;
-    }
-  }
-
-  if (query.deactivationDate) {
-    const dateRange = createDateRange(query.deactivationDate);
-    if (dateRange) {
-      assignmentFilters.deactivation_date = dateRange;
-    }
-  }
-
-  return assignmentFilters;
-};
-
 /**
  * Build Excel columns configuration
  */
@@ -1891,104 +919,26 @@ export const downloadListViewService = async (payload: {
   const accountIdsArray = await handleDownloadAccountIds(query);
   const equipmentFilter = handleDownloadEquipmentFilter(query);
 
-  // Build filters using helper functions
-  const equipmentRefFilter = buildDownloadEquipmentFilters(
-    query as unknown as Record<string, unknown>
-  );
-  const accountFilters = buildDownloadAccountFilters(
-    query as unknown as Record<string, unknown>
-  );
-  const contractFilters = buildDownloadContractFilters(
-    query as unknown as Record<string, unknown>
-  );
-
-  const whereCondition: Prisma.equipment_type_allocationWhereInput = {
-    account: {
-      account_id: { in: accountIdsArray },
-      ...accountFilters,
+  const where = applyStatisticFilter(
+    {
+      AND: [
+        buildListViewFilters(
+          query as unknown as Record<string, unknown>,
+          accountIdsArray
+        ),
+        equipmentFilter,
+      ],
     },
-    schedule_agreement_line_item_ref: {
-      schedule_agreement_ref: contractFilters,
-    },
-  };
-
-  // Build sorting configuration
-  const { rawOrderBy, inMemorySort } = buildDownloadSortingConfig(query);
-
-  // Build assignment filters
-  const assignmentFilters = buildDownloadAssignmentFilters(query);
+    query.filterBy
+  );
 
-  // Fetch all matching rows
-  const allData = await prisma.equipment_assignment.findMany({
-    where: {
-      equipment_type_allocation_ref: whereCondition,
-      equipment_ref: {
-        ...equipmentFilter,
-        ...equipmentRefFilter,
-      },
-      ...assignmentFilters,
-    },
-    include: {
-      equipment_ref: {
-        include: {
-          simple_field_lookup: true,
-          door_type_lookup: true,
-          wall_type_lookup: true,
-          floor_type_lookup: true,
-          roof_type_lookup: true,
-          rim_type_lookup: true,
-          oem_make_model_ref: true,
-          equipment_permit: true,
-          equipment_type_lookup_ref: true,
-          telematics: true,
-          equipment_iot_device_ref: {
-            include: {
-              iot_device_ref: { include: { iot_device_vendor_ref: true } },
-            },
-          },
-          equipment_load_detail: {
-            take: 1,
-            orderBy: { equipment_load_date: "desc" },
-            include: { load_status_lookup: true },
-          },
-          dot_inspection: { take: 1, orderBy: { next_inspection_due: "desc" } },
-        },
-      },
-      equipment_type_allocation_ref: {
-        include: {
-          account: true,
-          schedule_agreement_line_item_ref: {
-            include: {
-              schedule_agreement_ref: {
-                include: {
-                  master_agreement_ref: true,
-                  schedule_agreement_has_attachment: {
-                    include: { attachment: true },
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    },
-    orderBy: rawOrderBy,
+  const rows = await prisma.fleet_list_view.findMany({
+    where,
+    orderBy: buildSortingConfig(query.sort),
   });
 
-  // Stats calculation using helper function
-  const equipmentIds = allData.map((r) => r.equipment_ref.equipment_id);
-  const stats = await calculateStatistics(equipmentIds, allData);
-
-  // Filtering using helper function
-  const filteredData = handleDownloadFiltering(allData, query, stats);
-
   // Map DTO using existing helper function
-  const mappedData = filteredData.map((item: any) => mapEquipmentData(item));
-
-  // In-memory sort
-  if (inMemorySort) {
-    performInMemorySort(mappedData, inMemorySort);
-  }
+  const mappedData = rows.map(mapEquipmentData);
 
   // Build Excel configuration
   const excelColumns = buildExcelColumns(requestedColumns);
@@ -2218,6 +1168,7 @@ export const getEquipmentGateInspectionsService = async (
             },
           },
         },
+        damages: { orderBy: { gateinspection_damage_id: "asc" } },
       },
       orderBy,
       skip: offset,
@@ -2239,6 +1190,7 @@ export const getEquipmentGateInspectionsService = async (
         created_by: inspection.created_by,
         updated_at: inspection.updated_at,
         updated_by: inspection.updated_by,
+        account_id: inspection.account_id,
         attachments: inspection.attachments.map((attachment: any) => ({
           gateinspection_has_attachment_id:
             attachment.gateinspection_has_attachment_id,
@@ -2261,6 +1213,13 @@ export const getEquipmentGateInspectionsService = async (
             expiration_date: undefined,
           },
         })),
+        damages: inspection.damages.map((damage: any) => ({
+          gateinspection_damage_id: damage.gateinspection_damage_id,
+          damage_location: damage.damage_location,
+          damage_type: damage.damage_type,
+          severity: damage.severity ?? undefined,
+          description: damage.description ?? undefined,
+        })),
         direction_lookup: undefined,
         reason_lookup: undefined,
         status_lookup: undefined,
@@ -0,0 +1,205 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import { ServiceError } from "../utils/responseUtils";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
+import {
+  FleetMapClusterProperties,
+  FleetMapFeature,
+  FleetMapResponseDto,
+  FleetMapUnitProperties,
+  FleetMotionStatus,
+} from "../types/dtos/fleet-map.dto";
+
+const MAX_ZOOM = 22;
+const DEFAULT_ZOOM = 4;
+// At this zoom and above every unit is returned individually
+const CLUSTER_MAX_ZOOM = 12;
+// Cluster cell size in screen pixels on a 256px tile
+const CLUSTER_RADIUS_PX = 60;
+const TILE_SIZE_PX = 256;
+const MOVING_SPEED_THRESHOLD = 2;
+const STALE_AFTER_MINUTES = 24 * 60;
+
+type BBox = [number, number, number, number];
+
+/**
+ * Parses "minLng,minLat,maxLng,maxLat"
+ * minLng may be greater than maxLng when the box crosses the antimeridian
+ */
+const parseBBox = (value?: string): BBox | null => {
+  if (!value) return null;
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    throw new ServiceError("bbox must be minLng,minLat,maxLng,maxLat", 400);
+  }
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLat > maxLat || minLat < -90 || maxLat > 90 || Math.abs(minLng) > 180 || Math.abs(maxLng) > 180) {
+    throw new ServiceError("bbox is out of range", 400);
+  }
+  return [minLng, minLat, maxLng, maxLat];
+};
+
+const buildBBoxFilter = (bbox: BBox | null): Prisma.telematicsWhereInput => {
+  if (!bbox) return { latitude: { not: null }, longitude: { not: null } };
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  const latitude = { gte: minLat, lte: maxLat };
+  if (minLng <= maxLng) {
+    return { latitude, longitude: { gte: minLng, lte: maxLng } };
+  }
+  return {
+    latitude,
+    OR: [{ longitude: { gte: minLng } }, { longitude: { lte: maxLng } }],
+  };
+};
+
+const toMotionStatus = (status: string | null, speed: number | null): FleetMotionStatus => {
+  const normalized = status?.toLowerCase() ?? "";
+  if (normalized.includes("mov") || (speed !== null && speed > MOVING_SPEED_THRESHOLD)) {
+    return "moving";
+  }
+  if (normalized || speed !== null) return "stopped";
+  return "unknown";
+};
+
+const round = (value: number, digits = 6) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Grid clustering: cells are CLUSTER_RADIUS_PX wide at the requested zoom
+const clusterFeatures = (
+  units: FleetMapFeature<FleetMapUnitProperties>[],
+  zoom: number
+): FleetMapFeature<FleetMapUnitProperties | FleetMapClusterProperties>[] => {
+  const cellDegrees = (360 / 2 ** zoom) * (CLUSTER_RADIUS_PX / TILE_SIZE_PX);
+  const cells = new Map<string, FleetMapFeature<FleetMapUnitProperties>[]>();
+  for (const unit of units) {
+    const [lng, lat] = unit.geometry.coordinates;
+    const key = `${Math.floor((lng + 180) / cellDegrees)}:${Math.floor((lat + 90) / cellDegrees)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(unit);
+    else cells.set(key, [unit]);
+  }
+
+  return [...cells.entries()].map(([key, members]) => {
+    if (members.length === 1) return members[0];
+    const lng = members.reduce((sum, m) => sum + m.geometry.coordinates[0], 0) / members.length;
+    const lat = members.reduce((sum, m) => sum + m.geometry.coordinates[1], 0) / members.length;
+    return {
+      type: "Feature" as const,
+      geometry: { type: "Point" as const, coordinates: [round(lng), round(lat)] as [number, number] },
+      properties: {
+        feature_type: "cluster" as const,
+        cluster_id: `${zoom}:${key}`,
+        point_count: members.length,
+        moving_count: members.filter((m) => m.properties.motion_status === "moving").length,
+        alert_count: members.filter((m) => m.properties.alert_count > 0).length,
+        expansion_zoom: Math.min(zoom + 2, CLUSTER_MAX_ZOOM),
+      },
+    };
+  });
+};
+
+/**
+ * Returns the latest position of every unit in the given accounts as GeoJSON
+ * Each unit carries motion status, last update age and active alert badges;
+ * below CLUSTER_MAX_ZOOM nearby units are merged into cluster features
+ *
+ * @param accountIds - Accounts whose units are plotted
+ * @param query - Optional bbox ("minLng,minLat,maxLng,maxLat") and zoom (0-22)
+ * @returns GeoJSON FeatureCollection
+ * @author chaitanya
+ */
+export const getFleetMapService = async (
+  accountIds: number[],
+  query: { bbox?: string, zoom?: string }
+): Promise<FleetMapResponseDto> => {
+  if (!accountIds.length) {
+    throw new ServiceError("account_id is required", 400);
+  }
+  const zoom = query.zoom === undefined || query.zoom === "" ? DEFAULT_ZOOM : Number(query.zoom);
+  if (!Number.isInteger(zoom) || zoom < 0 || zoom > MAX_ZOOM) {
+    throw new ServiceError(`zoom must be an integer between 0 and ${MAX_ZOOM}`, 400);
+  }
+  const bbox = parseBBox(query.bbox);
+
+  const equipment = await prisma.equipment.findMany({
+    where: {
+      is_deleted: false,
+      equipment_assignment: {
+        some: {
+          ...activeEquipmentAssignmentWhere(),
+          equipment_type_allocation_ref: { account_id: { in: accountIds } },
+        },
+      },
+      telematics: { is: buildBBoxFilter(bbox) },
+    },
+    select: {
+      equipment_id: true,
+      unit_number: true,
+      equipment_type_lookup_ref: { select: { equipment_type: true } },
+      telematics: {
+        select: {
+          latitude: true,
+          longitude: true,
+          speed: true,
+          heading: true,
+          motion_status: true,
+          vendor_timestamp: true,
+          recived_timestamp: true,
+        },
+      },
+      alert_states: {
+        where: { is_breached: true, telematic_alert: { is_deleted: false } },
+        select: {
+          telematic_alert_id: true,
+          breach_started_at: true,
+          telematic_alert: { select: { alert_name: true } },
+        },
+      },
+    },
+  });
+
+  const now = Date.now();
+  const units = equipment.flatMap((unit): FleetMapFeature<FleetMapUnitProperties>[] => {
+    const position = unit.telematics;
+    if (!position?.latitude || !position.longitude) return [];
+    const speed = position.speed?.toNumber() ?? null;
+    const lastUpdate = position.vendor_timestamp ?? position.recived_timestamp;
+    const ageMinutes = lastUpdate ? Math.max(Math.round((now - lastUpdate.getTime()) / 60000), 0) : null;
+    const alerts = unit.alert_states.map((state) => ({
+      telematic_alert_id: state.telematic_alert_id,
+      alert_name: state.telematic_alert.alert_name,
+      breach_started_at: state.breach_started_at,
+    }));
+    return [{
+      type: "Feature",
+      geometry: {
+        type: "Point",
+        coordinates: [position.longitude.toNumber(), position.latitude.toNumber()],
+      },
+      properties: {
+        feature_type: "unit",
+        equipment_id: unit.equipment_id,
+        unit_number: unit.unit_number,
+        equipment_type: unit.equipment_type_lookup_ref?.equipment_type ?? null,
+        motion_status: toMotionStatus(position.motion_status, speed),
+        raw_motion_status: position.motion_status,
+        speed,
+        heading: position.heading,
+        last_update: lastUpdate,
+        last_update_age_minutes: ageMinutes,
+        is_stale: ageMinutes === null || ageMinutes > STALE_AFTER_MINUTES,
+        alert_count: alerts.length,
+        alerts,
+      },
+    }];
+  });
+
+  const isClustered = zoom < CLUSTER_MAX_ZOOM;
+  return {
+    type: "FeatureCollection",
+    features: isClustered ? clusterFeatures(units, zoom) : units,
+    bbox,
+    zoom,
+    is_clustered: isClustered,
+    unit_count: units.length,
+  };
+};
@@ -0,0 +1,389 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import { ServiceError } from "../utils/responseUtils";
+import logger from "../utils/logger";
+import { deleteFileFromS3, uploadFileToS3 } from "../utils/s3.middleware";
+import {
+  GateInspectionComparison,
+  GateInspectionCreateBody,
+  GateInspectionDamage,
+  GateInspectionRecord,
+} from "../types/dtos/fleet.dto";
+
+const GATE_DIRECTIONS = ["IN", "OUT"];
+const GATE_OUT_DIRECTION = "OUT";
+const GATE_PHOTO_CATEGORY = "gate_inspection_photo";
+// simple_field_lookup.field_name of the gate inspection reason codes
+const GATE_REASON_FIELD_NAME = "gate_inspection_reason";
+const MAX_PHOTOS_PER_INSPECTION = 10;
+const MAX_DAMAGES_PER_INSPECTION = 50;
+
+const gateInspectionSelect = {
+  equipment_has_gateinspection_id: true,
+  equipment_id: true,
+  account_id: true,
+  inspection_date: true,
+  location: true,
+  direction: true,
+  reason: true,
+  status: true,
+  notes: true,
+  created_at: true,
+  created_by: true,
+  updated_at: true,
+  updated_by: true,
+  attachments: {
+    select: {
+      gateinspection_has_attachment_id: true,
+      equipment_has_gateinspection_id: true,
+      attachment_id: true,
+      date_uploaded: true,
+      expiration_date: true,
+      created_at: true,
+      created_by: true,
+      attachment_ref: {
+        select: {
+          attachment_id: true,
+          name: true,
+          url: true,
+          mime_type: true,
+          document_category_type: true,
+        },
+      },
+    },
+  },
+  damages: {
+    select: {
+      gateinspection_damage_id: true,
+      damage_location: true,
+      damage_type: true,
+      severity: true,
+      description: true,
+    },
+    orderBy: { gateinspection_damage_id: "asc" },
+  },
+} satisfies Prisma.equipment_has_gateinspectionSelect;
+
+type GateInspectionRow = Prisma.equipment_has_gateinspectionGetPayload<{
+  select: typeof gateInspectionSelect
+}>;
+
+const toGateInspectionRecord = (row: GateInspectionRow): GateInspectionRecord => ({
+  equipment_has_gateinspection_id: row.equipment_has_gateinspection_id,
+  equipment_id: row.equipment_id,
+  account_id: row.account_id ?? undefined,
+  inspection_date: row.inspection_date,
+  location: row.location ?? undefined,
+  direction: row.direction ?? undefined,
+  reason: row.reason ?? undefined,
+  status: row.status ?? undefined,
+  notes: row.notes ?? undefined,
+  created_at: row.created_at,
+  created_by: row.created_by ?? undefined,
+  updated_at: row.updated_at ?? undefined,
+  updated_by: row.updated_by ?? undefined,
+  attachments: row.attachments.map((attachment) => ({
+    gateinspection_has_attachment_id: Number(attachment.gateinspection_has_attachment_id),
+    equipment_has_gateinspection_id: attachment.equipment_has_gateinspection_id,
+    attachment_id: Number(attachment.attachment_id),
+    date_uploaded: attachment.date_uploaded ?? undefined,
+    expiration_date: attachment.expiration_date ?? undefined,
+    created_at: attachment.created_at,
+    created_by: attachment.created_by ?? undefined,
+    attachment: {
+      attachment_id: Number(attachment.attachment_ref.attachment_id),
+      name: attachment.attachment_ref.name ?? undefined,
+      url: attachment.attachment_ref.url ?? undefined,
+      mime_type: attachment.attachment_ref.mime_type ?? undefined,
+      document_category_type: attachment.attachment_ref.document_category_type,
+    },
+  })),
+  damages: row.damages.map((damage) => ({
+    gateinspection_damage_id: damage.gateinspection_damage_id,
+    damage_location: damage.damage_location,
+    damage_type: damage.damage_type,
+    severity: damage.severity ?? undefined,
+    description: damage.description ?? undefined,
+  })),
+});
+
+const normalizeCode = (value: string | undefined, field: string, maxLength: number) => {
+  const normalized = value?.trim().toUpperCase().replace(/\s+/g, "_");
+  if (!normalized) {
+    throw new ServiceError(`${field} is required for each damage`, 400);
+  }
+  if (normalized.length > maxLength) {
+    throw new ServiceError(`${field} must be at most ${maxLength} characters`, 400);
+  }
+  return normalized;
+};
+
+// Multipart requests carry damages as a JSON string
+const parseDamages = (value: GateInspectionCreateBody["damages"]): GateInspectionDamage[] => {
+  if (value === undefined || value === "") return [];
+  let damages: unknown = value;
+  if (typeof value === "string") {
+    try {
+      damages = JSON.parse(value);
+    } catch {
+      throw new ServiceError("damages must be a JSON array", 400);
+    }
+  }
+  if (!Array.isArray(damages)) {
+    throw new ServiceError("damages must be an array", 400);
+  }
+  if (damages.length > MAX_DAMAGES_PER_INSPECTION) {
+    throw new ServiceError(
+      `A maximum of ${MAX_DAMAGES_PER_INSPECTION} damages can be recorded per inspection`,
+      400
+    );
+  }
+  return (damages as Partial<GateInspectionDamage>[]).map((damage) => {
+    const description = damage.description?.trim();
+    if (description && description.length > 500) {
+      throw new ServiceError("damage description must be at most 500 characters", 400);
+    }
+    return {
+      damage_location: normalizeCode(damage.damage_location, "damage_location", 100),
+      damage_type: normalizeCode(damage.damage_type, "damage_type", 100),
+      severity: damage.severity ? normalizeCode(damage.severity, "severity", 20) : undefined,
+      description: description?.length ? description : undefined,
+    };
+  });
+};
+
+const damageKey = (damage: GateInspectionDamage) =>
+  `${damage.damage_location}|${damage.damage_type}`;
+
+/**
+ * Resolves the account a unit was assigned to on a given date
+ * Returns null when no assignment covers the date
+ */
+export const findAccountOnDate = async (
+  equipmentId: number,
+  date: Date
+): Promise<number | null> => {
+  const covering = await prisma.fleet_list_view.findFirst({
+    where: {
+      equipment_id: equipmentId,
+      activation_date: { lte: date },
+      deactivation_date: { gt: date },
+    },
+    orderBy: { activation_date: "desc" },
+    select: { account_id: true },
+  });
+  return covering?.account_id ?? null;
+};
+
+/**
+ * Builds the comparison between an inspection and the gate-out inspection before it
+ * Damage is matched on location and type; anything unmatched is reported as new
+ *
+ * @returns Both inspections with new and existing damage
+ * @author chaitanya
+ */
+const compareWithPreviousGateOut = async (
+  inspection: GateInspectionRow
+): Promise<GateInspectionComparison> => {
+  const previous = await prisma.equipment_has_gateinspection.findFirst({
+    where: {
+      equipment_id: inspection.equipment_id,
+      direction: GATE_OUT_DIRECTION,
+      is_deleted: false,
+      inspection_date: { lt: inspection.inspection_date },
+      equipment_has_gateinspection_id: { not: inspection.equipment_has_gateinspection_id },
+    },
+    orderBy: [{ inspection_date: "desc" }, { equipment_has_gateinspection_id: "desc" }],
+    select: gateInspectionSelect,
+  });
+
+  const current = toGateInspectionRecord(inspection);
+  const previousRecord = previous ? toGateInspectionRecord(previous) : null;
+  const previousKeys = new Set((previousRecord?.damages ?? []).map(damageKey));
+  const damages = current.damages ?? [];
+  return {
+    inspection: current,
+    previous_gate_out: previousRecord,
+    new_damages: damages.filter((damage) => !previousKeys.has(damageKey(damage))),
+    existing_damages: damages.filter((damage) => previousKeys.has(damageKey(damage))),
+  };
+};
+
+/**
+ * Records a gate inspection with damage photos and damage items
+ * The inspection is linked to the account the unit is assigned to on the inspection date
+ *
+ * @param equipmentId - Inspected unit
+ * @param files - Damage photos
+ * @param body - Direction, date, reason, location, notes, damages and compare_with_previous
+ * @returns Created inspection, with the gate-out comparison when requested
+ * @author chaitanya
+ */
+export const createGateInspectionService = async (
+  equipmentId: number,
+  files: Express.Multer.File[],
+  body: GateInspectionCreateBody
+): Promise<{ inspection: GateInspectionRecord, comparison?: GateInspectionComparison }> => {
+  const direction = body.direction?.trim().toUpperCase();
+  if (!direction || !GATE_DIRECTIONS.includes(direction)) {
+    throw new ServiceError(`direction must be one of ${GATE_DIRECTIONS.join(", ")}`, 400);
+  }
+  const inspectionDate = body.inspection_date ? new Date(body.inspection_date) : new Date();
+  if (isNaN(inspectionDate.getTime())) {
+    throw new ServiceError("inspection_date must be a valid date", 400);
+  }
+  if (inspectionDate.getTime() > Date.now() + 5 * 60 * 1000) {
+    throw new ServiceError("inspection_date cannot be in the future", 400);
+  }
+  const notes = body.notes?.trim();
+  if (notes && notes.length > 1000) {
+    throw new ServiceError("notes must be at most 1000 characters", 400);
+  }
+  const location = body.location?.trim();
+  if (location && location.length > 255) {
+    throw new ServiceError("location must be at most 255 characters", 400);
+  }
+  if (files.length > MAX_PHOTOS_PER_INSPECTION) {
+    throw new ServiceError(
+      `A maximum of ${MAX_PHOTOS_PER_INSPECTION} photos can be uploaded per inspection`,
+      400
+    );
+  }
+  const damages = parseDamages(body.damages);
+  const createdBy =
+    body.created_by !== undefined && !isNaN(Number(body.created_by))
+      ? Number(body.created_by)
+      : null;
+
+  const reason = body.reason?.trim().toUpperCase();
+  const [equipment, reasonLookup] = await Promise.all([
+    prisma.equipment.findFirst({
+      where: { equipment_id: equipmentId, is_deleted: false },
+      select: { equipment_id: true },
+    }),
+    reason
+      ? prisma.simple_field_lookup.findFirst({
+        where: { field_name: GATE_REASON_FIELD_NAME, field_code: reason, is_deleted: false },
+        select: { field_code: true },
+      })
+      : null,
+  ]);
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+  if (reason && !reasonLookup) {
+    throw new ServiceError(`${reason} is not a valid gate inspection reason`, 400);
+  }
+  const accountId = await findAccountOnDate(equipmentId, inspectionDate);
+
+  const uploads: {
+    file: Express.Multer.File,
+    key: string,
+    url: string
+  }[] = [];
+  let created: GateInspectionRow;
+  try {
+    for (const file of files) {
+      const { key, url } = await uploadFileToS3(file);
+      uploads.push({ file, key, url });
+    }
+
+    const now = new Date();
+    created = await prisma.$transaction(async (tx) => {
+      const inspection = await tx.equipment_has_gateinspection.create({
+        data: {
+          equipment_id: equipmentId,
+          account_id: accountId,
+          inspection_date: inspectionDate,
+          direction,
+          reason: reason ?? null,
+          location: location ?? null,
+          notes: notes ?? null,
+          created_at: now,
+          created_by: createdBy,
+          damages: {
+            create: damages.map((damage) => ({
+              damage_location: damage.damage_location,
+              damage_type: damage.damage_type,
+              severity: damage.severity ?? null,
+              description: damage.description ?? null,
+              created_at: now,
+              created_by: createdBy,
+            })),
+          },
+        },
+        select: { equipment_has_gateinspection_id: true },
+      });
+
+      for (const { file, url } of uploads) {
+        const attachment = await tx.attachment.create({
+          data: {
+            mime_type: file.mimetype,
+            document_category_type: GATE_PHOTO_CATEGORY,
+            name: file.originalname,
+            date_uploaded: now,
+            url,
+            created_at: now,
+            created_by: createdBy,
+          },
+          select: { attachment_id: true },
+        });
+        await tx.gateinspection_has_attachment.create({
+          data: {
+            equipment_has_gateinspection_id: inspection.equipment_has_gateinspection_id,
+            attachment_id: attachment.attachment_id,
+            date_uploaded: now,
+            created_at: now,
+            created_by: createdBy,
+          },
+        });
+      }
+
+      return tx.equipment_has_gateinspection.findUniqueOrThrow({
+        where: { equipment_has_gateinspection_id: inspection.equipment_has_gateinspection_id },
+        select: gateInspectionSelect,
+      });
+    });
+  } catch (error) {
+    // Photos already in S3 are not referenced by any row once the inspection fails
+    const cleanup = await Promise.allSettled(uploads.map(({ key }) => deleteFileFromS3(key)));
+    cleanup.forEach((outcome, index) => {
+      if (outcome.status === "rejected") {
+        logger.warn("Failed to remove orphaned gate inspection photo %s", uploads[index].key);
+      }
+    });
+    throw error;
+  }
+
+  const compare = body.compare_with_previous === true || body.compare_with_previous === "true";
+  return {
+    inspection: toGateInspectionRecord(created),
+    ...(compare ? { comparison: await compareWithPreviousGateOut(created) } : {}),
+  };
+};
+
+/**
+ * Compares a gate inspection side by side with the unit's previous gate-out inspection
+ *
+ * @param equipmentId - Inspected unit
+ * @param gateInspectionId - Inspection to compare, typically a gate-in on return
+ * @returns Both inspections with new and existing damage
+ * @author chaitanya
+ */
+export const getGateInspectionComparisonService = async (
+  equipmentId: number,
+  gateInspectionId: number
+): Promise<GateInspectionComparison> => {
+  const inspection = await prisma.equipment_has_gateinspection.findFirst({
+    where: {
+      equipment_has_gateinspection_id: gateInspectionId,
+      equipment_id: equipmentId,
+      is_deleted: false,
+    },
+    select: gateInspectionSelect,
+  });
+  if (!inspection) {
+    throw new ServiceError("Gate inspection not found", 404);
+  }
+  return compareWithPreviousGateOut(inspection);
+};
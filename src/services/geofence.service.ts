@@ -5,9 +5,17 @@ import {
   DownloadGeofenceRequestDto,
   GetGeofenceByUserIdQuery,
   AccountDto,
+  GeofenceLocationUpdateDto,
 } from "../types/dtos/geofence-request.dto";
-import { GeofenceAccountResponseDto } from "../types/dtos/geofence-response.dto";
+import {
+  GeofenceAccountResponseDto,
+  GeofenceLocationEventResponseDto,
+  GeofenceTransitionDto,
+  GeofenceTransitionType,
+} from "../types/dtos/geofence-response.dto";
+import { createActivityFeedService } from "./activityFeed.service";
 import { getPagination } from "../utils/pagination";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
 
 import { formatters } from "../utils/excelUtils";
 
@@ -263,6 +271,112 @@ const mapSingleGeofence = (
   updated_at: getNullableValue(g.updated_at),
 });
 
+// Event names looked up in geofence_event_type_lookup / alert_type_lookup
+const GEOFENCE_TRANSITION_EVENTS: Record<GeofenceTransitionType, string> = {
+  ENTER: "ENTER",
+  EXIT: "EXIT",
+};
+
+interface GeofenceEventTypeIds {
+  stateId: number | null;
+  alertTypeId: number | null
+}
+
+interface LocatedEquipment {
+  equipment_id: number;
+  unit_number: string;
+  account_id: number | null;
+  customer_id: number | null
+}
+
+interface GeofenceContainmentRow {
+  geofence_id: number;
+  geofence_name: string;
+  customer_id: number | null;
+  is_inside: boolean
+}
+
+// Resolves the equipment a location update refers to, along with the account
+// and customer of its currently active assignment
+const resolveLocatedEquipment = async (
+  location: GeofenceLocationUpdateDto
+): Promise<LocatedEquipment | null> => {
+  const where = location.equipment_id
+    ? { equipment_id: Number(location.equipment_id) }
+    : { unit_number: String(location.unit_number) };
+
+  const equipment = await prisma.equipment.findFirst({
+    where: { ...where, is_deleted: false },
+    select: {
+      equipment_id: true,
+      unit_number: true,
+      equipment_assignment: {
+        where: activeEquipmentAssignmentWhere(),
+        take: 1,
+        select: {
+          equipment_type_allocation_ref: {
+            select: { account: { select: { account_id: true, customer_id: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!equipment) {
+    return null;
+  }
+
+  const account =
+    equipment.equipment_assignment[0]?.equipment_type_allocation_ref.account;
+
+  return {
+    equipment_id: equipment.equipment_id,
+    unit_number: equipment.unit_number,
+    account_id: account?.account_id ?? null,
+    customer_id: account?.customer_id ?? null,
+  };
+};
+
+// Tests a position against every active geofence covering the equipment's account.
+// Polygons use ST_Contains, circles use a geography distance check in meters.
+const findGeofenceContainment = async (
+  equipment: LocatedEquipment,
+  latitude: number,
+  longitude: number
+): Promise<GeofenceContainmentRow[]> => {
+  return prisma.$queryRawUnsafe<GeofenceContainmentRow[]>(
+    `
+    SELECT
+      g.geofence_id,
+      g.geofence_name,
+      g.customer_id,
+      CASE
+        WHEN g.shape_type = 'Polygon' AND g.polygon IS NOT NULL THEN
+          ST_Contains(g.polygon, ST_SetSRID(ST_MakePoint($1, $2), 4326))
+        WHEN g.shape_type = 'Circle'
+          AND g.center_lat IS NOT NULL
+          AND g.center_lng IS NOT NULL
+          AND g.radius_meters IS NOT NULL THEN
+          ST_DWithin(
+            ST_SetSRID(ST_MakePoint(g.center_lng, g.center_lat), 4326)::geography,
+            ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
+            g.radius_meters
+          )
+        ELSE false
+      END AS is_inside
+    FROM geofence g
+    WHERE g.customer_id = $3
+      AND g.is_deleted = false
+      AND g.status = 'ACTIVE'
+      AND g.account_ids::jsonb @> $4::jsonb
+    `,
+    longitude,
+    latitude,
+    equipment.customer_id,
+    JSON.stringify([equipment.account_id])
+  );
+};
+
 const mapGeofenceData = (
   geofences: GeofenceRow[],
   accountsById: Record<number, AccountDto>
@@ -693,7 +807,7 @@ export class GeofenceService {
         where: {
           battery_health: "critical",
           equipment_iot_device_ref: {
-            equipment_id: { in: equipmentIdsArray },
+            some: { equipment_id: { in: equipmentIdsArray }, deactivation_date: null },
           },
         },
       });
@@ -706,4 +820,228 @@ export class GeofenceService {
       criticalBatteryCount,
     };
   }
+  /**
+   * Looks up the ENTER/EXIT ids used for geofence_state.last_state_id and
+   * activity_feed.alert_type_id. Missing lookup rows resolve to null.
+   */
+  private async resolveTransitionEventTypes(
+    customerId: number | null
+  ): Promise<Record<GeofenceTransitionType, GeofenceEventTypeIds>> {
+    const resolve = async (
+      eventName: string
+    ): Promise<GeofenceEventTypeIds> => {
+      const [stateType, alertType] = await Promise.all([
+        prisma.geofence_event_type_lookup.findFirst({
+          where: { event_name: { equals: eventName, mode: "insensitive" } },
+          select: { geofence_event_type_lookup_id: true },
+        }),
+        prisma.alert_type_lookup.findFirst({
+          where: {
+            event_name: { equals: eventName, mode: "insensitive" },
+            OR: [{ customer_id: customerId }, { customer_id: null }],
+          },
+          orderBy: { customer_id: { sort: "asc", nulls: "last" } },
+          select: { alert_type_lookup_id: true },
+        }),
+      ]);
+
+      return {
+        stateId: stateType?.geofence_event_type_lookup_id ?? null,
+        alertTypeId: alertType?.alert_type_lookup_id ?? null,
+      };
+    };
+
+    const [enter, exit] = await Promise.all([
+      resolve(GEOFENCE_TRANSITION_EVENTS.ENTER),
+      resolve(GEOFENCE_TRANSITION_EVENTS.EXIT),
+    ]);
+
+    return { ENTER: enter, EXIT: exit };
+  }
+
+  /**
+   * Recomputes assets_in_geofence from geofence_state for the given geofences
+   */
+  private async refreshAssetsInGeofence(geofenceIds: number[]): Promise<void> {
+    if (!geofenceIds.length) {
+      return;
+    }
+
+    const counts = await prisma.geofence_state.groupBy({
+      by: ["geofence_id"],
+      where: { geofence_id: { in: geofenceIds }, is_inside: true },
+      _count: { equipment_id: true },
+    });
+    const countById = new Map(
+      counts.map((c) => [c.geofence_id, c._count.equipment_id])
+    );
+
+    await Promise.all(
+      geofenceIds.map((geofenceId) =>
+        prisma.geofence.update({
+          where: { geofence_id: geofenceId },
+          data: { assets_in_geofence: countById.get(geofenceId) ?? 0 },
+          select: { geofence_id: true },
+        })
+      )
+    );
+  }
+
+  /**
+   * Processes a batch of equipment positions against active geofences.
+   * Each position flips geofence_state when the equipment crosses a boundary
+   * and writes an ENTER or EXIT row to the activity feed. Positions older than
+   * the stored state are ignored so late-arriving batches cannot undo newer ones.
+   */
+  public async processLocationEvents(
+    locations: GeofenceLocationUpdateDto[],
+    userId?: number
+  ): Promise<GeofenceLocationEventResponseDto> {
+    const result: GeofenceLocationEventResponseDto = {
+      processed: 0,
+      skipped: [],
+      transitions: [],
+    };
+    const touchedGeofenceIds = new Set<number>();
+    const eventTypesByCustomer = new Map<
+      number,
+      Record<GeofenceTransitionType, GeofenceEventTypeIds>
+    >();
+
+    // Oldest first, so a batch holding several positions per unit replays in order
+    const ordered = [...locations].sort(
+      (a, b) =>
+        new Date(a.event_time ?? Date.now()).getTime() -
+        new Date(b.event_time ?? Date.now()).getTime()
+    );
+
+    for (const location of ordered) {
+      const equipment = await resolveLocatedEquipment(location);
+      if (!equipment) {
+        result.skipped.push({
+          equipment_id: location.equipment_id,
+          unit_number: location.unit_number,
+          reason: "Equipment not found",
+        });
+        continue;
+      }
+      if (equipment.account_id === null || equipment.customer_id === null) {
+        result.skipped.push({
+          equipment_id: equipment.equipment_id,
+          unit_number: equipment.unit_number,
+          reason: "Equipment is not assigned to an account",
+        });
+        continue;
+      }
+
+      const latitude = Number(location.latitude);
+      const longitude = Number(location.longitude);
+      const eventTime = location.event_time
+        ? new Date(location.event_time)
+        : new Date();
+
+      const geofences = await findGeofenceContainment(
+        equipment,
+        latitude,
+        longitude
+      );
+      result.processed++;
+      if (!geofences.length) {
+        continue;
+      }
+
+      let eventTypes = eventTypesByCustomer.get(equipment.customer_id);
+      if (!eventTypes) {
+        eventTypes = await this.resolveTransitionEventTypes(
+          equipment.customer_id
+        );
+        eventTypesByCustomer.set(equipment.customer_id, eventTypes);
+      }
+
+      const existingStates = await prisma.geofence_state.findMany({
+        where: {
+          equipment_id: equipment.equipment_id,
+          geofence_id: { in: geofences.map((g) => g.geofence_id) },
+        },
+      });
+      const stateByGeofence = new Map(
+        existingStates.map((s) => [s.geofence_id, s])
+      );
+
+      for (const geofence of geofences) {
+        const previous = stateByGeofence.get(geofence.geofence_id);
+        if (previous && previous.updated_at > eventTime) {
+          continue;
+        }
+
+        const wasInside = previous?.is_inside ?? false;
+        if (previous && wasInside === geofence.is_inside) {
+          continue;
+        }
+
+        // First sighting outside a geofence only seeds the state row
+        const eventType: GeofenceTransitionType | null =
+          geofence.is_inside !== wasInside
+            ? geofence.is_inside
+              ? "ENTER"
+              : "EXIT"
+            : null;
+        const typeIds = eventType ? eventTypes[eventType] : null;
+
+        await prisma.geofence_state.upsert({
+          where: {
+            equipment_id_geofence_id: {
+              equipment_id: equipment.equipment_id,
+              geofence_id: geofence.geofence_id,
+            },
+          },
+          create: {
+            equipment_id: equipment.equipment_id,
+            geofence_id: geofence.geofence_id,
+            is_inside: geofence.is_inside,
+            last_state_id: typeIds?.stateId ?? null,
+            updated_at: eventTime,
+          },
+          update: {
+            is_inside: geofence.is_inside,
+            last_state_id: typeIds?.stateId ?? null,
+            updated_at: eventTime,
+          },
+        });
+        touchedGeofenceIds.add(geofence.geofence_id);
+
+        if (!eventType) {
+          continue;
+        }
+
+        const feed = await createActivityFeedService({
+          equipment_id: equipment.equipment_id,
+          account_id: equipment.account_id,
+          customer_id: geofence.customer_id ?? equipment.customer_id,
+          geofence_id: geofence.geofence_id,
+          alert_type_id: typeIds?.alertTypeId ?? undefined,
+          latitude,
+          longitude,
+          event_time: eventTime,
+          created_by: userId,
+          updated_by: userId,
+        });
+
+        const transition: GeofenceTransitionDto = {
+          equipment_id: equipment.equipment_id,
+          unit_number: equipment.unit_number,
+          geofence_id: geofence.geofence_id,
+          geofence_name: geofence.geofence_name,
+          event_type: eventType,
+          event_time: eventTime,
+          activity_feed_id: feed.activity_feed_id,
+        };
+        result.transitions.push(transition);
+      }
+    }
+
+    await this.refreshAssetsInGeofence(Array.from(touchedGeofenceIds));
+
+    return result;
+  }
 }
@@ -0,0 +1,540 @@
+import type { Prisma, iot_device_health_view } from "@prisma/client";
+import prisma from "../config/database.config";
+import { ServiceError } from "../utils/responseUtils";
+import { getPagination, getPaginationMeta } from "../utils/pagination";
+import { ExcelExporter } from "../utils/excelUtils";
+import {
+  IotDeviceAssignmentHistoryDto,
+  IotDeviceHealthDto,
+  IotDeviceHealthSummaryDto,
+  IotDeviceMoveDto,
+  IotDeviceQueryDto,
+} from "../types/dtos/iot-device.dto";
+
+const DEFAULT_SILENT_HOURS = 24;
+const MAX_SILENT_HOURS = 24 * 90;
+const DEFAULT_LOW_BATTERY_VOLTAGE = 3.5;
+const ACTIVE_ASSIGNMENT_STATUS = "ACTIVE";
+// equipment.telematic_device_id is required and unique; a unit left without a tracker gets this prefix
+const UNTRACKED_DEVICE_PREFIX = "UNASSIGNED-";
+const HOUR_MS = 60 * 60 * 1000;
+
+const HEALTH_FILTERS = ["OK", "SILENT", "LOW_BATTERY", "UNASSIGNED", "FLAGGED"];
+const SORTABLE_FIELDS = [
+  "last_report_age_hours",
+  "battery_voltage",
+  "unit_number",
+  "device_id_external",
+  "vendor_name",
+  "installation_date",
+] as const;
+type DeviceSortField = (typeof SORTABLE_FIELDS)[number];
+
+type DeviceHealthWhere = Prisma.iot_device_health_viewWhereInput;
+
+interface HealthThresholds {
+  silentHours: number;
+  lowBatteryVoltage: number
+}
+
+const parseThresholds = (query: IotDeviceQueryDto): HealthThresholds => {
+  const silentHours = query.silent_hours ? Number(query.silent_hours) : DEFAULT_SILENT_HOURS;
+  if (!Number.isFinite(silentHours) || silentHours <= 0 || silentHours > MAX_SILENT_HOURS) {
+    throw new ServiceError(`silent_hours must be between 1 and ${MAX_SILENT_HOURS}`, 400);
+  }
+  const lowBatteryVoltage = query.low_battery_voltage
+    ? Number(query.low_battery_voltage)
+    : DEFAULT_LOW_BATTERY_VOLTAGE;
+  if (!Number.isFinite(lowBatteryVoltage) || lowBatteryVoltage <= 0) {
+    throw new ServiceError("low_battery_voltage must be a positive number", 400);
+  }
+  return { silentHours, lowBatteryVoltage };
+};
+
+const parseAccountIds = (value?: string): number[] =>
+  (value ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+const toNullableNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const buildDeviceWhere = async (query: IotDeviceQueryDto): Promise<DeviceHealthWhere> => {
+  const conditions: DeviceHealthWhere[] = [{ is_deleted: false }];
+
+  if (query.account_ids) {
+    const accountIds = parseAccountIds(query.account_ids);
+    if (!accountIds.length) {
+      throw new ServiceError("account_ids must be a comma-separated list of ids", 400);
+    }
+    const units = await prisma.fleet_list_view.findMany({
+      where: { account_id: { in: accountIds } },
+      distinct: ["equipment_id"],
+      select: { equipment_id: true },
+    });
+    conditions.push({ equipment_id: { in: units.map((unit) => unit.equipment_id) } });
+  }
+  if (query.vendor_id) {
+    const vendorId = Number(query.vendor_id);
+    if (!Number.isInteger(vendorId)) {
+      throw new ServiceError("vendor_id must be an integer", 400);
+    }
+    conditions.push({ iot_device_vendor_lookup_id: vendorId });
+  }
+  if (query.device_type) {
+    conditions.push({ device_type: { contains: query.device_type.trim(), mode: "insensitive" } });
+  }
+  if (query.status) {
+    conditions.push({ status: query.status.trim().toUpperCase() });
+  }
+  if (query.search) {
+    const search = query.search.trim();
+    conditions.push({
+      OR: [
+        { device_id_external: { contains: search, mode: "insensitive" } },
+        { unit_number: { contains: search, mode: "insensitive" } },
+      ],
+    });
+  }
+  return { AND: conditions };
+};
+
+// Installed devices with no report inside the window, including ones that never reported
+const silentWhere = (thresholds: HealthThresholds): DeviceHealthWhere => ({
+  report_sort_at: { lt: new Date(Date.now() - thresholds.silentHours * HOUR_MS) },
+});
+
+const lowBatteryWhere = (thresholds: HealthThresholds): DeviceHealthWhere => ({
+  OR: [
+    { is_low_battery_health: true },
+    { battery_voltage: { lt: thresholds.lowBatteryVoltage } },
+  ],
+});
+
+// Written out rather than negated: NOT over a null battery_voltage would drop the row
+const okWhere = (thresholds: HealthThresholds): DeviceHealthWhere => ({
+  report_sort_at: { gte: new Date(Date.now() - thresholds.silentHours * HOUR_MS) },
+  is_low_battery_health: false,
+  OR: [{ battery_voltage: null }, { battery_voltage: { gte: thresholds.lowBatteryVoltage } }],
+});
+
+const buildHealthWhere = (health: string, thresholds: HealthThresholds): DeviceHealthWhere => {
+  if (health === "FLAGGED") return { OR: [silentWhere(thresholds), lowBatteryWhere(thresholds)] };
+  if (health === "SILENT") return silentWhere(thresholds);
+  if (health === "LOW_BATTERY") return lowBatteryWhere(thresholds);
+  if (health === "UNASSIGNED") return { equipment_id: null };
+  return okWhere(thresholds);
+};
+
+// Devices that have never reported sort as the oldest report; other nulls sort last
+const buildDeviceOrderBy = (
+  sort?: string
+): Prisma.iot_device_health_viewOrderByWithRelationInput[] => {
+  const [fieldRaw, directionRaw] = (sort ?? "last_report_age_hours:desc").split(":");
+  const field: DeviceSortField = SORTABLE_FIELDS.includes(fieldRaw as DeviceSortField)
+    ? (fieldRaw as DeviceSortField)
+    : "last_report_age_hours";
+  const direction: Prisma.SortOrder = directionRaw?.toLowerCase() === "asc" ? "asc" : "desc";
+  const tieBreaker = { iot_device_id: "asc" } as const;
+
+  if (field === "last_report_age_hours") {
+    // Oldest report means the largest age
+    const sortAt: Prisma.SortOrder = direction === "asc" ? "desc" : "asc";
+    return [{ report_sort_at: { sort: sortAt, nulls: "last" } }, tieBreaker];
+  }
+  const column = field === "installation_date" ? "device_installation_date" : field;
+  return [{ [column]: { sort: direction, nulls: "last" } }, tieBreaker];
+};
+
+const toDeviceHealth = (
+  row: iot_device_health_view,
+  thresholds: HealthThresholds,
+  now: number
+): IotDeviceHealthDto => {
+  const isAssigned = row.equipment_id !== null;
+  const ageHours = row.last_report_at
+    ? Math.round(((now - row.last_report_at.getTime()) / HOUR_MS) * 10) / 10
+    : null;
+  const batteryVoltage = toNullableNumber(row.battery_voltage);
+  const isSilent = isAssigned && (ageHours === null || ageHours > thresholds.silentHours);
+  const isLowBattery =
+    row.is_low_battery_health ||
+    (batteryVoltage !== null && batteryVoltage < thresholds.lowBatteryVoltage);
+
+  return {
+    iot_device_id: row.iot_device_id.toString(),
+    device_id_external: row.device_id_external,
+    device_type: row.device_type,
+    vendor_id: row.iot_device_vendor_lookup_id,
+    vendor_name: row.vendor_name,
+    status: row.status,
+    installation_date: row.device_installation_date,
+    last_service_date: row.device_last_service_date,
+    equipment_id: row.equipment_id,
+    unit_number: row.unit_number,
+    account_id: row.account_id,
+    account_name: row.account_name,
+    assigned_since: row.assigned_since,
+    last_report_at: row.last_report_at,
+    last_report_age_hours: ageHours,
+    battery_health: row.battery_health,
+    battery_voltage: batteryVoltage,
+    metric_value: toNullableNumber(row.metric_value),
+    metric_uom: row.metric_uom,
+    is_silent: isSilent,
+    is_low_battery: isLowBattery,
+    health: !isAssigned
+      ? "UNASSIGNED"
+      : isSilent
+        ? "SILENT"
+        : isLowBattery
+          ? "LOW_BATTERY"
+          : "OK",
+  };
+};
+
+const summarize = async (
+  where: DeviceHealthWhere,
+  thresholds: HealthThresholds
+): Promise<IotDeviceHealthSummaryDto> => {
+  const count = (condition: DeviceHealthWhere) =>
+    prisma.iot_device_health_view.count({ where: { AND: [where, condition] } });
+  const [total, silent, lowBattery, unassigned] = await Promise.all([
+    count({}),
+    count(silentWhere(thresholds)),
+    count(lowBatteryWhere(thresholds)),
+    count({ equipment_id: null }),
+  ]);
+  return { total, silent, low_battery: lowBattery, unassigned };
+};
+
+/**
+ * Loads device health rows with filtering, sorting and paging done in the database
+ * The summary counts the devices matching every filter except health
+ *
+ * @param query - Device list filters and sort
+ * @param page - skip/take for one page; omitted to load every matching device
+ * @returns Health rows, matching row count, summary and the thresholds applied
+ * @author chaitanya
+ */
+const loadFilteredDevices = async (
+  query: IotDeviceQueryDto,
+  page?: { skip: number, take: number }
+) => {
+  const health = query.health?.trim().toUpperCase();
+  if (health && !HEALTH_FILTERS.includes(health)) {
+    throw new ServiceError(`health must be one of ${HEALTH_FILTERS.join(", ")}`, 400);
+  }
+  const thresholds = parseThresholds(query);
+  const baseWhere = await buildDeviceWhere(query);
+  const where = health ? { AND: [baseWhere, buildHealthWhere(health, thresholds)] } : baseWhere;
+
+  const [rows, total, summary] = await Promise.all([
+    prisma.iot_device_health_view.findMany({
+      where,
+      orderBy: buildDeviceOrderBy(query.sort),
+      ...page,
+    }),
+    prisma.iot_device_health_view.count({ where }),
+    summarize(baseWhere, thresholds),
+  ]);
+  const now = Date.now();
+  return {
+    rows: rows.map((row) => toDeviceHealth(row, thresholds, now)),
+    total,
+    summary,
+    thresholds,
+  };
+};
+
+/**
+ * Lists IoT devices with last-report age and silent / low-battery flags
+ * The summary counts the devices matching every filter except health
+ *
+ * @param query - account_ids, vendor_id, device_type, status, health, search, silent_hours,
+ * low_battery_voltage, pagination and sort (default oldest report first)
+ * @returns Paginated device health rows with summary counts
+ * @author chaitanya
+ */
+export const getIotDevicesService = async (query: IotDeviceQueryDto) => {
+  const { page, perPage, skip, take } = getPagination(query);
+  const { rows, total, summary } = await loadFilteredDevices(query, { skip, take });
+
+  return {
+    data: rows,
+    meta: getPaginationMeta(total, page, perPage),
+    summary,
+  };
+};
+
+/**
+ * Exports the device health report to Excel
+ *
+ * @param query - Same filters as the device list; pagination is ignored
+ * @returns Excel buffer and filename
+ * @author chaitanya
+ */
+export const downloadIotDeviceHealthService = async (
+  query: IotDeviceQueryDto
+): Promise<{ buffer: Buffer, filename: string }> => {
+  const { rows, summary, thresholds } = await loadFilteredDevices(query);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+  const filename = `iot_device_health_${timestamp}.xlsx`;
+  const yesNo = (value: unknown) => (value ? "Yes" : "No");
+
+  const exporter = new ExcelExporter();
+  exporter.generateWorkbook({
+    sheetName: "Devices",
+    title: "IoT Device Health",
+    subtitle:
+      `${summary.total} devices, ${summary.silent} silent (no report in ${thresholds.silentHours}h), ` +
+      `${summary.low_battery} low battery (below ${thresholds.lowBatteryVoltage} V), ` +
+      `${summary.unassigned} unassigned`,
+    columns: [
+      { header: "Device ID", key: "device_id_external", width: 20 },
+      { header: "Device Type", key: "device_type", width: 16 },
+      { header: "Vendor", key: "vendor_name", width: 20 },
+      { header: "Status", key: "status", width: 10 },
+      { header: "Unit Number", key: "unit_number", width: 18 },
+      { header: "Account Name", key: "account_name", width: 30 },
+      { header: "Installed", key: "installation_date", width: 14 },
+      { header: "On Unit Since", key: "assigned_since", width: 14 },
+      { header: "Last Report", key: "last_report_at", width: 20 },
+      { header: "Hours Since Report", key: "last_report_age_hours", width: 18 },
+      { header: "Battery Health", key: "battery_health", width: 16 },
+      { header: "Battery Voltage", key: "battery_voltage", width: 16 },
+      { header: "Health", key: "health", width: 14 },
+      { header: "Silent", key: "is_silent", width: 10, formatter: yesNo },
+      { header: "Low Battery", key: "is_low_battery", width: 12, formatter: yesNo },
+    ],
+    data: rows,
+    filename,
+  });
+
+  return { buffer: await exporter.writeToBuffer(), filename };
+};
+
+const historySelect = {
+  iot_device_assignment_history_id: true,
+  iot_device_id: true,
+  from_equipment_id: true,
+  to_equipment_id: true,
+  effective_date: true,
+  reason: true,
+  moved_by: true,
+  moved_at: true,
+  from_equipment_ref: { select: { unit_number: true } },
+  to_equipment_ref: { select: { unit_number: true } },
+} satisfies Prisma.iot_device_assignment_historySelect;
+
+const mapHistory = (
+  row: Prisma.iot_device_assignment_historyGetPayload<{ select: typeof historySelect }>
+): IotDeviceAssignmentHistoryDto => ({
+  iot_device_assignment_history_id: row.iot_device_assignment_history_id.toString(),
+  iot_device_id: row.iot_device_id.toString(),
+  from_equipment_id: row.from_equipment_id,
+  from_unit_number: row.from_equipment_ref?.unit_number ?? null,
+  to_equipment_id: row.to_equipment_id,
+  to_unit_number: row.to_equipment_ref.unit_number,
+  effective_date: row.effective_date,
+  reason: row.reason,
+  moved_by: row.moved_by,
+  moved_at: row.moved_at,
+});
+
+/**
+ * Moves a device to another unit and records the move in its assignment history
+ * The current installation is closed and a new one opened, so GPS locations recorded
+ * against the old installation stay with the old unit. Both units' telematic_device_id
+ * are updated with the links. The target unit must not already carry a device
+ *
+ * @param iotDeviceId - Device being moved
+ * @param body - Target unit, effective date, reason and user
+ * @returns History entry for the move
+ * @author chaitanya
+ */
+export const moveIotDeviceService = async (
+  iotDeviceId: bigint,
+  body: IotDeviceMoveDto
+): Promise<IotDeviceAssignmentHistoryDto> => {
+  const toEquipmentId = Number(body.to_equipment_id);
+  if (!Number.isInteger(toEquipmentId) || toEquipmentId <= 0) {
+    throw new ServiceError("to_equipment_id is required", 400);
+  }
+  const effectiveDate = body.effective_date ? new Date(body.effective_date) : new Date();
+  if (isNaN(effectiveDate.getTime())) {
+    throw new ServiceError("effective_date must be a valid date", 400);
+  }
+
+  const currentLink = { where: { deactivation_date: null }, take: 1 } as const;
+  const [device, target] = await Promise.all([
+    prisma.iot_device.findFirst({
+      where: { iot_device_id: iotDeviceId, is_deleted: false },
+      select: {
+        iot_device_id: true,
+        device_id_external: true,
+        equipment_iot_device_ref: {
+          ...currentLink,
+          select: {
+            equipment_has_iot_device_id: true,
+            equipment_id: true,
+            effective_date: true,
+            iot_device_metric_ref: { select: { iot_device_metric_id: true } },
+          },
+        },
+      },
+    }),
+    prisma.equipment.findFirst({
+      where: { equipment_id: toEquipmentId, is_deleted: false },
+      select: {
+        equipment_id: true,
+        equipment_iot_device_ref: { ...currentLink, select: { iot_device_id: true } },
+      },
+    }),
+  ]);
+  if (!device) {
+    throw new ServiceError("IoT device not found", 404);
+  }
+  if (!target) {
+    throw new ServiceError("Target equipment not found", 404);
+  }
+  // At most one current installation is selected for each side
+  const current = device.equipment_iot_device_ref[0];
+  const targetDevice = target.equipment_iot_device_ref[0];
+  if (current?.equipment_id === toEquipmentId) {
+    throw new ServiceError("Device is already installed on this unit", 409);
+  }
+  if (targetDevice) {
+    throw new ServiceError(
+      `Unit already has device ${targetDevice.iot_device_id.toString()} installed`,
+      409
+    );
+  }
+  if (current?.effective_date && effectiveDate < current.effective_date) {
+    throw new ServiceError(
+      `effective_date cannot be before the current installation on ${current.effective_date.toISOString()}`,
+      409
+    );
+  }
+  const deviceRef = device.device_id_external?.trim();
+  if (deviceRef) {
+    const holder = await prisma.equipment.findFirst({
+      where: { telematic_device_id: deviceRef, equipment_id: { not: current?.equipment_id } },
+      select: { unit_number: true },
+    });
+    if (holder) {
+      throw new ServiceError(
+        `Telematics id ${deviceRef} is already used by unit ${holder.unit_number}`,
+        409
+      );
+    }
+  }
+
+  try {
+    const history = await prisma.$transaction(async (tx) => {
+      if (current) {
+        await tx.equipment_has_iot_device.update({
+          where: { equipment_has_iot_device_id: current.equipment_has_iot_device_id },
+          data: { deactivation_date: effectiveDate },
+        });
+        // telematics follows telematic_device_id, so the old unit keeps its last reported state
+        await tx.equipment.update({
+          where: { equipment_id: current.equipment_id },
+          data: {
+            telematic_device_id: `${UNTRACKED_DEVICE_PREFIX}${current.equipment_id}`,
+            updated_at: new Date(),
+            updated_by: body.moved_by ?? null,
+          },
+        });
+      }
+      const link = await tx.equipment_has_iot_device.create({
+        data: {
+          equipment_id: toEquipmentId,
+          iot_device_id: iotDeviceId,
+          effective_date: effectiveDate,
+          status: ACTIVE_ASSIGNMENT_STATUS,
+          created_by: body.moved_by ?? null,
+        },
+        select: { equipment_has_iot_device_id: true },
+      });
+      // The metric describes the device, not the installation
+      if (current?.iot_device_metric_ref) {
+        await tx.iot_device_metric.update({
+          where: { iot_device_metric_id: current.iot_device_metric_ref.iot_device_metric_id },
+          data: { equipment_has_iot_device_id: link.equipment_has_iot_device_id },
+        });
+      }
+      if (deviceRef) {
+        await tx.equipment.update({
+          where: { equipment_id: toEquipmentId },
+          data: {
+            telematic_device_id: deviceRef,
+            updated_at: new Date(),
+            updated_by: body.moved_by ?? null,
+          },
+        });
+      }
+      return tx.iot_device_assignment_history.create({
+        data: {
+          iot_device_id: iotDeviceId,
+          from_equipment_id: current?.equipment_id ?? null,
+          to_equipment_id: toEquipmentId,
+          effective_date: effectiveDate,
+          reason: body.reason?.trim() ? body.reason.trim() : null,
+          moved_by: body.moved_by ?? null,
+        },
+        select: historySelect,
+      });
+    });
+    return mapHistory(history);
+  } catch (err: unknown) {
+    // A concurrent move won the race for one of the current-installation unique indexes
+    if ((err as { code?: string }).code === "P2002") {
+      throw new ServiceError("Device or unit already has a current installation", 409);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Lists the units a device has been moved between, newest first
+ *
+ * @param iotDeviceId - Device whose history is listed
+ * @param query - Pagination parameters
+ * @returns Paginated assignment history
+ * @author chaitanya
+ */
+export const getIotDeviceHistoryService = async (
+  iotDeviceId: bigint,
+  query: { page?: number | string, perPage?: number | string }
+) => {
+  const { page, perPage, skip, take } = getPagination(query);
+  const device = await prisma.iot_device.findFirst({
+    where: { iot_device_id: iotDeviceId, is_deleted: false },
+    select: { iot_device_id: true },
+  });
+  if (!device) {
+    throw new ServiceError("IoT device not found", 404);
+  }
+
+  const where = { iot_device_id: iotDeviceId };
+  const [total, rows] = await Promise.all([
+    prisma.iot_device_assignment_history.count({ where }),
+    prisma.iot_device_assignment_history.findMany({
+      where,
+      orderBy: [{ effective_date: "desc" }, { iot_device_assignment_history_id: "desc" }],
+      skip,
+      take,
+      select: historySelect,
+    }),
+  ]);
+
+  return {
+    data: rows.map(mapHistory),
+    meta: getPaginationMeta(total, page, perPage),
+  };
+};
@@ -0,0 +1,357 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { getMaintenanceReminderConfig } from "../config/env.config";
+import { createAlertNotificationChannels } from "./alertNotification.service";
+import { INACTIVE_SCHEDULE_STATUSES, PM_EVENT_SCHEDULED } from "./pmSchedule.service";
+import {
+  MaintenanceReminderItem,
+  MaintenanceReminderRunResult,
+  MaintenanceReminderSubscriptionDto,
+} from "../types/dtos/pm.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReminderRecipient {
+  email: string;
+  digest: boolean
+}
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+// Smallest configured window the due date falls inside; windows are sorted largest first
+const findWindow = (daysUntilDue: number, windows: number[]): number | null =>
+  windows.filter((days) => daysUntilDue <= days).pop() ?? null;
+
+const toReminderItem = (
+  item: Omit<MaintenanceReminderItem, "days_until_due" | "window_days">,
+  today: Date,
+  windows: number[]
+): MaintenanceReminderItem | null => {
+  const daysUntilDue = Math.floor(
+    (startOfDay(item.due_date).getTime() - today.getTime()) / DAY_MS
+  );
+  const windowDays = findWindow(daysUntilDue, windows);
+  return windowDays === null
+    ? null
+    : { ...item, days_until_due: daysUntilDue, window_days: windowDays };
+};
+
+const findDuePmItems = async (today: Date, horizon: Date, windows: number[]) => {
+  const events = await prisma.preventive_maintenance_event.findMany({
+    where: {
+      status: PM_EVENT_SCHEDULED,
+      next_due_date: { gte: today, lt: horizon },
+      preventive_maintenance_schedule: { status: { notIn: INACTIVE_SCHEDULE_STATUSES } },
+    },
+    select: {
+      pm_event_id: true,
+      account_id: true,
+      equipment_id: true,
+      next_due_date: true,
+      equipment: { select: { unit_number: true } },
+      preventive_maintenance_schedule: { select: { pm_task_description: true } },
+    },
+  });
+  return events.map((event) =>
+    toReminderItem(
+      {
+        reminder_type: "PM",
+        source_id: event.pm_event_id,
+        account_id: event.account_id,
+        equipment_id: event.equipment_id,
+        unit_number: event.equipment.unit_number,
+        description: event.preventive_maintenance_schedule.pm_task_description,
+        due_date: event.next_due_date,
+      },
+      today,
+      windows
+    )
+  );
+};
+
+// Only a unit's latest inspection counts; an expiring one that was already replaced is skipped
+const findDueDotItems = async (today: Date, horizon: Date, windows: number[]) => {
+  const expiring = await prisma.dot_inspection.findMany({
+    where: { valid_through: { gte: today, lt: horizon } },
+    select: {
+      dot_inspection_id: true,
+      account_id: true,
+      equipment_id: true,
+      valid_through: true,
+      type: true,
+      equipment: { select: { unit_number: true } },
+    },
+  });
+  if (!expiring.length) return [];
+
+  const latest = await prisma.dot_inspection.findMany({
+    where: { equipment_id: { in: [...new Set(expiring.map((i) => i.equipment_id))] } },
+    orderBy: [{ inspection_date: "desc" }, { dot_inspection_id: "desc" }],
+    distinct: ["equipment_id"],
+    select: { dot_inspection_id: true },
+  });
+  const latestIds = new Set(latest.map((i) => i.dot_inspection_id));
+
+  return expiring
+    .filter((inspection) => latestIds.has(inspection.dot_inspection_id))
+    .map((inspection) =>
+      toReminderItem(
+        {
+          reminder_type: "DOT",
+          source_id: inspection.dot_inspection_id,
+          account_id: inspection.account_id,
+          equipment_id: inspection.equipment_id,
+          unit_number: inspection.equipment.unit_number,
+          description: `DOT ${inspection.type ?? "inspection"} expires`,
+          due_date: inspection.valid_through!,
+        },
+        today,
+        windows
+      )
+    );
+};
+
+/**
+ * Resolves reminder recipients per account
+ * The maintenance manager uses the configured digest mode; opted-in users use their own
+ * setting, which also wins when the manager has subscribed
+ */
+const findRecipientsByAccount = async (
+  accountIds: number[],
+  managerDigest: boolean
+): Promise<Map<number, ReminderRecipient[]>> => {
+  const [accounts, subscriptions] = await Promise.all([
+    prisma.account.findMany({
+      where: { account_id: { in: accountIds }, maintenance_manager_id: { not: null } },
+      select: { account_id: true, maintenance_manager_id: true },
+    }),
+    prisma.maintenance_reminder_subscription.findMany({
+      where: { account_id: { in: accountIds }, is_active: true },
+      select: { account_id: true, digest: true, user: { select: { email: true } } },
+    }),
+  ]);
+  const managers = await prisma.user.findMany({
+    where: { user_id: { in: accounts.map((a) => a.maintenance_manager_id!) } },
+    select: { user_id: true, email: true },
+  });
+  const managerEmail = new Map(managers.map((u) => [u.user_id, u.email]));
+
+  const recipients = new Map<number, Map<string, ReminderRecipient>>();
+  const add = (accountId: number, email: string | null, digest: boolean) => {
+    if (!email) return;
+    const key = email.toLowerCase();
+    const byEmail = recipients.get(accountId) ?? new Map<string, ReminderRecipient>();
+    byEmail.set(key, { email: key, digest });
+    recipients.set(accountId, byEmail);
+  };
+  for (const account of accounts) {
+    add(account.account_id, managerEmail.get(account.maintenance_manager_id!) ?? null, managerDigest);
+  }
+  for (const subscription of subscriptions) {
+    add(subscription.account_id, subscription.user.email, subscription.digest);
+  }
+  return new Map([...recipients].map(([accountId, byEmail]) => [accountId, [...byEmail.values()]]));
+};
+
+const reminderKey = (
+  item: Pick<MaintenanceReminderItem, "reminder_type" | "source_id" | "due_date" | "window_days">,
+  email: string
+) => `${item.reminder_type}|${item.source_id}|${item.due_date.getTime()}|${item.window_days}|${email}`;
+
+const formatReminderLine = (item: MaintenanceReminderItem) =>
+  `${item.reminder_type} - Unit ${item.unit_number ?? item.equipment_id}: ${item.description} ` +
+  `due ${item.due_date.toISOString().slice(0, 10)} (in ${item.days_until_due} days)`;
+
+const buildReminderEmail = (accountName: string, items: MaintenanceReminderItem[]) => {
+  if (items.length === 1) {
+    const [item] = items;
+    return {
+      subject: `${item.reminder_type} due in ${item.days_until_due} days - Unit ${item.unit_number ?? item.equipment_id}`,
+      body: `${accountName}\n${formatReminderLine(item)}`,
+    };
+  }
+  const sorted = [...items].sort((a, b) => a.due_date.getTime() - b.due_date.getTime());
+  return {
+    subject: `${items.length} PM / DOT items coming due for ${accountName}`,
+    body: `${accountName}\n${sorted.map(formatReminderLine).join("\n")}`,
+  };
+};
+
+/**
+ * Emails reminders for PMs and DOT inspections coming due within the configured windows
+ * Each item is reminded once per window (e.g. 30, 14 and 7 days out) per recipient; sent
+ * reminders are logged so re-runs skip them. Digest recipients get one email per account.
+ *
+ * @param now - Reference time for the run
+ * @returns Counts of items due, emails sent and reminders logged
+ * @author chaitanya
+ */
+export const sendMaintenanceRemindersService = async (
+  now = new Date()
+): Promise<MaintenanceReminderRunResult> => {
+  const { windows, digest } = getMaintenanceReminderConfig();
+  const today = startOfDay(now);
+  const horizon = new Date(today.getTime() + (windows[0] + 1) * DAY_MS);
+
+  const [pmItems, dotItems] = await Promise.all([
+    findDuePmItems(today, horizon, windows),
+    findDueDotItems(today, horizon, windows),
+  ]);
+  const items = [...pmItems, ...dotItems].filter(
+    (item): item is MaintenanceReminderItem => item !== null
+  );
+  const result: MaintenanceReminderRunResult = {
+    reminders_due: items.length,
+    emails_sent: 0,
+    reminders_sent: 0,
+    failed_recipients: 0,
+  };
+  if (!items.length) return result;
+
+  const accountIds = [...new Set(items.map((item) => item.account_id))];
+  const [recipientsByAccount, accounts, sentLogs] = await Promise.all([
+    findRecipientsByAccount(accountIds, digest),
+    prisma.account.findMany({
+      where: { account_id: { in: accountIds } },
+      select: { account_id: true, account_name: true },
+    }),
+    prisma.maintenance_reminder_log.findMany({
+      where: {
+        OR: (["PM", "DOT"] as const).map((type) => ({
+          reminder_type: type,
+          source_id: {
+            in: items.filter((item) => item.reminder_type === type).map((item) => item.source_id),
+          },
+        })),
+      },
+      select: {
+        reminder_type: true,
+        source_id: true,
+        due_date: true,
+        window_days: true,
+        recipient_email: true,
+      },
+    }),
+  ]);
+  const accountName = new Map(accounts.map((a) => [a.account_id, a.account_name]));
+  const sent = new Set(
+    sentLogs.map((log) =>
+      reminderKey({ ...log, reminder_type: log.reminder_type as MaintenanceReminderItem["reminder_type"] }, log.recipient_email)
+    )
+  );
+
+  const emailChannel = createAlertNotificationChannels().email;
+  for (const accountId of accountIds) {
+    const recipients = recipientsByAccount.get(accountId) ?? [];
+    const accountItems = items.filter((item) => item.account_id === accountId);
+    const name = accountName.get(accountId) ?? `Account ${accountId}`;
+
+    for (const recipient of recipients) {
+      const pending = accountItems.filter(
+        (item) => !sent.has(reminderKey(item, recipient.email))
+      );
+      const batches = recipient.digest ? [pending] : pending.map((item) => [item]);
+      for (const batch of batches) {
+        if (!batch.length) continue;
+        try {
+          await emailChannel.send({
+            to: [recipient.email],
+            alertName: "Maintenance Reminder",
+            ...buildReminderEmail(name, batch),
+          });
+        } catch (error) {
+          logger.error(
+            (error as Error).message || "Maintenance reminder email failed",
+            error
+          );
+          result.failed_recipients++;
+          continue;
+        }
+        const logs: Prisma.maintenance_reminder_logCreateManyInput[] = batch.map((item) => ({
+          reminder_type: item.reminder_type,
+          source_id: item.source_id,
+          due_date: item.due_date,
+          window_days: item.window_days,
+          account_id: accountId,
+          recipient_email: recipient.email,
+        }));
+        // The email is already out; a failed log write must not abort the run or hide the send
+        try {
+          await prisma.maintenance_reminder_log.createMany({ data: logs, skipDuplicates: true });
+        } catch (error) {
+          logger.error(
+            (error as Error).message || "Maintenance reminder log write failed",
+            error
+          );
+        }
+        result.emails_sent++;
+        result.reminders_sent += batch.length;
+      }
+    }
+  }
+
+  if (result.emails_sent) {
+    logger.info(
+      "Sent %d maintenance reminder emails covering %d reminders",
+      result.emails_sent,
+      result.reminders_sent
+    );
+  }
+  return result;
+};
+
+/**
+ * Opts a user in to PM / DOT reminders for an account, or updates their digest setting
+ *
+ * @param userId - User opting in
+ * @param accountId - Account to receive reminders for
+ * @param body - Digest preference; defaults to digest
+ * @returns Subscription
+ * @author chaitanya
+ */
+export const subscribeMaintenanceRemindersService = async (
+  userId: number,
+  accountId: number,
+  body: MaintenanceReminderSubscriptionDto
+) => {
+  const account = await prisma.account.findFirst({
+    where: { account_id: accountId, is_deleted: false },
+    select: { account_id: true },
+  });
+  if (!account) {
+    throw new ServiceError("Account not found", 404);
+  }
+  const digest = body.digest ?? true;
+  return prisma.maintenance_reminder_subscription.upsert({
+    where: { user_id_account_id: { user_id: userId, account_id: accountId } },
+    create: { user_id: userId, account_id: accountId, digest },
+    update: { digest, is_active: true, updated_at: new Date() },
+    select: { user_id: true, account_id: true, digest: true, is_active: true },
+  });
+};
+
+/**
+ * Opts a user out of PM / DOT reminders for an account
+ *
+ * @param userId - User opting out
+ * @param accountId - Account to stop reminders for
+ * @author chaitanya
+ */
+export const unsubscribeMaintenanceRemindersService = async (
+  userId: number,
+  accountId: number
+): Promise<void> => {
+  const { count } = await prisma.maintenance_reminder_subscription.updateMany({
+    where: { user_id: userId, account_id: accountId, is_active: true },
+    data: { is_active: false, updated_at: new Date() },
+  });
+  if (!count) {
+    throw new ServiceError("Reminder subscription not found", 404);
+  }
+};
@@ -110,6 +110,9 @@ interface DOTInspectionWithRelations {
     description: string | null;
     severity_level: string | null;
     corrective_action_taken: string | null;
+    corrective_action_date?: Date | null;
+    is_out_of_service?: boolean;
+    service_request_id?: number | null;
   }[];
 }
 
@@ -1609,6 +1612,9 @@ export class PmService {
             description: true,
             severity_level: true,
             corrective_action_taken: true,
+            corrective_action_date: true,
+            is_out_of_service: true,
+            service_request_id: true,
           },
           orderBy: { dot_inspection_violation_id: "asc" },
         },
@@ -0,0 +1,505 @@
+import prisma from "../config/database.config";
+import { ServiceError } from "../utils/responseUtils";
+import { ExcelExporter } from "../utils/excelUtils";
+import { PDFGenerator, TableColumn, TableRow } from "../utils/pdfGenerator";
+import { PM_EVENT_COMPLETED, PM_EVENT_SCHEDULED } from "./pmSchedule.service";
+import {
+  PmComplianceDimension,
+  PmComplianceGroupRowDto,
+  PmComplianceMetricsDto,
+  PmComplianceQueryDto,
+  PmComplianceReportDto,
+} from "../types/dtos/pm-compliance.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_MONTHS = 12;
+const MAX_RANGE_MONTHS = 36;
+const PASSING_DOT_RESULTS = ["PASS", "PASSED"];
+// Rows per PDF page in landscape; PDFGenerator tables do not break pages on their own
+const PDF_ROWS_PER_PAGE = 20;
+
+interface ComplianceRange {
+  from: Date;
+  to: Date;
+  months: string[]
+}
+
+interface GroupKey {
+  id: number | null;
+  code: string | null;
+  name: string
+}
+
+type Groups = Record<PmComplianceDimension, GroupKey>;
+
+interface PmRecord {
+  month: string;
+  groups: Groups;
+  days_late: number;
+  overdue: boolean
+}
+
+interface DotRecord {
+  month: string;
+  groups: Groups;
+  passed: boolean
+}
+
+interface MetricsAccumulator {
+  pm_due: number;
+  pm_on_time: number;
+  pm_late: number;
+  pm_overdue: number;
+  days_late_total: number;
+  dot_inspections: number;
+  dot_passed: number
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const toMonthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+const startOfUtcDay = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const parseAccountIds = (value?: string): number[] => {
+  const accountIds = (value ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (!accountIds.length) {
+    throw new ServiceError("account_ids query parameter is required (e.g., ?account_ids=1,2,3)", 400);
+  }
+  return accountIds;
+};
+
+// Accepts YYYY-MM or a full date; defaults to the DEFAULT_RANGE_MONTHS months ending this month
+const parseMonth = (value: string | undefined, field: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(/^\d{4}-\d{2}$/.test(value) ? `${value}-01T00:00:00.000Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new ServiceError(`${field} must be a month (YYYY-MM) or a valid date`, 400);
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+};
+
+const parseRange = (query: PmComplianceQueryDto): ComplianceRange => {
+  const now = new Date();
+  const toMonth =
+    parseMonth(query.to, "to") ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const fromMonth =
+    parseMonth(query.from, "from") ??
+    new Date(Date.UTC(toMonth.getUTCFullYear(), toMonth.getUTCMonth() - (DEFAULT_RANGE_MONTHS - 1), 1));
+  if (fromMonth > toMonth) {
+    throw new ServiceError("from must be before to", 400);
+  }
+
+  const months: string[] = [];
+  for (
+    let cursor = new Date(fromMonth);
+    cursor <= toMonth;
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1))
+  ) {
+    months.push(toMonthKey(cursor));
+  }
+  if (months.length > MAX_RANGE_MONTHS) {
+    throw new ServiceError(`Compliance range cannot exceed ${MAX_RANGE_MONTHS} months`, 400);
+  }
+  const to = new Date(Date.UTC(toMonth.getUTCFullYear(), toMonth.getUTCMonth() + 1, 1) - 1);
+  return { from: fromMonth, to, months };
+};
+
+const UNKNOWN_GROUP: GroupKey = { id: null, code: null, name: "Unassigned" };
+
+const toFacilityGroup = (
+  facility: { facility_lookup_id: number, facility_code: string, facility_name: string } | null
+): GroupKey =>
+  facility
+    ? { id: facility.facility_lookup_id, code: facility.facility_code, name: facility.facility_name }
+    : UNKNOWN_GROUP;
+
+const toEquipmentTypeGroup = (
+  type: { equipment_type_lookup_id: number, equipment_type: string, equipment_name: string } | null
+): GroupKey =>
+  type
+    ? { id: type.equipment_type_lookup_id, code: type.equipment_type, name: type.equipment_name }
+    : UNKNOWN_GROUP;
+
+const equipmentTypeSelect = {
+  select: {
+    equipment_type_lookup_ref: {
+      select: { equipment_type_lookup_id: true, equipment_type: true, equipment_name: true },
+    },
+  },
+};
+const facilitySelect = {
+  select: { facility_lookup_id: true, facility_code: true, facility_name: true },
+};
+
+/**
+ * Loads PMs that fell due in the range with their on-time outcome
+ * Completed PMs are late by the days between due and performed dates; open PMs past their
+ * due date are overdue by the days since; open PMs not yet due are left out
+ */
+const findPmRecords = async (
+  accountIds: number[],
+  range: ComplianceRange,
+  accountGroups: Map<number, GroupKey>
+): Promise<PmRecord[]> => {
+  const events = await prisma.preventive_maintenance_event.findMany({
+    where: {
+      account_id: { in: accountIds },
+      status: { in: [PM_EVENT_COMPLETED, PM_EVENT_SCHEDULED] },
+      next_due_date: { gte: range.from, lte: range.to },
+    },
+    select: {
+      account_id: true,
+      status: true,
+      performed_date: true,
+      next_due_date: true,
+      equipment: equipmentTypeSelect,
+      preventive_maintenance_schedule: { select: { facility_lookup: facilitySelect } },
+    },
+  });
+
+  const today = startOfUtcDay(new Date());
+  const records: PmRecord[] = [];
+  for (const event of events) {
+    const due = startOfUtcDay(event.next_due_date);
+    let daysLate: number;
+    let overdue = false;
+    if (event.status === PM_EVENT_COMPLETED) {
+      if (!event.performed_date) continue;
+      // Unscheduled completions take their performed date as the due date; they were
+      // never due, so counting them would inflate the on-time rate
+      if (event.performed_date.getTime() === event.next_due_date.getTime()) continue;
+      daysLate = Math.max(0, Math.round((startOfUtcDay(event.performed_date) - due) / DAY_MS));
+    } else {
+      if (due >= today) continue;
+      daysLate = Math.round((today - due) / DAY_MS);
+      overdue = true;
+    }
+    records.push({
+      month: toMonthKey(event.next_due_date),
+      groups: {
+        account: accountGroups.get(event.account_id) ?? UNKNOWN_GROUP,
+        facility: toFacilityGroup(event.preventive_maintenance_schedule.facility_lookup),
+        equipment_type: toEquipmentTypeGroup(event.equipment.equipment_type_lookup_ref),
+      },
+      days_late: daysLate,
+      overdue,
+    });
+  }
+  return records;
+};
+
+const findDotRecords = async (
+  accountIds: number[],
+  range: ComplianceRange,
+  accountGroups: Map<number, GroupKey>
+): Promise<DotRecord[]> => {
+  const inspections = await prisma.dot_inspection.findMany({
+    where: {
+      account_id: { in: accountIds },
+      inspection_date: { gte: range.from, lte: range.to },
+    },
+    select: {
+      account_id: true,
+      inspection_date: true,
+      inspection_result: true,
+      equipment: equipmentTypeSelect,
+      schedule_agreement: { select: { facility_lookup_ref: facilitySelect } },
+    },
+  });
+  return inspections.map((inspection) => ({
+    month: toMonthKey(inspection.inspection_date),
+    groups: {
+      account: accountGroups.get(inspection.account_id) ?? UNKNOWN_GROUP,
+      facility: toFacilityGroup(inspection.schedule_agreement.facility_lookup_ref),
+      equipment_type: toEquipmentTypeGroup(inspection.equipment.equipment_type_lookup_ref),
+    },
+    passed: PASSING_DOT_RESULTS.includes(inspection.inspection_result.trim().toUpperCase()),
+  }));
+};
+
+const emptyAccumulator = (): MetricsAccumulator => ({
+  pm_due: 0,
+  pm_on_time: 0,
+  pm_late: 0,
+  pm_overdue: 0,
+  days_late_total: 0,
+  dot_inspections: 0,
+  dot_passed: 0,
+});
+
+const addPm = (acc: MetricsAccumulator, record: PmRecord) => {
+  acc.pm_due++;
+  if (record.overdue) acc.pm_overdue++;
+  else if (record.days_late > 0) acc.pm_late++;
+  else acc.pm_on_time++;
+  acc.days_late_total += record.days_late;
+};
+
+const addDot = (acc: MetricsAccumulator, record: DotRecord) => {
+  acc.dot_inspections++;
+  if (record.passed) acc.dot_passed++;
+};
+
+const percent = (part: number, whole: number) => (whole ? round((part / whole) * 100, 1) : null);
+
+// Average days late is over late and overdue PMs only, so on-time PMs do not dilute it
+const computeMetrics = (acc: MetricsAccumulator): Omit<PmComplianceMetricsDto, "month"> => {
+  const lateCount = acc.pm_late + acc.pm_overdue;
+  return {
+    pm_due: acc.pm_due,
+    pm_on_time: acc.pm_on_time,
+    pm_late: acc.pm_late,
+    pm_overdue: acc.pm_overdue,
+    on_time_percent: percent(acc.pm_on_time, acc.pm_due),
+    avg_days_late: lateCount ? round(acc.days_late_total / lateCount, 1) : null,
+    dot_inspections: acc.dot_inspections,
+    dot_passed: acc.dot_passed,
+    dot_failed: acc.dot_inspections - acc.dot_passed,
+    dot_pass_percent: percent(acc.dot_passed, acc.dot_inspections),
+  };
+};
+
+const toMetrics = (month: string, acc: MetricsAccumulator): PmComplianceMetricsDto => ({
+  month,
+  ...computeMetrics(acc),
+});
+
+const groupKeyOf = (group: GroupKey) => `${group.id ?? "none"}`;
+
+const buildGroupRows = (
+  dimension: PmComplianceDimension,
+  pmRecords: PmRecord[],
+  dotRecords: DotRecord[]
+): PmComplianceGroupRowDto[] => {
+  const cells = new Map<string, { month: string, group: GroupKey, acc: MetricsAccumulator }>();
+  const cellFor = (month: string, group: GroupKey) => {
+    const key = `${month}|${groupKeyOf(group)}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { month, group, acc: emptyAccumulator() };
+      cells.set(key, cell);
+    }
+    return cell.acc;
+  };
+  for (const record of pmRecords) addPm(cellFor(record.month, record.groups[dimension]), record);
+  for (const record of dotRecords) addDot(cellFor(record.month, record.groups[dimension]), record);
+
+  return [...cells.values()]
+    .map(({ month, group, acc }) => ({
+      ...toMetrics(month, acc),
+      group_id: group.id,
+      group_code: group.code,
+      group_name: group.name,
+    }))
+    .sort((a, b) => a.month.localeCompare(b.month) || a.group_name.localeCompare(b.group_name));
+};
+
+const buildPmComplianceReport = async (
+  query: PmComplianceQueryDto
+): Promise<PmComplianceReportDto> => {
+  const accountIds = parseAccountIds(query.account_ids);
+  const range = parseRange(query);
+
+  const accounts = await prisma.account.findMany({
+    where: { account_id: { in: accountIds } },
+    select: { account_id: true, account_number: true, account_name: true },
+  });
+  const accountGroups = new Map(
+    accounts.map((a) => [
+      a.account_id,
+      { id: a.account_id, code: a.account_number, name: a.account_name ?? `Account ${a.account_id}` },
+    ])
+  );
+
+  const [pmRecords, dotRecords] = await Promise.all([
+    findPmRecords(accountIds, range, accountGroups),
+    findDotRecords(accountIds, range, accountGroups),
+  ]);
+
+  const byMonth = new Map(range.months.map((month) => [month, emptyAccumulator()]));
+  const total = emptyAccumulator();
+  for (const record of pmRecords) {
+    addPm(total, record);
+    const acc = byMonth.get(record.month);
+    if (acc) addPm(acc, record);
+  }
+  for (const record of dotRecords) {
+    addDot(total, record);
+    const acc = byMonth.get(record.month);
+    if (acc) addDot(acc, record);
+  }
+
+  return {
+    summary: {
+      ...computeMetrics(total),
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      months: range.months.length,
+    },
+    months: [...byMonth].map(([month, acc]) => toMetrics(month, acc)),
+    by_account: buildGroupRows("account", pmRecords, dotRecords),
+    by_facility: buildGroupRows("facility", pmRecords, dotRecords),
+    by_equipment_type: buildGroupRows("equipment_type", pmRecords, dotRecords),
+  };
+};
+
+/**
+ * Builds the monthly PM / DOT compliance trend for the given accounts
+ * Per month: share of PMs completed on time, average days late and DOT pass / fail rates,
+ * overall and broken down by account, facility and equipment type
+ *
+ * @param query - account_ids (comma list), from/to months (YYYY-MM, default last 12 months)
+ * @returns Summary, monthly trend and per-dimension breakdowns
+ * @author chaitanya
+ */
+export const getPmComplianceService = async (
+  query: PmComplianceQueryDto
+): Promise<PmComplianceReportDto> => buildPmComplianceReport(query);
+
+const METRIC_COLUMNS = [
+  { header: "PMs Due", key: "pm_due", width: 10 },
+  { header: "On Time", key: "pm_on_time", width: 10 },
+  { header: "Late", key: "pm_late", width: 10 },
+  { header: "Overdue", key: "pm_overdue", width: 10 },
+  { header: "On Time %", key: "on_time_percent", width: 12 },
+  { header: "Avg Days Late", key: "avg_days_late", width: 14 },
+  { header: "DOT Inspections", key: "dot_inspections", width: 16 },
+  { header: "DOT Passed", key: "dot_passed", width: 12 },
+  { header: "DOT Failed", key: "dot_failed", width: 12 },
+  { header: "DOT Pass %", key: "dot_pass_percent", width: 12 },
+];
+
+const BREAKDOWNS: { key: "by_account" | "by_facility" | "by_equipment_type", title: string, codeHeader: string }[] = [
+  { key: "by_account", title: "By Account", codeHeader: "Account Number" },
+  { key: "by_facility", title: "By Facility", codeHeader: "Facility Code" },
+  { key: "by_equipment_type", title: "By Equipment Type", codeHeader: "Equipment Type" },
+];
+
+const buildExcel = async (report: PmComplianceReportDto, subtitle: string, filename: string) => {
+  const exporter = new ExcelExporter();
+  exporter.generateWorkbook({
+    sheetName: "Monthly Trend",
+    title: "PM Compliance Trend",
+    subtitle,
+    columns: [{ header: "Month", key: "month", width: 10 }, ...METRIC_COLUMNS],
+    data: report.months,
+    filename,
+  });
+  for (const breakdown of BREAKDOWNS) {
+    exporter.generateWorkbook({
+      sheetName: breakdown.title,
+      title: `PM Compliance ${breakdown.title}`,
+      subtitle,
+      columns: [
+        { header: "Month", key: "month", width: 10 },
+        { header: breakdown.codeHeader, key: "group_code", width: 18 },
+        { header: "Name", key: "group_name", width: 30 },
+        ...METRIC_COLUMNS,
+      ],
+      data: report[breakdown.key],
+      filename,
+    });
+  }
+  return exporter.writeToBuffer();
+};
+
+// PDFGenerator renders falsy values as blanks, so numbers are formatted before they reach it
+const toPdfRow = (row: PmComplianceMetricsDto & { group_name?: string }): TableRow => ({
+  month: row.month,
+  group_name: row.group_name ?? "",
+  pm_due: `${row.pm_due}`,
+  on_time_percent: row.on_time_percent === null ? "-" : `${row.on_time_percent}%`,
+  avg_days_late: row.avg_days_late === null ? "-" : `${row.avg_days_late}`,
+  pm_overdue: `${row.pm_overdue}`,
+  dot_inspections: `${row.dot_inspections}`,
+  dot_pass_percent: row.dot_pass_percent === null ? "-" : `${row.dot_pass_percent}%`,
+});
+
+const PDF_METRIC_COLUMNS: TableColumn[] = [
+  { header: "PMs Due", key: "pm_due", width: 70, align: "right" },
+  { header: "On Time %", key: "on_time_percent", width: 80, align: "right" },
+  { header: "Avg Late", key: "avg_days_late", width: 70, align: "right" },
+  { header: "Overdue", key: "pm_overdue", width: 70, align: "right" },
+  { header: "DOT", key: "dot_inspections", width: 60, align: "right" },
+  { header: "DOT Pass %", key: "dot_pass_percent", width: 90, align: "right" },
+];
+
+const buildPdf = async (report: PmComplianceReportDto, subtitle: string) => {
+  const pdf = new PDFGenerator({
+    title: "PM Compliance Trend",
+    subject: "PM Compliance Report",
+    layout: "landscape",
+  });
+  const { summary } = report;
+  pdf
+    .addTitle("PM COMPLIANCE TREND")
+    .addParagraph(subtitle)
+    .addKeyValue("Generated On", new Date())
+    .addKeyValue("PMs Due", summary.pm_due)
+    .addKeyValue("On Time %", summary.on_time_percent === null ? "-" : `${summary.on_time_percent}%`)
+    .addKeyValue("Avg Days Late", summary.avg_days_late ?? "-")
+    .addKeyValue("DOT Pass %", summary.dot_pass_percent === null ? "-" : `${summary.dot_pass_percent}%`)
+    .addSpace(10)
+    .addLine()
+    .addHeading("Monthly Trend")
+    .addTable(
+      [{ header: "Month", key: "month", width: 80 }, ...PDF_METRIC_COLUMNS],
+      report.months.map(toPdfRow)
+    );
+
+  for (const breakdown of BREAKDOWNS) {
+    const rows = report[breakdown.key].map(toPdfRow);
+    for (let start = 0; start < rows.length || start === 0; start += PDF_ROWS_PER_PAGE) {
+      pdf
+        .addPageBreak()
+        .addHeading(start ? `${breakdown.title} (continued)` : breakdown.title)
+        .addTable(
+          [
+            { header: "Month", key: "month", width: 70 },
+            { header: "Name", key: "group_name", width: 200 },
+            ...PDF_METRIC_COLUMNS,
+          ],
+          rows.slice(start, start + PDF_ROWS_PER_PAGE)
+        );
+    }
+  }
+  return pdf.generateBuffer();
+};
+
+/**
+ * Exports the PM compliance trend to Excel (default) or PDF
+ *
+ * @param query - Same parameters as the report, plus format=xlsx|pdf
+ * @returns File buffer, filename and content type
+ * @author chaitanya
+ */
+export const downloadPmComplianceService = async (
+  query: PmComplianceQueryDto
+): Promise<{ buffer: Buffer, filename: string, contentType: string }> => {
+  const format = (query.format ?? "xlsx").toLowerCase();
+  if (format !== "xlsx" && format !== "pdf") {
+    throw new ServiceError("format must be xlsx or pdf", 400);
+  }
+  const report = await buildPmComplianceReport(query);
+  const subtitle = `${report.months[0]?.month ?? ""} to ${report.months[report.months.length - 1]?.month ?? ""} (${report.summary.months} months)`;
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+  if (format === "pdf") {
+    return {
+      buffer: await buildPdf(report, subtitle),
+      filename: `pm_compliance_${timestamp}.pdf`,
+      contentType: "application/pdf",
+    };
+  }
+  const filename = `pm_compliance_${timestamp}.xlsx`;
+  return {
+    buffer: await buildExcel(report, subtitle, filename),
+    filename,
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+};
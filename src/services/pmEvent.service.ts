@@ -0,0 +1,307 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import {
+  PM_EVENT_COMPLETED,
+  PM_EVENT_SCHEDULED,
+  rollPmScheduleForwardService,
+  syncEquipmentPmDatesService,
+} from "./pmSchedule.service";
+import {
+  PmEventCreateDto,
+  PmEventResponseDto,
+  PmEventUpdateDto,
+  PmPartUsedDto,
+  PmRollForwardResult,
+} from "../types/dtos/pm.dto";
+
+const pmEventSelect = {
+  pm_event_id: true,
+  pm_schedule_id: true,
+  equipment_id: true,
+  account_id: true,
+  status: true,
+  performed_date: true,
+  next_due_date: true,
+  performed_reading: true,
+  next_due_reading: true,
+  work_performed: true,
+  location: true,
+  vendor_technician: true,
+  time_taken: true,
+  warranty_status: true,
+  after_hours: true,
+  notes: true,
+  pm_parts_used: {
+    orderBy: { pm_parts_id: "asc" },
+    select: { pm_parts_id: true, part_name: true, part_quantity: true, part_cost: true },
+  },
+} satisfies Prisma.preventive_maintenance_eventSelect;
+
+type PmEventRow = Prisma.preventive_maintenance_eventGetPayload<{
+  select: typeof pmEventSelect
+}>;
+
+const toPmEventResponse = (
+  row: PmEventRow,
+  rollForward: PmRollForwardResult | null
+): PmEventResponseDto => {
+  const parts = row.pm_parts_used.map((part) => ({
+    ...part,
+    part_cost: part.part_cost === null ? null : Number(part.part_cost),
+  }));
+  const totalPartsCost = parts.reduce(
+    (sum, part) => sum + (part.part_cost ?? 0) * part.part_quantity,
+    0
+  );
+  return {
+    ...row,
+    pm_parts_used: parts,
+    total_parts_cost: Math.round(totalPartsCost * 100) / 100,
+    schedule_roll_forward: rollForward,
+  };
+};
+
+const parseEventDate = (value: string, field: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ServiceError(`${field} must be a valid date`, 400);
+  }
+  return date;
+};
+
+const parsePerformedDate = (value: string): Date => {
+  const date = parseEventDate(value, "performed_date");
+  if (date.getTime() > Date.now() + 5 * 60 * 1000) {
+    throw new ServiceError("performed_date cannot be in the future", 400);
+  }
+  return date;
+};
+
+const toPartRows = (
+  pmEventId: number,
+  parts: PmPartUsedDto[],
+  userId: number | null,
+  now: Date
+): Prisma.pm_parts_usedCreateManyInput[] =>
+  parts.map((part) => ({
+    pm_event_id: pmEventId,
+    part_name: part.part_name.trim(),
+    part_quantity: part.part_quantity,
+    part_cost: part.part_cost ?? null,
+    created_at: now,
+    created_by: userId,
+  }));
+
+// Columns shared by create and update; only fields present in the body are written
+const toEventFields = (body: PmEventUpdateDto) => {
+  const data: Prisma.preventive_maintenance_eventUncheckedUpdateInput = {};
+  if (body.performed_date !== undefined) {
+    data.performed_date = body.performed_date ? parsePerformedDate(body.performed_date) : null;
+  }
+  if (body.next_due_date !== undefined) {
+    data.next_due_date = parseEventDate(body.next_due_date, "next_due_date");
+  }
+  if (body.performed_reading !== undefined) data.performed_reading = body.performed_reading;
+  if (body.work_performed !== undefined) data.work_performed = body.work_performed;
+  if (body.location !== undefined) data.location = body.location;
+  if (body.vendor_technician !== undefined) data.vendor_technician = body.vendor_technician;
+  if (body.time_taken !== undefined) data.time_taken = body.time_taken;
+  if (body.warranty_status !== undefined) data.warranty_status = body.warranty_status;
+  if (body.after_hours !== undefined) data.after_hours = body.after_hours;
+  if (body.notes !== undefined) data.notes = body.notes;
+  return data;
+};
+
+/**
+ * Rolls the schedule forward after a completion without failing the request
+ * A failed roll-forward (e.g. no meter readings yet) is retried by the PM schedule job
+ */
+const rollForwardAfterCompletion = async (
+  pmEventId: number,
+  userId: number | null
+): Promise<PmRollForwardResult | null> => {
+  try {
+    return await rollPmScheduleForwardService(pmEventId, userId);
+  } catch (error) {
+    logger.warn(
+      "PM event %d completed but the schedule was not rolled forward: %s",
+      pmEventId,
+      (error as Error).message
+    );
+    return null;
+  }
+};
+
+/**
+ * Records a PM event against a schedule, typically a completion re-keyed from a vendor work order
+ * A completion fills in the unit's open scheduled event when there is one; otherwise a new
+ * event is created. Completions roll the schedule forward to the next due event.
+ *
+ * @param pmScheduleId - Schedule the event belongs to
+ * @param body - Event details, status and parts used
+ * @returns Recorded event with parts, parts total and the roll-forward result
+ * @author chaitanya
+ */
+export const createPmEventService = async (
+  pmScheduleId: number,
+  body: PmEventCreateDto
+): Promise<PmEventResponseDto> => {
+  const schedule = await prisma.preventive_maintenance_schedule.findUnique({
+    where: { pm_schedule_id: pmScheduleId },
+    select: { pm_schedule_id: true, equipment_id: true, account_id: true },
+  });
+  if (!schedule) {
+    throw new ServiceError("PM schedule not found", 404);
+  }
+
+  const equipmentId = body.equipment_id ?? schedule.equipment_id;
+  if (equipmentId === null) {
+    throw new ServiceError("equipment_id is required for schedules not tied to a unit", 400);
+  }
+  if (schedule.equipment_id !== null && schedule.equipment_id !== equipmentId) {
+    throw new ServiceError("equipment_id does not match the PM schedule's unit", 400);
+  }
+  const equipment = await prisma.equipment.findFirst({
+    where: { equipment_id: equipmentId, is_deleted: false },
+    select: { equipment_id: true },
+  });
+  if (!equipment) {
+    throw new ServiceError("Equipment not found", 404);
+  }
+
+  const status = body.status ?? (body.performed_date ? PM_EVENT_COMPLETED : PM_EVENT_SCHEDULED);
+  const completing = status === PM_EVENT_COMPLETED;
+  if (completing && !body.performed_date) {
+    throw new ServiceError("performed_date is required to complete a PM event", 400);
+  }
+  if (!completing && !body.next_due_date) {
+    throw new ServiceError("next_due_date is required for a scheduled PM event", 400);
+  }
+
+  const userId = body.created_by ?? null;
+  const fields = toEventFields(body);
+  // A completion keeps the due date of the event it closes, so next_due_date is ignored
+  if (completing) delete fields.next_due_date;
+  const now = new Date();
+
+  const pmEventId = await prisma.$transaction(async (tx) => {
+    const open = completing
+      ? await tx.preventive_maintenance_event.findFirst({
+        where: {
+          pm_schedule_id: pmScheduleId,
+          equipment_id: equipmentId,
+          status: PM_EVENT_SCHEDULED,
+        },
+        orderBy: { next_due_date: "asc" },
+        select: { pm_event_id: true },
+      })
+      : null;
+
+    const event = open
+      ? await tx.preventive_maintenance_event.update({
+        where: { pm_event_id: open.pm_event_id },
+        data: { ...fields, status, updated_at: now, updated_by: userId },
+        select: { pm_event_id: true },
+      })
+      : await tx.preventive_maintenance_event.create({
+        data: {
+          ...(fields as Prisma.preventive_maintenance_eventUncheckedCreateInput),
+          pm_schedule_id: pmScheduleId,
+          equipment_id: equipmentId,
+          account_id: schedule.account_id,
+          status,
+          // A completion with no open event was due when it was performed
+          next_due_date: (fields.next_due_date ?? fields.performed_date) as Date,
+          created_at: now,
+          created_by: userId,
+        },
+        select: { pm_event_id: true },
+      });
+
+    if (body.pm_parts_used?.length) {
+      await tx.pm_parts_used.createMany({
+        data: toPartRows(event.pm_event_id, body.pm_parts_used, userId, now),
+      });
+    }
+    if (!completing) {
+      await syncEquipmentPmDatesService(equipmentId, tx);
+    }
+    return event.pm_event_id;
+  });
+
+  const rollForward = completing ? await rollForwardAfterCompletion(pmEventId, userId) : null;
+  const row = await prisma.preventive_maintenance_event.findUniqueOrThrow({
+    where: { pm_event_id: pmEventId },
+    select: pmEventSelect,
+  });
+  return toPmEventResponse(row, rollForward);
+};
+
+/**
+ * Updates a PM event's details and parts
+ * A supplied pm_parts_used list replaces the existing parts. Completing the event, or
+ * changing the performed date or reading of a completed event, rolls the schedule forward.
+ *
+ * @param pmEventId - Event to update
+ * @param body - Fields to change
+ * @returns Updated event with parts, parts total and the roll-forward result
+ * @author chaitanya
+ */
+export const updatePmEventService = async (
+  pmEventId: number,
+  body: PmEventUpdateDto
+): Promise<PmEventResponseDto> => {
+  const existing = await prisma.preventive_maintenance_event.findUnique({
+    where: { pm_event_id: pmEventId },
+    select: { pm_event_id: true, equipment_id: true, status: true, performed_date: true },
+  });
+  if (!existing) {
+    throw new ServiceError("PM event not found", 404);
+  }
+
+  const status = body.status ?? existing.status;
+  if (existing.status === PM_EVENT_COMPLETED && status !== PM_EVENT_COMPLETED) {
+    throw new ServiceError("A completed PM event cannot be reopened", 409);
+  }
+  const fields = toEventFields(body);
+  const performedDate =
+    fields.performed_date === undefined ? existing.performed_date : fields.performed_date;
+  if (status === PM_EVENT_COMPLETED && !performedDate) {
+    throw new ServiceError("performed_date is required to complete a PM event", 400);
+  }
+
+  const userId = body.updated_by ?? null;
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    await tx.preventive_maintenance_event.update({
+      where: { pm_event_id: pmEventId },
+      data: { ...fields, status, updated_at: now, updated_by: userId },
+    });
+    if (body.pm_parts_used) {
+      await tx.pm_parts_used.deleteMany({ where: { pm_event_id: pmEventId } });
+      if (body.pm_parts_used.length) {
+        await tx.pm_parts_used.createMany({
+          data: toPartRows(pmEventId, body.pm_parts_used, userId, now),
+        });
+      }
+    }
+    if (status !== PM_EVENT_COMPLETED) {
+      await syncEquipmentPmDatesService(existing.equipment_id, tx);
+    }
+  });
+
+  const rollsForward =
+    status === PM_EVENT_COMPLETED &&
+    (existing.status !== PM_EVENT_COMPLETED ||
+      fields.performed_date !== undefined ||
+      fields.performed_reading !== undefined);
+  const rollForward = rollsForward ? await rollForwardAfterCompletion(pmEventId, userId) : null;
+
+  const row = await prisma.preventive_maintenance_event.findUniqueOrThrow({
+    where: { pm_event_id: pmEventId },
+    select: pmEventSelect,
+  });
+  return toPmEventResponse(row, rollForward);
+};
@@ -0,0 +1,410 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { EquipmentMeterType } from "../types/dtos/equipment-reading.dto";
+import {
+  PmCalendarUnit,
+  PmFrequency,
+  PmNextDue,
+  PmRollForwardResult,
+} from "../types/dtos/pm.dto";
+
+export const PM_EVENT_COMPLETED = "COMPLETED";
+export const PM_EVENT_SCHEDULED = "SCHEDULED";
+export const INACTIVE_SCHEDULE_STATUSES = ["INACTIVE", "CANCELLED", "CLOSED"];
+
+// Meter usage over this window projects when a mileage or engine-hour PM falls due
+const USAGE_WINDOW_DAYS = 90;
+// Due date used when a meter schedule has no usage to project from
+const MAX_PROJECTION_DAYS = 365;
+const ROLL_FORWARD_BATCH_SIZE = 200;
+// A completion the job could not roll forward (e.g. no meter reading yet) is retried after this
+const ROLL_FORWARD_RETRY_HOURS = 24;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CALENDAR_UNITS: Record<string, PmCalendarUnit> = {
+  D: "DAY",
+  DAY: "DAY",
+  DAYS: "DAY",
+  W: "WEEK",
+  WK: "WEEK",
+  WEEK: "WEEK",
+  WEEKS: "WEEK",
+  M: "MONTH",
+  MO: "MONTH",
+  MONTH: "MONTH",
+  MONTHS: "MONTH",
+  Y: "YEAR",
+  YR: "YEAR",
+  YEAR: "YEAR",
+  YEARS: "YEAR",
+};
+const METER_UNITS: Record<string, EquipmentMeterType> = {
+  MI: "ODOMETER",
+  MILE: "ODOMETER",
+  MILES: "ODOMETER",
+  MILEAGE: "ODOMETER",
+  HR: "HOUR_METER",
+  HRS: "HOUR_METER",
+  HOUR: "HOUR_METER",
+  HOURS: "HOUR_METER",
+};
+
+const completedEventSelect = {
+  pm_event_id: true,
+  pm_schedule_id: true,
+  equipment_id: true,
+  account_id: true,
+  performed_date: true,
+  next_due_date: true,
+  performed_reading: true,
+  status: true,
+  created_by: true,
+  updated_by: true,
+  roll_forward_failed_at: true,
+  preventive_maintenance_schedule: {
+    select: { frequency_interval: true, frequency_type: true, status: true },
+  },
+} satisfies Prisma.preventive_maintenance_eventSelect;
+
+type CompletedEventRow = Prisma.preventive_maintenance_eventGetPayload<{
+  select: typeof completedEventSelect
+}>;
+
+/**
+ * Resolves a schedule's frequency_type into a calendar or meter frequency
+ * Accepts singular, plural and abbreviated units, e.g. "MONTHS", "Mile", "HRS"
+ *
+ * @param frequencyType - preventive_maintenance_schedule.frequency_type
+ * @param interval - preventive_maintenance_schedule.frequency_interval
+ * @returns Frequency the next due date is calculated from
+ * @author chaitanya
+ */
+export const parsePmFrequency = (frequencyType: string, interval: number): PmFrequency => {
+  if (!Number.isInteger(interval) || interval <= 0) {
+    throw new ServiceError("PM schedule frequency_interval must be a positive whole number", 409);
+  }
+  const unit = frequencyType.trim().toUpperCase().replace(/[^A-Z]/g, "");
+  if (CALENDAR_UNITS[unit]) {
+    return { kind: "CALENDAR", unit: CALENDAR_UNITS[unit], interval };
+  }
+  if (METER_UNITS[unit]) {
+    return { kind: "METER", meterType: METER_UNITS[unit], interval };
+  }
+  throw new ServiceError(`Unsupported PM frequency_type "${frequencyType}"`, 409);
+};
+
+const addCalendarInterval = (from: Date, unit: PmCalendarUnit, interval: number): Date => {
+  const next = new Date(from);
+  if (unit === "DAY") next.setDate(next.getDate() + interval);
+  else if (unit === "WEEK") next.setDate(next.getDate() + interval * 7);
+  else if (unit === "MONTH") next.setMonth(next.getMonth() + interval);
+  else next.setFullYear(next.getFullYear() + interval);
+  return next;
+};
+
+const findReadingAtOrBefore = (equipmentId: number, meterType: EquipmentMeterType, date: Date) =>
+  prisma.equipment_reading.findFirst({
+    where: {
+      equipment_id: equipmentId,
+      meter_type: meterType,
+      deleted_at: null,
+      reading_date: { lte: date },
+    },
+    orderBy: [{ reading_date: "desc" }, { equipment_reading_id: "desc" }],
+    select: { equipment_reading: true, reading_date: true },
+  });
+
+/**
+ * Projects the date a unit's meter reaches a value from its recent usage
+ * Falls back to MAX_PROJECTION_DAYS after the baseline when the unit has no measurable usage
+ */
+const projectMeterDueDate = async (
+  equipmentId: number,
+  meterType: EquipmentMeterType,
+  dueReading: number,
+  baselineDate: Date
+): Promise<Date> => {
+  const now = new Date();
+  const [latest, windowStart] = await Promise.all([
+    findReadingAtOrBefore(equipmentId, meterType, now),
+    prisma.equipment_reading.findFirst({
+      where: {
+        equipment_id: equipmentId,
+        meter_type: meterType,
+        deleted_at: null,
+        reading_date: { gte: new Date(now.getTime() - USAGE_WINDOW_DAYS * DAY_MS) },
+      },
+      orderBy: [{ reading_date: "asc" }, { equipment_reading_id: "asc" }],
+      select: { equipment_reading: true, reading_date: true },
+    }),
+  ]);
+  const fallback = new Date(baselineDate.getTime() + MAX_PROJECTION_DAYS * DAY_MS);
+  if (!latest || !windowStart) return fallback;
+  if (latest.equipment_reading >= dueReading) return now;
+
+  const days = Math.max(
+    (latest.reading_date.getTime() - windowStart.reading_date.getTime()) / DAY_MS,
+    1
+  );
+  const ratePerDay = (latest.equipment_reading - windowStart.equipment_reading) / days;
+  if (ratePerDay <= 0) return fallback;
+
+  const daysUntilDue = (dueReading - latest.equipment_reading) / ratePerDay;
+  const projected = new Date(latest.reading_date.getTime() + daysUntilDue * DAY_MS);
+  return projected < fallback ? projected : fallback;
+};
+
+/**
+ * Calculates when the next PM is due after a completed event
+ * Calendar schedules count from the performed date; mileage and engine-hour schedules
+ * count from the meter reading at completion and project a due date from recent usage
+ *
+ * @param event - Completed PM event with its schedule
+ * @returns Next due date, next due meter value and the meter value at completion
+ * @author chaitanya
+ */
+const calculateNextPmDue = async (event: CompletedEventRow): Promise<PmNextDue> => {
+  const schedule = event.preventive_maintenance_schedule;
+  const frequency = parsePmFrequency(schedule.frequency_type, schedule.frequency_interval);
+  const performedDate = event.performed_date ?? new Date();
+
+  if (frequency.kind === "CALENDAR") {
+    return {
+      next_due_date: addCalendarInterval(performedDate, frequency.unit, frequency.interval),
+      next_due_reading: null,
+      performed_reading: event.performed_reading,
+    };
+  }
+
+  let performedReading = event.performed_reading;
+  if (performedReading === null) {
+    const reading = await findReadingAtOrBefore(
+      event.equipment_id,
+      frequency.meterType,
+      performedDate
+    );
+    if (!reading) {
+      throw new ServiceError(
+        `No ${frequency.meterType} reading on or before the performed date; ` +
+          "record a reading or performed_reading to schedule the next PM",
+        409
+      );
+    }
+    performedReading = reading.equipment_reading;
+  }
+  const nextDueReading = performedReading + frequency.interval;
+  return {
+    next_due_date: await projectMeterDueDate(
+      event.equipment_id,
+      frequency.meterType,
+      nextDueReading,
+      performedDate
+    ),
+    next_due_reading: nextDueReading,
+    performed_reading: performedReading,
+  };
+};
+
+/**
+ * Recomputes equipment.last_pm_date and equipment.next_pm_due from PM events
+ * last_pm_date is the latest completed event; next_pm_due the earliest scheduled one
+ *
+ * @param equipmentId - Unit to sync
+ * @param client - Prisma client or transaction client
+ * @returns Synced dates
+ * @author chaitanya
+ */
+export const syncEquipmentPmDatesService = async (
+  equipmentId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<PmRollForwardResult["equipment_pm_dates"]> => {
+  const [lastCompleted, nextScheduled] = await Promise.all([
+    client.preventive_maintenance_event.aggregate({
+      where: { equipment_id: equipmentId, status: PM_EVENT_COMPLETED },
+      _max: { performed_date: true },
+    }),
+    client.preventive_maintenance_event.aggregate({
+      where: { equipment_id: equipmentId, status: PM_EVENT_SCHEDULED },
+      _min: { next_due_date: true },
+    }),
+  ]);
+  const dates = {
+    last_pm_date: lastCompleted._max.performed_date,
+    next_pm_due: nextScheduled._min.next_due_date,
+  };
+  await client.equipment.update({
+    where: { equipment_id: equipmentId },
+    data: { ...dates, updated_at: new Date() },
+  });
+  return dates;
+};
+
+/**
+ * Rolls a PM schedule forward after one of its events is completed
+ * Creates the next scheduled event for the unit, or moves the existing open one to the
+ * new due date, then syncs the unit's PM dates. Older completions only sync the dates.
+ *
+ * @param pmEventId - Completed PM event
+ * @param userId - User recorded on the created or updated event
+ * @returns Next scheduled event and the unit's synced PM dates
+ * @author chaitanya
+ */
+export const rollPmScheduleForwardService = async (
+  pmEventId: number,
+  userId?: number | null
+): Promise<PmRollForwardResult> => {
+  const event = await prisma.preventive_maintenance_event.findUnique({
+    where: { pm_event_id: pmEventId },
+    select: completedEventSelect,
+  });
+  if (!event) {
+    throw new ServiceError("PM event not found", 404);
+  }
+  if (event.status !== PM_EVENT_COMPLETED) {
+    throw new ServiceError("Only completed PM events roll the schedule forward", 409);
+  }
+
+  const laterCompletion = await prisma.preventive_maintenance_event.findFirst({
+    where: {
+      pm_schedule_id: event.pm_schedule_id,
+      equipment_id: event.equipment_id,
+      status: PM_EVENT_COMPLETED,
+      pm_event_id: { not: event.pm_event_id },
+      performed_date: { gt: event.performed_date ?? new Date() },
+    },
+    select: { pm_event_id: true },
+  });
+  const scheduleInactive = INACTIVE_SCHEDULE_STATUSES.includes(
+    event.preventive_maintenance_schedule.status.trim().toUpperCase()
+  );
+  if (laterCompletion || scheduleInactive) {
+    return {
+      completed_pm_event_id: event.pm_event_id,
+      next_event: null,
+      equipment_pm_dates: await syncEquipmentPmDatesService(event.equipment_id),
+    };
+  }
+
+  const nextDue = await calculateNextPmDue(event);
+  const now = new Date();
+  const actor = userId ?? event.updated_by ?? event.created_by;
+
+  return prisma.$transaction(async (tx) => {
+    const fillsReading = event.performed_reading === null && nextDue.performed_reading !== null;
+    if (fillsReading || event.roll_forward_failed_at) {
+      await tx.preventive_maintenance_event.update({
+        where: { pm_event_id: event.pm_event_id },
+        data: {
+          performed_reading: nextDue.performed_reading,
+          roll_forward_error: null,
+          roll_forward_failed_at: null,
+        },
+      });
+    }
+
+    const open = await tx.preventive_maintenance_event.findFirst({
+      where: {
+        pm_schedule_id: event.pm_schedule_id,
+        equipment_id: event.equipment_id,
+        status: PM_EVENT_SCHEDULED,
+      },
+      orderBy: { next_due_date: "asc" },
+      select: { pm_event_id: true },
+    });
+    const nextEventSelect = {
+      pm_event_id: true,
+      pm_schedule_id: true,
+      equipment_id: true,
+      next_due_date: true,
+      next_due_reading: true,
+      status: true,
+    } satisfies Prisma.preventive_maintenance_eventSelect;
+
+    const nextEvent = open
+      ? await tx.preventive_maintenance_event.update({
+        where: { pm_event_id: open.pm_event_id },
+        data: {
+          next_due_date: nextDue.next_due_date,
+          next_due_reading: nextDue.next_due_reading,
+          updated_at: now,
+          updated_by: actor,
+        },
+        select: nextEventSelect,
+      })
+      : await tx.preventive_maintenance_event.create({
+        data: {
+          pm_schedule_id: event.pm_schedule_id,
+          equipment_id: event.equipment_id,
+          account_id: event.account_id,
+          next_due_date: nextDue.next_due_date,
+          next_due_reading: nextDue.next_due_reading,
+          status: PM_EVENT_SCHEDULED,
+          created_at: now,
+          created_by: actor,
+        },
+        select: nextEventSelect,
+      });
+
+    return {
+      completed_pm_event_id: event.pm_event_id,
+      next_event: nextEvent,
+      equipment_pm_dates: await syncEquipmentPmDatesService(event.equipment_id, tx),
+    };
+  });
+};
+
+/**
+ * Rolls forward schedule and unit pairs whose latest event was completed without a next event
+ * Shared schedules have no equipment_id, so the open event is looked up per unit.
+ * Catches completions recorded outside the PM event API; a failure is recorded on the
+ * event and retried after ROLL_FORWARD_RETRY_HOURS
+ *
+ * @returns Number of schedules rolled forward
+ * @author chaitanya
+ */
+export const rollForwardCompletedPmEventsService = async (): Promise<number> => {
+  const retryBefore = new Date(Date.now() - ROLL_FORWARD_RETRY_HOURS * 60 * 60 * 1000);
+  const completed = await prisma.$queryRaw<{ pm_event_id: number }[]>`
+    SELECT pm_event_id
+    FROM (
+      SELECT DISTINCT ON (e.pm_schedule_id, e.equipment_id)
+        e.pm_event_id, e.performed_date, e.roll_forward_failed_at
+      FROM preventive_maintenance_event e
+      JOIN preventive_maintenance_schedule s ON s.pm_schedule_id = e.pm_schedule_id
+      WHERE e.status = ${PM_EVENT_COMPLETED}
+        AND e.performed_date IS NOT NULL
+        AND s.status NOT IN (${Prisma.join(INACTIVE_SCHEDULE_STATUSES)})
+        AND NOT EXISTS (
+          SELECT 1
+          FROM preventive_maintenance_event o
+          WHERE o.pm_schedule_id = e.pm_schedule_id
+            AND o.equipment_id = e.equipment_id
+            AND o.status = ${PM_EVENT_SCHEDULED}
+        )
+      ORDER BY e.pm_schedule_id, e.equipment_id, e.performed_date DESC, e.pm_event_id DESC
+    ) latest
+    WHERE roll_forward_failed_at IS NULL OR roll_forward_failed_at < ${retryBefore}
+    ORDER BY performed_date DESC
+    LIMIT ${ROLL_FORWARD_BATCH_SIZE}`;
+
+  let rolled = 0;
+  for (const { pm_event_id: pmEventId } of completed) {
+    try {
+      const result = await rollPmScheduleForwardService(pmEventId);
+      if (result.next_event) rolled++;
+    } catch (error) {
+      const message = (error as Error).message;
+      logger.warn("Could not roll PM schedule forward from event %d: %s", pmEventId, message);
+      await prisma.preventive_maintenance_event.update({
+        where: { pm_event_id: pmEventId },
+        data: { roll_forward_error: message.slice(0, 500), roll_forward_failed_at: new Date() },
+      });
+    }
+  }
+  if (rolled) {
+    logger.info("Rolled %d PM schedules forward", rolled);
+  }
+  return rolled;
+};
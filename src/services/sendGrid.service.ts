@@ -69,3 +69,54 @@ export const sendWelcomeEmail = async (
     }
   }
 };
+
+interface AlertEmailData {
+  subject: string;
+  body: string;
+  alertName: string
+}
+
+export const sendAlertEmail = async (to: string[], data: AlertEmailData) => {
+  if (!SENDGRID_FROM_EMAIL) {
+    throw new Error(
+      "SENDGRID_FROM_EMAIL is not defined in environment variables"
+    );
+  }
+
+  try {
+    const templatePath = path.join(
+      __dirname,
+      "../views/emails/alertNotification.ejs"
+    );
+    const template = fs.readFileSync(templatePath, "utf-8");
+
+    const htmlContent = ejs.render(template, {
+      data,
+      process: {
+        env: {
+          LOGO_URL,
+          FRONTEND_URL,
+        },
+      },
+    });
+
+    const msg: MailDataRequired = {
+      to,
+      from: SENDGRID_FROM_EMAIL,
+      subject: data.subject,
+      text: data.body,
+      html: htmlContent,
+    };
+
+    await sgMail.send(msg);
+    logger.info("Alert email sent to %d recipients", to.length);
+  } catch (error: unknown) {
+    logger.error("SendGrid error:", error);
+
+    if (error && typeof error === 'object' && 'response' in error) {
+      const sendGridError = error as { response: { body: unknown } };
+      logger.error("SendGrid response error:", sendGridError.response.body);
+    }
+    throw error;
+  }
+};
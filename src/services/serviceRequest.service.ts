@@ -1,7 +1,16 @@
 import prisma from "../config/database.config";
-import { CreateServiceRequestInput } from "../types/dtos/serviceRequest.dto";
+import {
+  CancelServiceRequestInput,
+  CreateServiceRequestInput,
+  ServiceRequestAuditItem,
+  ServiceRequestStatus,
+  ServiceRequestStatusHistoryItem,
+  UpdateServiceRequestInput,
+  UpdateServiceRequestStatusInput,
+} from "../types/dtos/serviceRequest.dto";
 import { uploadServiceRequestFileToS3 } from "../utils/s3.middleware";
 import { createErrorWithMessage } from "../utils/responseUtils";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
 import logger from "../utils/logger";
 
 import PDFDocument from "pdfkit";
@@ -11,6 +20,74 @@ import https from "node:https";
 import http from "node:http";
 
 type ServiceRequestListFilters = Record<string, string>;
+
+// Lifecycle order; a request may only move forward, or be cancelled while open
+const SERVICE_REQUEST_STATUS_FLOW: ServiceRequestStatus[] = [
+  "submitted",
+  "acknowledged",
+  "dispatched",
+  "inprogress",
+  "completed",
+];
+const SERVICE_REQUEST_TERMINAL_STATUSES: ServiceRequestStatus[] = [
+  "completed",
+  "cancelled",
+];
+
+// Columns a customer may amend before a work order exists
+const SERVICE_REQUEST_EDITABLE_FIELDS: (keyof UpdateServiceRequestInput)[] = [
+  "equipment_id",
+  "non_ten_unit_number",
+  "non_ten_unit_company",
+  "non_ten_carrier",
+  "non_ten_vin_number",
+  "service_urgency_lookup_id",
+  "service_urgency_type_lookup_id",
+  "service_issues_lookup_ids",
+  "issue_description",
+  "tire_size_lookup_id",
+  "other_type_size",
+  "emergency_contact_date",
+  "service_type_repairedby_date",
+  "service_type_repairedfrom_date",
+  "unit_street",
+  "unit_city",
+  "unit_state",
+  "unit_zipcode",
+  "location_nick_name",
+  "is_gps_location",
+  "latitude",
+  "longititude",
+  "address",
+  "location_notes",
+  "facility_lookup_id",
+  "is_request_pickup",
+  "is_loaded",
+  "is_hazardous",
+  "is_driver_available",
+  "driver_name",
+  "driver_phone_nuber",
+  "primary_contact_name",
+  "primary_contact_method",
+  "primary__contact_phonenumber",
+  "primary_contact_email",
+  "secondary_contact_name",
+  "secondary_contact_method",
+  "secondary__contact_phonenumber",
+  "secondary_contact_email",
+  "po_reference_number",
+];
+const SERVICE_REQUEST_DATE_FIELDS = [
+  "emergency_contact_date",
+  "service_type_repairedby_date",
+  "service_type_repairedfrom_date",
+];
+const SERVICE_REQUEST_REQUIRED_FIELDS = [
+  "primary_contact_name",
+  "primary_contact_email",
+  "primary__contact_phonenumber",
+  "service_urgency_lookup_id",
+];
 type PrismaDecimal = Decimal | number | string | null;
 type ExcelCellValue = string | number | null;
 
@@ -113,6 +190,7 @@ interface AttachmentForPDF {
 interface ServiceRequestListResult {
   data: {
     service_request_id: number;
+    status: string;
     trailer: string;
     submitted_on: Date;
     submitted_by: string;
@@ -383,10 +461,20 @@ export class ServiceRequestService {
     savedLocationId: number | null
   ) {
     try {
+      const now = new Date();
       const serviceRequestData = {
         ...transformedInput,
         attachment_ids: attachmentIds,
         saved_location_id: savedLocationId ?? null,
+        service_request_status: "submitted",
+        status_updated_at: now,
+        status_history: {
+          create: {
+            to_status: "submitted",
+            changed_by: (transformedInput.created_by as number | undefined) ?? null,
+            changed_at: now,
+          },
+        },
       };
 
       const newServiceRequest = await prisma.service_request.create({
@@ -1787,6 +1875,18 @@ export class ServiceRequestService {
           service_saved_location: true,
           facility_lookup: true,
           workorder: true,
+          status_history: {
+            orderBy: { changed_at: "asc" },
+            include: {
+              changed_by_user: { select: { first_name: true, last_name: true } },
+            },
+          },
+          audit_history: {
+            orderBy: { changed_at: "asc" },
+            include: {
+              changed_by_user: { select: { first_name: true, last_name: true } },
+            },
+          },
         },
       });
 
@@ -1829,7 +1929,8 @@ export class ServiceRequestService {
           serviceRequest.service_request_id
         ).padStart(8, "0")}`,
         work_order_id: serviceRequest.workorder?.[0]?.workorder_id || null,
-        status: serviceRequest.workorder?.[0]?.workorder_status ?? "Active",
+        status: serviceRequest.service_request_status,
+        work_order_status: serviceRequest.workorder?.[0]?.workorder_status ?? null,
         created_at: serviceRequest.created_at,
         trailer_number:
           serviceRequest.equipment_ref?.unit_number ??
@@ -1911,6 +2012,20 @@ export class ServiceRequestService {
         service_issues: serviceIssues.map(
           (issue: { type_name: string }) => issue.type_name
         ),
+        status_updated_at: serviceRequest.status_updated_at,
+        status_history: serviceRequest.status_history.map((h) =>
+          this.toStatusHistoryItem(h)
+        ),
+        cancellation_reason: serviceRequest.cancellation_reason,
+        cancelled_at: serviceRequest.cancelled_at,
+        is_editable:
+          serviceRequest.workorder.length === 0 &&
+          !SERVICE_REQUEST_TERMINAL_STATUSES.includes(
+            serviceRequest.service_request_status as ServiceRequestStatus
+          ),
+        audit_history: serviceRequest.audit_history.map((a) =>
+          this.toAuditItem(a)
+        ),
         issue_description: serviceRequest.issue_description,
         attachments: attachments.map(
           (attachment: {
@@ -1967,6 +2082,7 @@ export class ServiceRequestService {
             unit_city: true,
             unit_state: true,
             service_type_repairedby_date: true,
+            service_request_status: true,
             equipment_ref: { select: { unit_number: true } },
             user: { select: { first_name: true, last_name: true } },
           },
@@ -2017,6 +2133,14 @@ export class ServiceRequestService {
       ];
     }
 
+    if (filters.status) {
+      const statuses = filters.status
+        .split(",")
+        .map((st) => st.trim().toLowerCase())
+        .filter(Boolean);
+      if (statuses.length) where.service_request_status = { in: statuses };
+    }
+
     if (filters.submitted_on) {
       const dateRange = this.createDateRange(filters.submitted_on);
       if (dateRange) where.created_at = dateRange;
@@ -2075,6 +2199,8 @@ export class ServiceRequestService {
       "submitted_on",
       "service_type_repairedby_date",
       "service_request_id",
+      "status",
+      "status_updated_at",
     ] as const;
     type SortField = (typeof dbSortableFields)[number];
 
@@ -2085,10 +2211,11 @@ export class ServiceRequestService {
       const sortDir: "asc" | "desc" = direction === "desc" ? "desc" : "asc";
 
       if (dbSortableFields.includes(field as SortField)) {
-        orderBy =
-          field === "submitted_on"
-            ? { created_at: sortDir }
-            : ({ [field]: sortDir } as Record<string, string>);
+        const sortColumns: Record<string, string> = {
+          submitted_on: "created_at",
+          status: "service_request_status",
+        };
+        orderBy = { [sortColumns[field] ?? field]: sortDir };
       }
     }
 
@@ -2127,6 +2254,7 @@ export class ServiceRequestService {
       unit_city: string | null;
       unit_state: string | null;
       service_type_repairedby_date: Date | null;
+      service_request_status: string;
       equipment_ref: { unit_number: string } | null;
       user: { first_name: string | null; last_name: string | null } | null;
     }[],
@@ -2149,6 +2277,7 @@ export class ServiceRequestService {
 
       return {
         service_request_id: sr.service_request_id,
+        status: sr.service_request_status,
         trailer,
         submitted_on: sr.created_at,
         submitted_by: submittedBy,
@@ -2162,6 +2291,7 @@ export class ServiceRequestService {
   private applySorting(
     transformedData: {
       service_request_id: number;
+      status: string;
       trailer: string;
       submitted_on: Date;
       submitted_by: string;
@@ -2187,6 +2317,428 @@ export class ServiceRequestService {
     }
   }
 
+  private toStatusHistoryItem(history: {
+    service_request_status_history_id: number,
+    from_status: string | null,
+    to_status: string,
+    notes: string | null,
+    changed_by: number | null,
+    changed_at: Date,
+    changed_by_user: { first_name: string | null, last_name: string | null } | null
+  }): ServiceRequestStatusHistoryItem {
+    const user = history.changed_by_user;
+    return {
+      service_request_status_history_id: history.service_request_status_history_id,
+      from_status: history.from_status,
+      to_status: history.to_status,
+      notes: history.notes,
+      changed_by: history.changed_by,
+      changed_by_name: user
+        ? `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim() || null
+        : null,
+      changed_at: history.changed_at,
+    };
+  }
+
+  private assertStatusTransition(
+    current: ServiceRequestStatus,
+    next: ServiceRequestStatus
+  ) {
+    if (current === next) {
+      throw createErrorWithMessage(`Service request is already ${next}`, "", 409);
+    }
+    if (SERVICE_REQUEST_TERMINAL_STATUSES.includes(current)) {
+      throw createErrorWithMessage(
+        `Service request is ${current} and can no longer change status`,
+        "",
+        409
+      );
+    }
+    if (
+      next !== "cancelled" &&
+      SERVICE_REQUEST_STATUS_FLOW.indexOf(next) <
+        SERVICE_REQUEST_STATUS_FLOW.indexOf(current)
+    ) {
+      throw createErrorWithMessage(
+        `Cannot move service request from ${current} back to ${next}`,
+        "",
+        409
+      );
+    }
+  }
+
+  private statusChangedConcurrently() {
+    return createErrorWithMessage(
+      "Service request status was changed by another request, reload and try again",
+      "",
+      409
+    );
+  }
+
+  public async updateServiceRequestStatus(
+    serviceRequestId: number,
+    input: UpdateServiceRequestStatusInput
+  ) {
+    if (!serviceRequestId || Number.isNaN(serviceRequestId)) {
+      throw createErrorWithMessage("Invalid or missing service request ID", "");
+    }
+
+    const nextStatus = input.status?.trim().toLowerCase() as ServiceRequestStatus;
+    if (
+      !SERVICE_REQUEST_STATUS_FLOW.includes(nextStatus) &&
+      nextStatus !== "cancelled"
+    ) {
+      throw createErrorWithMessage(
+        `Invalid status. Allowed: ${[...SERVICE_REQUEST_STATUS_FLOW, "cancelled"].join(", ")}`,
+        ""
+      );
+    }
+
+    const existing = await prisma.service_request.findUnique({
+      where: { service_request_id: serviceRequestId },
+      select: { service_request_status: true },
+    });
+    if (!existing) {
+      throw createErrorWithMessage(
+        `Service request with ID ${serviceRequestId} not found`,
+        "",
+        404
+      );
+    }
+
+    const currentStatus = existing.service_request_status as ServiceRequestStatus;
+    this.assertStatusTransition(currentStatus, nextStatus);
+
+    const now = new Date();
+    const changedBy =
+      input.updated_by !== undefined && !Number.isNaN(Number(input.updated_by))
+        ? Number(input.updated_by)
+        : null;
+
+    await prisma.$transaction(async (tx) => {
+      // Only applies while the status is still the one validated above
+      const { count } = await tx.service_request.updateMany({
+        where: {
+          service_request_id: serviceRequestId,
+          service_request_status: currentStatus,
+        },
+        data: { service_request_status: nextStatus, status_updated_at: now },
+      });
+      if (count === 0) {
+        throw this.statusChangedConcurrently();
+      }
+      await tx.service_request_status_history.create({
+        data: {
+          service_request_id: serviceRequestId,
+          from_status: currentStatus,
+          to_status: nextStatus,
+          notes: input.notes ?? null,
+          changed_by: changedBy,
+          changed_at: now,
+        },
+      });
+    });
+
+    const history = await prisma.service_request_status_history.findMany({
+      where: { service_request_id: serviceRequestId },
+      orderBy: { changed_at: "asc" },
+      include: {
+        changed_by_user: { select: { first_name: true, last_name: true } },
+      },
+    });
+
+    logger.info(
+      "Service request %d moved from %s to %s",
+      serviceRequestId,
+      currentStatus,
+      nextStatus
+    );
+
+    return {
+      service_request_id: serviceRequestId,
+      status: nextStatus,
+      status_updated_at: now,
+      status_history: history.map((h) => this.toStatusHistoryItem(h)),
+    };
+  }
+
+  private toAuditValue(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Decimal) return value.toString();
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value as string | number | boolean);
+  }
+
+  private toAuditItem(audit: {
+    service_request_audit_id: number,
+    action: string,
+    field_name: string,
+    old_value: string | null,
+    new_value: string | null,
+    changed_by: number | null,
+    changed_at: Date,
+    changed_by_user: { first_name: string | null, last_name: string | null } | null
+  }): ServiceRequestAuditItem {
+    const user = audit.changed_by_user;
+    return {
+      service_request_audit_id: audit.service_request_audit_id,
+      action: audit.action,
+      field_name: audit.field_name,
+      old_value: audit.old_value,
+      new_value: audit.new_value,
+      changed_by: audit.changed_by,
+      changed_by_name: user
+        ? `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim() || null
+        : null,
+      changed_at: audit.changed_at,
+    };
+  }
+
+  private toUserId(value: unknown): number | null {
+    if (value === undefined || value === null || value === "") return null;
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+
+  private buildServiceRequestChanges(input: UpdateServiceRequestInput) {
+    const changes: Record<string, unknown> = {};
+    for (const field of SERVICE_REQUEST_EDITABLE_FIELDS) {
+      if (input[field] !== undefined) changes[field] = input[field];
+    }
+
+    this.convertNumericFields(changes);
+    this.convertBooleanFields(changes);
+    this.parseJsonFields(changes);
+
+    for (const field of SERVICE_REQUEST_DATE_FIELDS) {
+      if (changes[field] === undefined || changes[field] === null) continue;
+      const date = new Date(changes[field] as string);
+      if (Number.isNaN(date.getTime())) {
+        throw createErrorWithMessage(`Invalid date provided for field '${field}'`, "", 400);
+      }
+      changes[field] = date;
+    }
+
+    for (const field of SERVICE_REQUEST_REQUIRED_FIELDS) {
+      if (field in changes && (changes[field] === null || changes[field] === "")) {
+        throw createErrorWithMessage(`'${field}' cannot be empty`, "", 400);
+      }
+    }
+
+    return changes;
+  }
+
+  public async updateServiceRequest(
+    serviceRequestId: number,
+    input: UpdateServiceRequestInput
+  ) {
+    if (!serviceRequestId || Number.isNaN(serviceRequestId)) {
+      throw createErrorWithMessage("Invalid or missing service request ID", "");
+    }
+
+    const existing = await prisma.service_request.findUnique({
+      where: { service_request_id: serviceRequestId },
+      include: { _count: { select: { workorder: true } } },
+    });
+    if (!existing) {
+      throw createErrorWithMessage(
+        `Service request with ID ${serviceRequestId} not found`,
+        "",
+        404
+      );
+    }
+    if (existing._count.workorder > 0) {
+      throw createErrorWithMessage(
+        "Service request can no longer be edited once a work order exists",
+        "",
+        409
+      );
+    }
+    if (
+      SERVICE_REQUEST_TERMINAL_STATUSES.includes(
+        existing.service_request_status as ServiceRequestStatus
+      )
+    ) {
+      throw createErrorWithMessage(
+        `Service request is ${existing.service_request_status} and can no longer be edited`,
+        "",
+        409
+      );
+    }
+
+    const changes = this.buildServiceRequestChanges(input);
+    if (typeof changes.equipment_id === "number") {
+      // The replacement unit must currently be leased to the request's account
+      const equipment = await prisma.equipment.findFirst({
+        where: {
+          equipment_id: changes.equipment_id,
+          equipment_assignment: {
+            some: {
+              ...activeEquipmentAssignmentWhere(),
+              equipment_type_allocation_ref: { account_id: existing.account_id },
+            },
+          },
+        },
+        select: { equipment_id: true },
+      });
+      if (!equipment) {
+        throw createErrorWithMessage(
+          "Equipment not found or not assigned to the service request's account",
+          "",
+          400
+        );
+      }
+    }
+
+    const existingValues = existing as unknown as Record<string, unknown>;
+    const changedFields = Object.keys(changes).filter(
+      (field) =>
+        this.toAuditValue(existingValues[field]) !== this.toAuditValue(changes[field])
+    );
+
+    if (changedFields.length) {
+      const now = new Date();
+      const changedBy = this.toUserId(input.updated_by);
+      const data: Record<string, unknown> = { updated_at: now, updated_by: changedBy };
+      changedFields.forEach((field) => {
+        data[field] = changes[field];
+      });
+
+      await prisma.$transaction(async (tx) => {
+        // Re-checks the work order and status guards in the same statement as the write
+        const { count } = await tx.service_request.updateMany({
+          where: {
+            service_request_id: serviceRequestId,
+            service_request_status: existing.service_request_status,
+            workorder: { none: {} },
+          },
+          data: data as Parameters<typeof prisma.service_request.updateMany>[0]["data"],
+        });
+        if (count === 0) {
+          throw createErrorWithMessage(
+            "Service request was changed by another request, reload and try again",
+            "",
+            409
+          );
+        }
+        await tx.service_request_audit.createMany({
+          data: changedFields.map((field) => ({
+            service_request_id: serviceRequestId,
+            action: "UPDATE",
+            field_name: field,
+            old_value: this.toAuditValue(existingValues[field]),
+            new_value: this.toAuditValue(changes[field]),
+            changed_by: changedBy,
+            changed_at: now,
+          })),
+        });
+      });
+      logger.info(
+        "Service request %d updated: %s",
+        serviceRequestId,
+        changedFields.join(", ")
+      );
+    }
+
+    const serviceRequest = await this.getServiceRequestById(serviceRequestId);
+    return { ...serviceRequest, changed_fields: changedFields };
+  }
+
+  public async cancelServiceRequest(
+    serviceRequestId: number,
+    input: CancelServiceRequestInput
+  ) {
+    if (!serviceRequestId || Number.isNaN(serviceRequestId)) {
+      throw createErrorWithMessage("Invalid or missing service request ID", "");
+    }
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw createErrorWithMessage("Cancellation reason is required", "", 400);
+    }
+    if (reason.length > 500) {
+      throw createErrorWithMessage(
+        "Cancellation reason must be 500 characters or fewer",
+        "",
+        400
+      );
+    }
+
+    const existing = await prisma.service_request.findUnique({
+      where: { service_request_id: serviceRequestId },
+      select: { service_request_status: true },
+    });
+    if (!existing) {
+      throw createErrorWithMessage(
+        `Service request with ID ${serviceRequestId} not found`,
+        "",
+        404
+      );
+    }
+
+    const currentStatus = existing.service_request_status as ServiceRequestStatus;
+    this.assertStatusTransition(currentStatus, "cancelled");
+
+    const now = new Date();
+    const changedBy = this.toUserId(input.updated_by);
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.service_request.updateMany({
+        where: {
+          service_request_id: serviceRequestId,
+          service_request_status: currentStatus,
+        },
+        data: {
+          service_request_status: "cancelled",
+          status_updated_at: now,
+          cancellation_reason: reason,
+          cancelled_at: now,
+          cancelled_by: changedBy,
+          updated_at: now,
+          updated_by: changedBy,
+        },
+      });
+      if (count === 0) {
+        throw this.statusChangedConcurrently();
+      }
+      await tx.service_request_status_history.create({
+        data: {
+          service_request_id: serviceRequestId,
+          from_status: currentStatus,
+          to_status: "cancelled",
+          notes: reason,
+          changed_by: changedBy,
+          changed_at: now,
+        },
+      });
+      await tx.service_request_audit.createMany({
+        data: [
+          {
+            service_request_id: serviceRequestId,
+            action: "CANCEL",
+            field_name: "service_request_status",
+            old_value: currentStatus,
+            new_value: "cancelled",
+            changed_by: changedBy,
+            changed_at: now,
+          },
+          {
+            service_request_id: serviceRequestId,
+            action: "CANCEL",
+            field_name: "cancellation_reason",
+            old_value: null,
+            new_value: reason,
+            changed_by: changedBy,
+            changed_at: now,
+          },
+        ],
+      });
+    });
+
+    logger.info("Service request %d cancelled", serviceRequestId);
+    return this.getServiceRequestById(serviceRequestId);
+  }
+
   public async getAccountByEquipmentId(equipmentId: number) {
     this.validateEquipmentId(equipmentId);
 
@@ -0,0 +1,607 @@
+import prisma from "../config/database.config";
+import { getSensorListTelematicsVendors } from "../config/env.config";
+import logger from "../utils/logger";
+import {
+  CanonicalTelematicsReading,
+  DoorSensorReading,
+  ReeferZoneReading,
+  TelematicsCanonicalUnit,
+  TelematicsMeasuredField,
+  TelematicsReading,
+  TelematicsVendorMessage,
+  TirePressureReading,
+} from "../types/dtos/telematics-ingest.dto";
+
+// Vendor clocks drift; anything further ahead than this is treated as bad data
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+const MAX_SENSOR_TEXT_LENGTH = 1000;
+
+const CANONICAL_UNITS: Record<TelematicsMeasuredField, TelematicsCanonicalUnit> = {
+  speed: "MPH",
+  temperature: "F",
+  odometer: "MI",
+  mileage: "MI",
+  engine_hours: "HRS",
+  battery_voltage: "V",
+  reefer_temperature: "F",
+  tire_pressure: "PSI",
+};
+
+/**
+ * Raised by adapters when a single message cannot be parsed
+ * The ingest service records it against the message instead of failing the batch
+ */
+export class TelematicsMessageError extends Error {}
+
+export interface TelematicsVendorRef {
+  iot_device_vendor_lookup_id: number;
+  vendor_name: string
+}
+
+/**
+ * Parses one vendor's native payload into the canonical reading
+ */
+export interface TelematicsVendorAdapter {
+  readonly name: string;
+  parse(message: TelematicsVendorMessage, vendor: TelematicsVendorRef): CanonicalTelematicsReading
+}
+
+type UnitKind = "speed" | "temperature" | "distance" | "pressure";
+
+// Factors/functions converting a vendor unit into the canonical one
+const UNIT_CONVERSIONS: Record<UnitKind, Record<string, (value: number) => number>> = {
+  speed: {
+    MPH: (v) => v,
+    KPH: (v) => v / 1.609344,
+    KMH: (v) => v / 1.609344,
+    MS: (v) => v * 2.236936,
+    KNOTS: (v) => v * 1.150779,
+  },
+  temperature: {
+    F: (v) => v,
+    C: (v) => (v * 9) / 5 + 32,
+    K: (v) => ((v - 273.15) * 9) / 5 + 32,
+  },
+  distance: {
+    MI: (v) => v,
+    KM: (v) => v / 1.609344,
+    M: (v) => v / 1609.344,
+  },
+  pressure: {
+    PSI: (v) => v,
+    KPA: (v) => v * 0.145038,
+    BAR: (v) => v * 14.5038,
+  },
+};
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Converts a vendor value into the canonical unit for its kind
+ *
+ * @param value - Numeric value in the vendor unit
+ * @param kind - Measurement kind
+ * @param unit - Vendor unit code, canonical when omitted
+ * @returns Converted value
+ * @author chaitanya
+ */
+export const convertTelematicsUnit = (
+  value: number,
+  kind: UnitKind,
+  unit?: string | null
+): number => {
+  const code = (unit ?? "").toUpperCase().replace(/[^A-Z]/g, "");
+  const conversions = UNIT_CONVERSIONS[kind];
+  if (!code) return round(value);
+  const convert = conversions[code];
+  if (!convert) {
+    throw new TelematicsMessageError(`Unsupported ${kind} unit ${unit}`);
+  }
+  return round(convert(value));
+};
+
+export const pickValue = (
+  message: TelematicsVendorMessage,
+  keys: string[]
+): unknown =>
+  keys
+    .map((key) => message[key])
+    .find((value) => value !== undefined && value !== null && value !== "");
+
+export const toText = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return `${value}`;
+  return JSON.stringify(value);
+};
+
+export const toNumber = (value: unknown, field: string): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new TelematicsMessageError(`${field} must be numeric`);
+  }
+  return parsed;
+};
+
+// Reads the leading number from values like "12.6V"; anything else becomes null
+const toLenientNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = /^\s*(-?\d+(?:\.\d+)?)/.exec(value);
+  return match ? Number(match[1]) : null;
+};
+
+const COMPASS_POINTS = [
+  "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+  "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
+];
+
+// Headings arrive as degrees or compass points ("NE")
+const toHeading = (value: unknown): number | null => {
+  const degrees = toLenientNumber(value);
+  if (degrees !== null) return degrees;
+  const point = COMPASS_POINTS.indexOf(toText(value)?.toUpperCase() ?? "");
+  return point === -1 ? null : point * 22.5;
+};
+
+// Some trackers report battery charge as a percentage, which is not a voltage
+const toBatteryVoltage = (value: unknown): number | null =>
+  typeof value === "string" && value.includes("%") ? null : toLenientNumber(value);
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (["open", "opened", "true", "1", "yes"].includes(normalized)) return true;
+    if (["closed", "close", "false", "0", "no"].includes(normalized)) return false;
+  }
+  return null;
+};
+
+// Cargo sensors report loaded/empty or a plain boolean
+const toCargoLoaded = (value: unknown): boolean | null => {
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (["loaded", "full"].includes(normalized)) return true;
+    if (["empty", "unloaded"].includes(normalized)) return false;
+  }
+  return toBoolean(value);
+};
+
+export const toTimestamp = (value: unknown): Date => {
+  let date: Date | null = null;
+  if (typeof value === "number") {
+    // Epoch seconds or milliseconds
+    date = new Date(value < 1e12 ? value * 1000 : value);
+  } else if (typeof value === "string" || value instanceof Date) {
+    date = new Date(value);
+  }
+  if (!date || isNaN(date.getTime())) {
+    throw new TelematicsMessageError("timestamp is missing or invalid");
+  }
+  if (date.getTime() > Date.now() + MAX_FUTURE_SKEW_MS) {
+    throw new TelematicsMessageError("timestamp is in the future");
+  }
+  return date;
+};
+
+const assertCoordinates = (latitude: number | null, longitude: number | null) => {
+  if ((latitude === null) !== (longitude === null)) {
+    throw new TelematicsMessageError("latitude and longitude must be sent together");
+  }
+  if (latitude !== null && (latitude < -90 || latitude > 90)) {
+    throw new TelematicsMessageError("latitude out of range");
+  }
+  if (longitude !== null && (longitude < -180 || longitude > 180)) {
+    throw new TelematicsMessageError("longitude out of range");
+  }
+};
+
+const withUnits = (
+  reading: Omit<CanonicalTelematicsReading, "units">
+): CanonicalTelematicsReading => {
+  const present: Record<TelematicsMeasuredField, boolean> = {
+    speed: reading.speed !== null,
+    temperature: reading.temperature !== null,
+    odometer: reading.odometer !== null,
+    mileage: reading.mileage !== null,
+    engine_hours: reading.engine_hours !== null,
+    battery_voltage: reading.battery_voltage !== null,
+    reefer_temperature: reading.reefer_zones.length > 0,
+    tire_pressure: reading.tire_pressures.length > 0,
+  };
+  const units: CanonicalTelematicsReading["units"] = {};
+  for (const field of Object.keys(present) as TelematicsMeasuredField[]) {
+    if (present[field]) {
+      units[field] = { uom_type: CANONICAL_UNITS[field], uom_lookup_id: null };
+    }
+  }
+  return { ...reading, units };
+};
+
+// Accepts either an array of objects or a { key: value } map
+const entriesOf = (value: unknown): [string, unknown][] => {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [`${index + 1}`, item]);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>);
+  }
+  return [];
+};
+
+/**
+ * Default adapter for vendors posting the documented ingest format
+ * Top-level position fields plus optional reefer, doors, tires, cargo and units objects,
+ * e.g. { units: { speed: "KPH", temperature: "C", distance: "KM", pressure: "KPA" } }
+ */
+export class GenericTelematicsAdapter implements TelematicsVendorAdapter {
+  public readonly name: string = "generic";
+
+  public parse(
+    message: TelematicsVendorMessage,
+    vendor: TelematicsVendorRef
+  ): CanonicalTelematicsReading {
+    const vendorMessageId = toText(
+      pickValue(message, ["vendor_message_id", "message_id", "messageId", "id"])
+    );
+    if (!vendorMessageId) {
+      throw new TelematicsMessageError("vendor_message_id is required");
+    }
+    const unitNumber = toText(
+      pickValue(message, ["unit_number", "unitNumber", "device_id", "deviceId", "asset_id"])
+    );
+    if (!unitNumber) {
+      throw new TelematicsMessageError("unit_number is required");
+    }
+
+    const units = (message.units ?? {}) as Record<string, string | undefined>;
+    const latitude = toNumber(pickValue(message, ["latitude", "lat"]), "latitude");
+    const longitude = toNumber(pickValue(message, ["longitude", "lon", "lng"]), "longitude");
+    assertCoordinates(latitude, longitude);
+
+    const measure = (keys: string[], field: string, kind: UnitKind) => {
+      const value = toNumber(pickValue(message, keys), field);
+      return value === null ? null : convertTelematicsUnit(value, kind, units[kind]);
+    };
+
+    const reeferSource = pickValue(message, ["reefer_zones", "reefer"]);
+    const reeferZones: ReeferZoneReading[] = entriesOf(
+      reeferSource && !Array.isArray(reeferSource) && typeof reeferSource === "object"
+        ? (reeferSource as Record<string, unknown>).zones ?? reeferSource
+        : reeferSource
+    ).map(([key, raw]) => {
+      const zone = (raw ?? {}) as Record<string, unknown>;
+      const temperature = toNumber(
+        typeof raw === "object" ? zone.temperature ?? zone.temp : raw,
+        "reefer temperature"
+      );
+      const setpoint = toNumber(zone.setpoint, "reefer setpoint");
+      return {
+        zone: toText(zone.zone) ?? key,
+        temperature:
+          temperature === null
+            ? null
+            : convertTelematicsUnit(temperature, "temperature", units.temperature),
+        setpoint:
+          setpoint === null
+            ? null
+            : convertTelematicsUnit(setpoint, "temperature", units.temperature),
+      };
+    });
+
+    const doors: DoorSensorReading[] = entriesOf(pickValue(message, ["doors", "door_sensors"]))
+      .map(([key, raw]) => {
+        const door = (raw ?? {}) as Record<string, unknown>;
+        const isOpen = toBoolean(
+          typeof raw === "object" ? door.is_open ?? door.open ?? door.state : raw
+        );
+        return isOpen === null ? null : { door: toText(door.door) ?? key, is_open: isOpen };
+      })
+      .filter((door): door is DoorSensorReading => door !== null);
+
+    const tirePressures: TirePressureReading[] = entriesOf(
+      pickValue(message, ["tire_pressures", "tires"])
+    ).flatMap(([key, raw]) => {
+      const tire = (raw ?? {}) as Record<string, unknown>;
+      const pressure = toNumber(
+        typeof raw === "object" ? tire.pressure : raw,
+        "tire pressure"
+      );
+      return pressure === null
+        ? []
+        : [{
+          position: toText(tire.position) ?? key,
+          pressure: convertTelematicsUnit(pressure, "pressure", units.pressure),
+        }];
+    });
+
+    // Reefer units report the return-air temperature of the first zone as the unit temperature
+    const temperature =
+      measure(["temperature", "temp"], "temperature", "temperature") ??
+      reeferZones[0]?.temperature ??
+      null;
+    const heading = pickValue(message, ["heading", "direction"]);
+    const battery = pickValue(message, ["battery_voltage", "gps_battery", "battery"]);
+
+    return withUnits({
+      vendor_message_id: vendorMessageId,
+      unit_number: unitNumber,
+      vendor_timestamp: toTimestamp(
+        pickValue(message, ["vendor_timestamp", "timestamp", "event_time", "time"])
+      ),
+      latitude,
+      longitude,
+      heading: toHeading(heading),
+      speed: measure(["speed"], "speed", "speed"),
+      temperature,
+      odometer: measure(["odometer"], "odometer", "distance"),
+      mileage: measure(["mileage"], "mileage", "distance"),
+      engine_hours: toNumber(pickValue(message, ["engine_hours", "hours"]), "engine_hours"),
+      battery_voltage: toBatteryVoltage(battery),
+      raw_heading: toText(heading),
+      raw_battery: toText(battery),
+      motion_status: toText(pickValue(message, ["motion_status", "motion"])),
+      address: toText(pickValue(message, ["address", "location"])),
+      vin_trailer_serial: toText(pickValue(message, ["vin_trailer_serial", "vin", "serial_number"])),
+      vendor_gps_id: toText(pickValue(message, ["vendor_gps_id", "gps_id"])),
+      vendor_gps_owner:
+        toText(pickValue(message, ["vendor_gps_owner", "gps_owner"])) ?? vendor.vendor_name,
+      vendor_status: toText(pickValue(message, ["vendor_status", "vendore_status", "status"])),
+      reefer_zones: reeferZones,
+      doors,
+      tire_pressures: tirePressures,
+      cargo_loaded: toCargoLoaded(pickValue(message, ["cargo_loaded", "cargo_status", "cargo"])),
+    });
+  }
+}
+
+export type SensorListField =
+  | "temperature"
+  | "reefer_temperature"
+  | "reefer_setpoint"
+  | "door"
+  | "cargo"
+  | "tire_pressure"
+  | "battery_voltage"
+  | "odometer"
+  | "engine_hours"
+  | "speed";
+
+export interface SensorListAdapterConfig {
+  name: string;
+  sensorsKey?: string;
+  // Vendor sensor type -> canonical field, e.g. { "RTEMP": "reefer_temperature" }
+  sensorTypes: Record<string, SensorListField>
+}
+
+/**
+ * Adapter for vendors that post sensors as a list of { type, id, value, unit } entries
+ * Position fields are read like the generic format; only the sensor list is vendor specific
+ */
+export class SensorListTelematicsAdapter implements TelematicsVendorAdapter {
+  public readonly name: string;
+  private readonly generic = new GenericTelematicsAdapter();
+
+  public constructor(private readonly config: SensorListAdapterConfig) {
+    this.name = config.name;
+  }
+
+  public parse(
+    message: TelematicsVendorMessage,
+    vendor: TelematicsVendorRef
+  ): CanonicalTelematicsReading {
+    const sensors = message[this.config.sensorsKey ?? "sensors"];
+    const base = this.generic.parse(message, vendor);
+    if (!Array.isArray(sensors)) return base;
+
+    const zones = new Map<string, ReeferZoneReading>();
+    const reading = { ...base };
+    for (const raw of sensors as Record<string, unknown>[]) {
+      const field = this.config.sensorTypes[toText(raw?.type)?.toUpperCase() ?? ""];
+      if (!field) continue;
+      const id = toText(raw.id) ?? "1";
+      const unit = toText(raw.unit);
+
+      if (field === "door") {
+        const isOpen = toBoolean(raw.value);
+        if (isOpen !== null) reading.doors = [...reading.doors, { door: id, is_open: isOpen }];
+        continue;
+      }
+      if (field === "cargo") {
+        reading.cargo_loaded = toCargoLoaded(raw.value) ?? reading.cargo_loaded;
+        continue;
+      }
+      if (field === "battery_voltage") {
+        reading.raw_battery = toText(raw.value) ?? reading.raw_battery;
+        const voltage = toBatteryVoltage(raw.value);
+        if (voltage !== null) reading.battery_voltage = round(voltage);
+        continue;
+      }
+      const value = toNumber(raw.value, `${field} sensor`);
+      if (value === null) continue;
+
+      if (field === "reefer_temperature" || field === "reefer_setpoint") {
+        const zone = zones.get(id) ?? { zone: id, temperature: null, setpoint: null };
+        const converted = convertTelematicsUnit(value, "temperature", unit);
+        if (field === "reefer_temperature") zone.temperature = converted;
+        else zone.setpoint = converted;
+        zones.set(id, zone);
+      } else if (field === "tire_pressure") {
+        reading.tire_pressures = [
+          ...reading.tire_pressures,
+          { position: id, pressure: convertTelematicsUnit(value, "pressure", unit) },
+        ];
+      } else if (field === "temperature") {
+        reading.temperature = convertTelematicsUnit(value, "temperature", unit);
+      } else if (field === "speed") {
+        reading.speed = convertTelematicsUnit(value, "speed", unit);
+      } else if (field === "odometer") {
+        reading.odometer = convertTelematicsUnit(value, "distance", unit);
+      } else {
+        reading[field] = round(value);
+      }
+    }
+    if (zones.size) reading.reefer_zones = [...zones.values()];
+    reading.temperature ??= reading.reefer_zones[0]?.temperature ?? null;
+    return withUnits(reading);
+  }
+}
+
+/**
+ * Registry of vendor adapters keyed on iot_device_vendor_lookup id or vendor name
+ * Vendors without a registered adapter use the generic format
+ */
+export class TelematicsAdapterRegistry {
+  private readonly adapters = new Map<string, TelematicsVendorAdapter>();
+
+  public constructor(
+    private readonly fallback: TelematicsVendorAdapter = new GenericTelematicsAdapter()
+  ) {}
+
+  private static key(vendor: number | string): string {
+    return typeof vendor === "number" ? `id:${vendor}` : `name:${vendor.trim().toLowerCase()}`;
+  }
+
+  public register(vendor: number | string, adapter: TelematicsVendorAdapter): this {
+    this.adapters.set(TelematicsAdapterRegistry.key(vendor), adapter);
+    return this;
+  }
+
+  public resolve(vendor: TelematicsVendorRef): TelematicsVendorAdapter {
+    return (
+      this.adapters.get(TelematicsAdapterRegistry.key(vendor.iot_device_vendor_lookup_id)) ??
+      this.adapters.get(TelematicsAdapterRegistry.key(vendor.vendor_name)) ??
+      this.fallback
+    );
+  }
+}
+
+// Sensor type codes shared by the sensor-list vendors we integrate with
+const DEFAULT_SENSOR_TYPES: Record<string, SensorListField> = {
+  TEMP: "temperature",
+  RTEMP: "reefer_temperature",
+  SETPOINT: "reefer_setpoint",
+  DOOR: "door",
+  CARGO: "cargo",
+  TPMS: "tire_pressure",
+  BATT: "battery_voltage",
+  ODO: "odometer",
+  HOURS: "engine_hours",
+  SPEED: "speed",
+};
+
+/**
+ * Builds the adapter registry used by ingest
+ * Vendors listed in TELEMATICS_SENSOR_LIST_VENDORS get the sensor-list adapter
+ *
+ * @returns Registry with every configured vendor adapter registered
+ * @author chaitanya
+ */
+export const createTelematicsAdapterRegistry = (): TelematicsAdapterRegistry => {
+  const registry = new TelematicsAdapterRegistry();
+  const sensorList = new SensorListTelematicsAdapter({
+    name: "sensor-list",
+    sensorTypes: DEFAULT_SENSOR_TYPES,
+  });
+  for (const vendor of getSensorListTelematicsVendors()) registry.register(vendor, sensorList);
+  return registry;
+};
+
+export const telematicsAdapterRegistry = createTelematicsAdapterRegistry();
+
+let uomCache: Map<string, number> | undefined;
+
+/**
+ * Fills uom_lookup ids on a reading's units from the uom_lookup table
+ * Lookups are cached for the life of the process
+ *
+ * @param reading - Canonical reading from an adapter
+ * @returns Reading with uom_lookup_id set where a matching uom_type exists
+ * @author chaitanya
+ */
+export const resolveTelematicsUnits = async (
+  reading: CanonicalTelematicsReading
+): Promise<CanonicalTelematicsReading> => {
+  if (!uomCache) {
+    const rows = await prisma.uom_lookup.findMany({
+      where: { is_deleted: false },
+      select: { uom_lookup_id: true, uom_type: true },
+    });
+    uomCache = new Map(rows.map((row) => [row.uom_type.trim().toUpperCase(), row.uom_lookup_id]));
+  }
+  const cache = uomCache;
+  const units: CanonicalTelematicsReading["units"] = {};
+  for (const [field, unit] of Object.entries(reading.units)) {
+    units[field as TelematicsMeasuredField] = {
+      uom_type: unit.uom_type,
+      uom_lookup_id: cache.get(unit.uom_type) ?? null,
+    };
+  }
+  return { ...reading, units };
+};
+
+/**
+ * Serializes a canonical reading into the string columns of the telematics table
+ * Sensor detail goes to additional_sensors as JSON; tire and door detail is dropped
+ * first if it would exceed the column length
+ *
+ * @param reading - Canonical reading
+ * @returns Row values for the latest-state and history tables
+ * @author chaitanya
+ */
+export const toStoredTelematicsReading = (
+  reading: CanonicalTelematicsReading
+): TelematicsReading => {
+  const sensorVariants = [
+    { reefer_zones: reading.reefer_zones, doors: reading.doors, tire_pressures: reading.tire_pressures, cargo_loaded: reading.cargo_loaded, units: reading.units },
+    { reefer_zones: reading.reefer_zones, doors: reading.doors, cargo_loaded: reading.cargo_loaded, units: reading.units },
+    { reefer_zones: reading.reefer_zones, cargo_loaded: reading.cargo_loaded, units: reading.units },
+  ];
+  const hasSensors =
+    reading.reefer_zones.length ||
+    reading.doors.length ||
+    reading.tire_pressures.length ||
+    reading.cargo_loaded !== null;
+  const additionalSensors = hasSensors
+    ? sensorVariants
+      .map((variant) => JSON.stringify(variant))
+      .find((json) => json.length <= MAX_SENSOR_TEXT_LENGTH) ?? null
+    : null;
+  if (hasSensors && !additionalSensors) {
+    logger.warn(
+      "Sensor detail for message %s exceeds %d characters and was not stored",
+      reading.vendor_message_id,
+      MAX_SENSOR_TEXT_LENGTH
+    );
+  }
+
+  const asText = (value: number | null) => (value === null ? null : `${value}`);
+  return {
+    vendor_message_id: reading.vendor_message_id,
+    unit_number: reading.unit_number,
+    vendor_timestamp: reading.vendor_timestamp,
+    latitude: reading.latitude,
+    longitude: reading.longitude,
+    heading: reading.raw_heading ?? asText(reading.heading),
+    speed: reading.speed,
+    temperature: reading.temperature,
+    gps_battery: reading.raw_battery ?? asText(reading.battery_voltage),
+    motion_status: reading.motion_status,
+    address: reading.address,
+    odometer: asText(reading.odometer),
+    // Vendors without a separate mileage counter report distance on the odometer only
+    mileage: asText(reading.mileage ?? reading.odometer),
+    engine_hours: asText(reading.engine_hours),
+    vin_trailer_serial: reading.vin_trailer_serial,
+    vendor_gps_id: reading.vendor_gps_id,
+    vendor_gps_owner: reading.vendor_gps_owner,
+    vendore_status: reading.vendor_status,
+    additional_sensors: additionalSensors,
+  };
+};
@@ -1,7 +1,7 @@
 import prisma from "../config/database.config";
 import * as fs from "fs";
-import axios from "axios";
 import logger from "../utils/logger";
+import { enqueueWebhookDelivery } from "./webhookDelivery.service";
 
 import ExcelJS from "exceljs";
 
@@ -64,56 +64,37 @@ export interface WebhookResponse {
   response?: unknown;
 }
 
-// Webhook service method
+// Webhook service method: queues a signed delivery and makes the first attempt;
+// failures are retried by the webhook delivery job
 export const callWebhookService = async (
   customerId: number,
   alertData: unknown,
-  webhookPayload: WebhookPayload
+  webhookPayload: WebhookPayload,
+  eventType = "telematics_alert"
 ): Promise<WebhookResponse> => {
   try {
-    // Fetch customer webhook details
-    const customer = await prisma.customer.findUnique({
-      where: { customer_id: customerId },
-      select: {
-        web_hook_url: true,
-        web_hook_password: true,
-        web_hook_userName: true,
-      },
-    });
+    const delivery = await enqueueWebhookDelivery(
+      customerId,
+      eventType,
+      { ...webhookPayload },
+      {
+        telematic_alert_id: webhookPayload.telematic_alert_id,
+        created_by: webhookPayload.created_by || undefined,
+      }
+    );
 
-    if (!customer?.web_hook_url) {
+    if (!delivery) {
       return {
         success: false,
         error: "Customer webhook URL not configured",
       };
     }
 
-    // Prepare authentication headers
-    const authHeaders: Record<string, string> = {};
-    if (customer.web_hook_userName && customer.web_hook_password) {
-      const credentials = Buffer.from(
-        `${customer.web_hook_userName}:${customer.web_hook_password}`
-      ).toString("base64");
-      authHeaders.Authorization = `Basic ${credentials}`;
-    }
-
-    // Make POST request to external webhook
-    const response = await axios.post(customer.web_hook_url, webhookPayload, {
-      headers: {
-        "Content-Type": "application/json",
-        ...authHeaders,
-      },
-      timeout: 30000, // 30 second timeout
-    });
-
     return {
-      success: true,
-      data: response.data as unknown,
-      response: {
-        status: response.status,
-        statusText: response.statusText,
-        headers: response.headers,
-      },
+      success: delivery.status === "DELIVERED",
+      data: delivery,
+      error: delivery.last_error ?? undefined,
+      response: { status: delivery.last_response_status },
     };
   } catch (error) {
     // Log error for debugging
@@ -190,7 +171,7 @@ const buildBasicAlertFields = (dto: CreateTelematicsAlertDto) => ({
 });
 
 // Helper function to convert temperature to Fahrenheit
-const convertToFahrenheit = (value: string, unitId: number): number => {
+export const convertToFahrenheit = (value: string, unitId: number): number => {
   const numValue = parseFloat(value);
   if (isNaN(numValue)) return 0;
 
@@ -1331,7 +1312,7 @@ export const EquipmentService = {
     });
 
     // Fetch filtered equipment data with pagination
-    const equipment = await prisma.equipment.findMany({
+    const rows = await prisma.equipment.findMany({
       where: whereClause,
       select: {
         equipment_id: true,
@@ -1362,6 +1343,8 @@ export const EquipmentService = {
           },
         },
         equipment_iot_device_ref: {
+          where: { deactivation_date: null },
+          take: 1,
           select: {
             iot_device_ref: {
               select: {
@@ -1380,6 +1363,11 @@ export const EquipmentService = {
     });
 
     const meta = getPaginationMeta(total, page, perPage);
+    // Only the current installation is selected; keep returning it as a single object
+    const equipment = rows.map(({ equipment_iot_device_ref, ...row }) => ({
+      ...row,
+      equipment_iot_device_ref: equipment_iot_device_ref[0] ?? null,
+    }));
 
     logger.info(
       "Successfully retrieved %d equipment items with events",
@@ -1492,9 +1480,12 @@ const addEquipmentFilters = (
 
   if (filters.vendor_name) {
     whereClause.equipment_iot_device_ref = {
-      iot_device_ref: {
-        iot_device_vendor_ref: {
-          vendor_name: { contains: filters.vendor_name, mode: "insensitive" },
+      some: {
+        deactivation_date: null,
+        iot_device_ref: {
+          iot_device_vendor_ref: {
+            vendor_name: { contains: filters.vendor_name, mode: "insensitive" },
+          },
         },
       },
     };
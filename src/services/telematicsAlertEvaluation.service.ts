@@ -0,0 +1,553 @@
+import prisma from "../config/database.config";
+import type { Prisma } from "@prisma/client";
+import logger from "../utils/logger";
+import { createActivityFeedService } from "./activityFeed.service";
+import { convertToFahrenheit } from "./telematicsAlert.service";
+import { AlertNotificationDispatcher } from "./alertNotification.service";
+import { activeEquipmentAssignmentWhere } from "../utils/equipmentAssignment";
+import {
+  TelematicsAlertEvaluationResultDto,
+  TelematicsAlertFiringDto,
+  TelematicsAlertMetric,
+} from "../types/dtos/telematicsAlert-response.dto";
+
+// alert_type_lookup id used by the alert builder for temperature alerts
+const TEMPERATURE_ALERT_TYPE_ID = 6;
+
+const WEEKDAY_PREFIXES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const notificationDispatcher = new AlertNotificationDispatcher();
+
+interface TelematicsReading {
+  unit_number: string;
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  temperature: number | null;
+  battery: number | null;
+  motion_status: string | null;
+  event_time: Date
+}
+
+interface EvaluatedEquipment {
+  equipment_id: number;
+  unit_number: string;
+  account_id: number | null;
+  customer_id: number | null
+}
+
+interface AlertRule {
+  telematic_alert_id: number;
+  alert_name: string | null;
+  event_low: string | null;
+  event_high: string | null;
+  temperature_unit_id: number | null;
+  alert_type_id: number[];
+  alert_category_id: number | null;
+  geofence_id: number[];
+  between_hours_from: string | null;
+  between_hours_to: string | null;
+  specific_days: string[];
+  start_date: Date | null;
+  end_date: Date | null;
+  event_duration: string | null
+}
+
+interface AlertTypeRule {
+  alert_type_lookup_id: number;
+  event_name: string;
+  event_type: string | null;
+  metric_value: number | null;
+  operation_type: string
+}
+
+interface AlertStateRow {
+  telematic_alert_id: number;
+  alert_type_id: number;
+  is_breached: boolean;
+  breach_started_at: Date | null;
+  last_fired_at: Date | null;
+  updated_at: Date
+}
+
+const toNumberOrNull = (
+  value: Prisma.Decimal | string | null
+): number | null => {
+  if (value === null || value === "") return null;
+  const num = parseFloat(value.toString());
+  return isNaN(num) ? null : num;
+};
+
+// Resolves which reading an alert type watches from its lookup row
+const resolveAlertMetric = (
+  alertType: AlertTypeRule
+): TelematicsAlertMetric | null => {
+  if (alertType.alert_type_lookup_id === TEMPERATURE_ALERT_TYPE_ID) {
+    return "temperature";
+  }
+  const label = `${alertType.event_type ?? ""} ${alertType.event_name}`.toLowerCase();
+  if (label.includes("temp")) return "temperature";
+  if (label.includes("speed")) return "speed";
+  if (label.includes("battery")) return "battery";
+  if (/motion|moving|stop|idle|park/.test(label)) return "motion";
+  return null;
+};
+
+// Compares a reading against a threshold using the lookup operation_type
+const compareMetric = (
+  value: number,
+  operation: string,
+  threshold: number
+): boolean => {
+  const op = operation.trim().toLowerCase();
+  if (op === ">" || op.startsWith("greater") || op === "gt") {
+    return value > threshold;
+  }
+  if (op === ">=" || op === "gte") return value >= threshold;
+  if (op === "<" || op.startsWith("less") || op === "lt") {
+    return value < threshold;
+  }
+  if (op === "<=" || op === "lte") return value <= threshold;
+  if (op === "!=" || op === "<>" || op.startsWith("not")) {
+    return value !== threshold;
+  }
+  if (op === "=" || op === "==" || op.startsWith("equal") || op === "eq") {
+    return value === threshold;
+  }
+  return false;
+};
+
+const isTemperatureBreached = (
+  alert: AlertRule,
+  reading: TelematicsReading
+): boolean => {
+  if (reading.temperature === null) return false;
+  const unitId = alert.temperature_unit_id ?? 1;
+  const low = alert.event_low ? convertToFahrenheit(alert.event_low, unitId) : null;
+  const high = alert.event_high
+    ? convertToFahrenheit(alert.event_high, unitId)
+    : null;
+  if (low === null && high === null) return false;
+  return (
+    (low !== null && reading.temperature < low) ||
+    (high !== null && reading.temperature > high)
+  );
+};
+
+const isMotionBreached = (
+  alertType: AlertTypeRule,
+  reading: TelematicsReading
+): boolean => {
+  if (!reading.motion_status) return false;
+  const label = `${alertType.event_type ?? ""} ${alertType.event_name}`;
+  const expectsStopped = /stop|idle|park/i.test(label);
+  const isStopped = /stop|idle|park/i.test(reading.motion_status);
+  return expectsStopped === isStopped;
+};
+
+const isRuleBreached = (
+  metric: TelematicsAlertMetric,
+  alert: AlertRule,
+  alertType: AlertTypeRule,
+  reading: TelematicsReading
+): boolean => {
+  switch (metric) {
+    case "temperature":
+      return isTemperatureBreached(alert, reading);
+    case "speed":
+      return (
+        reading.speed !== null &&
+        compareMetric(
+          reading.speed,
+          alertType.operation_type,
+          alertType.metric_value ?? 0
+        )
+      );
+    case "battery":
+      return (
+        reading.battery !== null &&
+        compareMetric(
+          reading.battery,
+          alertType.operation_type,
+          alertType.metric_value ?? 0
+        )
+      );
+    case "motion":
+      return isMotionBreached(alertType, reading);
+    default:
+      return false;
+  }
+};
+
+const readingValueFor = (
+  metric: TelematicsAlertMetric,
+  reading: TelematicsReading
+): number | string | null => {
+  switch (metric) {
+    case "temperature":
+      return reading.temperature;
+    case "speed":
+      return reading.speed;
+    case "battery":
+      return reading.battery;
+    case "motion":
+      return reading.motion_status;
+    default:
+      return null;
+  }
+};
+
+// Parses "HH:mm" / "HH:mm:ss" into minutes past midnight
+const parseClockMinutes = (value: string | null): number | null => {
+  if (!value) return null;
+  const [hours, minutes] = value.split(":").map((part) => parseInt(part, 10));
+  if (isNaN(hours)) return null;
+  return hours * 60 + (isNaN(minutes) ? 0 : minutes);
+};
+
+// Parses event_duration ("15", "15 min", "2h", "30s") into milliseconds
+const parseDurationMs = (value: string | null): number => {
+  if (!value) return 0;
+  const amount = parseFloat(value);
+  if (isNaN(amount) || amount <= 0) return 0;
+  const unit = value.replace(/[\d.\s]/g, "").toLowerCase();
+  if (unit.startsWith("h")) return amount * 60 * 60 * 1000;
+  if (unit.startsWith("s")) return amount * 1000;
+  return amount * 60 * 1000;
+};
+
+// Checks the alert's date range, weekday and hour window against the reading time
+const isWithinAlertSchedule = (alert: AlertRule, eventTime: Date): boolean => {
+  if (alert.start_date && eventTime < alert.start_date) return false;
+  if (alert.end_date) {
+    const end = new Date(alert.end_date);
+    end.setHours(23, 59, 59, 999);
+    if (eventTime > end) return false;
+  }
+
+  if (alert.specific_days.length) {
+    const today = WEEKDAY_PREFIXES[eventTime.getDay()];
+    const allowed = alert.specific_days.some(
+      (day) => day.trim().slice(0, 3).toLowerCase() === today
+    );
+    if (!allowed) return false;
+  }
+
+  const from = parseClockMinutes(alert.between_hours_from);
+  const to = parseClockMinutes(alert.between_hours_to);
+  if (from !== null && to !== null) {
+    const minutes = eventTime.getHours() * 60 + eventTime.getMinutes();
+    // Windows such as 22:00-06:00 wrap past midnight
+    return from <= to
+      ? minutes >= from && minutes <= to
+      : minutes >= from || minutes <= to;
+  }
+  return true;
+};
+
+const loadReading = async (
+  unitNumber: string
+): Promise<TelematicsReading | null> => {
+  const row = await prisma.telematics.findUnique({
+    where: { unit_number: unitNumber },
+    select: {
+      unit_number: true,
+      latitude: true,
+      longitude: true,
+      speed: true,
+      temperature: true,
+      gps_battery: true,
+      motion_status: true,
+      vendor_timestamp: true,
+      recived_timestamp: true,
+      created_at: true,
+    },
+  });
+  if (!row) return null;
+
+  return {
+    unit_number: row.unit_number,
+    latitude: toNumberOrNull(row.latitude) ?? 0,
+    longitude: toNumberOrNull(row.longitude) ?? 0,
+    speed: toNumberOrNull(row.speed),
+    temperature: toNumberOrNull(row.temperature),
+    battery: toNumberOrNull(row.gps_battery),
+    motion_status: row.motion_status,
+    event_time: row.vendor_timestamp ?? row.recived_timestamp ?? row.created_at,
+  };
+};
+
+const loadEquipment = async (
+  unitNumber: string
+): Promise<EvaluatedEquipment | null> => {
+  const equipment = await prisma.equipment.findUnique({
+    where: { telematic_device_id: unitNumber },
+    select: {
+      equipment_id: true,
+      unit_number: true,
+      equipment_assignment: {
+        where: activeEquipmentAssignmentWhere(),
+        take: 1,
+        select: {
+          equipment_type_allocation_ref: {
+            select: {
+              account: { select: { account_id: true, customer_id: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!equipment) return null;
+
+  const account =
+    equipment.equipment_assignment[0]?.equipment_type_allocation_ref?.account;
+  return {
+    equipment_id: equipment.equipment_id,
+    unit_number: equipment.unit_number,
+    account_id: account?.account_id ?? null,
+    customer_id: account?.customer_id ?? null,
+  };
+};
+
+const loadActiveAlerts = async (
+  equipment: EvaluatedEquipment
+): Promise<AlertRule[]> =>
+  prisma.telematic_alert.findMany({
+    where: {
+      is_deleted: false,
+      status: { equals: "ACTIVE", mode: "insensitive" },
+      equipment_ids: { has: equipment.equipment_id },
+      ...(equipment.customer_id ? { customer_id: equipment.customer_id } : {}),
+    },
+    select: {
+      telematic_alert_id: true,
+      alert_name: true,
+      event_low: true,
+      event_high: true,
+      temperature_unit_id: true,
+      alert_type_id: true,
+      alert_category_id: true,
+      geofence_id: true,
+      between_hours_from: true,
+      between_hours_to: true,
+      specific_days: true,
+      start_date: true,
+      end_date: true,
+      event_duration: true,
+    },
+  });
+
+const stateKey = (alertId: number, alertTypeId: number) =>
+  `${alertId}:${alertTypeId}`;
+
+/**
+ * Evaluates one unit's latest telematics reading against its active alerts
+ * Tracks breach state per alert type so duration thresholds are honoured
+ * and an alert fires once per breach, then records firings in the activity feed
+ *
+ * @param unitNumber - Telematics unit number (equipment.telematic_device_id)
+ * @returns Firings recorded for the unit, or a skip reason
+ * @author chaitanya
+ */
+export const evaluateUnitTelematicsAlertsService = async (
+  unitNumber: string
+): Promise<{ firings: TelematicsAlertFiringDto[], reason?: string }> => {
+  const reading = await loadReading(unitNumber);
+  if (!reading) return { firings: [], reason: "No telematics reading found" };
+
+  const equipment = await loadEquipment(unitNumber);
+  if (!equipment) return { firings: [], reason: "Equipment not found" };
+  if (!equipment.customer_id) {
+    return { firings: [], reason: "Equipment is not assigned to an account" };
+  }
+
+  const alerts = await loadActiveAlerts(equipment);
+  if (!alerts.length) return { firings: [] };
+
+  const alertTypeIds = [...new Set(alerts.flatMap((a) => a.alert_type_id))];
+  const [alertTypes, states, insideGeofences] = await Promise.all([
+    prisma.alert_type_lookup.findMany({
+      where: { alert_type_lookup_id: { in: alertTypeIds } },
+      select: {
+        alert_type_lookup_id: true,
+        event_name: true,
+        event_type: true,
+        metric_value: true,
+        operation_type: true,
+      },
+    }),
+    prisma.telematic_alert_state.findMany({
+      where: { equipment_id: equipment.equipment_id },
+    }),
+    prisma.geofence_state.findMany({
+      where: { equipment_id: equipment.equipment_id, is_inside: true },
+      select: { geofence_id: true },
+    }),
+  ]);
+
+  const alertTypeMap = new Map(
+    alertTypes.map((t) => [t.alert_type_lookup_id, t])
+  );
+  const stateMap = new Map<string, AlertStateRow>(
+    states.map((s) => [stateKey(s.telematic_alert_id, s.alert_type_id), s])
+  );
+  const insideIds = new Set(insideGeofences.map((g) => g.geofence_id));
+
+  const firings: TelematicsAlertFiringDto[] = [];
+  const eventTime = reading.event_time;
+
+  for (const alert of alerts) {
+    const inSchedule = isWithinAlertSchedule(alert, eventTime);
+    const inGeofence =
+      !alert.geofence_id.length ||
+      alert.geofence_id.some((id) => insideIds.has(id));
+    const durationMs = parseDurationMs(alert.event_duration);
+
+    for (const alertTypeId of alert.alert_type_id) {
+      const alertType = alertTypeMap.get(alertTypeId);
+      if (!alertType) continue;
+      const metric = resolveAlertMetric(alertType);
+      if (!metric) continue;
+
+      const state = stateMap.get(stateKey(alert.telematic_alert_id, alertTypeId));
+      // Ignore readings older than the state already recorded
+      if (state && state.updated_at > eventTime) continue;
+
+      const breached =
+        inSchedule &&
+        inGeofence &&
+        isRuleBreached(metric, alert, alertType, reading);
+
+      const breachStartedAt = breached
+        ? state?.is_breached && state.breach_started_at
+          ? state.breach_started_at
+          : eventTime
+        : null;
+      const alreadyFired =
+        !!breachStartedAt &&
+        !!state?.last_fired_at &&
+        state.last_fired_at >= breachStartedAt;
+      const shouldFire =
+        !!breachStartedAt &&
+        !alreadyFired &&
+        eventTime.getTime() - breachStartedAt.getTime() >= durationMs;
+
+      let lastFiredAt = state?.last_fired_at ?? null;
+      if (shouldFire) {
+        const feed = await createActivityFeedService({
+          equipment_id: equipment.equipment_id,
+          account_id: equipment.account_id ?? undefined,
+          customer_id: equipment.customer_id,
+          telematic_alert_id: alert.telematic_alert_id,
+          alert_type_id: alertTypeId,
+          alert_category_id: alert.alert_category_id ?? undefined,
+          latitude: reading.latitude,
+          longitude: reading.longitude,
+          event_time: eventTime,
+        });
+        lastFiredAt = eventTime;
+        const readingValue = readingValueFor(metric, reading);
+        const notification = await notificationDispatcher
+          .dispatch({
+            telematic_alert_id: alert.telematic_alert_id,
+            alert_type_id: alertTypeId,
+            alert_category_id: alert.alert_category_id,
+            equipment_id: equipment.equipment_id,
+            unit_number: equipment.unit_number,
+            account_id: equipment.account_id,
+            customer_id: equipment.customer_id,
+            latitude: reading.latitude,
+            longitude: reading.longitude,
+            event_time: eventTime,
+            metric,
+            reading_value: readingValue,
+            activity_feed_id: feed.activity_feed_id,
+          })
+          .catch((error: unknown) => {
+            logger.error(
+              (error as Error).message || "Alert notification dispatch failed",
+              error
+            );
+            return null;
+          });
+        firings.push({
+          telematic_alert_id: alert.telematic_alert_id,
+          alert_name: alert.alert_name,
+          alert_type_id: alertTypeId,
+          alert_category_id: alert.alert_category_id,
+          metric,
+          reading_value: readingValue,
+          equipment_id: equipment.equipment_id,
+          unit_number: equipment.unit_number,
+          event_time: eventTime,
+          activity_feed_id: feed.activity_feed_id,
+          notifications: notification?.deliveries ?? [],
+        });
+      }
+
+      await prisma.telematic_alert_state.upsert({
+        where: {
+          telematic_alert_id_equipment_id_alert_type_id: {
+            telematic_alert_id: alert.telematic_alert_id,
+            equipment_id: equipment.equipment_id,
+            alert_type_id: alertTypeId,
+          },
+        },
+        create: {
+          telematic_alert_id: alert.telematic_alert_id,
+          equipment_id: equipment.equipment_id,
+          alert_type_id: alertTypeId,
+          is_breached: breached,
+          breach_started_at: breachStartedAt,
+          last_fired_at: lastFiredAt,
+          updated_at: eventTime,
+        },
+        update: {
+          is_breached: breached,
+          breach_started_at: breachStartedAt,
+          last_fired_at: lastFiredAt,
+          updated_at: eventTime,
+        },
+      });
+    }
+  }
+
+  return { firings };
+};
+
+/**
+ * Evaluates the latest telematics readings for a batch of units
+ * Runs each unit through its active alerts and collects the resulting firings
+ *
+ * @param unitNumbers - Telematics unit numbers to evaluate
+ * @returns Evaluation summary with skipped units and recorded firings
+ * @author chaitanya
+ */
+export const evaluateTelematicsAlertsService = async (
+  unitNumbers: string[]
+): Promise<TelematicsAlertEvaluationResultDto> => {
+  const result: TelematicsAlertEvaluationResultDto = {
+    evaluated: 0,
+    skipped: [],
+    firings: [],
+  };
+
+  for (const unitNumber of [...new Set(unitNumbers)]) {
+    const { firings, reason } =
+      await evaluateUnitTelematicsAlertsService(unitNumber);
+    if (reason) {
+      result.skipped.push({ unit_number: unitNumber, reason });
+      continue;
+    }
+    result.evaluated += 1;
+    result.firings.push(...firings);
+  }
+
+  logger.info(
+    "Evaluated telematics alerts for %d units, %d firings",
+    result.evaluated,
+    result.firings.length
+  );
+  return result;
+};
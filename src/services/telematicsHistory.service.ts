@@ -0,0 +1,183 @@
+import { secondaryPool } from "../config/secondarydb.config";
+import { TelematicsReading } from "../types/dtos/telematics-ingest.dto";
+import { TelematicsTrackPoint } from "../types/dtos/equipment-track.dto";
+import { TelematicsDailyActivity } from "../types/dtos/utilization.dto";
+
+/**
+ * Append-only store of every accepted telematics reading
+ * The latest-state row lives in the primary telematics table; history is kept here
+ */
+export interface TelematicsHistoryStore {
+  findExistingMessageIds(vendorId: number, messageIds: string[]): Promise<Set<string>>;
+  // Returns the vendor_message_ids actually stored; messages already in history are skipped
+  append(vendorId: number, vendorName: string, readings: TelematicsReading[]): Promise<Set<string>>;
+  // Newest limit points in the range, oldest first
+  findTrackPoints(
+    unitNumber: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<TelematicsTrackPoint[]>;
+  findDailyActivity(
+    unitNumbers: string[],
+    from: Date,
+    to: Date
+  ): Promise<TelematicsDailyActivity[]>
+}
+
+const HISTORY_COLUMNS = [
+  "vendor_id",
+  "vendor_name",
+  "unit_number",
+  "vendor_message_id",
+  "vendor_gps_owner",
+  "vendor_gps_id",
+  "vin_trailer_serial",
+  "gps_battery",
+  "latitude",
+  "longitude",
+  "heading",
+  "speed",
+  "additional_sensors",
+  "recived_timestamp",
+  "vendor_timestamp",
+  "vendore_status",
+  "mileage",
+  "engine_hours",
+  "odometer",
+  "temperature",
+  "address",
+  "motion_status",
+] as const;
+
+// Odometer and engine hours are stored as text; non-numeric values are ignored
+const numericColumn = (column: string) =>
+  `CASE WHEN ${column} ~ '^[0-9]+(\\.[0-9]+)?$' THEN ${column}::numeric END`;
+
+const toNullableNumber = (value: string | null) =>
+  value === null ? null : Number(value);
+
+/**
+ * History store backed by the secondary database telematics table
+ * This is the same table fetchTelematics reads unit history from
+ */
+export class SecondaryDbTelematicsHistoryStore implements TelematicsHistoryStore {
+  public async findExistingMessageIds(
+    vendorId: number,
+    messageIds: string[]
+  ): Promise<Set<string>> {
+    if (!messageIds.length) return new Set();
+    const result = await secondaryPool.query<{ vendor_message_id: string }>(
+      `SELECT vendor_message_id FROM telematics
+       WHERE vendor_id = $1 AND vendor_message_id = ANY($2::text[])`,
+      [vendorId, messageIds]
+    );
+    return new Set(result.rows.map((row) => row.vendor_message_id));
+  }
+
+  public async append(
+    vendorId: number,
+    vendorName: string,
+    readings: TelematicsReading[]
+  ): Promise<Set<string>> {
+    if (!readings.length) return new Set();
+    const receivedAt = new Date();
+    const values: unknown[] = [];
+    const tuples = readings.map((reading) => {
+      const row: Record<(typeof HISTORY_COLUMNS)[number], unknown> = {
+        ...reading,
+        vendor_id: vendorId,
+        vendor_name: vendorName,
+        recived_timestamp: receivedAt,
+      };
+      const placeholders = HISTORY_COLUMNS.map((column) => {
+        values.push(row[column]);
+        return `$${values.length}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+
+    // Relies on telematics_vendor_message_uidx (prisma/secondary/telematics_message_unique.sql)
+    const result = await secondaryPool.query<{ vendor_message_id: string }>(
+      `INSERT INTO telematics (${HISTORY_COLUMNS.join(", ")}) VALUES ${tuples.join(", ")}
+       ON CONFLICT (vendor_id, vendor_message_id) DO NOTHING
+       RETURNING vendor_message_id`,
+      values
+    );
+    return new Set(result.rows.map((row) => row.vendor_message_id));
+  }
+
+  public async findTrackPoints(
+    unitNumber: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<TelematicsTrackPoint[]> {
+    const result = await secondaryPool.query<{
+      vendor_timestamp: Date,
+      latitude: string,
+      longitude: string,
+      speed: string | null
+    }>(
+      // Newest points win when the range holds more than limit; returned oldest first
+      `SELECT vendor_timestamp, latitude, longitude, speed
+       FROM (
+         SELECT vendor_timestamp, latitude, longitude, speed
+         FROM telematics
+         WHERE unit_number = $1
+           AND vendor_timestamp BETWEEN $2 AND $3
+           AND latitude IS NOT NULL AND longitude IS NOT NULL
+         ORDER BY vendor_timestamp DESC
+         LIMIT $4
+       ) newest
+       ORDER BY vendor_timestamp ASC`,
+      [unitNumber, from, to, limit]
+    );
+    return result.rows.map((row) => ({
+      vendor_timestamp: new Date(row.vendor_timestamp),
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      speed: row.speed === null ? null : Number(row.speed),
+    }));
+  }
+
+  public async findDailyActivity(
+    unitNumbers: string[],
+    from: Date,
+    to: Date
+  ): Promise<TelematicsDailyActivity[]> {
+    if (!unitNumbers.length) return [];
+    const result = await secondaryPool.query<{
+      unit_number: string,
+      day: string,
+      moved: boolean,
+      min_mileage: string | null,
+      max_mileage: string | null,
+      min_engine_hours: string | null,
+      max_engine_hours: string | null
+    }>(
+      `SELECT unit_number,
+              to_char(vendor_timestamp, 'YYYY-MM-DD') AS day,
+              COALESCE(bool_or(motion_status ILIKE '%mov%' OR speed > 2), false) AS moved,
+              MIN(${numericColumn("mileage")}) AS min_mileage,
+              MAX(${numericColumn("mileage")}) AS max_mileage,
+              MIN(${numericColumn("engine_hours")}) AS min_engine_hours,
+              MAX(${numericColumn("engine_hours")}) AS max_engine_hours
+       FROM telematics
+       WHERE unit_number = ANY($1::text[])
+         AND vendor_timestamp BETWEEN $2 AND $3
+       GROUP BY unit_number, day
+       ORDER BY unit_number, day`,
+      [unitNumbers, from, to]
+    );
+    return result.rows.map((row) => ({
+      unit_number: row.unit_number,
+      day: row.day,
+      moved: row.moved,
+      min_mileage: toNullableNumber(row.min_mileage),
+      max_mileage: toNullableNumber(row.max_mileage),
+      min_engine_hours: toNullableNumber(row.min_engine_hours),
+      max_engine_hours: toNullableNumber(row.max_engine_hours),
+    }));
+  }
+}
@@ -0,0 +1,250 @@
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { ServiceError } from "../utils/responseUtils";
+import { evaluateTelematicsAlertsService } from "./telematicsAlertEvaluation.service";
+import { recordTelematicsMeterReadingsService } from "./equipmentReading.service";
+import { recordTelematicsLoadEventsService } from "./equipmentLoad.service";
+import {
+  SecondaryDbTelematicsHistoryStore,
+  TelematicsHistoryStore,
+} from "./telematicsHistory.service";
+import {
+  resolveTelematicsUnits,
+  TelematicsAdapterRegistry,
+  telematicsAdapterRegistry,
+  TelematicsMessageError,
+  TelematicsVendorRef,
+  toStoredTelematicsReading,
+  toText,
+} from "./telematicsAdapter.service";
+import {
+  TelematicsIngestMessageResultDto,
+  TelematicsIngestRequestDto,
+  TelematicsIngestResultDto,
+  TelematicsReading,
+} from "../types/dtos/telematics-ingest.dto";
+
+export const MAX_INGEST_BATCH_SIZE = 500;
+const resolveVendor = async (
+  body: TelematicsIngestRequestDto
+): Promise<TelematicsVendorRef> => {
+  const vendorId = body.vendor_id === undefined ? NaN : Number(body.vendor_id);
+  if (isNaN(vendorId) && !body.vendor_name) {
+    throw new ServiceError("vendor_id or vendor_name is required", 400);
+  }
+  const vendor = await prisma.iot_device_vendor_lookup.findFirst({
+    where: isNaN(vendorId)
+      ? { vendor_name: { equals: body.vendor_name, mode: "insensitive" } }
+      : { iot_device_vendor_lookup_id: vendorId },
+    select: { iot_device_vendor_lookup_id: true, vendor_name: true, status: true },
+  });
+  if (!vendor) {
+    throw new ServiceError("Unknown telematics vendor", 404);
+  }
+  if (vendor.status.toUpperCase() === "INACTIVE") {
+    throw new ServiceError(`Telematics vendor ${vendor.vendor_name} is inactive`, 409);
+  }
+  return vendor;
+};
+
+// Only moves the latest-state row forward; late-arriving readings go to history only
+const upsertLatestTelematicsState = async (
+  vendor: TelematicsVendorRef,
+  readings: TelematicsReading[]
+): Promise<string[]> => {
+  const updated: string[] = [];
+  const now = new Date();
+  for (const reading of readings) {
+    const existing = await prisma.telematics.findUnique({
+      where: { unit_number: reading.unit_number },
+      select: { vendor_timestamp: true },
+    });
+    if (existing?.vendor_timestamp && existing.vendor_timestamp >= reading.vendor_timestamp) {
+      continue;
+    }
+    const data = {
+      ...reading,
+      vendor_id: vendor.iot_device_vendor_lookup_id,
+      vendor_name: vendor.vendor_name,
+      recived_timestamp: now,
+    };
+    await prisma.telematics.upsert({
+      where: { unit_number: reading.unit_number },
+      create: data,
+      update: data,
+    });
+    updated.push(reading.unit_number);
+  }
+  return updated;
+};
+
+let defaultHistoryStore: TelematicsHistoryStore | undefined;
+
+/**
+ * Ingests a batch of vendor position and sensor messages
+ * Messages are parsed by the vendor's adapter, deduped on vendor_message_id, appended to history
+ * and the newest reading per unit is upserted into the latest-state row
+ *
+ * @param body - Vendor identifier, messages and optional evaluate_alerts flag
+ * @param historyStore - History backend, defaults to the secondary database
+ * @param registry - Vendor adapter registry, defaults to the shared registry
+ * @returns Per-message outcome and batch counters
+ * @author chaitanya
+ */
+export const ingestTelematicsService = async (
+  body: TelematicsIngestRequestDto,
+  historyStore?: TelematicsHistoryStore,
+  registry: TelematicsAdapterRegistry = telematicsAdapterRegistry
+): Promise<TelematicsIngestResultDto> => {
+  if (!Array.isArray(body.messages) || !body.messages.length) {
+    throw new ServiceError("messages must be a non-empty array", 400);
+  }
+  if (body.messages.length > MAX_INGEST_BATCH_SIZE) {
+    throw new ServiceError(
+      `A maximum of ${MAX_INGEST_BATCH_SIZE} messages can be ingested per request`,
+      400
+    );
+  }
+
+  const vendor = await resolveVendor(body);
+  defaultHistoryStore ??= new SecondaryDbTelematicsHistoryStore();
+  const store = historyStore ?? defaultHistoryStore;
+
+  const results: TelematicsIngestMessageResultDto[] = [];
+  const candidates: { index: number, reading: TelematicsReading }[] = [];
+  const adapter = registry.resolve(vendor);
+  for (const [index, message] of body.messages.entries()) {
+    if (!message || typeof message !== "object" || Array.isArray(message)) {
+      results.push({
+        index,
+        vendor_message_id: null,
+        unit_number: null,
+        status: "rejected",
+        reason: "message must be an object",
+      });
+      continue;
+    }
+    try {
+      const canonical = await resolveTelematicsUnits(adapter.parse(message, vendor));
+      candidates.push({ index, reading: toStoredTelematicsReading(canonical) });
+    } catch (error) {
+      if (!(error instanceof TelematicsMessageError)) throw error;
+      results.push({
+        index,
+        vendor_message_id: toText(message?.vendor_message_id),
+        unit_number: toText(message?.unit_number),
+        status: "rejected",
+        reason: error.message,
+      });
+    }
+  }
+
+  // telematics.unit_number references equipment.telematic_device_id
+  const unitNumbers = [...new Set(candidates.map((c) => c.reading.unit_number))];
+  const knownUnits = new Set(
+    (
+      await prisma.equipment.findMany({
+        where: { telematic_device_id: { in: unitNumbers } },
+        select: { telematic_device_id: true },
+      })
+    ).map((equipment) => equipment.telematic_device_id)
+  );
+  const existingIds = await store.findExistingMessageIds(
+    vendor.iot_device_vendor_lookup_id,
+    [...new Set(candidates.map((c) => c.reading.vendor_message_id))]
+  );
+
+  const pending: { index: number, reading: TelematicsReading }[] = [];
+  const seenIds = new Set<string>();
+  for (const { index, reading } of candidates) {
+    const base = {
+      index,
+      vendor_message_id: reading.vendor_message_id,
+      unit_number: reading.unit_number,
+    };
+    if (!knownUnits.has(reading.unit_number)) {
+      results.push({ ...base, status: "rejected", reason: "Unknown unit_number" });
+    } else if (existingIds.has(reading.vendor_message_id) || seenIds.has(reading.vendor_message_id)) {
+      results.push({ ...base, status: "duplicate" });
+    } else {
+      seenIds.add(reading.vendor_message_id);
+      pending.push({ index, reading });
+    }
+  }
+
+  // The unique index settles races with concurrent batches; messages it skipped are duplicates
+  const storedIds = await store.append(
+    vendor.iot_device_vendor_lookup_id,
+    vendor.vendor_name,
+    pending.map((p) => p.reading)
+  );
+  const accepted: TelematicsReading[] = [];
+  for (const { index, reading } of pending) {
+    const stored = storedIds.has(reading.vendor_message_id);
+    if (stored) accepted.push(reading);
+    results.push({
+      index,
+      vendor_message_id: reading.vendor_message_id,
+      unit_number: reading.unit_number,
+      status: stored ? "accepted" : "duplicate",
+    });
+  }
+
+  const latestByUnit = new Map<string, TelematicsReading>();
+  for (const reading of accepted) {
+    const current = latestByUnit.get(reading.unit_number);
+    if (!current || reading.vendor_timestamp > current.vendor_timestamp) {
+      latestByUnit.set(reading.unit_number, reading);
+    }
+  }
+  const latestStateUpdated = await upsertLatestTelematicsState(vendor, [...latestByUnit.values()]);
+
+  let alertFirings: number | undefined;
+  if (body.evaluate_alerts && latestStateUpdated.length) {
+    try {
+      const evaluation = await evaluateTelematicsAlertsService(latestStateUpdated);
+      alertFirings = evaluation.firings.length;
+    } catch (error) {
+      logger.error((error as Error).message || "Alert evaluation after ingest failed", error);
+    }
+  }
+
+  let meterReadingsRecorded = 0;
+  try {
+    meterReadingsRecorded = await recordTelematicsMeterReadingsService([...latestByUnit.values()]);
+  } catch (error) {
+    logger.error((error as Error).message || "Meter readings after ingest failed", error);
+  }
+
+  let loadEventsRecorded = 0;
+  try {
+    loadEventsRecorded = await recordTelematicsLoadEventsService([...latestByUnit.values()]);
+  } catch (error) {
+    logger.error((error as Error).message || "Load events after ingest failed", error);
+  }
+
+  results.sort((a, b) => a.index - b.index);
+  const count = (status: TelematicsIngestMessageResultDto["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  logger.info(
+    "Ingested %d/%d telematics messages from %s",
+    accepted.length,
+    body.messages.length,
+    vendor.vendor_name
+  );
+  return {
+    vendor_id: vendor.iot_device_vendor_lookup_id,
+    vendor_name: vendor.vendor_name,
+    adapter: adapter.name,
+    received: body.messages.length,
+    accepted: count("accepted"),
+    duplicates: count("duplicate"),
+    rejected: count("rejected"),
+    latest_state_updated: latestStateUpdated.length,
+    meter_readings_recorded: meterReadingsRecorded,
+    load_events_recorded: loadEventsRecorded,
+    results,
+    ...(alertFirings === undefined ? {} : { alert_firings: alertFirings }),
+  };
+};
@@ -0,0 +1,550 @@
+import prisma from "../config/database.config";
+import { ServiceError } from "../utils/responseUtils";
+import { ExcelExporter } from "../utils/excelUtils";
+import {
+  SecondaryDbTelematicsHistoryStore,
+  TelematicsHistoryStore,
+} from "./telematicsHistory.service";
+import {
+  AccountUtilizationDto,
+  TelematicsDailyActivity,
+  UnitUtilizationDto,
+  UtilizationQueryDto,
+  UtilizationReportDto,
+} from "../types/dtos/utilization.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_IDLE_DAYS = 14;
+const DEFAULT_WIDGET_LIMIT = 10;
+const MAX_WIDGET_LIMIT = 500;
+// History is aggregated for this many units per secondary DB query
+const HISTORY_BATCH_SIZE = 500;
+// Odometer / engine hour jumps above these per elapsed day are treated as bad readings
+const MAX_DAILY_MILES = 1500;
+const MAX_DAILY_ENGINE_HOURS = 24;
+// Event names written to activity_feed by geofence transitions
+const SITE_ENTER_EVENT = "ENTER";
+const SITE_EXIT_EVENT = "EXIT";
+
+let defaultHistoryStore: TelematicsHistoryStore | undefined;
+
+interface UtilizationRange {
+  from: Date;
+  to: Date;
+  days: string[]
+}
+
+interface UtilizationUnit {
+  equipment_id: number;
+  unit_number: string;
+  telematic_device_id: string;
+  account_id: number;
+  account_number: string | null;
+  account_name: string | null;
+  // Assignment window clipped to the range; activity outside it belongs to another lessee
+  window: LoadInterval;
+  is_active: boolean
+}
+
+interface LoadInterval {
+  start: number;
+  end: number
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const toDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseAccountIds = (value?: string): number[] => {
+  const accountIds = (value ?? "")
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  if (!accountIds.length) {
+    throw new ServiceError("account_ids query parameter is required (e.g., ?account_ids=1,2,3)", 400);
+  }
+  return accountIds;
+};
+
+const parseBoundedInt = (
+  value: string | undefined,
+  field: string,
+  fallback: number,
+  min: number,
+  max: number
+): number => {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ServiceError(`${field} must be an integer between ${min} and ${max}`, 400);
+  }
+  return parsed;
+};
+
+// Whole UTC days; defaults to the last DEFAULT_RANGE_DAYS days ending today
+const parseRange = (query: UtilizationQueryDto): UtilizationRange => {
+  const toDay = query.to ? new Date(query.to) : new Date();
+  const fromDay = query.from
+    ? new Date(query.from)
+    : new Date(toDay.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  if (isNaN(fromDay.getTime()) || isNaN(toDay.getTime())) {
+    throw new ServiceError("from and to must be valid dates", 400);
+  }
+
+  const from = new Date(`${toDayKey(fromDay)}T00:00:00.000Z`);
+  const to = new Date(`${toDayKey(toDay)}T23:59:59.999Z`);
+  if (from > to) {
+    throw new ServiceError("from must be before to", 400);
+  }
+
+  const days: string[] = [];
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    days.push(toDayKey(new Date(time)));
+  }
+  if (days.length > MAX_RANGE_DAYS) {
+    throw new ServiceError(`Utilization range cannot exceed ${MAX_RANGE_DAYS} days`, 400);
+  }
+  return { from, to, days };
+};
+
+// One unit per equipment and account, covering every assignment that overlaps the range
+const findUnits = async (
+  accountIds: number[],
+  range: UtilizationRange
+): Promise<UtilizationUnit[]> => {
+  const rows = await prisma.fleet_list_view.findMany({
+    where: {
+      account_id: { in: accountIds },
+      activation_date: { lte: range.to },
+      deactivation_date: { gt: range.from },
+    },
+    orderBy: [{ account_id: "asc" }, { unit_number: "asc" }, { activation_date: "asc" }],
+    select: {
+      equipment_id: true,
+      unit_number: true,
+      telematic_device_id: true,
+      account_id: true,
+      account_number: true,
+      account_name: true,
+      activation_date: true,
+      deactivation_date: true,
+    },
+  });
+
+  const now = Date.now();
+  const units = new Map<string, UtilizationUnit>();
+  rows.forEach(({ activation_date, deactivation_date, ...row }) => {
+    const start = Math.max(activation_date.getTime(), range.from.getTime());
+    const end = Math.min(deactivation_date.getTime(), range.to.getTime());
+    const isActive = activation_date.getTime() <= now && deactivation_date.getTime() > now;
+    const key = `${row.equipment_id}:${row.account_id}`;
+    const unit = units.get(key);
+    if (unit) {
+      unit.window = { start: Math.min(unit.window.start, start), end: Math.max(unit.window.end, end) };
+      unit.is_active ||= isActive;
+      return;
+    }
+    units.set(key, { ...row, window: { start, end }, is_active: isActive });
+  });
+  return Array.from(units.values());
+};
+
+const findDailyActivity = async (
+  units: UtilizationUnit[],
+  range: UtilizationRange,
+  historyStore: TelematicsHistoryStore
+): Promise<Map<string, TelematicsDailyActivity[]>> => {
+  const deviceIds = Array.from(new Set(units.map((u) => u.telematic_device_id)));
+  const byDevice = new Map<string, TelematicsDailyActivity[]>();
+  for (let i = 0; i < deviceIds.length; i += HISTORY_BATCH_SIZE) {
+    const rows = await historyStore.findDailyActivity(
+      deviceIds.slice(i, i + HISTORY_BATCH_SIZE),
+      range.from,
+      range.to
+    );
+    rows.forEach((row) => {
+      const list = byDevice.get(row.unit_number) ?? [];
+      list.push(row);
+      byDevice.set(row.unit_number, list);
+    });
+  }
+  byDevice.forEach((rows) => rows.sort((a, b) => a.day.localeCompare(b.day)));
+  return byDevice;
+};
+
+const findLoadIntervals = async (
+  equipmentIds: number[],
+  range: UtilizationRange
+): Promise<Map<number, LoadInterval[]>> => {
+  const rows = await prisma.equipment_load_detail.findMany({
+    where: {
+      equipment_id: { in: equipmentIds },
+      equipment_load_date: { not: null, lte: range.to },
+      OR: [{ equipment_unload_date: null }, { equipment_unload_date: { gte: range.from } }],
+    },
+    select: { equipment_id: true, equipment_load_date: true, equipment_unload_date: true },
+  });
+
+  const byEquipment = new Map<number, LoadInterval[]>();
+  rows.forEach((row) => {
+    if (!row.equipment_load_date) return;
+    const list = byEquipment.get(row.equipment_id) ?? [];
+    list.push({
+      start: row.equipment_load_date.getTime(),
+      end: (row.equipment_unload_date ?? range.to).getTime(),
+    });
+    byEquipment.set(row.equipment_id, list);
+  });
+  return byEquipment;
+};
+
+// Pairs geofence ENTER/EXIT activity per unit and site; visits still open at either edge are clipped to the range
+const findSiteVisits = async (
+  equipmentIds: number[],
+  range: UtilizationRange
+): Promise<Map<number, LoadInterval[]>> => {
+  const events = await prisma.activity_feed.findMany({
+    where: {
+      equipment_id: { in: equipmentIds },
+      geofence_id: { not: null },
+      is_deleted: false,
+      event_time: { gte: range.from, lte: range.to },
+      alert_type: {
+        event_name: { in: [SITE_ENTER_EVENT, SITE_EXIT_EVENT], mode: "insensitive" },
+      },
+    },
+    orderBy: { event_time: "asc" },
+    select: {
+      equipment_id: true,
+      geofence_id: true,
+      event_time: true,
+      alert_type: { select: { event_name: true } },
+    },
+  });
+
+  const openVisits = new Map<string, number>();
+  const closedSites = new Set<string>();
+  const visitsByEquipment = new Map<number, LoadInterval[]>();
+  const addDwell = (equipmentId: number, start: number, end: number) => {
+    const list = visitsByEquipment.get(equipmentId) ?? [];
+    list.push({ start, end });
+    visitsByEquipment.set(equipmentId, list);
+  };
+
+  events.forEach((event) => {
+    if (event.equipment_id === null) return;
+    const key = `${event.equipment_id}:${event.geofence_id}`;
+    const time = event.event_time.getTime();
+    if (event.alert_type?.event_name.toUpperCase() === SITE_ENTER_EVENT) {
+      if (!openVisits.has(key)) openVisits.set(key, time);
+      return;
+    }
+    const enteredAt = openVisits.get(key);
+    if (enteredAt !== undefined) {
+      addDwell(event.equipment_id, enteredAt, time);
+      openVisits.delete(key);
+    } else if (!closedSites.has(key)) {
+      // Exit with no entry in range: the unit was already on site at range start
+      addDwell(event.equipment_id, range.from.getTime(), time);
+    }
+    closedSites.add(key);
+  });
+
+  const rangeEnd = Math.min(range.to.getTime(), Date.now());
+  openVisits.forEach((enteredAt, key) => {
+    addDwell(Number(key.split(":")[0]), enteredAt, rangeEnd);
+  });
+  return visitsByEquipment;
+};
+
+// Hours of each visit that fall inside the assignment window
+const dwellHoursWithin = (visits: LoadInterval[], window: LoadInterval): number[] =>
+  visits
+    .map((visit) => Math.min(visit.end, window.end) - Math.max(visit.start, window.start))
+    .filter((ms) => ms > 0)
+    .map((ms) => ms / (60 * 60 * 1000));
+
+const isDayInWindow = (day: string, window: LoadInterval): boolean => {
+  const dayStart = new Date(`${day}T00:00:00.000Z`).getTime();
+  return dayStart < window.end && dayStart + DAY_MS > window.start;
+};
+
+const loadedFraction = (day: string, intervals: LoadInterval[]): number => {
+  if (!intervals.length) return 0;
+  const dayStart = new Date(`${day}T00:00:00.000Z`).getTime();
+  const dayEnd = dayStart + DAY_MS;
+  const loadedMs = intervals.reduce(
+    (sum, interval) =>
+      sum + Math.max(0, Math.min(dayEnd, interval.end) - Math.max(dayStart, interval.start)),
+    0
+  );
+  return Math.min(1, loadedMs / DAY_MS);
+};
+
+// Daily delta between consecutive readings, carrying the previous reading forward
+// After days without a report the limit grows with the days elapsed since that reading
+const dailyDeltas = (
+  rows: TelematicsDailyActivity[],
+  minKey: "min_mileage" | "min_engine_hours",
+  maxKey: "max_mileage" | "max_engine_hours",
+  maxDeltaPerDay: number
+): Map<string, number> => {
+  const deltas = new Map<string, number>();
+  let previous: { day: string, value: number } | null = null;
+  rows.forEach((row) => {
+    const end = row[maxKey];
+    if (end === null) return;
+    const start = previous?.value ?? row[minKey] ?? end;
+    const elapsedDays = previous
+      ? Math.max(1, Math.round((Date.parse(row.day) - Date.parse(previous.day)) / DAY_MS))
+      : 1;
+    const delta = end - start;
+    deltas.set(row.day, delta >= 0 && delta <= maxDeltaPerDay * elapsedDays ? delta : 0);
+    previous = { day: row.day, value: end };
+  });
+  return deltas;
+};
+
+const idleStreaks = (days: string[], movedDays: Set<string>) => {
+  let longest = 0;
+  let current = 0;
+  days.forEach((day) => {
+    current = movedDays.has(day) ? 0 : current + 1;
+    longest = Math.max(longest, current);
+  });
+  return { longest, current };
+};
+
+// Only days inside the unit's assignment window count; former lessees are never return candidates
+const buildUnitUtilization = (
+  unit: UtilizationUnit,
+  range: UtilizationRange,
+  idleDays: number,
+  deviceActivity: TelematicsDailyActivity[],
+  loadIntervals: LoadInterval[],
+  siteVisits: LoadInterval[]
+): UnitUtilizationDto => {
+  const days = range.days.filter((day) => isDayInWindow(day, unit.window));
+  const activity = deviceActivity.filter((row) => isDayInWindow(row.day, unit.window));
+  const dwellHours = dwellHoursWithin(siteVisits, unit.window);
+  const movedDays = new Set(activity.filter((row) => row.moved).map((row) => row.day));
+  const miles = dailyDeltas(activity, "min_mileage", "max_mileage", MAX_DAILY_MILES);
+  const engineHours = dailyDeltas(activity, "min_engine_hours", "max_engine_hours", MAX_DAILY_ENGINE_HOURS);
+
+  let totalMiles = 0;
+  let loadedMiles = 0;
+  miles.forEach((dayMiles, day) => {
+    totalMiles += dayMiles;
+    loadedMiles += dayMiles * loadedFraction(day, loadIntervals);
+  });
+  const streaks = idleStreaks(days, movedDays);
+
+  return {
+    equipment_id: unit.equipment_id,
+    unit_number: unit.unit_number,
+    account_id: unit.account_id,
+    account_number: unit.account_number,
+    account_name: unit.account_name,
+    days_in_range: days.length,
+    days_reported: activity.length,
+    days_moved: movedDays.size,
+    percent_days_moved: days.length ? round((movedDays.size / days.length) * 100, 1) : 0,
+    total_miles: round(totalMiles),
+    loaded_miles: round(loadedMiles),
+    empty_miles: round(totalMiles - loadedMiles),
+    engine_hours: round(Array.from(engineHours.values()).reduce((sum, h) => sum + h, 0)),
+    longest_idle_streak_days: streaks.longest,
+    current_idle_streak_days: streaks.current,
+    site_visits: dwellHours.length,
+    avg_dwell_hours: dwellHours.length
+      ? round(dwellHours.reduce((sum, h) => sum + h, 0) / dwellHours.length)
+      : null,
+    return_candidate: unit.is_active && streaks.current >= idleDays,
+  };
+};
+
+const average = (values: number[], digits = 1) =>
+  values.length ? round(values.reduce((sum, v) => sum + v, 0) / values.length, digits) : 0;
+
+const sumOf = (units: UnitUtilizationDto[], key: "total_miles" | "loaded_miles" | "empty_miles") =>
+  round(units.reduce((sum, u) => sum + u[key], 0));
+
+const buildAccountUtilization = (units: UnitUtilizationDto[]): AccountUtilizationDto[] => {
+  const byAccount = new Map<number, UnitUtilizationDto[]>();
+  units.forEach((unit) => {
+    const list = byAccount.get(unit.account_id) ?? [];
+    list.push(unit);
+    byAccount.set(unit.account_id, list);
+  });
+
+  return Array.from(byAccount.values()).map((accountUnits) => {
+    const totalMiles = sumOf(accountUnits, "total_miles");
+    const loadedMiles = sumOf(accountUnits, "loaded_miles");
+    const visits = accountUnits.reduce((sum, u) => sum + u.site_visits, 0);
+    const dwellTotal = accountUnits.reduce(
+      (sum, u) => sum + (u.avg_dwell_hours ?? 0) * u.site_visits,
+      0
+    );
+    return {
+      account_id: accountUnits[0].account_id,
+      account_number: accountUnits[0].account_number,
+      account_name: accountUnits[0].account_name,
+      unit_count: accountUnits.length,
+      avg_percent_days_moved: average(accountUnits.map((u) => u.percent_days_moved)),
+      total_miles: totalMiles,
+      loaded_miles: loadedMiles,
+      empty_miles: sumOf(accountUnits, "empty_miles"),
+      loaded_mile_percent: totalMiles ? round((loadedMiles / totalMiles) * 100, 1) : 0,
+      site_visits: visits,
+      avg_dwell_hours: visits ? round(dwellTotal / visits) : null,
+      return_candidate_count: accountUnits.filter((u) => u.return_candidate).length,
+    };
+  });
+};
+
+// Longest current idle streak first, then least used
+const byReturnPriority = (a: UnitUtilizationDto, b: UnitUtilizationDto) =>
+  b.current_idle_streak_days - a.current_idle_streak_days ||
+  a.percent_days_moved - b.percent_days_moved;
+
+const buildUtilizationReport = async (
+  query: UtilizationQueryDto,
+  historyStore?: TelematicsHistoryStore
+): Promise<UtilizationReportDto> => {
+  const accountIds = parseAccountIds(query.account_ids);
+  const range = parseRange(query);
+  const idleDays = parseBoundedInt(query.idle_days, "idle_days", DEFAULT_IDLE_DAYS, 1, MAX_RANGE_DAYS);
+
+  const units = await findUnits(accountIds, range);
+  const equipmentIds = Array.from(new Set(units.map((u) => u.equipment_id)));
+
+  defaultHistoryStore ??= new SecondaryDbTelematicsHistoryStore();
+  const [activityByDevice, loadsByEquipment, visitsByEquipment] = await Promise.all([
+    findDailyActivity(units, range, historyStore ?? defaultHistoryStore),
+    findLoadIntervals(equipmentIds, range),
+    findSiteVisits(equipmentIds, range),
+  ]);
+
+  const unitRows = units
+    .map((unit) =>
+      buildUnitUtilization(
+        unit,
+        range,
+        idleDays,
+        activityByDevice.get(unit.telematic_device_id) ?? [],
+        loadsByEquipment.get(unit.equipment_id) ?? [],
+        visitsByEquipment.get(unit.equipment_id) ?? []
+      )
+    )
+    .sort(byReturnPriority);
+
+  return {
+    summary: {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      days_in_range: range.days.length,
+      idle_days_threshold: idleDays,
+      unit_count: unitRows.length,
+      avg_percent_days_moved: average(unitRows.map((u) => u.percent_days_moved)),
+      total_miles: sumOf(unitRows, "total_miles"),
+      loaded_miles: sumOf(unitRows, "loaded_miles"),
+      empty_miles: sumOf(unitRows, "empty_miles"),
+      return_candidate_count: unitRows.filter((u) => u.return_candidate).length,
+    },
+    accounts: buildAccountUtilization(unitRows),
+    units: unitRows,
+  };
+};
+
+/**
+ * Utilization dashboard widget
+ * Per account and per unit: percentage of days moved, loaded vs. empty miles,
+ * idle streaks and average dwell at customer geofences over a date range.
+ * Units are ordered by current idle streak so early-return candidates come first.
+ *
+ * @param query - account_ids (comma list), from/to (default last 30 days), idle_days, limit
+ * @param historyStore - Optional telematics history store
+ * @returns Summary, per-account rows and the top `limit` units
+ * @author chaitanya
+ */
+export const getUtilizationService = async (
+  query: UtilizationQueryDto,
+  historyStore?: TelematicsHistoryStore
+): Promise<UtilizationReportDto> => {
+  const limit = parseBoundedInt(query.limit, "limit", DEFAULT_WIDGET_LIMIT, 1, MAX_WIDGET_LIMIT);
+  const report = await buildUtilizationReport(query, historyStore);
+  return { ...report, units: report.units.slice(0, limit) };
+};
+
+/**
+ * Exports the full utilization report to Excel with unit and account sheets
+ *
+ * @param query - Same filters as the dashboard widget; limit is ignored
+ * @param historyStore - Optional telematics history store
+ * @returns Excel buffer and filename
+ * @author chaitanya
+ */
+export const downloadUtilizationService = async (
+  query: UtilizationQueryDto,
+  historyStore?: TelematicsHistoryStore
+): Promise<{ buffer: Buffer, filename: string }> => {
+  const report = await buildUtilizationReport(query, historyStore);
+  const { summary } = report;
+  const subtitle = `${summary.from.slice(0, 10)} to ${summary.to.slice(0, 10)} (${summary.days_in_range} days)`;
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+  const filename = `utilization_${timestamp}.xlsx`;
+
+  const exporter = new ExcelExporter();
+  exporter.generateWorkbook({
+    sheetName: "Units",
+    title: "Equipment Utilization",
+    subtitle,
+    columns: [
+      { header: "Unit Number", key: "unit_number", width: 18 },
+      { header: "Account Number", key: "account_number", width: 18 },
+      { header: "Account Name", key: "account_name", width: 30 },
+      { header: "Days Moved", key: "days_moved", width: 12 },
+      { header: "% Days Moved", key: "percent_days_moved", width: 14 },
+      { header: "Total Miles", key: "total_miles", width: 14 },
+      { header: "Loaded Miles", key: "loaded_miles", width: 14 },
+      { header: "Empty Miles", key: "empty_miles", width: 14 },
+      { header: "Engine Hours", key: "engine_hours", width: 14 },
+      { header: "Longest Idle Streak (days)", key: "longest_idle_streak_days", width: 24 },
+      { header: "Current Idle Streak (days)", key: "current_idle_streak_days", width: 24 },
+      { header: "Site Visits", key: "site_visits", width: 12 },
+      { header: "Avg Dwell (hours)", key: "avg_dwell_hours", width: 18 },
+      {
+        header: "Return Candidate",
+        key: "return_candidate",
+        width: 18,
+        formatter: (value: unknown) => (value ? "Yes" : "No"),
+      },
+    ],
+    data: report.units,
+    filename,
+  });
+  exporter.generateWorkbook({
+    sheetName: "Accounts",
+    title: "Account Utilization",
+    subtitle,
+    columns: [
+      { header: "Account Number", key: "account_number", width: 18 },
+      { header: "Account Name", key: "account_name", width: 30 },
+      { header: "Units", key: "unit_count", width: 10 },
+      { header: "Avg % Days Moved", key: "avg_percent_days_moved", width: 18 },
+      { header: "Total Miles", key: "total_miles", width: 14 },
+      { header: "Loaded Miles", key: "loaded_miles", width: 14 },
+      { header: "Empty Miles", key: "empty_miles", width: 14 },
+      { header: "Loaded Mile %", key: "loaded_mile_percent", width: 14 },
+      { header: "Site Visits", key: "site_visits", width: 12 },
+      { header: "Avg Dwell (hours)", key: "avg_dwell_hours", width: 18 },
+      { header: "Return Candidates", key: "return_candidate_count", width: 18 },
+    ],
+    data: report.accounts,
+    filename,
+  });
+
+  return { buffer: await exporter.writeToBuffer(), filename };
+};
@@ -0,0 +1,417 @@
+import crypto from "crypto";
+import axios from "axios";
+import type { Prisma } from "@prisma/client";
+import prisma from "../config/database.config";
+import logger from "../utils/logger";
+import { getWebhookSigningSecret } from "../config/env.config";
+import { getPagination, getPaginationMeta } from "../utils/pagination";
+import { buildOrderByFromSort } from "../utils/sort";
+import { ServiceError } from "../utils/responseUtils";
+import { WEBHOOK_DELIVERY_SORT_FIELDS } from "../types/sorts/sortTypes";
+import {
+  WebhookDeliveryQueryDto,
+  WebhookDeliveryResponseDto,
+  WebhookDeliveryStatus,
+} from "../types/dtos/webhook-delivery.dto";
+
+// Retry schedule: 1m, 2m, 4m ... capped at 6h, dead-lettered after max_attempts
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_ERROR_LENGTH = 1000;
+// A claimed row is leased for longer than one request can take; an expired lease
+// (e.g. the sender crashed) makes the row claimable again
+const CLAIM_LEASE_MS = REQUEST_TIMEOUT_MS * 4;
+const CLAIMABLE_STATUSES: WebhookDeliveryStatus[] = ["PENDING", "FAILED", "SENDING"];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+const deliverySelect = {
+  webhook_delivery_id: true,
+  customer_id: true,
+  telematic_alert_id: true,
+  event_type: true,
+  payload: true,
+  status: true,
+  attempt_count: true,
+  max_attempts: true,
+  next_attempt_at: true,
+  last_attempt_at: true,
+  last_response_status: true,
+  last_error: true,
+  delivered_at: true,
+  created_at: true,
+  telematic_alert: { select: { alert_name: true } },
+} satisfies Prisma.webhook_deliverySelect;
+
+type DeliveryRow = Prisma.webhook_deliveryGetPayload<{
+  select: typeof deliverySelect
+}>;
+
+const toResponseDto = (row: DeliveryRow): WebhookDeliveryResponseDto => {
+  const { telematic_alert, ...rest } = row;
+  return { ...rest, alert_name: telematic_alert?.alert_name ?? null };
+};
+
+/**
+ * Computes the delay before the next attempt using exponential backoff
+ *
+ * @param attempt - Number of attempts already made (1-based)
+ * @returns Delay in milliseconds
+ * @author chaitanya
+ */
+export const getWebhookRetryDelayMs = (attempt: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Signs a webhook body so receivers can verify origin and freshness
+ * Signature is HMAC-SHA256 over "<timestamp>.<body>", sent as "t=<ts>,v1=<hex>"
+ *
+ * @param body - Serialized JSON body
+ * @param secret - Customer signing secret
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Header value for X-Webhook-Signature
+ * @author chaitanya
+ */
+export const signWebhookPayload = (
+  body: string,
+  secret: string,
+  timestamp: number
+): string => {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+};
+
+const describeError = (error: unknown): { message: string, status: number | null } => {
+  if (axios.isAxiosError(error)) {
+    return {
+      message: error.response
+        ? `HTTP ${error.response.status}: ${error.response.statusText}`
+        : error.message,
+      status: error.response?.status ?? null,
+    };
+  }
+  return {
+    message: error instanceof Error ? error.message : "Unknown webhook error",
+    status: null,
+  };
+};
+
+const leaseUntil = (now: Date) => new Date(now.getTime() + CLAIM_LEASE_MS);
+
+/**
+ * Claims a due delivery by moving it to SENDING with a lease
+ * The conditional update lets only one caller (request, job or instance) win the row
+ *
+ * @returns true when this caller claimed the row
+ */
+const claimWebhookDelivery = async (webhookDeliveryId: number): Promise<boolean> => {
+  const now = new Date();
+  const { count } = await prisma.webhook_delivery.updateMany({
+    where: {
+      webhook_delivery_id: webhookDeliveryId,
+      status: { in: CLAIMABLE_STATUSES },
+      next_attempt_at: { lte: now },
+    },
+    data: { status: "SENDING", next_attempt_at: leaseUntil(now), updated_at: now },
+  });
+  return count === 1;
+};
+
+/**
+ * Makes one delivery attempt on a row this caller has claimed and records the outcome
+ * Failed attempts are rescheduled with backoff until max_attempts, then dead-lettered
+ */
+const sendClaimedWebhookDelivery = async (
+  webhookDeliveryId: number
+): Promise<WebhookDeliveryResponseDto> => {
+  const delivery = await prisma.webhook_delivery.findUnique({
+    where: { webhook_delivery_id: webhookDeliveryId },
+    select: {
+      ...deliverySelect,
+      customer: {
+        select: {
+          web_hook_url: true,
+          web_hook_userName: true,
+          web_hook_password: true,
+          web_hook_secret: true,
+        },
+      },
+    },
+  });
+  if (!delivery) {
+    throw new ServiceError("Webhook delivery not found", 404);
+  }
+
+  const now = new Date();
+  const attempt = delivery.attempt_count + 1;
+  const { customer } = delivery;
+  let status: WebhookDeliveryStatus = "DELIVERED";
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  try {
+    if (!customer.web_hook_url) {
+      throw new Error("Customer webhook URL not configured");
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Webhook-Id": String(delivery.webhook_delivery_id),
+      "X-Webhook-Event": delivery.event_type,
+    };
+    const secret = customer.web_hook_secret ?? getWebhookSigningSecret();
+    if (secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(
+        body,
+        secret,
+        Math.floor(now.getTime() / 1000)
+      );
+    } else {
+      logger.warn(
+        "No webhook signing secret for customer %d, sending unsigned",
+        delivery.customer_id
+      );
+    }
+    if (customer.web_hook_userName && customer.web_hook_password) {
+      const credentials = Buffer.from(
+        `${customer.web_hook_userName}:${customer.web_hook_password}`
+      ).toString("base64");
+      headers.Authorization = `Basic ${credentials}`;
+    }
+
+    const response = await axios.post(customer.web_hook_url, body, {
+      headers,
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    responseStatus = response.status;
+  } catch (error) {
+    const described = describeError(error);
+    responseStatus = described.status;
+    lastError = described.message.slice(0, MAX_ERROR_LENGTH);
+    status = attempt >= delivery.max_attempts ? "DEAD_LETTER" : "FAILED";
+    logger.error(
+      "Webhook delivery %d attempt %d failed: %s",
+      delivery.webhook_delivery_id,
+      attempt,
+      lastError
+    );
+  }
+
+  const updated = await prisma.webhook_delivery.update({
+    where: { webhook_delivery_id: delivery.webhook_delivery_id },
+    data: {
+      status,
+      attempt_count: attempt,
+      last_attempt_at: now,
+      last_response_status: responseStatus,
+      last_error: lastError,
+      delivered_at: status === "DELIVERED" ? now : null,
+      next_attempt_at:
+        status === "FAILED"
+          ? new Date(now.getTime() + getWebhookRetryDelayMs(attempt))
+          : null,
+      updated_at: now,
+    },
+    select: deliverySelect,
+  });
+
+  return toResponseDto(updated);
+};
+
+/**
+ * Claims a due delivery and makes one attempt
+ * Rows already being sent elsewhere, or not yet due, are left alone
+ *
+ * @param webhookDeliveryId - Queue row to attempt
+ * @returns Updated delivery row, or null when the row could not be claimed
+ * @author chaitanya
+ */
+export const attemptWebhookDelivery = async (
+  webhookDeliveryId: number
+): Promise<WebhookDeliveryResponseDto | null> =>
+  (await claimWebhookDelivery(webhookDeliveryId))
+    ? sendClaimedWebhookDelivery(webhookDeliveryId)
+    : null;
+
+/**
+ * Queues a webhook for a customer and makes the first delivery attempt
+ * Returns null when the customer has no webhook URL configured
+ *
+ * @param customerId - Customer receiving the webhook
+ * @param eventType - Event name sent in X-Webhook-Event
+ * @param payload - JSON payload
+ * @param options - Optional alert link and creator
+ * @returns Delivery row after the first attempt, or null when not queued
+ * @author chaitanya
+ */
+export const enqueueWebhookDelivery = async (
+  customerId: number,
+  eventType: string,
+  payload: Prisma.InputJsonValue,
+  options: { telematic_alert_id?: number, created_by?: number } = {}
+): Promise<WebhookDeliveryResponseDto | null> => {
+  const customer = await prisma.customer.findUnique({
+    where: { customer_id: customerId },
+    select: { web_hook_url: true },
+  });
+  if (!customer?.web_hook_url) return null;
+
+  const now = new Date();
+  const created = await prisma.webhook_delivery.create({
+    data: {
+      customer_id: customerId,
+      telematic_alert_id: options.telematic_alert_id ?? null,
+      event_type: eventType,
+      payload,
+      // Created already claimed so the retry job leaves the inline attempt alone
+      status: "SENDING",
+      next_attempt_at: leaseUntil(now),
+      created_at: now,
+      created_by: options.created_by ?? null,
+      updated_at: now,
+    },
+    select: { webhook_delivery_id: true },
+  });
+
+  return sendClaimedWebhookDelivery(created.webhook_delivery_id);
+};
+
+/**
+ * Retries queued deliveries whose next attempt is due
+ * Each row is claimed before sending, so rows picked up by another instance are skipped.
+ * SENDING rows whose lease expired are retried as well.
+ *
+ * @param limit - Maximum deliveries to attempt in one run
+ * @returns Number of deliveries attempted
+ * @author chaitanya
+ */
+export const processDueWebhookDeliveries = async (limit = 50): Promise<number> => {
+  const due = await prisma.webhook_delivery.findMany({
+    where: {
+      status: { in: CLAIMABLE_STATUSES },
+      next_attempt_at: { lte: new Date() },
+    },
+    orderBy: { next_attempt_at: "asc" },
+    take: limit,
+    select: { webhook_delivery_id: true },
+  });
+
+  let attempted = 0;
+  for (const { webhook_delivery_id } of due) {
+    try {
+      if (await attemptWebhookDelivery(webhook_delivery_id)) attempted++;
+    } catch (error) {
+      logger.error(
+        (error as Error).message || "Webhook retry failed",
+        error
+      );
+    }
+  }
+  return attempted;
+};
+
+/**
+ * Lists webhook delivery history for a customer
+ * Supports status, event type, alert and created date filters with pagination and sorting
+ *
+ * @param customerId - Customer whose deliveries are listed
+ * @param query - Filter, pagination and sort parameters
+ * @returns Paginated delivery rows
+ * @author chaitanya
+ */
+export const getWebhookDeliveriesByCustomerService = async (
+  customerId: number,
+  query: WebhookDeliveryQueryDto
+) => {
+  const { page, perPage, skip, take } = getPagination(query);
+
+  const where: Prisma.webhook_deliveryWhereInput = { customer_id: customerId };
+  if (query.status) {
+    where.status = { equals: query.status, mode: "insensitive" };
+  }
+  if (query.event_type) {
+    where.event_type = { contains: query.event_type, mode: "insensitive" };
+  }
+  if (query.telematic_alert_id && !isNaN(Number(query.telematic_alert_id))) {
+    where.telematic_alert_id = Number(query.telematic_alert_id);
+  }
+  if (query.created_from || query.created_to) {
+    const createdAt: Prisma.DateTimeFilter = {};
+    if (query.created_from) createdAt.gte = new Date(query.created_from);
+    if (query.created_to) {
+      const end = new Date(query.created_to);
+      end.setHours(23, 59, 59, 999);
+      createdAt.lte = end;
+    }
+    where.created_at = createdAt;
+  }
+
+  const orderBy = buildOrderByFromSort(
+    query.sort,
+    WEBHOOK_DELIVERY_SORT_FIELDS,
+    "created_at"
+  );
+
+  const [total, rows] = await Promise.all([
+    prisma.webhook_delivery.count({ where }),
+    prisma.webhook_delivery.findMany({
+      where,
+      orderBy,
+      skip,
+      take,
+      select: deliverySelect,
+    }),
+  ]);
+
+  return {
+    data: rows.map(toResponseDto),
+    meta: getPaginationMeta(total, page, perPage),
+  };
+};
+
+/**
+ * Manually redelivers a webhook, resetting its retry budget
+ *
+ * @param customerId - Customer that owns the delivery
+ * @param webhookDeliveryId - Delivery to resend
+ * @returns Delivery row after the redelivery attempt
+ * @author chaitanya
+ */
+export const redeliverWebhookService = async (
+  customerId: number,
+  webhookDeliveryId: number
+): Promise<WebhookDeliveryResponseDto> => {
+  const existing = await prisma.webhook_delivery.findFirst({
+    where: { webhook_delivery_id: webhookDeliveryId, customer_id: customerId },
+    select: { webhook_delivery_id: true },
+  });
+  if (!existing) {
+    throw new ServiceError("Webhook delivery not found", 404);
+  }
+
+  // Claim the row unless an attempt holds an unexpired lease on it
+  const now = new Date();
+  const { count } = await prisma.webhook_delivery.updateMany({
+    where: {
+      webhook_delivery_id: webhookDeliveryId,
+      NOT: { status: "SENDING", next_attempt_at: { gt: now } },
+    },
+    data: {
+      status: "SENDING",
+      attempt_count: 0,
+      next_attempt_at: leaseUntil(now),
+      updated_at: now,
+    },
+  });
+  if (!count) {
+    throw new ServiceError("Webhook delivery is already being sent", 409);
+  }
+
+  logger.info("Redelivering webhook %d", webhookDeliveryId);
+  return sendClaimedWebhookDelivery(webhookDeliveryId);
+};
@@ -0,0 +1,32 @@
+export type AlertNotificationChannel = "email" | "sms" | "webhook";
+
+export type AlertNotificationStatus = "SENT" | "FAILED" | "SKIPPED";
+
+export interface AlertNotificationEventDto {
+  telematic_alert_id: number;
+  alert_type_id?: number;
+  alert_category_id?: number | null;
+  equipment_id?: number;
+  unit_number?: string;
+  account_id?: number | null;
+  customer_id: number;
+  latitude: number;
+  longitude: number;
+  event_time: Date | string;
+  metric?: string;
+  reading_value?: number | string | null;
+  activity_feed_id?: number
+}
+
+export interface AlertNotificationDeliveryDto {
+  channel: AlertNotificationChannel;
+  delivery_id: number | null;
+  recipients: string[];
+  status: AlertNotificationStatus;
+  error?: string
+}
+
+export interface AlertNotificationResultDto {
+  telematic_alert_id: number;
+  deliveries: AlertNotificationDeliveryDto[]
+}
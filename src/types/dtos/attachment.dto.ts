@@ -0,0 +1,87 @@
+export type AttachmentEntityType = "service_request" | "workorder" | "ers";
+
+export interface EntityAttachmentBody {
+  description?: string;
+  expiration_date?: string;
+  // Set from the authenticated user, never from the request body
+  created_by?: number
+}
+
+export interface EntityAttachmentResponseDto {
+  attachment_id: number;
+  name: string | null;
+  url: string | null;
+  mime_type: string | null;
+  document_category_type: string;
+  description: string | null;
+  date_uploaded: Date | null;
+  expiration_date: Date | null
+}
+
+export type AttachmentOwnerType =
+  | "equipment"
+  | "master_agreement"
+  | "schedule_agreement"
+  | "workorder"
+  | "ers"
+  | "gate_inspection"
+  | "service_request";
+
+export interface AttachmentDownloadResponseDto {
+  attachment_id: number;
+  name: string | null;
+  mime_type: string | null;
+  owner_type: AttachmentOwnerType;
+  download_url: string;
+  expires_at: Date
+}
+
+export type ExpiringDocumentOwnerType = Extract<
+  AttachmentOwnerType,
+  "equipment" | "master_agreement" | "schedule_agreement"
+>;
+
+export interface ExpiringDocumentQueryDto {
+  account_ids?: string;
+  days?: string;
+  include_expired?: string;
+  owner_type?: string;
+  page?: string;
+  perPage?: string
+}
+
+export interface ExpiringDocumentDto {
+  attachment_id: number;
+  name: string | null;
+  description: string | null;
+  mime_type: string | null;
+  document_category_type: string;
+  owner_type: ExpiringDocumentOwnerType;
+  owner_id: number;
+  owner_reference: string | null;
+  equipment_id: number | null;
+  account_ids: number[];
+  expiration_date: Date;
+  days_until_expiry: number;
+  is_expired: boolean
+}
+
+export interface EquipmentDocumentQueryDto {
+  document_category_type?: string;
+  include_history?: string
+}
+
+export interface EquipmentDocumentBody extends EntityAttachmentBody {
+  document_category_type?: string;
+  replace_existing?: string | boolean
+}
+
+// The stored S3 url is never returned; clients fetch through the access-checked download route
+export interface EquipmentDocumentDto extends Omit<EntityAttachmentResponseDto, "url"> {
+  download_path: string;
+  equipment_id: number;
+  version: number;
+  is_current: boolean;
+  superseded_at: Date | null;
+  superseded_by: number | null
+}
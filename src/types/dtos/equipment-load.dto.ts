@@ -0,0 +1,32 @@
+export type EquipmentLoadEventType = "LOAD" | "UNLOAD";
+
+export type EquipmentLoadState = "LOADED" | "EMPTY";
+
+export interface EquipmentLoadEventCreateDto {
+  event: string;
+  event_date?: string;
+  // simple_field_lookup field_code; defaults to LOADED for loads and EMPTY for unloads
+  load_status?: string;
+  load_detail?: string
+}
+
+export interface EquipmentLoadHistoryQueryDto {
+  load_status?: string;
+  from?: string;
+  to?: string;
+  page?: number | string;
+  perPage?: number | string;
+  sort?: string
+}
+
+export interface EquipmentLoadDetailResponseDto {
+  equipment_load_detail_id: number;
+  equipment_id: number;
+  equipment_load_date: Date | null;
+  equipment_unload_date: Date | null;
+  equipment_load_status: string;
+  load_status_description: string | null;
+  equipment_load_detail: string;
+  load_state: EquipmentLoadState;
+  duration_hours: number | null
+}
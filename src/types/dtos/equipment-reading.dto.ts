@@ -0,0 +1,34 @@
+export type EquipmentMeterType = "ODOMETER" | "HOUR_METER";
+
+export type EquipmentReadingSource = "Manual" | "Telematics";
+
+export interface EquipmentReadingCreateDto {
+  reading: number | string;
+  meter_type?: EquipmentMeterType;
+  reading_date?: string;
+  notes?: string;
+  created_by?: number
+}
+
+export interface EquipmentReadingQueryDto {
+  meter_type?: string;
+  reading_type?: string;
+  from?: string;
+  to?: string;
+  page?: number | string;
+  perPage?: number | string;
+  sort?: string
+}
+
+export interface EquipmentReadingResponseDto {
+  equipment_reading_id: number;
+  equipment_id: number | null;
+  equipment_reading: number;
+  meter_type: string;
+  reading_type: string | null;
+  reading_date: Date;
+  source_reference: string | null;
+  notes: string | null;
+  created_at: Date;
+  created_by: number | null
+}
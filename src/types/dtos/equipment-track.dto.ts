@@ -0,0 +1,66 @@
+export interface EquipmentTrackQueryDto {
+  from?: string;
+  to?: string;
+  stop_minutes?: string;
+  max_points?: string
+}
+
+export interface TelematicsTrackPoint {
+  vendor_timestamp: Date;
+  latitude: number;
+  longitude: number;
+  speed: number | null
+}
+
+export interface EquipmentTrackStop {
+  arrived_at: string;
+  departed_at: string;
+  duration_minutes: number;
+  latitude: number;
+  longitude: number
+}
+
+export interface EquipmentTrackSegment {
+  start_time: string;
+  end_time: string;
+  distance_miles: number;
+  max_speed: number | null;
+  point_count: number
+}
+
+export interface EquipmentTrackSummary {
+  unit_number: string;
+  from: string;
+  to: string;
+  total_distance_miles: number;
+  max_speed: number | null;
+  point_count: number;
+  returned_point_count: number;
+  is_downsampled: boolean;
+  is_truncated: boolean;
+  stop_count: number
+}
+
+type Position = [number, number];
+
+export interface EquipmentTrackLineFeature {
+  type: "Feature";
+  geometry: { type: "LineString", coordinates: Position[] };
+  properties: { feature_type: "track", timestamps: string[] }
+}
+
+export interface EquipmentTrackStopFeature {
+  type: "Feature";
+  geometry: { type: "Point", coordinates: Position };
+  properties: EquipmentTrackStop & { feature_type: "stop" }
+}
+
+/**
+ * GeoJSON FeatureCollection with summary and segments as foreign members
+ */
+export interface EquipmentTrackResponseDto {
+  type: "FeatureCollection";
+  features: (EquipmentTrackLineFeature | EquipmentTrackStopFeature)[];
+  summary: EquipmentTrackSummary;
+  segments: EquipmentTrackSegment[]
+}
@@ -0,0 +1,53 @@
+export interface FleetMapQueryDto {
+  account_id?: string;
+  bbox?: string;
+  zoom?: string
+}
+
+export type FleetMotionStatus = "moving" | "stopped" | "unknown";
+
+export interface FleetMapAlertBadge {
+  telematic_alert_id: number;
+  alert_name: string | null;
+  breach_started_at: Date | null
+}
+
+export interface FleetMapUnitProperties {
+  feature_type: "unit";
+  equipment_id: number;
+  unit_number: string;
+  equipment_type: string | null;
+  motion_status: FleetMotionStatus;
+  raw_motion_status: string | null;
+  speed: number | null;
+  heading: string | null;
+  last_update: Date | null;
+  last_update_age_minutes: number | null;
+  is_stale: boolean;
+  alert_count: number;
+  alerts: FleetMapAlertBadge[]
+}
+
+export interface FleetMapClusterProperties {
+  feature_type: "cluster";
+  cluster_id: string;
+  point_count: number;
+  moving_count: number;
+  alert_count: number;
+  expansion_zoom: number
+}
+
+export interface FleetMapFeature<P> {
+  type: "Feature";
+  geometry: { type: "Point", coordinates: [number, number] };
+  properties: P
+}
+
+export interface FleetMapResponseDto {
+  type: "FeatureCollection";
+  features: FleetMapFeature<FleetMapUnitProperties | FleetMapClusterProperties>[];
+  bbox: [number, number, number, number] | null;
+  zoom: number;
+  is_clustered: boolean;
+  unit_count: number
+}
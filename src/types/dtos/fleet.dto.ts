@@ -40,6 +40,8 @@ export interface GetListViewParams {
   contractEndDate?: string;
   agreementType?: string;
   equipmentLoadStatus?: string;
+  // LOADED or EMPTY, from the latest load detail
+  loadState?: string;
   alarmCodeStatus?: string;
   accountNumber?: string;
   accountName?: string;
@@ -234,7 +236,9 @@ export interface GateInspectionRecord {
   created_by?: number;
   updated_at?: Date;
   updated_by?: number;
+  account_id?: number;
   attachments?: GateInspectionAttachment[];
+  damages?: GateInspectionDamage[];
   direction_lookup?: {
     field_code: string,
     short_description: string,
@@ -275,6 +279,42 @@ export interface GateInspectionAttachment {
   }
 }
 
+/**
+ * Interface for a damage item recorded on a gate inspection
+ */
+export interface GateInspectionDamage {
+  gateinspection_damage_id?: number;
+  damage_location: string;
+  damage_type: string;
+  severity?: string;
+  description?: string
+}
+
+/**
+ * Interface for the gate inspection create request (multipart; damages may be a JSON string)
+ */
+export interface GateInspectionCreateBody {
+  direction: string;
+  inspection_date?: string;
+  reason?: string;
+  location?: string;
+  notes?: string;
+  damages?: string | GateInspectionDamage[];
+  compare_with_previous?: boolean | string;
+  created_by?: number | string
+}
+
+/**
+ * Interface for comparing an inspection with the previous gate-out inspection
+ */
+export interface GateInspectionComparison {
+  inspection: GateInspectionRecord;
+  previous_gate_out: GateInspectionRecord | null;
+  // Damage on this inspection with no matching location and type at the previous gate-out
+  new_damages: GateInspectionDamage[];
+  existing_damages: GateInspectionDamage[]
+}
+
 /**
  * Interface for paginated gate inspection data
  */
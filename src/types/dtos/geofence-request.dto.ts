@@ -84,3 +84,16 @@ export interface GeofenceAccountResponseDto {
   created_at?: Date | null;
   updated_at?: Date | null
 }
+
+// Single equipment position reported to the location-ingest endpoint
+export interface GeofenceLocationUpdateDto {
+  equipment_id?: number | string;
+  unit_number?: string;
+  latitude: number | string;
+  longitude: number | string;
+  event_time?: string
+}
+
+export interface GeofenceLocationEventRequestDto {
+  locations: GeofenceLocationUpdateDto[]
+}
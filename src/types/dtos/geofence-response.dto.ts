@@ -35,3 +35,25 @@ export interface GeofenceAccountResponseDto {
   created_at?: Date | null;
   updated_at?: Date | null
 }
+
+export type GeofenceTransitionType = "ENTER" | "EXIT";
+
+export interface GeofenceTransitionDto {
+  equipment_id: number;
+  unit_number: string;
+  geofence_id: number;
+  geofence_name: string;
+  event_type: GeofenceTransitionType;
+  event_time: Date;
+  activity_feed_id: number
+}
+
+export interface GeofenceLocationEventResponseDto {
+  processed: number;
+  skipped: {
+    equipment_id?: number | string,
+    unit_number?: string,
+    reason: string
+  }[];
+  transitions: GeofenceTransitionDto[]
+}
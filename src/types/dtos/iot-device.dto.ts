@@ -0,0 +1,68 @@
+export type IotDeviceHealthStatus = "OK" | "SILENT" | "LOW_BATTERY" | "UNASSIGNED";
+
+export interface IotDeviceQueryDto {
+  account_ids?: string;
+  vendor_id?: string;
+  device_type?: string;
+  status?: string;
+  // OK, SILENT, LOW_BATTERY, UNASSIGNED or FLAGGED (silent or low battery)
+  health?: string;
+  search?: string;
+  silent_hours?: string;
+  low_battery_voltage?: string;
+  page?: number | string;
+  perPage?: number | string;
+  sort?: string
+}
+
+export interface IotDeviceHealthDto {
+  iot_device_id: string;
+  device_id_external: string | null;
+  device_type: string | null;
+  vendor_id: number | null;
+  vendor_name: string | null;
+  status: string | null;
+  installation_date: Date | null;
+  last_service_date: Date | null;
+  equipment_id: number | null;
+  unit_number: string | null;
+  account_id: number | null;
+  account_name: string | null;
+  assigned_since: Date | null;
+  last_report_at: Date | null;
+  last_report_age_hours: number | null;
+  battery_health: string | null;
+  battery_voltage: number | null;
+  metric_value: number | null;
+  metric_uom: string | null;
+  is_silent: boolean;
+  is_low_battery: boolean;
+  health: IotDeviceHealthStatus
+}
+
+export interface IotDeviceHealthSummaryDto {
+  total: number;
+  silent: number;
+  low_battery: number;
+  unassigned: number
+}
+
+export interface IotDeviceMoveDto {
+  to_equipment_id: number | string;
+  effective_date?: string;
+  reason?: string;
+  moved_by?: number
+}
+
+export interface IotDeviceAssignmentHistoryDto {
+  iot_device_assignment_history_id: string;
+  iot_device_id: string;
+  from_equipment_id: number | null;
+  from_unit_number: string | null;
+  to_equipment_id: number;
+  to_unit_number: string | null;
+  effective_date: Date;
+  reason: string | null;
+  moved_by: number | null;
+  moved_at: Date
+}
@@ -0,0 +1,40 @@
+export interface PmComplianceQueryDto {
+  account_ids?: string;
+  from?: string;
+  to?: string;
+  format?: string
+}
+
+export type PmComplianceDimension = "account" | "facility" | "equipment_type";
+
+/**
+ * Compliance figures for one month, overall or for one account / facility / equipment type
+ * PMs are counted in the month they fell due; DOT inspections in the month they were performed
+ */
+export interface PmComplianceMetricsDto {
+  month: string;
+  pm_due: number;
+  pm_on_time: number;
+  pm_late: number;
+  pm_overdue: number;
+  on_time_percent: number | null;
+  avg_days_late: number | null;
+  dot_inspections: number;
+  dot_passed: number;
+  dot_failed: number;
+  dot_pass_percent: number | null
+}
+
+export interface PmComplianceGroupRowDto extends PmComplianceMetricsDto {
+  group_id: number | null;
+  group_code: string | null;
+  group_name: string
+}
+
+export interface PmComplianceReportDto {
+  summary: Omit<PmComplianceMetricsDto, "month"> & { from: string, to: string, months: number };
+  months: PmComplianceMetricsDto[];
+  by_account: PmComplianceGroupRowDto[];
+  by_facility: PmComplianceGroupRowDto[];
+  by_equipment_type: PmComplianceGroupRowDto[]
+}
@@ -1,3 +1,5 @@
+import { EquipmentMeterType } from "./equipment-reading.dto";
+
 export interface PMsByAccountsQuery {
   accountIds: number[];
   page?: number;
@@ -305,3 +307,149 @@ export interface CombinedRecord {
   // Allow any other properties
   [key: string]: unknown
 }
+
+export type PmCalendarUnit = "DAY" | "WEEK" | "MONTH" | "YEAR";
+
+/**
+ * Schedule frequency resolved from frequency_type
+ * Meter frequencies are measured on the unit's odometer or hour meter readings
+ */
+export type PmFrequency =
+  | { kind: "CALENDAR", unit: PmCalendarUnit, interval: number }
+  | { kind: "METER", meterType: EquipmentMeterType, interval: number };
+
+export interface PmNextDue {
+  next_due_date: Date;
+  next_due_reading: number | null;
+  performed_reading: number | null
+}
+
+export interface PmRollForwardResult {
+  completed_pm_event_id: number;
+  next_event: {
+    pm_event_id: number,
+    pm_schedule_id: number,
+    equipment_id: number,
+    next_due_date: Date,
+    next_due_reading: number | null,
+    status: string
+  } | null;
+  equipment_pm_dates: {
+    last_pm_date: Date | null,
+    next_pm_due: Date | null
+  }
+}
+
+export interface PmPartUsedDto {
+  part_name: string;
+  part_quantity: number;
+  part_cost?: number | null
+}
+
+export interface PmEventCreateDto {
+  equipment_id?: number;
+  status?: string;
+  performed_date?: string;
+  next_due_date?: string;
+  performed_reading?: number | null;
+  work_performed?: string | null;
+  location?: string | null;
+  vendor_technician?: string | null;
+  time_taken?: number | null;
+  warranty_status?: string | null;
+  after_hours?: boolean;
+  notes?: string | null;
+  pm_parts_used?: PmPartUsedDto[];
+  created_by?: number | null
+}
+
+export type PmEventUpdateDto = Omit<PmEventCreateDto, "equipment_id" | "created_by"> & {
+  updated_by?: number | null
+};
+
+export interface PmEventResponseDto {
+  pm_event_id: number;
+  pm_schedule_id: number;
+  equipment_id: number;
+  account_id: number;
+  status: string;
+  performed_date: Date | null;
+  next_due_date: Date;
+  performed_reading: number | null;
+  next_due_reading: number | null;
+  work_performed: string | null;
+  location: string | null;
+  vendor_technician: string | null;
+  time_taken: number | null;
+  warranty_status: string | null;
+  after_hours: boolean | null;
+  notes: string | null;
+  pm_parts_used: {
+    pm_parts_id: number,
+    part_name: string,
+    part_quantity: number,
+    part_cost: number | null
+  }[];
+  total_parts_cost: number;
+  schedule_roll_forward: PmRollForwardResult | null
+}
+
+export interface DotViolationInputDto {
+  violation_code: string;
+  description: string;
+  severity_level: string;
+  is_out_of_service?: boolean;
+  corrective_action_taken?: string | null;
+  corrective_action_date?: string | null
+}
+
+export interface DotInspectionCreateDto {
+  equipment_id: number;
+  schedule_agreement_id?: number;
+  inspection_date: string;
+  inspector_name: string;
+  inspection_result: string;
+  type?: string;
+  notes?: string | null;
+  compliance?: string | null;
+  valid_through?: string;
+  next_inspection_due?: string;
+  violations?: DotViolationInputDto[];
+  created_by?: number | null
+}
+
+export interface DotCorrectiveActionDto {
+  corrective_action_taken: string;
+  corrective_action_date?: string;
+  updated_by?: number | null
+}
+
+export interface EquipmentDotStatus {
+  dot_cvi_status: string | null;
+  dot_cvi_expire: Date | null
+}
+
+export type MaintenanceReminderType = "PM" | "DOT";
+
+export interface MaintenanceReminderItem {
+  reminder_type: MaintenanceReminderType;
+  source_id: number;
+  account_id: number;
+  equipment_id: number;
+  unit_number: string | null;
+  description: string;
+  due_date: Date;
+  days_until_due: number;
+  window_days: number
+}
+
+export interface MaintenanceReminderRunResult {
+  reminders_due: number;
+  emails_sent: number;
+  reminders_sent: number;
+  failed_recipients: number
+}
+
+export interface MaintenanceReminderSubscriptionDto {
+  digest?: boolean
+}
@@ -59,3 +59,88 @@ export interface CreateServiceRequestInput {
   location_notes?: NullableString;
   po_reference_number?: NullableString
 }
+
+export type ServiceRequestStatus =
+  | "submitted"
+  | "acknowledged"
+  | "dispatched"
+  | "inprogress"
+  | "completed"
+  | "cancelled";
+
+export interface UpdateServiceRequestStatusInput {
+  status: string;
+  notes?: NullableString;
+  updated_by?: IdType
+}
+
+export interface ServiceRequestStatusHistoryItem {
+  service_request_status_history_id: number;
+  from_status: NullableString;
+  to_status: string;
+  notes: NullableString;
+  changed_by: number | null;
+  changed_by_name: NullableString;
+  changed_at: Date
+}
+
+// Fields a customer may amend until a work order is opened
+export interface UpdateServiceRequestInput {
+  equipment_id?: NullableId;
+  non_ten_unit_number?: NullableString;
+  non_ten_unit_company?: NullableString;
+  non_ten_carrier?: NullableString;
+  non_ten_vin_number?: NullableString;
+  service_urgency_lookup_id?: IdType;
+  service_urgency_type_lookup_id?: NullableId;
+  service_issues_lookup_ids?: number[] | string;
+  issue_description?: NullableString;
+  tire_size_lookup_id?: NullableId;
+  other_type_size?: NullableString;
+  emergency_contact_date?: DateOrString | null;
+  service_type_repairedby_date?: DateOrString | null;
+  service_type_repairedfrom_date?: DateOrString | null;
+  unit_street?: NullableString;
+  unit_city?: NullableString;
+  unit_state?: NullableString;
+  unit_zipcode?: NullableString;
+  location_nick_name?: NullableString;
+  is_gps_location?: BooleanOrString;
+  latitude?: DecimalOrStringOrNumber;
+  longititude?: DecimalOrStringOrNumber;
+  address?: NullableString;
+  location_notes?: NullableString;
+  facility_lookup_id?: NullableId;
+  is_request_pickup?: BooleanOrString;
+  is_loaded?: BooleanOrString;
+  is_hazardous?: BooleanOrString;
+  is_driver_available?: BooleanOrString;
+  driver_name?: NullableString;
+  driver_phone_nuber?: NullableString;
+  primary_contact_name?: string;
+  primary_contact_method?: Prisma.JsonValue;
+  primary__contact_phonenumber?: string;
+  primary_contact_email?: string;
+  secondary_contact_name?: NullableString;
+  secondary_contact_method?: Prisma.JsonValue;
+  secondary__contact_phonenumber?: NullableString;
+  secondary_contact_email?: NullableString;
+  po_reference_number?: NullableString;
+  updated_by?: IdType
+}
+
+export interface CancelServiceRequestInput {
+  reason: string;
+  updated_by?: IdType
+}
+
+export interface ServiceRequestAuditItem {
+  service_request_audit_id: number;
+  action: string;
+  field_name: string;
+  old_value: NullableString;
+  new_value: NullableString;
+  changed_by: number | null;
+  changed_by_name: NullableString;
+  changed_at: Date
+}
@@ -0,0 +1,134 @@
+/**
+ * A raw vendor message as posted to the ingest API
+ * Field names vary by vendor; normalization maps them onto TelematicsReading
+ */
+export type TelematicsVendorMessage = Record<string, unknown>;
+
+export interface TelematicsIngestRequestDto {
+  vendor_id?: number | string;
+  vendor_name?: string;
+  evaluate_alerts?: boolean;
+  messages: TelematicsVendorMessage[]
+}
+
+/**
+ * Canonical reading stored in the latest-state row and the history store
+ */
+export interface TelematicsReading {
+  vendor_message_id: string;
+  unit_number: string;
+  vendor_timestamp: Date;
+  latitude: number | null;
+  longitude: number | null;
+  heading: string | null;
+  speed: number | null;
+  temperature: number | null;
+  gps_battery: string | null;
+  motion_status: string | null;
+  address: string | null;
+  odometer: string | null;
+  mileage: string | null;
+  engine_hours: string | null;
+  vin_trailer_serial: string | null;
+  vendor_gps_id: string | null;
+  vendor_gps_owner: string | null;
+  vendore_status: string | null;
+  additional_sensors: string | null
+}
+
+export type TelematicsIngestMessageStatus = "accepted" | "duplicate" | "rejected";
+
+export interface TelematicsIngestMessageResultDto {
+  index: number;
+  vendor_message_id: string | null;
+  unit_number: string | null;
+  status: TelematicsIngestMessageStatus;
+  reason?: string
+}
+
+export interface TelematicsIngestResultDto {
+  vendor_id: number;
+  vendor_name: string;
+  adapter: string;
+  received: number;
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  latest_state_updated: number;
+  meter_readings_recorded: number;
+  load_events_recorded: number;
+  results: TelematicsIngestMessageResultDto[];
+  alert_firings?: number
+}
+
+/**
+ * Canonical units every adapter converts into before storage
+ */
+export type TelematicsCanonicalUnit = "MPH" | "F" | "MI" | "HRS" | "V" | "PSI";
+
+export interface TelematicsUnitRef {
+  uom_type: TelematicsCanonicalUnit;
+  uom_lookup_id: number | null
+}
+
+export interface ReeferZoneReading {
+  zone: string;
+  temperature: number | null;
+  setpoint: number | null
+}
+
+export interface DoorSensorReading {
+  door: string;
+  is_open: boolean
+}
+
+export interface TirePressureReading {
+  position: string;
+  pressure: number
+}
+
+export type TelematicsMeasuredField =
+  | "speed"
+  | "temperature"
+  | "odometer"
+  | "mileage"
+  | "engine_hours"
+  | "battery_voltage"
+  | "reefer_temperature"
+  | "tire_pressure";
+
+/**
+ * Typed reading produced by a vendor adapter
+ * Numeric values are already converted to the canonical unit named in units
+ */
+export interface CanonicalTelematicsReading {
+  vendor_message_id: string;
+  unit_number: string;
+  vendor_timestamp: Date;
+  latitude: number | null;
+  longitude: number | null;
+  // Degrees; compass points are converted and other text leaves it null
+  heading: number | null;
+  speed: number | null;
+  temperature: number | null;
+  odometer: number | null;
+  mileage: number | null;
+  engine_hours: number | null;
+  // Volts; percentages and other text leave it null
+  battery_voltage: number | null;
+  // Vendor text for heading and battery as sent, e.g. "NE" or "85%"
+  raw_heading: string | null;
+  raw_battery: string | null;
+  motion_status: string | null;
+  address: string | null;
+  vin_trailer_serial: string | null;
+  vendor_gps_id: string | null;
+  vendor_gps_owner: string | null;
+  vendor_status: string | null;
+  reefer_zones: ReeferZoneReading[];
+  doors: DoorSensorReading[];
+  tire_pressures: TirePressureReading[];
+  // Cargo sensor state: true when loaded, false when empty, null when not reported
+  cargo_loaded: boolean | null;
+  units: Partial<Record<TelematicsMeasuredField, TelematicsUnitRef>>
+}
@@ -96,3 +96,7 @@ export interface FetchEquipmentByAccountsEventsDto {
   customer_id: number;
   event_cat_id: number;
 }
+
+export interface EvaluateTelematicsAlertsDto {
+  unit_numbers: string[]
+}
@@ -1,3 +1,5 @@
+import { AlertNotificationDeliveryDto } from "./alert-notification.dto";
+
 export interface TelematicsAlertResponseDto {
   telematic_alert_id: number;
   customer_id: number;
@@ -66,3 +68,25 @@ export interface EquipmentResponseDto {
   description: string;
   status?: string | null;
 }
+
+export type TelematicsAlertMetric = "temperature" | "speed" | "battery" | "motion";
+
+export interface TelematicsAlertFiringDto {
+  telematic_alert_id: number;
+  alert_name: string | null;
+  alert_type_id: number;
+  alert_category_id: number | null;
+  metric: TelematicsAlertMetric;
+  reading_value: number | string | null;
+  equipment_id: number;
+  unit_number: string;
+  event_time: Date;
+  activity_feed_id: number;
+  notifications: AlertNotificationDeliveryDto[]
+}
+
+export interface TelematicsAlertEvaluationResultDto {
+  evaluated: number;
+  skipped: { unit_number: string, reason: string }[];
+  firings: TelematicsAlertFiringDto[]
+}
@@ -0,0 +1,76 @@
+export interface UtilizationQueryDto {
+  account_ids?: string;
+  from?: string;
+  to?: string;
+  idle_days?: string;
+  limit?: string
+}
+
+/**
+ * One unit-day of history aggregated from the secondary telematics table
+ * Odometer and engine hours are the min/max readings reported that day
+ */
+export interface TelematicsDailyActivity {
+  unit_number: string;
+  day: string;
+  moved: boolean;
+  min_mileage: number | null;
+  max_mileage: number | null;
+  min_engine_hours: number | null;
+  max_engine_hours: number | null
+}
+
+export interface UnitUtilizationDto {
+  equipment_id: number;
+  unit_number: string;
+  account_id: number;
+  account_number: string | null;
+  account_name: string | null;
+  days_in_range: number;
+  days_reported: number;
+  days_moved: number;
+  percent_days_moved: number;
+  total_miles: number;
+  loaded_miles: number;
+  empty_miles: number;
+  engine_hours: number;
+  longest_idle_streak_days: number;
+  current_idle_streak_days: number;
+  site_visits: number;
+  avg_dwell_hours: number | null;
+  return_candidate: boolean
+}
+
+export interface AccountUtilizationDto {
+  account_id: number;
+  account_number: string | null;
+  account_name: string | null;
+  unit_count: number;
+  avg_percent_days_moved: number;
+  total_miles: number;
+  loaded_miles: number;
+  empty_miles: number;
+  loaded_mile_percent: number;
+  site_visits: number;
+  avg_dwell_hours: number | null;
+  return_candidate_count: number
+}
+
+export interface UtilizationSummaryDto {
+  from: string;
+  to: string;
+  days_in_range: number;
+  idle_days_threshold: number;
+  unit_count: number;
+  avg_percent_days_moved: number;
+  total_miles: number;
+  loaded_miles: number;
+  empty_miles: number;
+  return_candidate_count: number
+}
+
+export interface UtilizationReportDto {
+  summary: UtilizationSummaryDto;
+  accounts: AccountUtilizationDto[];
+  units: UnitUtilizationDto[]
+}
@@ -0,0 +1,35 @@
+export type WebhookDeliveryStatus =
+  | "PENDING"
+  | "SENDING"
+  | "DELIVERED"
+  | "FAILED"
+  | "DEAD_LETTER";
+
+export interface WebhookDeliveryQueryDto {
+  status?: string;
+  event_type?: string;
+  telematic_alert_id?: number | string;
+  created_from?: string;
+  created_to?: string;
+  page?: number | string;
+  perPage?: number | string;
+  sort?: string
+}
+
+export interface WebhookDeliveryResponseDto {
+  webhook_delivery_id: number;
+  customer_id: number;
+  telematic_alert_id: number | null;
+  alert_name: string | null;
+  event_type: string;
+  payload: unknown;
+  status: string;
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: Date | null;
+  last_attempt_at: Date | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date
+}
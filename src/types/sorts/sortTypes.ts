@@ -155,91 +155,69 @@ export const WORKORDER_SORT_FIELDS: SortFieldMap = {
   account_id: { service_request: { account_id: "account_id" } },
 };
 
+// Columns of the fleet_list_view database view
 export const FLEET_LIST_VIEW_SORT_FIELDS: SortFieldMap = {
-  equipment_id: { equipment_ref: { equipment_id: "equipment_id" } },
+  equipment_id: "equipment_id",
   activationDate: "activation_date",
   deactivationDate: "deactivation_date",
-  driver_name: "_inMemoryDriverNameSort",
-  unitNumber: { equipment_ref: { unit_number: "unit_number" } },
-  customerUnitNumber: {
-    equipment_ref: { customer_unit_number: "customer_unit_number" },
-  },
-  status: { equipment_ref: { status: "status" } },
-  vin: { equipment_ref: { vin: "vin" } },
-  make: { equipment_ref: { oem_make_model_ref: { make: "make" } } },
-  model: { equipment_ref: { oem_make_model_ref: { model: "model" } } },
-  year: { equipment_ref: { oem_make_model_ref: { year: "year" } } },
-  length: { equipment_ref: { length: "length" } },
-  doorType: { equipment_ref: { door_type: "doorType" } },
-  wallType: { equipment_ref: { wall_type: "wallType" } },
-  breakType: { equipment_ref: { brake_type: "brake_type" } },
-  color: { equipment_ref: { color: "color" } },
-  liftGate: { equipment_ref: { liftgate: "liftgate" } },
-  domicile: { equipment_ref: { domicile: "domicile" } },
-  tenBranch: { equipment_ref: { ten_branch: "ten_branch" } },
-  lastPmDate: { equipment_ref: { last_pm_date: "last_pm_date" } },
-  nextPmDue: { equipment_ref: { next_pm_due: "next_pm_due" } },
-  dotCviStatus: { equipment_ref: { dot_cvi_status: "dot_cvi_status" } },
-  dotCviExpire: "_inMemoryDotCviExpireSort", // from dot_inspection relation
-  lastReeferPmDate: {
-    equipment_ref: { last_reefer_pm_date: "last_reefer_pm_date" },
-  },
-  nextReeferPmDue: {
-    equipment_ref: { next_reefer_pm_due: "next_reefer_pm_due" },
-  },
-  lastMrDate: { equipment_ref: { last_mr_date: "last_mr_date" } },
-  reeferMakeType: { equipment_ref: { reefer_make_type: "reefer_make_type" } },
-  reeferSerial: { equipment_ref: { reefer_serial: "reefer_serial" } },
-  liftGateSerial: { equipment_ref: { liftgate_serial: "liftgate_serial" } },
-  trailerHeight: { equipment_ref: { trailer_height: "trailer_height" } },
-  trailerWidth: { equipment_ref: { trailer_width: "trailer_width" } },
-  trailerLength: { equipment_ref: { trailer_length: "trailer_length" } },
-  dateInService: { equipment_ref: { date_in_service: "date_in_service" } },
-  tireSize: { equipment_ref: { tire_size: "tire_size" } },
-  floorType: { equipment_ref: { floor_type: "floorType" } },
-  roofType: { equipment_ref: { roof_type: "roofType" } },
-  rimType: { equipment_ref: { rim_type: "rimType" } },
-  vendorName: "_inMemoryVendorNameSort", // nested vendor
-  equipmentType: {
-    equipment_ref: {
-      equipment_type_lookup_ref: { equipment_type: "equipment_type" },
-    },
-  },
-  accountNumber: {
-    equipment_type_allocation_ref: {
-      account: { account_number: "account_number" },
-    },
-  },
-  accountName: {
-    equipment_type_allocation_ref: {
-      account: { account_name: "account_name" },
-    },
-  },
-  contractStartDate: "_inMemoryContractStartDateSort", // from masterAgreement
-  contractEndDate: "_inMemoryContractEndDateSort", // from schedule
-  contractTermType: "_inMemoryContractTermTypeSort",
-  agreementType: "_inMemoryAgreementTypeSort",
-  licensePlateNumber: {
-    equipment_ref: {
-      equipment_permit: { license_plate_number: "license_plate_number" },
-    },
-  },
-  licensePlateState: {
-    equipment_ref: {
-      equipment_permit: { license_plate_state: "license_plate_state" },
-    },
-  },
-  url: "_inMemoryUrlSort",
-  mimeType: "_inMemoryMimeTypeSort",
-  equipmentLoadStatus: "_inMemoryEquipmentLoadStatusSort", // load status is nested
-  equipmentLoadDate: "_inMemoryEquipmentLoadDateSort",
-  equipmentUnloadDate: "_inMemoryEquipmentUnloadDateSort",
-  arrivalTime: "_inMemoryArrivalTimeSort", // derived from last_gps_update
-  motionStatus: "_inMemoryMotionStatusSort", // GPS relation
-  alarmCodeStatus: "_inMemoryAlarmCodeStatusSort", // derived
-  latitude: "_inMemoryLatitudeSort",
-  longitude: "_inMemoryLongitudeSort",
-  lastGpsUpdate: "_inMemoryLastGpsUpdateSort",
+  driver_name: "unit_number", // displayed as "Driver <unit number>"
+  unitNumber: "unit_number",
+  telematicDeviceId: "telematic_device_id",
+  customerUnitNumber: "customer_unit_number",
+  status: "status",
+  vin: "vin",
+  make: "make",
+  model: "model",
+  year: "year",
+  length: "length",
+  doorType: "door_type",
+  wallType: "wall_type",
+  breakType: "brake_type",
+  color: "color",
+  liftGate: "liftgate",
+  domicile: "domicile",
+  tenBranch: "ten_branch",
+  lastPmDate: "last_pm_date",
+  nextPmDue: "next_pm_due",
+  dotCviStatus: "dot_cvi_status",
+  dotCviExpire: "dot_cvi_expire", // latest dot_inspection due date
+  lastReeferPmDate: "last_reefer_pm_date",
+  nextReeferPmDue: "next_reefer_pm_due",
+  lastMrDate: "last_m_and_r_date",
+  reeferMakeType: "reefer_make_type",
+  reeferSerial: "reefer_serial",
+  liftGateSerial: "lifgate_serial",
+  trailerHeight: "trailer_height",
+  trailerWidth: "trailer_width",
+  trailerLength: "trailer_length",
+  dateInService: "date_in_service",
+  tireSize: "tire_size",
+  floorType: "floor_type",
+  roofType: "roof_type",
+  rimType: "rim_type",
+  vendorName: "vendor_name",
+  equipmentType: "equipment_type",
+  accountNumber: "account_number",
+  accountName: "account_name",
+  contractStartDate: "contract_start_date", // from masterAgreement
+  contractEndDate: "contract_end_date", // from schedule
+  contractTermType: "contract_term_type",
+  agreementType: "agreement_type",
+  licensePlateNumber: "license_plate_number",
+  licensePlateState: "license_plate_state",
+  url: "attachment_url",
+  mimeType: "attachment_mime_type",
+  equipmentLoadStatus: "equipment_load_status", // latest load detail
+  equipmentLoadDate: "equipment_load_date",
+  equipmentUnloadDate: "equipment_unload_date",
+  loadState: "is_loaded",
+  arrivalTime: "arrival_time", // time of day of last_gps_update
+  motionStatus: "motion_status",
+  alarmCodeStatus: "alarm_code_status",
+  location: "address",
+  latitude: "latitude",
+  longitude: "longitude",
+  lastGpsUpdate: "last_gps_update",
 };
 
 // Sorting map for ers
@@ -321,6 +299,8 @@ export const SERVICE_REQUEST_SORT_FIELDS: SortFieldMap = {
   unit_street: "unit_street",
   unit_city: "unit_city",
   unit_state: "unit_state",
+  status: "service_request_status",
+  status_updated_at: "status_updated_at",
 
   // Computed/derived fields that need in-memory sorting
   trailer: { _inMemoryTrailerSort: "asc" },
@@ -474,3 +454,31 @@ export const PAYMENT_SORT_FIELDS: SortFieldMap = {
   AmountPaid: "paymentAmount", // AmountPaid also maps to paymentAmount field
   DueBalance: "paymentAmount",
 };
+
+export const WEBHOOK_DELIVERY_SORT_FIELDS: SortFieldMap = {
+  webhook_delivery_id: "webhook_delivery_id",
+  event_type: "event_type",
+  status: "status",
+  attempt_count: "attempt_count",
+  next_attempt_at: "next_attempt_at",
+  last_attempt_at: "last_attempt_at",
+  delivered_at: "delivered_at",
+  created_at: "created_at",
+  alert_name: { telematic_alert: { alert_name: "alert_name" } },
+};
+
+export const EQUIPMENT_READING_SORT_FIELDS: SortFieldMap = {
+  equipment_reading_id: "equipment_reading_id",
+  equipment_reading: "equipment_reading",
+  meter_type: "meter_type",
+  reading_type: "reading_type",
+  reading_date: "reading_date",
+  created_at: "created_at",
+};
+
+export const EQUIPMENT_LOAD_SORT_FIELDS: SortFieldMap = {
+  equipment_load_detail_id: "equipment_load_detail_id",
+  equipment_load_date: "equipment_load_date",
+  equipment_unload_date: "equipment_unload_date",
+  equipment_load_status: "equipment_load_status",
+};
@@ -0,0 +1,20 @@
+import type { Request } from "express";
+import prisma from "../config/database.config";
+
+/**
+ * Resolves the acting user from the Auth0 subject on the verified access token
+ * Use this for audit columns instead of ids sent in the request body
+ *
+ * @param req - Express request after jwtCheck
+ * @returns user_id of the caller, or undefined when there is no token or matching user
+ * @author chaitanya
+ */
+export const getAuthUserId = async (req: Request): Promise<number | undefined> => {
+  const sub = req.auth?.payload?.sub;
+  if (!sub) return undefined;
+  const user = await prisma.user.findUnique({
+    where: { auth_0_reference_id: sub },
+    select: { user_id: true },
+  });
+  return user?.user_id;
+};
@@ -0,0 +1,16 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Filter for the equipment assignment in force at a point in time
+ * Past and future lessees are excluded so they cannot see the unit's current data
+ *
+ * @param at - Point in time, defaults to now
+ * @returns equipment_assignment where clause
+ * @author chaitanya
+ */
+export const activeEquipmentAssignmentWhere = (
+  at = new Date()
+): Prisma.equipment_assignmentWhereInput => ({
+  activation_date: { lte: at },
+  deactivation_date: { gt: at },
+});
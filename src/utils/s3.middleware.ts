@@ -1,6 +1,6 @@
 import multer from "multer";
 // eslint-disable-next-line n/no-extraneous-import
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
 import { Request, Response, NextFunction } from "express";
 
 // Environment variable validation
@@ -92,11 +92,22 @@ export const uploadFileToS3 = async (file: Express.Multer.File) => {
   const url = `https://${S3_BUCKET_NAME}.s3.${AWS_REGION}.amazonaws.com/${key}`;
 
   return {
+    key,
     url,
     document_category_type: getDocumentCategoryType(file.mimetype),
   };
 };
 
+// Removes an uploaded object, e.g. when the record referencing it could not be saved
+export const deleteFileFromS3 = async (key: string) => {
+  await s3.send(
+    new DeleteObjectCommand({
+      Bucket: S3_BUCKET_NAME,
+      Key: key,
+    })
+  );
+};
+
 export const uploadServiceRequestFileToS3 = async (
   file: Express.Multer.File,
   customerName: string
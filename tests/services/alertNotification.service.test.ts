@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => ({
+  telematic_alert: { findUnique: vi.fn() },
+  delivery_method_lookup: { findMany: vi.fn() },
+  alert_templates: { findMany: vi.fn() },
+  alert_type_lookup: { findUnique: vi.fn() },
+  user: { findMany: vi.fn() },
+}));
+
+vi.mock("../../src/config/database.config", () => ({ default: prismaMock }));
+vi.mock("../../src/services/webhookDelivery.service", () => ({
+  enqueueWebhookDelivery: vi.fn(),
+}));
+
+import {
+  AlertNotificationDispatcher,
+  InMemoryEmailChannel,
+  InMemorySmsProvider,
+  InMemoryWebhookChannel,
+  createAlertNotificationChannels,
+  renderAlertTemplate,
+} from "../../src/services/alertNotification.service";
+
+const event = {
+  telematic_alert_id: 7,
+  alert_type_id: 3,
+  equipment_id: 42,
+  unit_number: "TR-100",
+  account_id: 5,
+  customer_id: 9,
+  latitude: 41.5,
+  longitude: -87.6,
+  event_time: "2026-01-15T10:00:00.000Z",
+  reading_value: 82,
+};
+
+const createChannels = () => ({
+  email: new InMemoryEmailChannel(),
+  sms: new InMemorySmsProvider(),
+  webhook: new InMemoryWebhookChannel(),
+});
+
+describe("renderAlertTemplate", () => {
+  it("fills placeholders and renders unknown keys empty", () => {
+    expect(
+      renderAlertTemplate("{{ alert_name }} on {{unit_number}}{{missing}}", {
+        alert_name: "Overheat",
+        unit_number: "TR-100",
+      })
+    ).toBe("Overheat on TR-100");
+  });
+});
+
+describe("createAlertNotificationChannels", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps every channel in memory when NOTIFICATION_TRANSPORT=memory", () => {
+    vi.stubEnv("NOTIFICATION_TRANSPORT", "memory");
+    const channels = createAlertNotificationChannels();
+    expect(channels.email).toBeInstanceOf(InMemoryEmailChannel);
+    expect(channels.sms).toBeInstanceOf(InMemorySmsProvider);
+    expect(channels.webhook).toBeInstanceOf(InMemoryWebhookChannel);
+  });
+});
+
+describe("AlertNotificationDispatcher", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    prismaMock.telematic_alert.findUnique.mockResolvedValue({
+      telematic_alert_id: 7,
+      alert_name: "Reefer temperature",
+      webhook: false,
+      created_by: 1,
+      delivery_methods: [1, 2],
+      recipients_email: ["ops@example.com"],
+      recipients_mobile: ["+15550001"],
+      recipients_user_ids: [11],
+      emailRecipientsObj: [{ email: "ops@example.com" }, "fleet@example.com"],
+      textRecipientsObj: [],
+    });
+    prismaMock.delivery_method_lookup.findMany.mockResolvedValue([
+      { delivery_id: 1, method_type: "Email" },
+      { delivery_id: 2, method_type: "SMS" },
+    ]);
+    prismaMock.alert_templates.findMany.mockResolvedValue([
+      { delivery_id: "1", subject_template: "{{alert_name}}: {{unit_number}}", body_template: "Reading {{reading_value}}" },
+    ]);
+    prismaMock.alert_type_lookup.findUnique.mockResolvedValue({ event_name: "Temperature" });
+    prismaMock.user.findMany.mockResolvedValue([{ email: "driver@example.com", phone_number: "+15550002" }]);
+  });
+
+  it("renders the channel template and sends to every resolved recipient", async () => {
+    const channels = createChannels();
+    const result = await new AlertNotificationDispatcher(channels).dispatch(event);
+
+    expect(channels.email.sent).toEqual([
+      {
+        to: ["ops@example.com", "fleet@example.com", "driver@example.com"],
+        subject: "Reefer temperature: TR-100",
+        body: "Reading 82",
+        alertName: "Reefer temperature",
+      },
+    ]);
+    expect(channels.sms.sent.map((message) => message.to)).toEqual(["+15550001", "+15550002"]);
+    expect(channels.sms.sent[0].body).toContain("Temperature triggered for unit TR-100");
+    expect(channels.webhook.sent).toHaveLength(0);
+    expect(result.deliveries.map((d) => [d.channel, d.status])).toEqual([
+      ["email", "SENT"],
+      ["sms", "SENT"],
+      ["sms", "SENT"],
+    ]);
+  });
+
+  it("reports a failing channel without stopping the others", async () => {
+    const channels = createChannels();
+    vi.spyOn(channels.email, "send").mockRejectedValue(new Error("SendGrid unavailable"));
+
+    const result = await new AlertNotificationDispatcher(channels).dispatch(event);
+
+    expect(result.deliveries).toEqual([
+      expect.objectContaining({ channel: "email", status: "FAILED", error: "SendGrid unavailable" }),
+      expect.objectContaining({ channel: "sms", recipients: ["+15550001"], status: "SENT" }),
+      expect.objectContaining({ channel: "sms", recipients: ["+15550002"], status: "SENT" }),
+    ]);
+    expect(channels.sms.sent).toHaveLength(2);
+  });
+
+  it("reports each SMS recipient separately when one number fails", async () => {
+    const channels = createChannels();
+    const sendSms = channels.sms.sendSms.bind(channels.sms);
+    vi.spyOn(channels.sms, "sendSms").mockImplementation((message) =>
+      message.to === "+15550001" ? Promise.reject(new Error("Invalid number")) : sendSms(message)
+    );
+
+    const result = await new AlertNotificationDispatcher(channels).dispatch(event);
+
+    expect(result.deliveries.filter((d) => d.channel === "sms")).toEqual([
+      expect.objectContaining({ recipients: ["+15550001"], status: "FAILED", error: "Invalid number" }),
+      expect.objectContaining({ recipients: ["+15550002"], status: "SENT" }),
+    ]);
+    expect(channels.sms.sent.map((message) => message.to)).toEqual(["+15550002"]);
+  });
+
+  it("returns no deliveries when the alert no longer exists", async () => {
+    prismaMock.telematic_alert.findUnique.mockResolvedValue(null);
+    const channels = createChannels();
+
+    const result = await new AlertNotificationDispatcher(channels).dispatch(event);
+
+    expect(result).toEqual({ telematic_alert_id: 7, deliveries: [] });
+    expect(channels.email.sent).toHaveLength(0);
+  });
+});